@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Payslips are drawn with DejaVu Sans, read from disk at runtime
+  outputFileTracingIncludes: {
+    "/api/salaries/[id]/payslip": ["./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans{,-Bold}.ttf"],
+  },
 };
 
 export default nextConfig;
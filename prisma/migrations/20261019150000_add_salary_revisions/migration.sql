@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "SalaryRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "salaryId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "baseSalary" REAL NOT NULL,
+    "bonus" REAL NOT NULL,
+    "deductions" REAL NOT NULL,
+    "totalSalary" REAL NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SalaryRevision_salaryId_fkey" FOREIGN KEY ("salaryId") REFERENCES "Salary" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SalaryRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Salary" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "baseSalary" REAL NOT NULL,
+    "bonus" REAL NOT NULL DEFAULT 0,
+    "deductions" REAL NOT NULL DEFAULT 0,
+    "totalSalary" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "finalizedAt" DATETIME,
+    "finalizedById" TEXT,
+    "reopenedAt" DATETIME,
+    "reopenedById" TEXT,
+    "reopenReason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Salary_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Salary_finalizedById_fkey" FOREIGN KEY ("finalizedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Salary_reopenedById_fkey" FOREIGN KEY ("reopenedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Salary" ("baseSalary", "bonus", "createdAt", "deductions", "employeeId", "id", "month", "totalSalary", "updatedAt", "year") SELECT "baseSalary", "bonus", "createdAt", "deductions", "employeeId", "id", "month", "totalSalary", "updatedAt", "year" FROM "Salary";
+DROP TABLE "Salary";
+ALTER TABLE "new_Salary" RENAME TO "Salary";
+CREATE UNIQUE INDEX "Salary_employeeId_month_year_key" ON "Salary"("employeeId", "month", "year");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryRevision_salaryId_revision_key" ON "SalaryRevision"("salaryId", "revision");
+
+-- Backfill: existing months start their history with their current figures
+INSERT INTO "SalaryRevision" ("id", "salaryId", "revision", "baseSalary", "bonus", "deductions", "totalSalary", "reason", "createdAt")
+SELECT lower(hex(randomblob(12))), "id", 1, "baseSalary", "bonus", "deductions", "totalSalary", 'Recorded before revision tracking', "updatedAt" FROM "Salary";
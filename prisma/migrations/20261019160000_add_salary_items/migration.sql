@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "SalaryRevision" ADD COLUMN "items" TEXT;
+
+-- CreateTable
+CREATE TABLE "SalaryItemType" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "taxable" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SalaryItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "salaryId" TEXT NOT NULL,
+    "typeId" TEXT,
+    "kind" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "taxable" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SalaryItem_salaryId_fkey" FOREIGN KEY ("salaryId") REFERENCES "Salary" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SalaryItem_typeId_fkey" FOREIGN KEY ("typeId") REFERENCES "SalaryItemType" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryItemType_name_key" ON "SalaryItemType"("name");
+
+-- Backfill: carry the old single bonus/deductions figures over as one line each
+INSERT INTO "SalaryItem" ("id", "salaryId", "kind", "label", "amount", "taxable")
+SELECT lower(hex(randomblob(12))), "id", 'BONUS', 'Bonus', "bonus", false FROM "Salary" WHERE "bonus" <> 0;
+
+INSERT INTO "SalaryItem" ("id", "salaryId", "kind", "label", "amount", "taxable")
+SELECT lower(hex(randomblob(12))), "id", 'DEDUCTION', 'Deductions', "deductions", false FROM "Salary" WHERE "deductions" <> 0;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "Salary" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "currency" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "effectiveDate" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_currency_effectiveDate_key" ON "ExchangeRate"("currency", "effectiveDate");
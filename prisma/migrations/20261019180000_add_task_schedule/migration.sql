@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "startDate" DATETIME;
+ALTER TABLE "Task" ADD COLUMN "dueDate" DATETIME;
+ALTER TABLE "Task" ADD COLUMN "estimateHours" REAL;
+
+-- CreateIndex
+CREATE INDEX "Task_dueDate_idx" ON "Task"("dueDate");
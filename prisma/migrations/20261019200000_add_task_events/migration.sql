@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TaskEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "taskId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "type" TEXT NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskEvent_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaskEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_taskId_createdAt_idx" ON "TaskEvent"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_type_createdAt_idx" ON "TaskEvent"("type", "createdAt");
+
+-- Existing tasks start their history in their current status
+INSERT INTO "TaskEvent" ("id", "taskId", "type", "toValue", "createdAt")
+SELECT lower(hex(randomblob(12))), "id", 'CREATED', "status", "createdAt" FROM "Task";
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "position" REAL NOT NULL DEFAULT 0;
+
+-- Existing tasks keep their creation order within each column
+UPDATE "Task" SET "position" = 1024 * (
+    SELECT COUNT(*) FROM "Task" AS "earlier"
+    WHERE "earlier"."status" = "Task"."status" AND "earlier"."createdAt" < "Task"."createdAt"
+);
+
+-- CreateIndex
+CREATE INDEX "Task_status_position_idx" ON "Task"("status", "position");
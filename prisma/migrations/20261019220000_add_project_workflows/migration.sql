@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "WorkflowStatus" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WorkflowStatus_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_WorkflowTransitions" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_WorkflowTransitions_A_fkey" FOREIGN KEY ("A") REFERENCES "WorkflowStatus" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_WorkflowTransitions_B_fkey" FOREIGN KEY ("B") REFERENCES "WorkflowStatus" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "status" TEXT NOT NULL DEFAULT 'TODO',
+    "workflowStatusId" TEXT,
+    "projectId" TEXT NOT NULL,
+    "assignedToId" TEXT,
+    "startDate" DATETIME,
+    "dueDate" DATETIME,
+    "estimateHours" REAL,
+    "position" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Task_workflowStatusId_fkey" FOREIGN KEY ("workflowStatusId") REFERENCES "WorkflowStatus" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Task_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "Employee" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Task" ("assignedToId", "createdAt", "description", "dueDate", "estimateHours", "id", "position", "priority", "projectId", "startDate", "status", "title", "updatedAt") SELECT "assignedToId", "createdAt", "description", "dueDate", "estimateHours", "id", "position", "priority", "projectId", "startDate", "status", "title", "updatedAt" FROM "Task";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE INDEX "Task_dueDate_idx" ON "Task"("dueDate");
+CREATE INDEX "Task_status_position_idx" ON "Task"("status", "position");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "WorkflowStatus_projectId_order_idx" ON "WorkflowStatus"("projectId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStatus_projectId_name_key" ON "WorkflowStatus"("projectId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_WorkflowTransitions_AB_unique" ON "_WorkflowTransitions"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_WorkflowTransitions_B_index" ON "_WorkflowTransitions"("B");
+
+-- Backfill: every existing project gets the default workflow
+INSERT INTO "WorkflowStatus" ("id", "projectId", "name", "category", "order", "updatedAt")
+SELECT lower(hex(randomblob(12))), "Project"."id", "defaults"."name", "defaults"."category", "defaults"."order", CURRENT_TIMESTAMP
+FROM "Project"
+CROSS JOIN (
+    SELECT 'To Do' AS "name", 'TODO' AS "category", 0 AS "order"
+    UNION ALL SELECT 'In Progress', 'IN_PROGRESS', 1
+    UNION ALL SELECT 'Review', 'REVIEW', 2
+    UNION ALL SELECT 'Done', 'DONE', 3
+) AS "defaults";
+
+UPDATE "Task" SET "workflowStatusId" = (
+    SELECT "id" FROM "WorkflowStatus"
+    WHERE "WorkflowStatus"."projectId" = "Task"."projectId" AND "WorkflowStatus"."category" = "Task"."status"
+);
+
+-- Status history now refers to workflow statuses rather than categories
+UPDATE "TaskEvent" SET
+    "fromValue" = COALESCE((
+        SELECT "WorkflowStatus"."id" FROM "WorkflowStatus" JOIN "Task" ON "Task"."projectId" = "WorkflowStatus"."projectId"
+        WHERE "Task"."id" = "TaskEvent"."taskId" AND "WorkflowStatus"."category" = "TaskEvent"."fromValue"
+    ), "fromValue"),
+    "toValue" = COALESCE((
+        SELECT "WorkflowStatus"."id" FROM "WorkflowStatus" JOIN "Task" ON "Task"."projectId" = "WorkflowStatus"."projectId"
+        WHERE "Task"."id" = "TaskEvent"."taskId" AND "WorkflowStatus"."category" = "TaskEvent"."toValue"
+    ), "toValue")
+WHERE "type" IN ('CREATED', 'STATUS');
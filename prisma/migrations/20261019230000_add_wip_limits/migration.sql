@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "WorkflowStatus" ADD COLUMN "wipLimit" INTEGER;
+ALTER TABLE "WorkflowStatus" ADD COLUMN "enforceWipLimit" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "LeaveRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "days" INTEGER NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewedAt" DATETIME,
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+    "recordedAt" DATETIME,
+    "recordedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LeaveRequest_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LeaveRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LeaveRequest_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_employeeId_startDate_idx" ON "LeaveRequest"("employeeId", "startDate");
+
+-- Grant the new leave resource to already-seeded system roles (mirrors ROLE_PERMISSIONS)
+INSERT INTO "RolePermission" ("id", "roleId", "resource", "action")
+SELECT lower(hex(randomblob(12))), "Role"."id", 'leave', "defaults"."action"
+FROM "Role"
+JOIN (
+    SELECT 'ADMIN' AS "key", 'create' AS "action"
+    UNION ALL SELECT 'ADMIN', 'read'
+    UNION ALL SELECT 'ADMIN', 'update'
+    UNION ALL SELECT 'ADMIN', 'delete'
+    UNION ALL SELECT 'MANAGER', 'create'
+    UNION ALL SELECT 'MANAGER', 'read'
+    UNION ALL SELECT 'MANAGER', 'update'
+    UNION ALL SELECT 'EMPLOYEE', 'create'
+    UNION ALL SELECT 'EMPLOYEE', 'read'
+) AS "defaults" ON "defaults"."key" = "Role"."key"
+WHERE "Role"."isSystem" = true;
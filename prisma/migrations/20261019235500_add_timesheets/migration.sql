@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Timesheet" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "weekStart" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "submittedAt" DATETIME,
+    "reviewedAt" DATETIME,
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+    "overtimeHours" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Timesheet_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Timesheet_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TimeEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "timesheetId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "hours" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TimeEntry_timesheetId_fkey" FOREIGN KEY ("timesheetId") REFERENCES "Timesheet" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TimeEntry_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Timesheet_status_idx" ON "Timesheet"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Timesheet_employeeId_weekStart_key" ON "Timesheet"("employeeId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_taskId_idx" ON "TimeEntry"("taskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeEntry_timesheetId_taskId_date_key" ON "TimeEntry"("timesheetId", "taskId", "date");
+
+-- Grant the new timesheets resource to already-seeded system roles (mirrors ROLE_PERMISSIONS)
+INSERT INTO "RolePermission" ("id", "roleId", "resource", "action")
+SELECT lower(hex(randomblob(12))), "Role"."id", 'timesheets', "defaults"."action"
+FROM "Role"
+JOIN (
+    SELECT 'ADMIN' AS "key", 'create' AS "action"
+    UNION ALL SELECT 'ADMIN', 'read'
+    UNION ALL SELECT 'ADMIN', 'update'
+    UNION ALL SELECT 'ADMIN', 'delete'
+    UNION ALL SELECT 'MANAGER', 'create'
+    UNION ALL SELECT 'MANAGER', 'read'
+    UNION ALL SELECT 'MANAGER', 'update'
+    UNION ALL SELECT 'EMPLOYEE', 'create'
+    UNION ALL SELECT 'EMPLOYEE', 'read'
+) AS "defaults" ON "defaults"."key" = "Role"."key"
+WHERE "Role"."isSystem" = true;
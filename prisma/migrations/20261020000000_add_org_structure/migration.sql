@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "Department" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Position" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Turn the free-text values into rows, merging values that differ only in case or surrounding spaces
+INSERT INTO "Department" ("id", "name", "updatedAt")
+SELECT lower(hex(randomblob(12))), MIN(trim("department")), CURRENT_TIMESTAMP
+FROM "Employee"
+GROUP BY lower(trim("department"));
+
+INSERT INTO "Position" ("id", "name", "updatedAt")
+SELECT lower(hex(randomblob(12))), MIN(trim("position")), CURRENT_TIMESTAMP
+FROM "Employee"
+GROUP BY lower(trim("position"));
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Employee" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "joinDate" DATETIME NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "managerId" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Employee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Employee_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "Position" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Employee_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Employee_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "Employee" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Employee" ("createdAt", "currency", "departmentId", "id", "joinDate", "positionId", "updatedAt", "userId")
+SELECT "Employee"."createdAt", "Employee"."currency", "Department"."id", "Employee"."id", "Employee"."joinDate", "Position"."id", "Employee"."updatedAt", "Employee"."userId"
+FROM "Employee"
+JOIN "Department" ON lower("Department"."name") = lower(trim("Employee"."department"))
+JOIN "Position" ON lower("Position"."name") = lower(trim("Employee"."position"));
+DROP TABLE "Employee";
+ALTER TABLE "new_Employee" RENAME TO "Employee";
+CREATE UNIQUE INDEX "Employee_userId_key" ON "Employee"("userId");
+CREATE INDEX "Employee_departmentId_idx" ON "Employee"("departmentId");
+CREATE INDEX "Employee_managerId_idx" ON "Employee"("managerId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Department_name_key" ON "Department"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Position_name_key" ON "Position"("name");
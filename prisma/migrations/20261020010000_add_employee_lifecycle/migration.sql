@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'ACTIVE';
+ALTER TABLE "Employee" ADD COLUMN "terminationDate" DATETIME;
+ALTER TABLE "Employee" ADD COLUMN "terminationReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "EmployeeChecklistItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" DATETIME,
+    "completedById" TEXT,
+    "order" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EmployeeChecklistItem_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "EmployeeChecklistItem_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Employee_status_idx" ON "Employee"("status");
+
+-- CreateIndex
+CREATE INDEX "EmployeeChecklistItem_employeeId_kind_order_idx" ON "EmployeeChecklistItem"("employeeId", "kind", "order");
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "phone" TEXT;
+ALTER TABLE "Employee" ADD COLUMN "address" TEXT;
+ALTER TABLE "Employee" ADD COLUMN "dateOfBirth" DATETIME;
+ALTER TABLE "Employee" ADD COLUMN "bankName" TEXT;
+ALTER TABLE "Employee" ADD COLUMN "bankAccountName" TEXT;
+ALTER TABLE "Employee" ADD COLUMN "bankAccountNumber" TEXT;
+ALTER TABLE "Employee" ADD COLUMN "bankRoutingNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "EmergencyContact" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "relationship" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EmergencyContact_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EmploymentContract" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "employeeId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EmploymentContract_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EmergencyContact_employeeId_idx" ON "EmergencyContact"("employeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmploymentContract_employeeId_key" ON "EmploymentContract"("employeeId");
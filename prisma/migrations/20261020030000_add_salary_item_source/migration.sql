@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SalaryItem" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'MANUAL';
+
+-- Flag the lines the system added before the column existed
+UPDATE "SalaryItem" SET "source" = 'UNPAID_LEAVE' WHERE "kind" = 'DEDUCTION' AND "label" LIKE 'Unpaid leave (%';
+UPDATE "SalaryItem" SET "source" = 'OVERTIME' WHERE "kind" = 'BONUS' AND "label" LIKE 'Overtime (%';
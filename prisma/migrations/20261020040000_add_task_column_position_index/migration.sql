@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Task_projectId_workflowStatusId_position_idx" ON "Task"("projectId", "workflowStatusId", "position");
@@ -0,0 +1,72 @@
+import { PrismaClient } from "@prisma/client";
+import { ROLE_PERMISSIONS, ROLES, Role } from "../src/lib/constants/roles";
+
+const prisma = new PrismaClient();
+
+const ROLE_NAMES: Record<Role, string> = {
+  ADMIN: "Administrator",
+  MANAGER: "Manager",
+  EMPLOYEE: "Employee",
+};
+
+/**
+ * Reset the system roles to the built-in default permission matrix.
+ * Custom roles are left untouched so the seed can be re-run safely.
+ */
+async function seedSystemRoles() {
+  for (const key of Object.values(ROLES)) {
+    const role = await prisma.role.upsert({
+      where: { key },
+      update: { name: ROLE_NAMES[key], isSystem: true },
+      create: { key, name: ROLE_NAMES[key], isSystem: true },
+    });
+
+    const permissions = Object.entries(ROLE_PERMISSIONS[key]).flatMap(([resource, actions]) =>
+      actions.map((action) => ({ roleId: role.id, resource, action })),
+    );
+
+    await prisma.$transaction([
+      prisma.rolePermission.deleteMany({ where: { roleId: role.id } }),
+      prisma.rolePermission.createMany({ data: permissions }),
+    ]);
+
+    console.log(`Seeded ${key} with ${permissions.length} permissions`);
+  }
+}
+
+const SALARY_ITEM_TYPES = [
+  { name: "Performance bonus", kind: "BONUS", taxable: true },
+  { name: "Overtime", kind: "BONUS", taxable: true },
+  { name: "Tax withholding", kind: "DEDUCTION", taxable: false },
+  { name: "Social security", kind: "DEDUCTION", taxable: false },
+  { name: "Loan repayment", kind: "DEDUCTION", taxable: false },
+] as const;
+
+/**
+ * Create the default salary item types. Existing types (including admin edits) are kept.
+ */
+async function seedSalaryItemTypes() {
+  for (const itemType of SALARY_ITEM_TYPES) {
+    await prisma.salaryItemType.upsert({
+      where: { name: itemType.name },
+      update: {},
+      create: itemType,
+    });
+  }
+
+  console.log(`Seeded ${SALARY_ITEM_TYPES.length} salary item types`);
+}
+
+async function main() {
+  await seedSystemRoles();
+  await seedSalaryItemTypes();
+}
+
+main()
+  .catch((error) => {
+    console.error("Error seeding database:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
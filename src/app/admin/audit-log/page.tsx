@@ -0,0 +1,66 @@
+import { Metadata } from 'next';
+import type { AuditAction, AuditEntity } from '@prisma/client';
+import { getAuditLogs } from '@/lib/actions/audit-actions';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '@/lib/constants/audit';
+import { AuditLogTable } from '@/components/admin/audit-log-table';
+
+export const metadata: Metadata = {
+  title: 'Audit Log | HR Management',
+  description: 'Browse every change made in the HR Management system',
+};
+
+interface AuditLogPageProps {
+  searchParams: {
+    page?: string;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+    actorId?: string;
+    from?: string;
+    to?: string;
+  };
+}
+
+export default async function AuditLogPage({ searchParams }: AuditLogPageProps) {
+  // Ignore unknown filter values instead of passing them to the query
+  const entityType = searchParams.entityType && searchParams.entityType in AUDIT_ENTITY_LABELS
+    ? (searchParams.entityType as AuditEntity)
+    : undefined;
+  const action = searchParams.action && searchParams.action in AUDIT_ACTION_LABELS
+    ? (searchParams.action as AuditAction)
+    : undefined;
+
+  const {
+    logs = [],
+    actors = [],
+    pagination = { total: 0, pages: 1, page: 1, limit: 25 },
+    error,
+  } = await getAuditLogs({
+    page: Math.max(1, parseInt(searchParams.page || '1', 10) || 1),
+    entityType,
+    entityId: searchParams.entityId,
+    action,
+    actorId: searchParams.actorId,
+    from: searchParams.from,
+    to: searchParams.to,
+  });
+
+  return (
+    <div className="container py-10">
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-bold mb-2">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Who changed what, and when, across employees, salaries, projects, tasks and roles
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded-md bg-destructive/15 p-4 text-center">
+          <p className="text-destructive">Error: {error}</p>
+        </div>
+      ) : (
+        <AuditLogTable logs={logs} actors={actors} pagination={pagination} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Metadata } from 'next';
+import { getExchangeRates } from '@/lib/actions/exchange-rate-actions';
+import { ExchangeRateManager } from '@/components/admin/exchange-rate-manager';
+import { BASE_CURRENCY } from '@/lib/constants/currencies';
+
+export const metadata: Metadata = {
+  title: 'Exchange Rates | HR Management',
+  description: 'Maintain currency exchange rates in the HR Management system',
+};
+
+export default async function ExchangeRatesPage() {
+  const { exchangeRates = [], error } = await getExchangeRates();
+
+  return (
+    <div className="container py-10">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold mb-2">Exchange Rates</h1>
+          <p className="text-muted-foreground">
+            Rates convert salaries into {BASE_CURRENCY} for company and department totals
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-md bg-destructive/15 p-4 text-center">
+            <p className="text-destructive">Error: {error}</p>
+          </div>
+        ) : (
+          <ExchangeRateManager exchangeRates={exchangeRates} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import { getOrgStructure } from '@/lib/actions/org-actions';
+import { OrgStructureManager } from '@/components/admin/org-structure-manager';
+
+export const metadata: Metadata = {
+  title: 'Departments & Positions | HR Management',
+  description: 'Manage departments and positions in the HR Management system',
+};
+
+export default async function OrgStructurePage() {
+  const { departments = [], positions = [], error } = await getOrgStructure();
+
+  return (
+    <div className="container py-10">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold mb-2">Departments &amp; Positions</h1>
+          <p className="text-muted-foreground">
+            Manage the departments and job titles employees are assigned to
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-md bg-destructive/15 p-4 text-center">
+            <p className="text-destructive">Error: {error}</p>
+          </div>
+        ) : (
+          <OrgStructureManager departments={departments} positions={positions} />
+        )}
+      </div>
+    </div>
+  );
+}
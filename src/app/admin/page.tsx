@@ -2,7 +2,7 @@ import { Metadata } from 'next';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { UserIcon, ShieldCheck, UserCog, Users, Settings } from 'lucide-react';
+import { UserIcon, ShieldCheck, UserCog, Users, Settings, KeyRound, History, Receipt, Coins, Network } from 'lucide-react';
 
 export const metadata: Metadata = {
   title: 'Admin Panel | HR Management',
@@ -46,6 +46,131 @@ export default function AdminPage() {
             </CardFooter>
           </Card>
           
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <KeyRound className="mr-2 h-5 w-5" />
+                Permission Matrix
+              </CardTitle>
+              <CardDescription>
+                Control what each role is allowed to do
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Toggle create, read, update and delete access per resource for every role,
+                and define custom roles such as Payroll Officer or Recruiter.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link href="/admin/permissions">
+                  Manage Permissions
+                </Link>
+              </Button>
+            </CardFooter>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="mr-2 h-5 w-5" />
+                Audit Log
+              </CardTitle>
+              <CardDescription>
+                Trace every change back to who made it
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Browse and filter the history of changes to employees, salaries,
+                projects, tasks and roles.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link href="/admin/audit-log">
+                  View Audit Log
+                </Link>
+              </Button>
+            </CardFooter>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Receipt className="mr-2 h-5 w-5" />
+                Salary Item Types
+              </CardTitle>
+              <CardDescription>
+                Configure bonus and deduction lines
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Define the bonuses and deductions, such as overtime or tax withholding,
+                that can be itemized on a salary month.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link href="/admin/salary-items">
+                  Manage Item Types
+                </Link>
+              </Button>
+            </CardFooter>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Coins className="mr-2 h-5 w-5" />
+                Exchange Rates
+              </CardTitle>
+              <CardDescription>
+                Maintain currency conversion rates
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Set the rates used to convert salaries paid in other currencies
+                into company and department totals.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link href="/admin/exchange-rates">
+                  Manage Exchange Rates
+                </Link>
+              </Button>
+            </CardFooter>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Network className="mr-2 h-5 w-5" />
+                Departments &amp; Positions
+              </CardTitle>
+              <CardDescription>
+                Define the company structure
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Add, rename and remove the departments and job titles
+                that employees are assigned to.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild className="w-full">
+                <Link href="/admin/org-structure">
+                  Manage Structure
+                </Link>
+              </Button>
+            </CardFooter>
+          </Card>
+          
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
@@ -0,0 +1,39 @@
+import { Metadata } from 'next';
+import { getRoles } from '@/lib/actions/permission-actions';
+import { PermissionMatrix } from '@/components/admin/permission-matrix';
+
+export const metadata: Metadata = {
+  title: 'Permission Matrix | HR Management',
+  description: 'Manage role permissions in the HR Management system',
+};
+
+export default async function PermissionMatrixPage() {
+  const { roles = [], error } = await getRoles();
+
+  return (
+    <div className="container py-10">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold mb-2">Permission Matrix</h1>
+          <p className="text-muted-foreground">
+            Control what each role can create, read, update and delete
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-md bg-destructive/15 p-4 text-center">
+            <p className="text-destructive">Error: {error}</p>
+          </div>
+        ) : roles.length === 0 ? (
+          <div className="rounded-md bg-muted p-4 text-center">
+            <p className="text-muted-foreground">
+              No roles found. Run <code>npx prisma db seed</code> to load the default permissions.
+            </p>
+          </div>
+        ) : (
+          <PermissionMatrix roles={roles} />
+        )}
+      </div>
+    </div>
+  );
+}
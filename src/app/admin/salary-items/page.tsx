@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import { getSalaryItemTypes } from '@/lib/actions/salary-item-actions';
+import { SalaryItemTypeManager } from '@/components/admin/salary-item-type-manager';
+
+export const metadata: Metadata = {
+  title: 'Salary Item Types | HR Management',
+  description: 'Configure bonus and deduction types in the HR Management system',
+};
+
+export default async function SalaryItemTypesPage() {
+  const { itemTypes = [], error } = await getSalaryItemTypes({ includeInactive: true });
+
+  return (
+    <div className="container py-10">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold mb-2">Salary Item Types</h1>
+          <p className="text-muted-foreground">
+            Configure the bonuses and deductions that can be added to a salary month
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-md bg-destructive/15 p-4 text-center">
+            <p className="text-destructive">Error: {error}</p>
+          </div>
+        ) : (
+          <SalaryItemTypeManager itemTypes={itemTypes} />
+        )}
+      </div>
+    </div>
+  );
+}
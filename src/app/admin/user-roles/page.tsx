@@ -1,5 +1,6 @@
 import { Metadata } from 'next';
 import { getUsers } from '@/lib/actions/user-actions';
+import { getRoles } from '@/lib/actions/permission-actions';
 import { UserRoleForm } from '@/components/admin/user-role-form';
 
 export const metadata: Metadata = {
@@ -12,6 +13,8 @@ export default async function UserRoleManagementPage() {
   const { users, error } = await getUsers({
     limit: 100, // Fetch a large number to avoid pagination initially
   });
+  const { roles = [] } = await getRoles();
+  const customRoles = roles.filter((role) => !role.isSystem);
   
   return (
     <div className="container py-10">
@@ -32,14 +35,14 @@ export default async function UserRoleManagementPage() {
             <p className="text-muted-foreground">No users found in the system.</p>
           </div>
         ) : (
-          <UserRoleForm users={users} />
+          <UserRoleForm users={users} customRoles={customRoles} />
         )}
         
         <div className="mt-8 text-center text-sm text-muted-foreground">
           <p>Role Permissions:</p>
           <ul className="list-disc list-inside mt-2">
             <li><strong>Administrator:</strong> Full access to all system features</li>
-            <li><strong>Manager:</strong> Access to manage projects, tasks, and employees</li>
+            <li><strong>Manager:</strong> Access to manage projects, tasks, and salaries; read-only access to employees</li>
             <li><strong>Employee:</strong> Limited access to personal information and assigned tasks</li>
           </ul>
         </div>
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, renderPayslip, db } = vi.hoisted(() => ({
+  getCurrentSession: vi.fn(),
+  renderPayslip: vi.fn(),
+  db: {
+    role: { findMany: vi.fn() },
+    employee: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+    salary: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("next/cache", () => ({
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("@/lib/payslip", () => ({
+  renderPayslip,
+  getPayslipFileName: () => "payslip.pdf",
+}));
+
+import { GET } from "./route";
+
+const manager = { id: "manager-1", role: "MANAGER" };
+
+const salary = {
+  id: "salary-1",
+  employeeId: "emp-other",
+  month: 5,
+  year: 2026,
+  currency: "USD",
+  status: "FINALIZED",
+  finalizedAt: null,
+  baseSalary: 4000,
+  bonus: 0,
+  deductions: 0,
+  totalSalary: 4000,
+  items: [],
+  employee: {
+    id: "emp-other",
+    userId: "user-other",
+    user: { name: "Olu", email: "olu@example.com" },
+    department: { name: "Sales" },
+    position: { name: "Rep" },
+  },
+};
+
+function download() {
+  return GET(new Request("http://localhost/api/salaries/salary-1/payslip"), {
+    params: Promise.resolve({ id: "salary-1" }),
+  });
+}
+
+describe("GET /api/salaries/[id]/payslip", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: manager });
+    db.role.findMany.mockResolvedValue([]);
+    db.salary.findUnique.mockResolvedValue(salary);
+    db.employee.findUnique.mockResolvedValue({ id: "emp-manager" });
+    db.employee.findMany.mockImplementation(({ where }) =>
+      where.managerId.in.includes("emp-manager") ? [{ id: "emp-report" }] : [],
+    );
+    renderPayslip.mockResolvedValue(new Uint8Array([37, 80, 68, 70]));
+  });
+
+  it("rejects a manager downloading a payslip outside their reports", async () => {
+    db.employee.count.mockResolvedValue(0);
+
+    const response = await download();
+
+    expect(response.status).toBe(403);
+    expect(renderPayslip).not.toHaveBeenCalled();
+  });
+
+  it("lets a manager download a report's payslip", async () => {
+    db.employee.count.mockResolvedValue(1);
+
+    const response = await download();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+  });
+
+  it("rejects an employee downloading someone else's payslip", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE" } });
+
+    const response = await download();
+
+    expect(response.status).toBe(403);
+    expect(renderPayslip).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { checkPermission } from "@/lib/permissions";
+import { isInManagerScope } from "@/lib/org";
+import { getPayslipFileName, renderPayslip } from "@/lib/payslip";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: "You must be signed in to download payslips" },
+        { status: 401 }
+      );
+    }
+
+    // Check if user has permission to read salaries
+    if (!(await checkPermission(session.user, "salaries", "read"))) {
+      return NextResponse.json(
+        { message: "You don't have permission to view salary information" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    const salary = await prisma.salary.findUnique({
+      where: { id },
+      include: {
+        items: {
+          orderBy: { createdAt: "asc" },
+        },
+        employee: {
+          include: {
+            user: {
+              select: {
+                name: true,
+                email: true,
+              },
+            },
+            department: { select: { name: true } },
+            position: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    if (!salary) {
+      return NextResponse.json(
+        { message: "Salary record not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only those who manage salaries may download other people's payslips
+    if (
+      salary.employee.userId !== session.user.id &&
+      !(await checkPermission(session.user, "salaries", "update"))
+    ) {
+      return NextResponse.json(
+        { message: "You can only view your own salary information" },
+        { status: 403 }
+      );
+    }
+
+    // Managers may download their own payslips and those of their reports
+    if (!(await isInManagerScope(prisma, session.user, salary.employeeId))) {
+      return NextResponse.json(
+        { message: "You can only view salaries of employees who report to you" },
+        { status: 403 }
+      );
+    }
+
+    const data = {
+      companyName: process.env.COMPANY_NAME || "HR Management",
+      month: salary.month,
+      year: salary.year,
+      currency: salary.currency,
+      status: salary.status,
+      finalizedAt: salary.finalizedAt,
+      employee: {
+        id: salary.employee.id,
+        name: salary.employee.user.name,
+        email: salary.employee.user.email,
+        position: salary.employee.position.name,
+        department: salary.employee.department.name,
+      },
+      baseSalary: salary.baseSalary,
+      items: salary.items,
+      bonus: salary.bonus,
+      deductions: salary.deductions,
+      totalSalary: salary.totalSalary,
+    };
+
+    const pdf = await renderPayslip(data);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getPayslipFileName(data)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating payslip:", error);
+    return NextResponse.json(
+      { message: "Failed to generate payslip" },
+      { status: 500 }
+    );
+  }
+}
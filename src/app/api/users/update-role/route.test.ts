@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db, tx } = vi.hoisted(() => {
+  const tx = {
+    user: { count: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+  };
+
+  return {
+    getCurrentSession: vi.fn(),
+    tx,
+    db: {
+      user: { findUnique: vi.fn(), count: vi.fn() },
+      $transaction: vi.fn((mutate: (client: typeof tx) => unknown) => mutate(tx)),
+    },
+  };
+});
+
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { POST } from "./route";
+
+const admin = { id: "admin-1", role: "ADMIN" };
+const targetAdmin = { id: "admin-2", name: "Ada", email: "ada@example.com", role: "ADMIN" };
+
+function request(body: unknown) {
+  return new Request("http://localhost/api/users/update-role", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/users/update-role", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Rejections are logged by the code under test
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: admin });
+    db.user.findUnique.mockResolvedValue(targetAdmin);
+    tx.user.count.mockResolvedValue(2);
+    tx.user.update.mockImplementation(({ data }) => ({ ...targetAdmin, ...data }));
+  });
+
+  it("rejects unauthenticated requests", async () => {
+    getCurrentSession.mockResolvedValue(null);
+
+    const response = await POST(request({ userId: "admin-2", role: "EMPLOYEE" }));
+
+    expect(response.status).toBe(401);
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it.each(["MANAGER", "EMPLOYEE"])("rejects a %s", async (role) => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role } });
+
+    const response = await POST(request({ userId: "user-1", role: "ADMIN" }));
+
+    expect(response.status).toBe(403);
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects a request without a user or role", async () => {
+    const response = await POST(request({ userId: "admin-2" }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects an invalid role", async () => {
+    const response = await POST(request({ userId: "admin-2", role: "SUPERUSER" }));
+
+    expect(response.status).toBe(400);
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown user", async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    const response = await POST(request({ userId: "missing", role: "EMPLOYEE" }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("refuses to demote the last admin, counting inside the write transaction", async () => {
+    tx.user.count.mockResolvedValue(1);
+
+    const response = await POST(request({ userId: "admin-2", role: "EMPLOYEE" }));
+
+    expect(response.status).toBe(409);
+    expect(tx.user.count).toHaveBeenCalledWith({ where: { role: "ADMIN" } });
+    expect(db.user.count).not.toHaveBeenCalled();
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("updates the role and records who changed it", async () => {
+    const response = await POST(request({ userId: "admin-2", role: "MANAGER" }));
+
+    expect(response.status).toBe(200);
+    expect(tx.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "admin-2" },
+        data: expect.objectContaining({ role: "MANAGER", roleUpdatedById: "admin-1" }),
+      }),
+    );
+    expect(tx.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ actorId: "admin-1", entityType: "USER", entityId: "admin-2", action: "UPDATE" }),
+    });
+  });
+});
@@ -1,11 +1,44 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { ROLES } from "@/lib/constants/roles";
+import { withAudit } from "@/lib/audit";
+
+// Fields returned to the caller and captured in the audit log
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  roleUpdatedAt: true,
+  roleUpdatedById: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const LAST_ADMIN_MESSAGE = "Cannot remove the last administrator";
 
 export async function POST(req: Request) {
   try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: "You must be signed in to update user roles" },
+        { status: 401 }
+      );
+    }
+
+    // Only admins can grant or revoke roles
+    if (session.user.role !== ROLES.ADMIN) {
+      return NextResponse.json(
+        { message: "Only administrators can update user roles" },
+        { status: 403 }
+      );
+    }
+
     const { userId, role } = await req.json();
-    
+
     // Validate input
     if (!userId || !role) {
       return NextResponse.json(
@@ -25,6 +58,7 @@ export async function POST(req: Request) {
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
       where: { id: userId },
+      select: userSelect,
     });
 
     if (!existingUser) {
@@ -34,30 +68,49 @@ export async function POST(req: Request) {
       );
     }
 
-    // Update user role
-    const updatedUser = await prisma.user.update({
-      where: { id: userId },
-      data: {
-        role: role,
+    // Update user role and record who changed it
+    const updatedUser = await withAudit(
+      { actorId: session.user.id, entityType: "USER", action: "UPDATE", before: existingUser },
+      async (tx) => {
+        // Never leave the system without an administrator; counted in the same
+        // transaction so two concurrent demotions can't both pass
+        if (existingUser.role === ROLES.ADMIN && role !== ROLES.ADMIN) {
+          const adminCount = await tx.user.count({
+            where: { role: ROLES.ADMIN },
+          });
+
+          if (adminCount <= 1) {
+            throw new Error(LAST_ADMIN_MESSAGE);
+          }
+        }
+
+        return tx.user.update({
+          where: { id: userId },
+          data: {
+            role: role,
+            roleUpdatedAt: new Date(),
+            roleUpdatedById: session.user.id,
+          },
+          select: userSelect,
+        });
       },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-      }
-    });
+    );
 
     return NextResponse.json(
-      { 
+      {
         message: "User role updated successfully",
         user: updatedUser,
       },
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof Error && error.message === LAST_ADMIN_MESSAGE) {
+      return NextResponse.json(
+        { message: LAST_ADMIN_MESSAGE },
+        { status: 409 }
+      );
+    }
+
     console.error("Role update error:", error);
     return NextResponse.json(
       { message: "Something went wrong" },
@@ -1,11 +1,19 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { getCurrentSession } from '@/auth';
-import { hasPermission, ROLES } from '@/lib/constants/roles';
+import { ROLES } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
+import { canViewBankDetails, getEditableFieldGroups } from '@/lib/employee-profile';
 
 import { getEmployeeById } from '@/lib/actions/employee-actions';
+import { getEmployeeChecklists, getOpenTasksForReassignment } from '@/lib/actions/employee-lifecycle-actions';
 import { getEmployeeSalaries } from '@/lib/actions/salary-actions';
+import { getSalaryItemTypes } from '@/lib/actions/salary-item-actions';
 import { EmployeeCard } from '@/components/employees/employee-card';
+import { EmployeeChecklists } from '@/components/employees/employee-checklists';
+import { EmployeeProfileDetails } from '@/components/employees/employee-profile-details';
+import { EmploymentContractCard } from '@/components/employees/employment-contract-card';
+import { TaskReassignment } from '@/components/employees/task-reassignment';
 import { SalaryTable } from '@/components/employees/salary-table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
@@ -42,7 +50,7 @@ export default async function EmployeeDetailsPage({
   }
   
   // Check if user has permission to view employees
-  const canViewEmployees = hasPermission(session.user.role, 'employees', 'read');
+  const canViewEmployees = await checkPermission(session.user, 'employees', 'read');
   
   if (!canViewEmployees) {
     return (
@@ -56,11 +64,11 @@ export default async function EmployeeDetailsPage({
   }
   
   // Check if user can edit employees
-  const canEditEmployee = hasPermission(session.user.role, 'employees', 'update');
-  const canDeleteEmployee = hasPermission(session.user.role, 'employees', 'delete');
+  const canEditEmployee = await checkPermission(session.user, 'employees', 'update');
+  const canDeleteEmployee = await checkPermission(session.user, 'employees', 'delete');
   
   // Check if user can edit salaries
-  const canEditSalary = hasPermission(session.user.role, 'salaries', 'update');
+  const canEditSalary = await checkPermission(session.user, 'salaries', 'update');
   const isAdmin = session.user.role === ROLES.ADMIN;
   
   // Get employee details
@@ -77,14 +85,23 @@ export default async function EmployeeDetailsPage({
     employeeId: employee.id,
     year,
   });
+  const { itemTypes = [] } = await getSalaryItemTypes();
+  const { items: checklistItems = [] } = await getEmployeeChecklists(employee.id);
+  
+  // Prompt to hand over a terminated employee's unfinished tasks; the action checks who may reassign
+  const isTerminated = employee.status === 'TERMINATED';
+  const reassignment = isTerminated ? await getOpenTasksForReassignment(employee.id) : null;
   
   // Check if the employee belongs to the current user (for employee role)
   const isOwnProfile = session.user.role === ROLES.EMPLOYEE && 
                        employee.userId === session.user.id;
   
-  // Only allow editing if admin, manager, or the employee's own profile
-  const canEdit = canEditEmployee && (session.user.role !== ROLES.EMPLOYEE || isOwnProfile);
-  const canDelete = canDeleteEmployee && session.user.role !== ROLES.EMPLOYEE;
+  // Employees can edit parts of their own profile; HR can edit everything
+  const canEdit = (await getEditableFieldGroups(session.user, employee)).length > 0;
+  const canChangeStatus = canEditEmployee && (session.user.role !== ROLES.EMPLOYEE || isOwnProfile);
+  const showBankDetails = await canViewBankDetails(session.user, employee);
+  const canTerminate = canDeleteEmployee && session.user.role !== ROLES.EMPLOYEE;
+  const canEditChecklists = canEditEmployee && session.user.role !== ROLES.EMPLOYEE;
   
   return (
     <div className="container p-6">
@@ -92,34 +109,68 @@ export default async function EmployeeDetailsPage({
         <h1 className="text-3xl font-bold">Employee Details</h1>
       </div>
       
+      {reassignment?.tasks && reassignment.tasks.length > 0 && (
+        <TaskReassignment
+          employeeId={employee.id}
+          employeeName={employee.user.name}
+          tasks={reassignment.tasks}
+          candidates={reassignment.candidates}
+        />
+      )}
+      
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-1">
           <EmployeeCard
             employee={employee}
             canEdit={canEdit}
-            canDelete={canDelete}
+            canChangeStatus={canChangeStatus}
+            canTerminate={canTerminate}
           />
         </div>
         
         <div className="md:col-span-2">
-          <Tabs defaultValue="salary">
+          <Tabs defaultValue="profile">
             <TabsList className="mb-4">
+              <TabsTrigger value="profile">Profile</TabsTrigger>
               <TabsTrigger value="salary">Salary Information</TabsTrigger>
+              <TabsTrigger value="checklists">Onboarding &amp; Offboarding</TabsTrigger>
               <TabsTrigger value="performance">Performance</TabsTrigger>
               <TabsTrigger value="documents">Documents</TabsTrigger>
             </TabsList>
             
+            <TabsContent value="profile">
+              <EmployeeProfileDetails
+                phone={employee.phone}
+                address={employee.address}
+                dateOfBirth={employee.dateOfBirth}
+                emergencyContacts={employee.emergencyContacts}
+                bankDetails={employee.bankDetails}
+                showBankDetails={showBankDetails}
+              />
+            </TabsContent>
+            
             <TabsContent value="salary" className="space-y-4">
               <SalaryTable
                 employeeId={employee.id}
                 employeeName={employee.user.name || 'Employee'}
+                employeeCurrency={employee.currency}
                 salaryRecords={salaries}
                 availableYears={years}
+                itemTypes={itemTypes}
                 isAdmin={isAdmin}
                 canEdit={canEditSalary}
               />
             </TabsContent>
             
+            <TabsContent value="checklists">
+              <EmployeeChecklists
+                employeeId={employee.id}
+                items={checklistItems}
+                isTerminated={isTerminated}
+                canEdit={canEditChecklists}
+              />
+            </TabsContent>
+            
             <TabsContent value="performance">
               <div className="flex items-center justify-center h-64 border rounded-lg bg-muted/50">
                 <p className="text-muted-foreground">
@@ -129,11 +180,7 @@ export default async function EmployeeDetailsPage({
             </TabsContent>
             
             <TabsContent value="documents">
-              <div className="flex items-center justify-center h-64 border rounded-lg bg-muted/50">
-                <p className="text-muted-foreground">
-                  Document management coming soon...
-                </p>
-              </div>
+              <EmploymentContractCard contract={employee.contract} />
             </TabsContent>
           </Tabs>
         </div>
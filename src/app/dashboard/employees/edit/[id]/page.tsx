@@ -1,9 +1,10 @@
 import { Metadata } from 'next';
 import { notFound, redirect } from 'next/navigation';
 import { getCurrentSession } from '@/auth';
-import { hasPermission, ROLES } from '@/lib/constants/roles';
+import { getEditableFieldGroups } from '@/lib/employee-profile';
 
 import { getEmployeeById } from '@/lib/actions/employee-actions';
+import { getOrgOptions } from '@/lib/actions/org-actions';
 import { EmployeeForm } from '@/components/employees/employee-form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -28,9 +29,6 @@ export default async function EditEmployeePage({
     redirect('/login');
   }
   
-  // Check if user has permission to edit employees
-  const canEditEmployee = hasPermission(session.user.role, 'employees', 'update');
-  
   // Get employee details
   const { employee, error } = await getEmployeeById(params.id);
   
@@ -38,29 +36,15 @@ export default async function EditEmployeePage({
     notFound();
   }
   
-  // Check if the employee belongs to the current user (for employee role)
-  const isOwnProfile = session.user.role === ROLES.EMPLOYEE && 
-                       employee.userId === session.user.id;
+  // HR edits the whole record; employees edit their own contact, emergency and bank details
+  const editableGroups = await getEditableFieldGroups(session.user, employee);
   
-  // Only allow editing if admin, manager, or the employee's own profile
-  if (!canEditEmployee || (session.user.role === ROLES.EMPLOYEE && !isOwnProfile)) {
+  if (!editableGroups.length) {
     redirect(`/dashboard/employees/${params.id}`);
   }
   
-  // Define department options
-  const departments = [
-    'Engineering',
-    'Marketing',
-    'Sales',
-    'Finance',
-    'HR',
-    'Operations',
-    'Product',
-    'Design',
-    'Customer Support',
-    'Legal',
-    'Research',
-  ];
+  // Get department, position and manager options; the employee can't report to their own reports
+  const { departments = [], positions = [], managers = [] } = await getOrgOptions(employee.id);
   
   return (
     <div className="container p-6">
@@ -82,6 +66,9 @@ export default async function EditEmployeePage({
           <EmployeeForm
             employee={employee}
             departments={departments}
+            positions={positions}
+            managers={managers}
+            editableGroups={editableGroups}
           />
         </CardContent>
       </Card>
@@ -1,10 +1,11 @@
 import { Metadata } from 'next';
 import { redirect } from 'next/navigation';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 import { filterAvailableUsers } from '@/lib/utils';
 
+import { getOrgOptions } from '@/lib/actions/org-actions';
 import { EmployeeForm } from '@/components/employees/employee-form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -22,7 +23,7 @@ export default async function AddEmployeePage() {
   }
   
   // Check if user has permission to create employees
-  const canCreateEmployee = hasPermission(session.user.role, 'employees', 'create');
+  const canCreateEmployee = await checkPermission(session.user, 'employees', 'create');
   
   if (!canCreateEmployee) {
     redirect('/dashboard/employees');
@@ -52,20 +53,8 @@ export default async function AddEmployeePage() {
   // Filter out users who already have employee records
   const availableUsers = filterAvailableUsers(users, employeeUserIds);
   
-  // Define department options
-  const departments = [
-    'Engineering',
-    'Marketing',
-    'Sales',
-    'Finance',
-    'HR',
-    'Operations',
-    'Product',
-    'Design',
-    'Customer Support',
-    'Legal',
-    'Research',
-  ];
+  // Get department, position and manager options
+  const { departments = [], positions = [], managers = [] } = await getOrgOptions();
   
   return (
     <div className="container max-w-4xl p-6 space-y-6">
@@ -87,6 +76,8 @@ export default async function AddEmployeePage() {
           <EmployeeForm
             users={availableUsers}
             departments={departments}
+            positions={positions}
+            managers={managers}
           />
         </CardContent>
       </Card>
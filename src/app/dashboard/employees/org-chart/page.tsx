@@ -0,0 +1,73 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { getCurrentSession } from '@/auth';
+import { checkPermission } from '@/lib/permissions';
+
+import { getOrgChart } from '@/lib/actions/org-actions';
+import { OrgChart } from '@/components/employees/org-chart';
+import { Button } from '@/components/ui/button';
+
+export const metadata: Metadata = {
+  title: 'Org Chart | HR Management',
+  description: 'See who reports to whom',
+};
+
+export default async function OrgChartPage() {
+  // Get the current session
+  const session = await getCurrentSession();
+  
+  if (!session?.user) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You must be logged in to view this page.
+        </p>
+      </div>
+    );
+  }
+  
+  // Check if user has permission to view employees
+  const canViewEmployees = await checkPermission(session.user, 'employees', 'read');
+  const canEditEmployees = await checkPermission(session.user, 'employees', 'update');
+  
+  if (!canViewEmployees) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to view the org chart.
+        </p>
+      </div>
+    );
+  }
+  
+  const { employees = [], error } = await getOrgChart();
+  
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="container p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Org Chart</h1>
+          <p className="text-muted-foreground">
+            Reporting lines across the company
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/employees">Employee List</Link>
+        </Button>
+      </div>
+      
+      <OrgChart employees={employees} canEdit={canEditEmployees} />
+    </div>
+  );
+}
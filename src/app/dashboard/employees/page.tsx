@@ -1,9 +1,12 @@
 import { Metadata } from 'next';
+import Link from 'next/link';
+import { Network } from 'lucide-react';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 
 import { getEmployees } from '@/lib/actions/employee-actions';
 import { EmployeeList } from '@/components/employees/employee-list';
+import { Button } from '@/components/ui/button';
 
 export const metadata: Metadata = {
   title: 'Employees | HR Management',
@@ -16,6 +19,7 @@ interface EmployeesPageProps {
     page?: string;
     sortBy?: string;
     sortDirection?: 'asc' | 'desc';
+    status?: string;
   };
 }
 
@@ -37,8 +41,8 @@ export default async function EmployeesPage({
   }
   
   // Check if user has permission to view employees
-  const canViewEmployees = hasPermission(session.user.role, 'employees', 'read');
-  const canCreateEmployee = hasPermission(session.user.role, 'employees', 'create');
+  const canViewEmployees = await checkPermission(session.user, 'employees', 'read');
+  const canCreateEmployee = await checkPermission(session.user, 'employees', 'create');
   
   if (!canViewEmployees) {
     return (
@@ -56,6 +60,7 @@ export default async function EmployeesPage({
   const page = parseInt(searchParams.page || '1', 10);
   const sortBy = searchParams.sortBy || 'name';
   const sortDirection = searchParams.sortDirection || 'asc';
+  const status = searchParams.status || 'current';
   
   // Get employees
   const { employees = [], pagination = { total: 0, pages: 1, page: 1, limit: 10 }, error } = await getEmployees({
@@ -63,6 +68,7 @@ export default async function EmployeesPage({
     search,
     sortBy,
     sortDirection: sortDirection as 'asc' | 'desc',
+    status,
   });
   
   if (error) {
@@ -78,11 +84,18 @@ export default async function EmployeesPage({
     <div className="container p-6">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-3xl font-bold">Employees</h1>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/employees/org-chart">
+            <Network className="mr-2 h-4 w-4" />
+            Org Chart
+          </Link>
+        </Button>
       </div>
       
       <EmployeeList
         initialEmployees={employees}
         pagination={pagination}
+        initialStatus={status}
         canCreate={canCreateEmployee}
       />
     </div>
@@ -0,0 +1,144 @@
+import { Metadata } from "next";
+import { getCurrentSession } from "@/auth";
+import { checkPermission } from "@/lib/permissions";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getLeaveApprovals, getLeaveCalendar, getMyLeave } from "@/lib/actions/leave-actions";
+import { LeaveBalances } from "@/components/leave/leave-balances";
+import { LeaveRequestDialog } from "@/components/leave/leave-request-dialog";
+import { MyLeaveRequests } from "@/components/leave/my-leave-requests";
+import { LeaveApprovals } from "@/components/leave/leave-approvals";
+import { LeaveCalendar } from "@/components/leave/leave-calendar";
+
+export const metadata: Metadata = {
+  title: "Leave | HR Management",
+  description: "Request time off, approve your team's leave and see who is away",
+};
+
+interface LeavePageProps {
+  searchParams: {
+    tab?: string;
+    month?: string;
+    year?: string;
+    department?: string;
+  };
+}
+
+export default async function LeavePage({ searchParams }: LeavePageProps) {
+  // Get the current session
+  const session = await getCurrentSession();
+
+  if (!session?.user || !(await checkPermission(session.user, "leave", "read"))) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to view leave.
+        </p>
+      </div>
+    );
+  }
+
+  // The calendar defaults to the current month
+  const now = new Date();
+  const month = parseInt(searchParams.month || "", 10) || now.getMonth() + 1;
+  const year = parseInt(searchParams.year || "", 10) || now.getFullYear();
+  const department = searchParams.department || "";
+
+  const [myLeave, approvals, calendar, canRequest] = await Promise.all([
+    getMyLeave(now.getFullYear()),
+    getLeaveApprovals(),
+    getLeaveCalendar(month, year, department),
+    checkPermission(session.user, "leave", "create"),
+  ]);
+
+  const error = myLeave.error || approvals.error || calendar.error;
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  const showApprovals = !!(approvals.canReview || approvals.canRecord);
+  const awaitingCount = (approvals.pending?.length ?? 0) + (approvals.approved?.length ?? 0);
+  const tab = ["approvals", "calendar"].includes(searchParams.tab || "") ? searchParams.tab! : "mine";
+
+  return (
+    <div className="container p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Leave</h1>
+          <p className="text-muted-foreground">
+            Request time off, track your balances and see who is away
+          </p>
+        </div>
+        {canRequest && myLeave.employee && (
+          <LeaveRequestDialog
+            remaining={Object.fromEntries((myLeave.balances ?? []).map((balance) => [balance.type, balance.remaining]))}
+          />
+        )}
+      </div>
+
+      <Tabs defaultValue={tab} className="w-full">
+        <TabsList className="mb-4">
+          <TabsTrigger value="mine" asChild>
+            <a href="/dashboard/leave">My Leave</a>
+          </TabsTrigger>
+          {showApprovals && (
+            <TabsTrigger value="approvals" asChild>
+              <a href="/dashboard/leave?tab=approvals">
+                Approvals{awaitingCount > 0 && ` (${awaitingCount})`}
+              </a>
+            </TabsTrigger>
+          )}
+          <TabsTrigger value="calendar" asChild>
+            <a href="/dashboard/leave?tab=calendar">Team Calendar</a>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="mine" className="space-y-6">
+          {myLeave.employee ? (
+            <>
+              <LeaveBalances year={now.getFullYear()} balances={myLeave.balances ?? []} />
+              <MyLeaveRequests requests={myLeave.requests ?? []} />
+            </>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>No employee record</CardTitle>
+                <CardDescription>
+                  Your account isn&apos;t linked to an employee record yet. Ask an administrator to create one.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+        </TabsContent>
+
+        {showApprovals && (
+          <TabsContent value="approvals">
+            <LeaveApprovals
+              canReview={!!approvals.canReview}
+              canRecord={!!approvals.canRecord}
+              pending={approvals.pending ?? []}
+              approved={approvals.approved ?? []}
+            />
+          </TabsContent>
+        )}
+
+        <TabsContent value="calendar">
+          <LeaveCalendar
+            month={month}
+            year={year}
+            department={department}
+            departments={calendar.departments ?? []}
+            requests={calendar.requests ?? []}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
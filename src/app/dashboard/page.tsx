@@ -1,49 +1,176 @@
+import Link from "next/link";
+import { AlertTriangle, ListTodo, Users, Wallet } from "lucide-react";
 import { getCurrentSession } from "@/auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  HeadcountByDepartmentChart,
+  ProjectStatusChart,
+  TaskStatusChart,
+} from "@/components/dashboard/overview-charts";
+import { getDashboardStats } from "@/lib/actions/dashboard-actions";
+import { MONTH_NAMES } from "@/lib/constants/months";
+import { formatCurrency } from "@/lib/utils";
+
+// A single headline number
+function StatCard({
+  title,
+  description,
+  value,
+  icon: Icon,
+}: {
+  title: string;
+  description: string;
+  value: React.ReactNode;
+  icon: React.ComponentType<{ className?: string }>;
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-3xl font-semibold">{value}</div>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default async function DashboardPage() {
   const session = await getCurrentSession();
-  console.log("Session in dashboard:", session);
+  const stats = await getDashboardStats();
 
   return (
     <div className="container p-6">
-      <h1 className="text-3xl font-bold mb-6">Dashboard Overview</h1>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle>Welcome {session?.user?.name || "User"}!</CardTitle>
-            <CardDescription>You&apos;re logged in with {session?.user?.email}</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <p>This is your protected dashboard page.</p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader>
-            <CardTitle>Active Employees</CardTitle>
-            <CardDescription>Current employee count</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-semibold">24</p>
-          </CardContent>
-        </Card>
-        
+      <h1 className="text-3xl font-bold mb-2">Dashboard Overview</h1>
+      <p className="text-muted-foreground mb-6">
+        Welcome back, {session?.user?.name || "User"}
+      </p>
+
+      {"error" in stats ? (
+        <div className="rounded-md bg-destructive/15 p-4 text-center">
+          <p className="text-destructive">Error: {stats.error}</p>
+        </div>
+      ) : stats.scope === "company" ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <StatCard
+              title="Headcount"
+              description={`Across ${stats.company.headcountByDepartment.length} departments`}
+              value={stats.company.headcount}
+              icon={Users}
+            />
+            <StatCard
+              title="Open Tasks"
+              description="To do, in progress or in review"
+              value={stats.company.openTasks}
+              icon={ListTodo}
+            />
+            <StatCard
+              title="Overdue Tasks"
+              description="Open tasks past their due date"
+              value={stats.company.overdueTasks}
+              icon={AlertTriangle}
+            />
+            {stats.company.payroll && (
+              <StatCard
+                title="Payroll This Month"
+                description={
+                  stats.company.payroll.unconvertedRecords > 0
+                    ? `${stats.company.payroll.records} records, ${stats.company.payroll.unconvertedRecords} without an exchange rate`
+                    : `${stats.company.payroll.records} records for ${MONTH_NAMES[stats.company.payroll.month - 1]} ${stats.company.payroll.year}`
+                }
+                value={formatCurrency(stats.company.payroll.total, stats.company.payroll.currency)}
+                icon={Wallet}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Headcount by Department</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <HeadcountByDepartmentChart data={stats.company.headcountByDepartment} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Open Tasks by Status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TaskStatusChart data={stats.company.tasksByStatus} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Projects by Status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ProjectStatusChart data={stats.company.projectsByStatus} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      ) : !stats.personal.employee ? (
         <Card>
           <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>Last 7 days</CardDescription>
+            <CardTitle>No employee record</CardTitle>
+            <CardDescription>
+              Your account isn&apos;t linked to an employee record yet. Ask an administrator to create one.
+            </CardDescription>
           </CardHeader>
-          <CardContent>
-            <ul className="space-y-2 text-sm">
-              <li>New employee onboarded</li>
-              <li>5 pending vacation requests</li>
-              <li>Performance review cycle started</li>
-            </ul>
-          </CardContent>
         </Card>
-      </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <StatCard
+              title="My Open Tasks"
+              description="To do, in progress or in review"
+              value={stats.personal.openTasks}
+              icon={ListTodo}
+            />
+            <StatCard
+              title="My Overdue Tasks"
+              description="Open tasks past their due date"
+              value={stats.personal.overdueTasks}
+              icon={AlertTriangle}
+            />
+            <StatCard
+              title="My Latest Salary"
+              description={
+                stats.personal.latestSalary
+                  ? `${MONTH_NAMES[stats.personal.latestSalary.month - 1]} ${stats.personal.latestSalary.year}, ${stats.personal.latestSalary.status === "PAID" ? "paid" : "not yet paid"}`
+                  : "No salary records yet"
+              }
+              value={
+                stats.personal.latestSalary ? (
+                  <Link href={`/dashboard/employees/${stats.personal.employee.id}`} className="hover:underline">
+                    {formatCurrency(stats.personal.latestSalary.totalSalary, stats.personal.latestSalary.currency)}
+                  </Link>
+                ) : (
+                  "-"
+                )
+              }
+              icon={Wallet}
+            />
+          </div>
+
+          <Card className="lg:max-w-xl">
+            <CardHeader>
+              <CardTitle>My Open Tasks by Status</CardTitle>
+              <CardDescription>
+                {stats.personal.employee.position.name}, {stats.personal.employee.department.name}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TaskStatusChart data={stats.personal.tasksByStatus} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
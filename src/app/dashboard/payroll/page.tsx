@@ -0,0 +1,78 @@
+import { Metadata } from 'next';
+import { getCurrentSession } from '@/auth';
+import { checkPermission } from '@/lib/permissions';
+
+import { getPayrollPreview } from '@/lib/actions/payroll-actions';
+import { PayrollRun } from '@/components/payroll/payroll-run';
+
+export const metadata: Metadata = {
+  title: 'Payroll | HR Management',
+  description: 'Generate monthly salary records for all employees',
+};
+
+interface PayrollPageProps {
+  searchParams: {
+    month?: string;
+    year?: string;
+  };
+}
+
+export default async function PayrollPage({ searchParams }: PayrollPageProps) {
+  // Get the current session
+  const session = await getCurrentSession();
+  
+  if (!session?.user) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You must be logged in to view this page.
+        </p>
+      </div>
+    );
+  }
+  
+  // Check if user has permission to create salary records
+  const canRunPayroll = await checkPermission(session.user, 'salaries', 'create');
+  
+  if (!canRunPayroll) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to run payroll.
+        </p>
+      </div>
+    );
+  }
+  
+  // Default to the current month
+  const now = new Date();
+  const month = parseInt(searchParams.month || '', 10) || now.getMonth() + 1;
+  const year = parseInt(searchParams.year || '', 10) || now.getFullYear();
+  
+  const { entries = [], error } = await getPayrollPreview(month, year);
+  
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="container p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Run Payroll</h1>
+        <p className="text-muted-foreground">
+          Generate salary records for every employee for a month in one step
+        </p>
+      </div>
+      
+      {/* Keyed by period so adjustments reset when the month changes */}
+      <PayrollRun key={`${year}-${month}`} month={month} year={year} entries={entries} />
+    </div>
+  );
+}
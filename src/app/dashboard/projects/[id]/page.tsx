@@ -1,6 +1,6 @@
 import { Metadata } from 'next';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 import { getProjectById } from '@/lib/actions/project-actions';
 import { ProjectDetail } from '@/components/projects/project-detail';
 import { notFound } from 'next/navigation';
@@ -34,9 +34,9 @@ export default async function ProjectDetailPage({
   }
   
   // Check if user has permission to view projects
-  const canViewProjects = hasPermission(session.user.role, 'projects', 'read');
-  const canUpdateProject = hasPermission(session.user.role, 'projects', 'update');
-  const canDeleteProject = hasPermission(session.user.role, 'projects', 'delete');
+  const canViewProjects = await checkPermission(session.user, 'projects', 'read');
+  const canUpdateProject = await checkPermission(session.user, 'projects', 'update');
+  const canDeleteProject = await checkPermission(session.user, 'projects', 'delete');
   
   if (!canViewProjects) {
     return (
@@ -71,6 +71,7 @@ export default async function ProjectDetailPage({
         project={project}
         canUpdate={canUpdateProject}
         canDelete={canDeleteProject}
+        userRole={session.user.role}
       />
     </div>
   );
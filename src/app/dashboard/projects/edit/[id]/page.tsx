@@ -1,6 +1,6 @@
 import { Metadata } from 'next';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 import { notFound, redirect } from 'next/navigation';
 import { ProjectForm } from '@/components/projects/project-form';
 import { getProjectById } from '@/lib/actions/project-actions';
@@ -27,7 +27,7 @@ export default async function EditProjectPage({
   }
   
   // Check if user has permission to update projects
-  const canUpdateProject = hasPermission(session.user.role, 'projects', 'update');
+  const canUpdateProject = await checkPermission(session.user, 'projects', 'update');
   
   if (!canUpdateProject) {
     return (
@@ -1,6 +1,6 @@
 import { Metadata } from 'next';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 import { redirect } from 'next/navigation';
 import { ProjectForm } from '@/components/projects/project-form';
 
@@ -18,7 +18,7 @@ export default async function CreateProjectPage() {
   }
   
   // Check if user has permission to create projects
-  const canCreateProject = hasPermission(session.user.role, 'projects', 'create');
+  const canCreateProject = await checkPermission(session.user, 'projects', 'create');
   console.log("canCreateProject", canCreateProject);
   
   if (!canCreateProject) {
@@ -1,8 +1,11 @@
 import { Metadata } from 'next';
 import { getCurrentSession } from '@/auth';
-import { hasPermission } from '@/lib/constants/roles';
+import { checkPermission } from '@/lib/permissions';
 import { getProjects } from '@/lib/actions/project-actions';
 import { ProjectList } from '@/components/projects/project-list';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+import { GanttChart } from 'lucide-react';
 
 export const metadata: Metadata = {
   title: 'Projects | HR Management',
@@ -37,8 +40,8 @@ export default async function ProjectsPage({
   }
   
   // Check if user has permission to view projects
-  const canViewProjects = hasPermission(session.user.role, 'projects', 'read');
-  const canCreateProject = hasPermission(session.user.role, 'projects', 'create');
+  const canViewProjects = await checkPermission(session.user, 'projects', 'read');
+  const canCreateProject = await checkPermission(session.user, 'projects', 'create');
   
   if (!canViewProjects) {
     return (
@@ -80,6 +83,12 @@ export default async function ProjectsPage({
     <div className="container p-6">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-3xl font-bold">Projects</h1>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/projects/timeline">
+            <GanttChart className="mr-2 h-4 w-4" />
+            Timeline
+          </Link>
+        </Button>
       </div>
       
       <ProjectList
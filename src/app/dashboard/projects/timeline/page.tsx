@@ -0,0 +1,53 @@
+import { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { getCurrentSession } from '@/auth';
+import { checkPermission } from '@/lib/permissions';
+import { getProjectTimeline } from '@/lib/actions/project-actions';
+import { ProjectTimeline } from '@/components/projects/project-timeline';
+
+export const metadata: Metadata = {
+  title: 'Project Timeline | HR Management',
+  description: 'View and reschedule projects on a timeline',
+};
+
+export default async function ProjectTimelinePage() {
+  // Get the current session
+  const session = await getCurrentSession();
+  
+  if (!session?.user) {
+    redirect("/login");
+  }
+  
+  // Check if user has permission to view projects
+  const canViewProjects = await checkPermission(session.user, 'projects', 'read');
+  const canUpdateProject = await checkPermission(session.user, 'projects', 'update');
+  
+  if (!canViewProjects) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to view projects.
+        </p>
+      </div>
+    );
+  }
+  
+  const { projects, error } = await getProjectTimeline();
+  
+  if (error || !projects) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="container p-6 space-y-6">
+      <h1 className="text-3xl font-bold">Project Timeline</h1>
+      <ProjectTimeline projects={projects} canReschedule={canUpdateProject} />
+    </div>
+  );
+}
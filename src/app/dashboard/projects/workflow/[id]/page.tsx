@@ -0,0 +1,69 @@
+import { Metadata } from 'next';
+import { getCurrentSession } from '@/auth';
+import { checkPermission } from '@/lib/permissions';
+import { notFound, redirect } from 'next/navigation';
+import { WorkflowEditor } from '@/components/projects/workflow-editor';
+import { getProjectWorkflow } from '@/lib/actions/workflow-actions';
+
+export const metadata: Metadata = {
+  title: 'Project Workflow | HR Management',
+  description: 'Configure the task statuses of a project',
+};
+
+interface ProjectWorkflowPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default async function ProjectWorkflowPage({
+  params,
+}: ProjectWorkflowPageProps) {
+  // Get the current session
+  const session = await getCurrentSession();
+  
+  if (!session?.user) {
+    redirect("/login");
+  }
+  
+  // Check if user has permission to update projects
+  const canUpdateProject = await checkPermission(session.user, 'projects', 'update');
+  
+  if (!canUpdateProject) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to edit project workflows.
+        </p>
+      </div>
+    );
+  }
+  
+  // Get the project's workflow
+  const { project, error } = await getProjectWorkflow(params.id);
+  
+  if (error === 'Project not found') {
+    notFound();
+  }
+  
+  if (error || !project) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="container p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Workflow</h1>
+        <p className="text-muted-foreground mt-2">{project.name}</p>
+      </div>
+      
+      <WorkflowEditor project={project} />
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { Metadata } from "next";
 import { notFound, redirect } from "next/navigation";
 import { getCurrentSession } from "@/auth";
-import { getTaskById } from "@/lib/actions/task-actions";
+import { getTaskActivity, getTaskById } from "@/lib/actions/task-actions";
+import { getMentionableEmployees, getTaskComments } from "@/lib/actions/task-comment-actions";
 import { TaskDetail } from "@/components/tasks/task-detail";
+import { TaskComments } from "@/components/tasks/task-comments";
+import { ROLES } from "@/lib/constants/roles";
 
 export async function generateMetadata({
   params,
@@ -44,13 +47,30 @@ export default async function TaskDetailPage({
     notFound();
   }
 
+  const [activity, { comments }, { employees }] = await Promise.all([
+    getTaskActivity(task.id),
+    getTaskComments(task.id),
+    getMentionableEmployees(),
+  ]);
+
+  // Employees can only comment on tasks assigned to them
+  const canComment = session.user.role !== ROLES.EMPLOYEE || task.assignedTo?.user.id === session.user.id;
+
   return (
-    <div className="container p-6">
+    <div className="container p-6 space-y-6">
       <TaskDetail 
         task={task} 
+        activity={"error" in activity ? undefined : activity}
         userRole={session.user.role} 
         userId={session.user.id}
       />
+      <TaskComments
+        taskId={task.id}
+        comments={comments || []}
+        employees={employees || []}
+        userId={session.user.id}
+        canComment={canComment}
+      />
     </div>
   );
 }
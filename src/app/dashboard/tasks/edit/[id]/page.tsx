@@ -65,6 +65,16 @@ export default async function EditTaskPage({
     select: {
       id: true,
       name: true,
+      workflowStatuses: {
+        orderBy: {
+          order: "asc",
+        },
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
     },
   });
 
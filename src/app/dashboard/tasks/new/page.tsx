@@ -1,7 +1,7 @@
 import { Metadata } from "next";
 import { redirect } from "next/navigation";
 import { getCurrentSession } from "@/auth";
-import { hasPermission } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { TaskForm } from "@/components/tasks/task-form";
 
@@ -15,6 +15,7 @@ export default async function NewTaskPage({
 }: {
   searchParams?: {
     projectId?: string;
+    parentId?: string;
   };
 }) {
   // Get user session
@@ -25,13 +26,25 @@ export default async function NewTaskPage({
   }
 
   // Check if user has permission to create tasks
-  if (!hasPermission(session.user.role, "tasks", "create")) {
+  if (!(await checkPermission(session.user, "tasks", "create"))) {
     redirect("/dashboard");
   }
 
   // Get optional projectId from query params
   const projectId = searchParams?.projectId;
 
+  // A subtask is created under a parent task, in the parent's project
+  const parentTask = searchParams?.parentId
+    ? await prisma.task.findUnique({
+        where: { id: searchParams.parentId },
+        select: {
+          id: true,
+          title: true,
+          projectId: true,
+        },
+      })
+    : null;
+
   // Fetch all projects for the project dropdown
   const projects = await prisma.project.findMany({
     orderBy: {
@@ -40,15 +53,26 @@ export default async function NewTaskPage({
     select: {
       id: true,
       name: true,
+      workflowStatuses: {
+        orderBy: {
+          order: "asc",
+        },
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
     },
   });
 
   return (
     <div className="container max-w-4xl p-6 space-y-6">
-      <h1 className="text-3xl font-bold">Create New Task</h1>
+      <h1 className="text-3xl font-bold">{parentTask ? "Create New Subtask" : "Create New Task"}</h1>
       <TaskForm 
         projects={projects} 
-        defaultProjectId={projectId || ""} 
+        defaultProjectId={parentTask?.projectId || projectId || ""} 
+        parentTask={parentTask ?? undefined}
         userRole={session.user.role}
       />
     </div>
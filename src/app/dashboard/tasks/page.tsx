@@ -2,7 +2,7 @@ import { Metadata } from "next";
 import { getCurrentSession } from "@/auth";
 import { redirect } from "next/navigation";
 import { TaskList } from "@/components/tasks/task-list";
-import { getTasks } from "@/lib/actions/task-actions";
+import { getTasks, TaskDueFilter } from "@/lib/actions/task-actions";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { KanbanBoard } from "@/components/tasks/kanban-board";
@@ -22,6 +22,7 @@ export default async function TasksPage({
     status?: string;
     priority?: string;
     projectId?: string;
+    due?: string;
     sortBy?: string;
     sortDirection?: string;
     view?: string;
@@ -40,9 +41,11 @@ export default async function TasksPage({
   const status = searchParams?.status || "";
   const priority = searchParams?.priority || "";
   const projectId = searchParams?.projectId || "";
-  const sortBy = searchParams?.sortBy || "createdAt";
-  const sortDirection = searchParams?.sortDirection === "asc" ? "asc" : "desc";
+  const due = (searchParams?.due || "") as TaskDueFilter;
   const view = searchParams?.view || "list";
+  // The board always shows cards in their saved column order, grouped by project within each column
+  const sortBy = view === "kanban" ? "position" : searchParams?.sortBy || "createdAt";
+  const sortDirection = view === "kanban" || searchParams?.sortDirection === "asc" ? "asc" : "desc";
   
   // Fetch tasks for current page and filters
   const { tasks, pagination, error } = await getTasks({
@@ -52,6 +55,7 @@ export default async function TasksPage({
     status,
     priority, 
     projectId,
+    due,
     sortBy,
     sortDirection: sortDirection as "asc" | "desc",
   });
@@ -0,0 +1,122 @@
+import { Metadata } from "next";
+import { getCurrentSession } from "@/auth";
+import { checkPermission } from "@/lib/permissions";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getMyTimesheet, getTimesheetApprovals, getTimesheetReport } from "@/lib/actions/timesheet-actions";
+import { TimesheetGrid } from "@/components/timesheets/timesheet-grid";
+import { TimesheetApprovals } from "@/components/timesheets/timesheet-approvals";
+import { TimesheetReport } from "@/components/timesheets/timesheet-report";
+
+export const metadata: Metadata = {
+  title: "Timesheets | HR Management",
+  description: "Log hours against tasks and approve your team's weeks",
+};
+
+interface TimesheetsPageProps {
+  searchParams: {
+    tab?: string;
+    week?: string;
+  };
+}
+
+export default async function TimesheetsPage({ searchParams }: TimesheetsPageProps) {
+  // Get the current session
+  const session = await getCurrentSession();
+
+  if (!session?.user || !(await checkPermission(session.user, "timesheets", "read"))) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground">
+          You do not have permission to view timesheets.
+        </p>
+      </div>
+    );
+  }
+
+  const [mine, approvals] = await Promise.all([
+    getMyTimesheet(searchParams.week),
+    getTimesheetApprovals(),
+  ]);
+  const canReview = !!approvals.canReview;
+  // The report is only loaded for reviewers
+  const report = canReview ? await getTimesheetReport() : { projects: [] };
+
+  const error = mine.error || approvals.error || report.error;
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh]">
+        <h1 className="text-2xl font-bold">Error</h1>
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  const awaitingCount = approvals.timesheets?.length ?? 0;
+  const tab = canReview && ["approvals", "reports"].includes(searchParams.tab || "") ? searchParams.tab! : "mine";
+
+  return (
+    <div className="container p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Timesheets</h1>
+        <p className="text-muted-foreground">
+          Log your hours against tasks each week and submit them for approval
+        </p>
+      </div>
+
+      <Tabs defaultValue={tab} className="w-full">
+        <TabsList className="mb-4">
+          <TabsTrigger value="mine" asChild>
+            <a href="/dashboard/timesheets">My Timesheet</a>
+          </TabsTrigger>
+          {canReview && (
+            <>
+              <TabsTrigger value="approvals" asChild>
+                <a href="/dashboard/timesheets?tab=approvals">
+                  Approvals{awaitingCount > 0 && ` (${awaitingCount})`}
+                </a>
+              </TabsTrigger>
+              <TabsTrigger value="reports" asChild>
+                <a href="/dashboard/timesheets?tab=reports">Project Hours</a>
+              </TabsTrigger>
+            </>
+          )}
+        </TabsList>
+
+        <TabsContent value="mine">
+          {mine.employee && mine.weekStart ? (
+            <TimesheetGrid
+              // Reset the grid when the week or its saved hours change
+              key={`${mine.weekStart.toISOString()}-${mine.timesheet?.updatedAt.toISOString() ?? "new"}`}
+              weekStart={mine.weekStart}
+              timesheet={mine.timesheet ?? null}
+              tasks={mine.tasks ?? []}
+            />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>No employee record</CardTitle>
+                <CardDescription>
+                  Your account isn&apos;t linked to an employee record yet. Ask an administrator to create one.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+        </TabsContent>
+
+        {canReview && (
+          <>
+            <TabsContent value="approvals">
+              <TimesheetApprovals timesheets={approvals.timesheets ?? []} />
+            </TabsContent>
+            <TabsContent value="reports">
+              <TimesheetReport projects={report.projects ?? []} />
+            </TabsContent>
+          </>
+        )}
+      </Tabs>
+    </div>
+  );
+}
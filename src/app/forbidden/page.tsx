@@ -0,0 +1,44 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export const metadata: Metadata = {
+  title: 'Access Denied | HR Management',
+  description: 'You do not have permission to view this page',
+};
+
+export default function ForbiddenPage() {
+  return (
+    <div className="flex justify-center items-center min-h-[80vh] px-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="flex justify-center mb-2">
+            <ShieldAlert className="h-12 w-12 text-destructive" />
+          </div>
+          <CardTitle className="text-2xl">Access Denied</CardTitle>
+          <CardDescription>Error 403</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">
+            Your role doesn&apos;t have access to this page. If you think this is a mistake,
+            ask an administrator to update your role.
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Button asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
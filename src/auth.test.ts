@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JWT } from "next-auth/jwt";
+import { hashSync } from "bcryptjs";
+
+const { db, cookie } = vi.hoisted(() => ({
+  db: {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    role: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+  // The token stored in the session cookie at sign-in
+  cookie: { token: {} as JWT },
+}));
+
+vi.mock("next/cache", () => ({
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+// Resolve sessions the way NextAuth does for a JWT session: run the jwt callback on the
+// cookie's token, then the session callback, and treat a thrown error as signed out
+vi.mock("next-auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next-auth")>()),
+  getServerSession: async (options: import("next-auth").NextAuthOptions) => {
+    try {
+      const token = await options.callbacks!.jwt!({ token: cookie.token } as never);
+      return options.callbacks!.session!({ session: { user: {}, expires: "" }, token } as never);
+    } catch {
+      return null;
+    }
+  },
+}));
+
+import { authOptions, getCurrentSession } from "@/auth";
+import { POST } from "@/app/api/users/update-role/route";
+
+describe("jwt callback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    cookie.token = { sub: "admin-1", role: "ADMIN", customRole: null };
+    db.role.findMany.mockResolvedValue([
+      { key: "AUDITOR", permissions: [{ resource: "salaries", action: "read" }, { resource: "salaries", action: "create" }] },
+    ]);
+  });
+
+  it("copies the role from the signed-in user without a lookup", async () => {
+    const token = await authOptions.callbacks!.jwt!({
+      token: { sub: "user-1" },
+      user: { id: "user-1", role: "MANAGER", customRole: "AUDITOR" },
+    } as never);
+
+    expect(token).toMatchObject({ role: "MANAGER", customRole: "AUDITOR", permissions: ["salaries:read", "salaries:create"] });
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("reloads the role on later requests", async () => {
+    db.user.findUnique.mockResolvedValue({ role: "MANAGER", customRole: { key: "AUDITOR" } });
+
+    const session = await getCurrentSession();
+
+    expect(db.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: "admin-1" } }));
+    expect(session?.user).toMatchObject({
+      id: "admin-1",
+      role: "MANAGER",
+      customRole: "AUDITOR",
+      permissions: ["salaries:read", "salaries:create"],
+    });
+  });
+
+  it("rejects a demoted admin's next request", async () => {
+    db.user.findUnique.mockResolvedValue({ role: "MANAGER", customRole: null });
+
+    const response = await POST(
+      new Request("http://localhost/api/users/update-role", {
+        method: "POST",
+        body: JSON.stringify({ userId: "user-2", role: "ADMIN" }),
+      }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("carries the system role's permissions when no custom role is set", async () => {
+    db.user.findUnique.mockResolvedValue({ role: "EMPLOYEE", customRole: null, employee: { status: "ACTIVE" } });
+
+    const session = await getCurrentSession();
+
+    expect(session?.user.permissions).toContain("timesheets:create");
+    expect(session?.user.permissions).not.toContain("salaries:create");
+  });
+
+  it("ends the session of a deleted user", async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    await expect(getCurrentSession()).resolves.toBeNull();
+  });
+
+  it("ends the session of a terminated employee", async () => {
+    db.user.findUnique.mockResolvedValue({ role: "EMPLOYEE", customRole: null, employee: { status: "TERMINATED" } });
+
+    await expect(getCurrentSession()).resolves.toBeNull();
+  });
+});
+
+describe("credentials sign-in", () => {
+  const password = "correct horse";
+  const stored = { id: "user-1", email: "sam@example.com", name: "Sam", role: "EMPLOYEE", password: hashSync(password, 4), customRole: null };
+
+  // The authorize function passed to CredentialsProvider
+  function authorize(credentials: { email: string; password: string }) {
+    const provider = authOptions.providers[0] as unknown as { options: { authorize: (credentials: unknown) => unknown } };
+    return provider.options.authorize(credentials);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("signs in an active employee", async () => {
+    db.user.findUnique.mockResolvedValue({ ...stored, employee: { status: "ACTIVE" } });
+
+    await expect(authorize({ email: stored.email, password })).resolves.toMatchObject({ id: "user-1", role: "EMPLOYEE" });
+  });
+
+  it("refuses a terminated employee", async () => {
+    db.user.findUnique.mockResolvedValue({ ...stored, employee: { status: "TERMINATED" } });
+
+    await expect(authorize({ email: stored.email, password })).rejects.toThrow("This account has been deactivated");
+  });
+});
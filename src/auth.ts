@@ -3,6 +3,7 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { compare } from "bcryptjs";
 import { prisma } from "@/lib/prisma";
+import { getEffectivePermissions } from "@/lib/permissions";
 import { Role } from "./lib/constants/roles";
 declare module "next-auth" {
   interface Session {
@@ -12,10 +13,14 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       role: Role;
+      customRole?: string | null;
+      permissions: string[];
     }
   }
 }
 
+// Shown at sign-in, and ends the session, once an employee is terminated
+const TERMINATED_MESSAGE = "This account has been deactivated";
 
 export const authOptions: NextAuthOptions ={
   adapter: PrismaAdapter(prisma),
@@ -35,6 +40,14 @@ export const authOptions: NextAuthOptions ={
           where: {
             email: credentials.email as string,
           },
+          include: {
+            customRole: {
+              select: { key: true },
+            },
+            employee: {
+              select: { status: true },
+            },
+          },
         });
 
         if (!user || !user.password) {
@@ -47,11 +60,17 @@ export const authOptions: NextAuthOptions ={
           return null;
         }
 
+        // Offboarded employees lose access to the panel
+        if (user.employee?.status === "TERMINATED") {
+          throw new Error(TERMINATED_MESSAGE);
+        }
+
         return {
           id: user.id,
           email: user.email,
           name: user.name,
           role: user.role,
+          customRole: user.customRole?.key ?? null,
         };
       },
     }),
@@ -61,6 +80,8 @@ export const authOptions: NextAuthOptions ={
       if (token.sub && session.user) {
         session.user.id = token.sub;
         session.user.role = token.role as Role;
+        session.user.customRole = token.customRole ?? null;
+        session.user.permissions = token.permissions ?? [];
       }
       return session;
     },
@@ -68,7 +89,40 @@ export const authOptions: NextAuthOptions ={
       if (user) {
         token.id = user.id;
         token.role = user.role;
+        token.customRole = user.customRole ?? null;
+        token.permissions = await getEffectivePermissions({ role: user.role!, customRole: token.customRole });
+        return token;
       }
+
+      // Reload the role on every request so a promotion or demotion applies straight away,
+      // not at the user's next sign-in
+      const current = token.sub
+        ? await prisma.user.findUnique({
+            where: { id: token.sub },
+            select: {
+              role: true,
+              customRole: {
+                select: { key: true },
+              },
+              employee: {
+                select: { status: true },
+              },
+            },
+          })
+        : null;
+
+      if (!current) {
+        throw new Error("This account no longer exists");
+      }
+
+      // Terminating an employee ends their existing sessions too
+      if (current.employee?.status === "TERMINATED") {
+        throw new Error(TERMINATED_MESSAGE);
+      }
+
+      token.role = current.role;
+      token.customRole = current.customRole?.key ?? null;
+      token.permissions = await getEffectivePermissions({ role: current.role, customRole: token.customRole });
       return token;
     },
   },
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { AuditAction, AuditEntity } from '@prisma/client';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '@/lib/constants/audit';
+import { formatDate } from '@/lib/utils';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: Date;
+  actor: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  } | null;
+}
+
+interface AuditLogTableProps {
+  logs: AuditLogEntry[];
+  actors: { id: string; name: string | null; email: string | null }[];
+  pagination: {
+    total: number;
+    pages: number;
+    page: number;
+    limit: number;
+  };
+}
+
+// Sentinel for "no filter" since Select items cannot have an empty value
+const ALL = 'all';
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  CREATE: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+// Render a diff value compactly; objects and arrays fall back to JSON
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditLogTable({ logs, actors, pagination }: AuditLogTableProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [entityId, setEntityId] = useState(searchParams.get('entityId') || '');
+
+  // Push filters to the URL so the server page re-renders with them
+  const updateFilters = (params: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams.toString());
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value && value !== ALL) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+
+    // Any filter change other than paging starts from the first page
+    if (!('page' in params)) {
+      next.delete('page');
+    }
+
+    router.push(`${pathname}?${next.toString()}`);
+  };
+
+  const handleEntityIdSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ entityId: entityId.trim() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={searchParams.get('entityType') || ALL}
+          onValueChange={(value) => updateFilters({ entityType: value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Entity" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All entities</SelectItem>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={searchParams.get('action') || ALL}
+          onValueChange={(value) => updateFilters({ action: value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={searchParams.get('actorId') || ALL}
+          onValueChange={(value) => updateFilters({ actorId: value })}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Changed by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Anyone</SelectItem>
+            {actors.map((actor) => (
+              <SelectItem key={actor.id} value={actor.id}>
+                {actor.name || actor.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="w-[160px]"
+          aria-label="From date"
+          value={searchParams.get('from') || ''}
+          onChange={(e) => updateFilters({ from: e.target.value })}
+        />
+        <Input
+          type="date"
+          className="w-[160px]"
+          aria-label="To date"
+          value={searchParams.get('to') || ''}
+          onChange={(e) => updateFilters({ to: e.target.value })}
+        />
+        <form onSubmit={handleEntityIdSubmit} className="flex gap-2">
+          <Input
+            placeholder="Record ID"
+            className="w-[220px]"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            Filter
+          </Button>
+        </form>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[180px]">When</TableHead>
+              <TableHead>Changed by</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  No audit entries found
+                </TableCell>
+              </TableRow>
+            ) : (
+              logs.map((log) => (
+                <TableRow key={log.id} className="align-top">
+                  <TableCell className="whitespace-nowrap">{formatDate(log.createdAt, 'PP p')}</TableCell>
+                  <TableCell>
+                    {log.actor ? (
+                      <div>
+                        <div>{log.actor.name}</div>
+                        <div className="text-xs text-muted-foreground">{log.actor.email}</div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">Deleted user</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={ACTION_VARIANTS[log.action]}>{AUDIT_ACTION_LABELS[log.action]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div>{AUDIT_ENTITY_LABELS[log.entityType]}</div>
+                    <button
+                      type="button"
+                      className="text-xs text-muted-foreground hover:underline font-mono"
+                      onClick={() => {
+                        setEntityId(log.entityId);
+                        updateFilters({ entityType: log.entityType, entityId: log.entityId });
+                      }}
+                    >
+                      {log.entityId}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    <ul className="space-y-1 text-sm">
+                      {Object.entries(log.changes).map(([field, { from, to }]) => (
+                        <li key={field}>
+                          <span className="font-medium">{field}</span>:{' '}
+                          {log.action !== 'CREATE' && (
+                            <span className="text-muted-foreground line-through">{formatValue(from)}</span>
+                          )}
+                          {log.action === 'UPDATE' && ' → '}
+                          {log.action !== 'DELETE' && <span>{formatValue(to)}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {pagination.total} {pagination.total === 1 ? 'entry' : 'entries'}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.page <= 1}
+            onClick={() => updateFilters({ page: String(pagination.page - 1) })}
+          >
+            Previous
+          </Button>
+          <span className="text-sm">
+            Page {pagination.page} of {pagination.pages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.page >= pagination.pages}
+            onClick={() => updateFilters({ page: String(pagination.page + 1) })}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Plus, Trash } from 'lucide-react';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/constants/currencies';
+import { formatDate } from '@/lib/utils';
+import { createExchangeRate, deleteExchangeRate } from '@/lib/actions/exchange-rate-actions';
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+interface ExchangeRateManagerProps {
+  exchangeRates: ExchangeRate[];
+}
+
+const foreignCurrencies = Object.keys(CURRENCIES).filter((code) => code !== BASE_CURRENCY);
+
+export function ExchangeRateManager({ exchangeRates }: ExchangeRateManagerProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [currency, setCurrency] = useState(foreignCurrencies[0]);
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  // Rates are listed newest first per currency, so the first one already in effect is current
+  const now = new Date();
+  const currentRateIds = new Set<string>();
+  const seenCurrencies = new Set<string>();
+
+  for (const exchangeRate of exchangeRates) {
+    if (!seenCurrencies.has(exchangeRate.currency) && new Date(exchangeRate.effectiveDate) <= now) {
+      seenCurrencies.add(exchangeRate.currency);
+      currentRateIds.add(exchangeRate.id);
+    }
+  }
+
+  // Add a new rate
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!rate || Number(rate) <= 0) {
+      toast.error('Please enter a positive rate');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('currency', currency);
+      formData.append('rate', rate);
+      formData.append('effectiveDate', effectiveDate);
+
+      const result = await createExchangeRate(formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Exchange rate added successfully');
+        setIsDialogOpen(false);
+        setRate('');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Delete a rate
+  const handleDelete = async (id: string) => {
+    try {
+      const result = await deleteExchangeRate(id);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Exchange rate deleted successfully');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Rate
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Exchange Rate</DialogTitle>
+              <DialogDescription>
+                A rate applies from its effective date until the next rate for the same currency.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select value={currency} onValueChange={setCurrency} disabled={isSubmitting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {foreignCurrencies.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code} - {CURRENCIES[code]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exchangeRate">Value of 1 {currency} in {BASE_CURRENCY}</Label>
+                <Input
+                  id="exchangeRate"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="e.g. 1.08"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exchangeRateDate">Effective From</Label>
+                <Input
+                  id="exchangeRateDate"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="flex justify-end gap-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Adding...' : 'Add Rate'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Effective From</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {exchangeRates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8">
+                  No exchange rates yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              exchangeRates.map((exchangeRate) => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell>
+                    <div className="font-medium">{exchangeRate.currency}</div>
+                    <div className="text-xs text-muted-foreground">{CURRENCIES[exchangeRate.currency]}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    1 {exchangeRate.currency} = {exchangeRate.rate} {BASE_CURRENCY}
+                  </TableCell>
+                  <TableCell>
+                    {formatDate(exchangeRate.effectiveDate)}
+                    {currentRateIds.has(exchangeRate.id) && (
+                      <Badge variant="outline" className="ml-2">Current</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Exchange Rate</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this {exchangeRate.currency} rate? Totals for the
+                            period it covered will use the previous rate instead.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(exchangeRate.id)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useRouter } from 'next/navigation';
+import { Edit, Plus, Trash } from 'lucide-react';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  createDepartment,
+  createPosition,
+  deleteDepartment,
+  deletePosition,
+  updateDepartment,
+  updatePosition,
+} from '@/lib/actions/org-actions';
+
+interface OrgUnit {
+  id: string;
+  name: string;
+  description?: string | null;
+  _count: { employees: number };
+}
+
+interface OrgUnitSectionProps {
+  title: string;
+  noun: string;
+  description: string;
+  units: OrgUnit[];
+  withDescription: boolean;
+  onCreate: (formData: FormData) => Promise<{ error?: string }>;
+  onUpdate: (id: string, formData: FormData) => Promise<{ error?: string }>;
+  onDelete: (id: string) => Promise<{ error?: string }>;
+}
+
+// Table of departments or positions with a shared create and edit dialog
+function OrgUnitSection({
+  title,
+  noun,
+  description,
+  units,
+  withDescription,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: OrgUnitSectionProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<OrgUnit | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [details, setDetails] = useState('');
+
+  // Open the dialog empty for a new unit or filled in for an existing one
+  const openDialog = (unit: OrgUnit | null) => {
+    setEditing(unit);
+    setName(unit?.name ?? '');
+    setDetails(unit?.description ?? '');
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Please enter a name');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('name', name);
+
+      if (withDescription) {
+        formData.append('description', details);
+      }
+
+      const result = editing ? await onUpdate(editing.id, formData) : await onCreate(formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`${noun} ${editing ? 'updated' : 'created'} successfully`);
+        setIsDialogOpen(false);
+        router.refresh();
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const result = await onDelete(id);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`${noun} deleted successfully`);
+        router.refresh();
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New {noun}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                {withDescription && <TableHead>Description</TableHead>}
+                <TableHead className="text-right">Employees</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {units.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={withDescription ? 4 : 3} className="text-center py-8">
+                    No {title.toLowerCase()} yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                units.map((unit) => (
+                  <TableRow key={unit.id}>
+                    <TableCell className="font-medium">{unit.name}</TableCell>
+                    {withDescription && (
+                      <TableCell className="text-muted-foreground">{unit.description || '—'}</TableCell>
+                    )}
+                    <TableCell className="text-right">{unit._count.employees}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(unit)}>
+                        <Edit className="h-4 w-4" />
+                        <span className="sr-only">Edit {unit.name}</span>
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" disabled={unit._count.employees > 0}>
+                            <Trash className="h-4 w-4" />
+                            <span className="sr-only">Delete {unit.name}</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {noun}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete {unit.name}? This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(unit.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${noun}` : `New ${noun}`}</DialogTitle>
+            <DialogDescription>
+              Names are unique, ignoring case. Renaming updates every employee in the {noun.toLowerCase()}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${noun}-name`}>Name</Label>
+              <Input
+                id={`${noun}-name`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            {withDescription && (
+              <div className="space-y-2">
+                <Label htmlFor={`${noun}-description`}>Description</Label>
+                <Textarea
+                  id={`${noun}-description`}
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : `Save ${noun}`}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface OrgStructureManagerProps {
+  departments: OrgUnit[];
+  positions: OrgUnit[];
+}
+
+export function OrgStructureManager({ departments, positions }: OrgStructureManagerProps) {
+  return (
+    <div className="space-y-6">
+      <OrgUnitSection
+        title="Departments"
+        noun="Department"
+        description="Departments employees can belong to"
+        units={departments}
+        withDescription
+        onCreate={createDepartment}
+        onUpdate={updateDepartment}
+        onDelete={deleteDepartment}
+      />
+      <OrgUnitSection
+        title="Positions"
+        noun="Position"
+        description="Job titles employees can hold"
+        units={positions}
+        withDescription={false}
+        onCreate={createPosition}
+        onUpdate={updatePosition}
+        onDelete={deletePosition}
+      />
+    </div>
+  );
+}
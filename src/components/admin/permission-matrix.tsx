@@ -0,0 +1,311 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useRouter } from 'next/navigation';
+import { Lock, Plus, Trash } from 'lucide-react';
+import { Action, ACTIONS, Resource, RESOURCES, ROLES } from '@/lib/constants/roles';
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  createCustomRole,
+  deleteCustomRole,
+  setRolePermission,
+} from '@/lib/actions/permission-actions';
+
+interface RoleWithPermissions {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  permissions: { resource: string; action: string }[];
+  _count: { users: number };
+}
+
+interface PermissionMatrixProps {
+  roles: RoleWithPermissions[];
+}
+
+// Key used to track a single cell of the matrix
+const cellKey = (roleId: string, resource: string, action: string) => `${roleId}:${resource}:${action}`;
+
+export function PermissionMatrix({ roles }: PermissionMatrixProps) {
+  const router = useRouter();
+  const [granted, setGranted] = useState<Set<string>>(
+    () =>
+      new Set(
+        roles.flatMap((role) =>
+          role.permissions.map((permission) => cellKey(role.id, permission.resource, permission.action)),
+        ),
+      ),
+  );
+  const [pendingCell, setPendingCell] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [newRoleDescription, setNewRoleDescription] = useState('');
+
+  // Toggle a single permission with an optimistic update
+  const handleToggle = async (roleId: string, resource: Resource, action: Action, value: boolean) => {
+    const key = cellKey(roleId, resource, action);
+    const previous = new Set(granted);
+    const next = new Set(granted);
+
+    if (value) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+
+    setGranted(next);
+    setPendingCell(key);
+
+    try {
+      const result = await setRolePermission(roleId, resource, action, value);
+
+      if (result.error) {
+        toast.error(result.error);
+        setGranted(previous);
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+      setGranted(previous);
+    } finally {
+      setPendingCell(null);
+    }
+  };
+
+  // Create a new custom role
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newRoleName.trim()) {
+      toast.error('Please enter a role name');
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('name', newRoleName);
+      formData.append('description', newRoleDescription);
+
+      const result = await createCustomRole(formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Role created successfully');
+        setIsDialogOpen(false);
+        setNewRoleName('');
+        setNewRoleDescription('');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Delete a custom role
+  const handleDeleteRole = async (roleId: string) => {
+    try {
+      const result = await deleteCustomRole(roleId);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Role deleted successfully');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Custom Role
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Custom Role</DialogTitle>
+              <DialogDescription>
+                Custom roles start without any permissions. Assign them to users from User Role Management.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreateRole} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="roleName">Name</Label>
+                <Input
+                  id="roleName"
+                  placeholder="e.g. Payroll Officer"
+                  value={newRoleName}
+                  onChange={(e) => setNewRoleName(e.target.value)}
+                  disabled={isCreating}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roleDescription">Description</Label>
+                <Textarea
+                  id="roleDescription"
+                  placeholder="What is this role responsible for?"
+                  value={newRoleDescription}
+                  onChange={(e) => setNewRoleDescription(e.target.value)}
+                  disabled={isCreating}
+                />
+              </div>
+              <div className="flex justify-end gap-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  disabled={isCreating}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isCreating}>
+                  {isCreating ? 'Creating...' : 'Create Role'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {roles.map((role) => {
+        const isLocked = role.key === ROLES.ADMIN;
+
+        return (
+          <Card key={role.id}>
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {role.name}
+                  <Badge variant="outline">{role.isSystem ? 'System' : 'Custom'}</Badge>
+                  {isLocked && <Lock className="h-4 w-4 text-muted-foreground" />}
+                </CardTitle>
+                <CardDescription>
+                  {role.description || (isLocked ? 'Administrators always have full access' : 'No description')}
+                  {!role.isSystem && ` · ${role._count.users} ${role._count.users === 1 ? 'user' : 'users'}`}
+                </CardDescription>
+              </div>
+              {!role.isSystem && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon">
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Role</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Are you sure you want to delete the {role.name} role?
+                        Users holding it will fall back to their system role permissions.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDeleteRole(role.id)}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Resource</TableHead>
+                      {ACTIONS.map((action) => (
+                        <TableHead key={action} className="text-center capitalize">
+                          {action}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {RESOURCES.map((resource) => (
+                      <TableRow key={resource}>
+                        <TableCell className="font-medium capitalize">{resource}</TableCell>
+                        {ACTIONS.map((action) => {
+                          const key = cellKey(role.id, resource, action);
+
+                          return (
+                            <TableCell key={action} className="text-center">
+                              <Checkbox
+                                checked={granted.has(key)}
+                                onCheckedChange={(value) => handleToggle(role.id, resource, action, value === true)}
+                                disabled={isLocked || pendingCell === key}
+                                aria-label={`${role.name} ${action} ${resource}`}
+                              />
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
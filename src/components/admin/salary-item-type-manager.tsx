@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash } from 'lucide-react';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  createSalaryItemType,
+  deleteSalaryItemType,
+  updateSalaryItemType,
+} from '@/lib/actions/salary-item-actions';
+
+interface SalaryItemType {
+  id: string;
+  name: string;
+  kind: 'BONUS' | 'DEDUCTION';
+  taxable: boolean;
+  isActive: boolean;
+  _count: { items: number };
+}
+
+interface SalaryItemTypeManagerProps {
+  itemTypes: SalaryItemType[];
+}
+
+export function SalaryItemTypeManager({ itemTypes }: SalaryItemTypeManagerProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<'BONUS' | 'DEDUCTION'>('BONUS');
+  const [taxable, setTaxable] = useState(false);
+
+  // Create a new item type
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Please enter a name');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('name', name);
+      formData.append('kind', kind);
+      formData.append('taxable', String(taxable));
+
+      const result = await createSalaryItemType(formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Salary item type created successfully');
+        setIsDialogOpen(false);
+        setName('');
+        setKind('BONUS');
+        setTaxable(false);
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Toggle the taxable or active flag
+  const handleUpdate = async (id: string, data: { taxable?: boolean; isActive?: boolean }) => {
+    try {
+      const result = await updateSalaryItemType(id, data);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    }
+  };
+
+  // Delete an item type
+  const handleDelete = async (id: string) => {
+    try {
+      const result = await deleteSalaryItemType(id);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Salary item type deleted successfully');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Item Type
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Salary Item Type</DialogTitle>
+              <DialogDescription>
+                Item types appear as presets when adding bonus or deduction lines to a salary month.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="itemTypeName">Name</Label>
+                <Input
+                  id="itemTypeName"
+                  placeholder="e.g. Overtime"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select
+                  value={kind}
+                  onValueChange={(value) => setKind(value as 'BONUS' | 'DEDUCTION')}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="BONUS">Bonus</SelectItem>
+                    <SelectItem value="DEDUCTION">Deduction</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="itemTypeTaxable"
+                  checked={taxable}
+                  onCheckedChange={(value) => setTaxable(value === true)}
+                  disabled={isSubmitting}
+                />
+                <Label htmlFor="itemTypeTaxable">Taxable</Label>
+              </div>
+              <div className="flex justify-end gap-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Creating...' : 'Create Item Type'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead className="text-center">Taxable</TableHead>
+              <TableHead className="text-center">Active</TableHead>
+              <TableHead className="text-right">Used</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {itemTypes.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  No salary item types yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              itemTypes.map((itemType) => (
+                <TableRow key={itemType.id}>
+                  <TableCell className="font-medium">{itemType.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={itemType.kind === 'BONUS' ? 'default' : 'secondary'}>
+                      {itemType.kind === 'BONUS' ? 'Bonus' : 'Deduction'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Checkbox
+                      checked={itemType.taxable}
+                      onCheckedChange={(value) => handleUpdate(itemType.id, { taxable: value === true })}
+                      aria-label={`${itemType.name} taxable`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={itemType.isActive}
+                      onCheckedChange={(value) => handleUpdate(itemType.id, { isActive: value })}
+                      aria-label={`${itemType.name} active`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{itemType._count.items}</TableCell>
+                  <TableCell className="text-right">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Item Type</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete {itemType.name}? Existing salary lines keep
+                            their label and amount. Deactivate the type instead to hide it from new entries.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(itemType.id)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
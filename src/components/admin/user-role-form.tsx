@@ -29,16 +29,27 @@ interface User {
   name: string | null;
   email: string | null;
   role: Role;
+  customRoleId: string | null;
+}
+
+interface CustomRole {
+  id: string;
+  name: string;
 }
 
 interface UserRoleFormProps {
   users: User[];
+  customRoles?: CustomRole[];
 }
 
-export function UserRoleForm({ users }: UserRoleFormProps) {
+// Select values can't be empty strings, so "no custom role" gets a sentinel
+const NO_CUSTOM_ROLE = 'none';
+
+export function UserRoleForm({ users, customRoles = [] }: UserRoleFormProps) {
   const router = useRouter();
   const [selectedUserId, setSelectedUserId] = useState<string>('');
   const [selectedRole, setSelectedRole] = useState<Role | ''>('');
+  const [selectedCustomRoleId, setSelectedCustomRoleId] = useState<string>(NO_CUSTOM_ROLE);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   
@@ -57,6 +68,7 @@ export function UserRoleForm({ users }: UserRoleFormProps) {
     const user = users.find(u => u.id === userId);
     setSelectedUserId(userId);
     setSelectedRole(user?.role || '');
+    setSelectedCustomRoleId(user?.customRoleId || NO_CUSTOM_ROLE);
   };
   
   // Update role
@@ -71,7 +83,11 @@ export function UserRoleForm({ users }: UserRoleFormProps) {
     setIsLoading(true);
     
     try {
-      const result = await updateUserRole(selectedUserId, selectedRole as Role);
+      const result = await updateUserRole(
+        selectedUserId,
+        selectedRole as Role,
+        selectedCustomRoleId === NO_CUSTOM_ROLE ? null : selectedCustomRoleId,
+      );
       
       if (result.error) {
         toast.error(result.error);
@@ -151,6 +167,32 @@ export function UserRoleForm({ users }: UserRoleFormProps) {
             </Select>
           </div>
           
+          {customRoles.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="customRole">Custom Role</Label>
+              <Select 
+                value={selectedCustomRoleId} 
+                onValueChange={setSelectedCustomRoleId}
+                disabled={!selectedUserId || isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a custom role" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOM_ROLE}>None (use role permissions)</SelectItem>
+                  {customRoles.map((customRole) => (
+                    <SelectItem key={customRole.id} value={customRole.id}>
+                      {customRole.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                A custom role replaces the permissions of the role above. Changes apply on the user&apos;s next sign-in.
+              </p>
+            </div>
+          )}
+          
           <Button 
             type="submit" 
             className="w-full"
@@ -3,12 +3,16 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Menu, LayoutDashboard, Users, Settings, LogOut, Folders, CheckSquare } from "lucide-react";
+import { Menu, LayoutDashboard, Users, Settings, LogOut, Folders, CheckSquare, Wallet, CalendarDays, Clock } from "lucide-react";
 import { SidebarNavItem } from "./sidebar";
-import { signOut } from "next-auth/react";
+import { signOut, useSession } from "next-auth/react";
 
 export function MobileSidebar() {
   const [open, setOpen] = useState(false);
+  const { data: session } = useSession();
+
+  // Payroll is only offered to users who can open it (see PROTECTED_ROUTES)
+  const canManagePayroll = !!session?.user.permissions?.includes("salaries:create");
 
   return (
     <Sheet
@@ -48,6 +52,23 @@ export function MobileSidebar() {
                     icon={<Users className="h-4 w-4" />}
                     title="Employees"
                   />
+                  {canManagePayroll && (
+                    <SidebarNavItem
+                      href="/dashboard/payroll"
+                      icon={<Wallet className="h-4 w-4" />}
+                      title="Payroll"
+                    />
+                  )}
+                  <SidebarNavItem
+                    href="/dashboard/leave"
+                    icon={<CalendarDays className="h-4 w-4" />}
+                    title="Leave"
+                  />
+                  <SidebarNavItem
+                    href="/dashboard/timesheets"
+                    icon={<Clock className="h-4 w-4" />}
+                    title="Timesheets"
+                  />
                   <SidebarNavItem
                     href="/dashboard/projects"
                     icon={<Folders className="h-4 w-4" />}
@@ -0,0 +1,103 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+const departmentChartConfig = {
+  count: {
+    label: 'Employees',
+    color: 'var(--chart-2)',
+  },
+} satisfies ChartConfig;
+
+const taskStatusChartConfig = {
+  count: { label: 'Tasks' },
+  TODO: { label: 'To Do', color: 'var(--chart-3)' },
+  IN_PROGRESS: { label: 'In Progress', color: 'var(--chart-1)' },
+  REVIEW: { label: 'Review', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const projectStatusChartConfig = {
+  count: { label: 'Projects' },
+  PLANNING: { label: 'Planning', color: 'var(--chart-3)' },
+  IN_PROGRESS: { label: 'In Progress', color: 'var(--chart-1)' },
+  ON_HOLD: { label: 'On Hold', color: 'var(--chart-4)' },
+  COMPLETED: { label: 'Completed', color: 'var(--chart-2)' },
+  CANCELLED: { label: 'Cancelled', color: 'var(--chart-5)' },
+} satisfies ChartConfig;
+
+interface StatusCount {
+  key: string;
+  count: number;
+}
+
+export function HeadcountByDepartmentChart({ data }: { data: { department: string; count: number }[] }) {
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No employees yet</p>;
+  }
+
+  return (
+    <ChartContainer config={departmentChartConfig} className="h-[250px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis dataKey="department" type="category" tickLine={false} axisLine={false} width={90} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export function TaskStatusChart({ data }: { data: StatusCount[] }) {
+  return (
+    <ChartContainer config={taskStatusChartConfig} className="h-[250px] w-full">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="key"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(key: keyof typeof taskStatusChartConfig) => String(taskStatusChartConfig[key]?.label ?? key)}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+        <Bar dataKey="count" radius={4}>
+          {data.map((entry) => (
+            <Cell key={entry.key} fill={`var(--color-${entry.key})`} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export function ProjectStatusChart({ data }: { data: StatusCount[] }) {
+  const projects = data.filter((entry) => entry.count > 0);
+
+  if (projects.length === 0) {
+    return <p className="text-sm text-muted-foreground">No projects yet</p>;
+  }
+
+  return (
+    <ChartContainer config={projectStatusChartConfig} className="h-[250px] w-full">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+        <Pie data={projects} dataKey="count" nameKey="key" innerRadius={50}>
+          {projects.map((entry) => (
+            <Cell key={entry.key} fill={`var(--color-${entry.key})`} />
+          ))}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+      </PieChart>
+    </ChartContainer>
+  );
+}
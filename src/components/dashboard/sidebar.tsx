@@ -3,9 +3,9 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, Users, Settings, LogOut, Folders, CheckSquare } from "lucide-react";
+import { LayoutDashboard, Users, Settings, LogOut, Folders, CheckSquare, Wallet, CalendarDays, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { signOut } from "next-auth/react";
+import { signOut, useSession } from "next-auth/react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface SidebarNavItemProps {
@@ -33,6 +33,11 @@ export function SidebarNavItem({ href, icon, title }: SidebarNavItemProps) {
 }
 
 export function DashboardSidebar() {
+  const { data: session } = useSession();
+
+  // Payroll is only offered to users who can open it (see PROTECTED_ROUTES)
+  const canManagePayroll = !!session?.user.permissions?.includes("salaries:create");
+
   return (
     <div className="hidden w-64 border-r bg-background lg:block">
       <div className="flex h-full max-h-screen flex-col">
@@ -50,6 +55,26 @@ export function DashboardSidebar() {
               title="Employees"
             />
 
+            {canManagePayroll && (
+              <SidebarNavItem
+                href="/dashboard/payroll"
+                icon={<Wallet className="h-4 w-4" />}
+                title="Payroll"
+              />
+            )}
+
+            <SidebarNavItem
+              href="/dashboard/leave"
+              icon={<CalendarDays className="h-4 w-4" />}
+              title="Leave"
+            />
+
+            <SidebarNavItem
+              href="/dashboard/timesheets"
+              icon={<Clock className="h-4 w-4" />}
+              title="Timesheets"
+            />
+
             <SidebarNavItem
               href="/dashboard/projects"
               icon={<Folders className="h-4 w-4" />}
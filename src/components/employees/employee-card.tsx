@@ -2,8 +2,10 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Edit, Trash } from 'lucide-react';
+import Link from 'next/link';
+import { Edit, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { EmploymentStatus } from '@prisma/client';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,15 +23,25 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-import { formatDate } from '@/lib/utils';
-import { deleteEmployee } from '@/lib/actions/employee-actions';
+import { EmploymentStatusBadge } from '@/components/employees/employment-status-badge';
+import { TerminateEmployeeDialog } from '@/components/employees/terminate-employee-dialog';
+import { formatCalendarDay, formatDate } from '@/lib/utils';
+import { reinstateEmployee, setEmploymentStatus } from '@/lib/actions/employee-lifecycle-actions';
 
 interface EmployeeCardProps {
   employee: {
     id: string;
     joinDate: Date;
-    position: string;
-    department: string;
+    status: EmploymentStatus;
+    terminationDate: Date | null;
+    terminationReason: string | null;
+    position: { name: string };
+    department: { name: string };
+    manager: {
+      id: string;
+      user: { name: string | null };
+    } | null;
+    currency: string;
     user: {
       id: string;
       name: string | null;
@@ -38,16 +50,19 @@ interface EmployeeCardProps {
     };
   };
   canEdit: boolean;
-  canDelete: boolean;
+  canChangeStatus: boolean;
+  canTerminate: boolean;
 }
 
 export function EmployeeCard({
   employee,
   canEdit,
-  canDelete,
+  canChangeStatus,
+  canTerminate,
 }: EmployeeCardProps) {
   const router = useRouter();
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const isTerminated = employee.status === 'TERMINATED';
   
   // Get initials for avatar fallback
   const getInitials = (name: string | null) => {
@@ -60,24 +75,23 @@ export function EmployeeCard({
       .substring(0, 2);
   };
   
-  // Handle delete
-  async function handleDelete() {
+  // Run a status change, refreshing the page when it succeeds
+  async function runStatusChange(action: () => Promise<{ error?: string }>, message: string) {
     try {
-      setIsDeleting(true);
-      const result = await deleteEmployee(employee.id);
+      setIsUpdating(true);
+      const result = await action();
       
       if (result.error) {
         toast.error(result.error);
       } else {
-        toast.success('Employee deleted successfully');
-        router.push('/dashboard/employees');
+        toast.success(message);
         router.refresh();
       }
     } catch (error) {
       toast.error('An unexpected error occurred');
       console.error(error);
     } finally {
-      setIsDeleting(false);
+      setIsUpdating(false);
     }
   }
   
@@ -90,8 +104,9 @@ export function EmployeeCard({
         </Avatar>
         <div className="flex-1">
           <CardTitle className="text-2xl">{employee.user.name}</CardTitle>
-          <CardDescription className="text-base">{employee.position}</CardDescription>
+          <CardDescription className="text-base">{employee.position.name}</CardDescription>
         </div>
+        <EmploymentStatusBadge status={employee.status} />
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-2 gap-4">
@@ -101,22 +116,48 @@ export function EmployeeCard({
           </div>
           <div>
             <h4 className="text-sm font-medium text-muted-foreground">Department</h4>
-            <p>{employee.department}</p>
+            <p>{employee.department.name}</p>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Manager</h4>
+            {employee.manager ? (
+              <Link href={`/dashboard/employees/${employee.manager.id}`} className="hover:underline">
+                {employee.manager.user.name || 'Unnamed'}
+              </Link>
+            ) : (
+              <p className="text-muted-foreground">None</p>
+            )}
           </div>
           <div>
             <h4 className="text-sm font-medium text-muted-foreground">Join Date</h4>
             <p>{formatDate(employee.joinDate.toISOString())}</p>
           </div>
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Pay Currency</h4>
+            <p>{employee.currency}</p>
+          </div>
           <div>
             <h4 className="text-sm font-medium text-muted-foreground">Employee ID</h4>
             <p className="font-mono text-sm">{employee.id}</p>
           </div>
+          {isTerminated && (
+            <>
+              <div>
+                <h4 className="text-sm font-medium text-muted-foreground">Last Day</h4>
+                <p>{employee.terminationDate ? formatCalendarDay(employee.terminationDate) : '—'}</p>
+              </div>
+              <div className="col-span-2">
+                <h4 className="text-sm font-medium text-muted-foreground">Termination Reason</h4>
+                <p className="whitespace-pre-wrap">{employee.terminationReason}</p>
+              </div>
+            </>
+          )}
         </div>
       </CardContent>
-      {(canEdit || canDelete) && (
+      {(canEdit || canChangeStatus || canTerminate) && (
         <>
           <Separator />
-          <CardFooter className="flex justify-end gap-2 pt-4">
+          <CardFooter className="flex flex-wrap justify-end gap-2 pt-4">
             {canEdit && (
               <Button
                 variant="outline"
@@ -127,27 +168,45 @@ export function EmployeeCard({
                 Edit
               </Button>
             )}
-            {canDelete && (
+            {canChangeStatus && !isTerminated && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() =>
+                  employee.status === 'ON_LEAVE'
+                    ? runStatusChange(() => setEmploymentStatus(employee.id, 'ACTIVE'), 'Employee marked as active')
+                    : runStatusChange(() => setEmploymentStatus(employee.id, 'ON_LEAVE'), 'Employee marked as on leave')
+                }
+              >
+                {employee.status === 'ON_LEAVE' ? 'Mark Active' : 'Mark On Leave'}
+              </Button>
+            )}
+            {canTerminate && !isTerminated && (
+              <TerminateEmployeeDialog employeeId={employee.id} employeeName={employee.user.name} />
+            )}
+            {canTerminate && isTerminated && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
-                  <Button variant="destructive" size="sm" disabled={isDeleting}>
-                    <Trash className="mr-2 h-4 w-4" />
-                    {isDeleting ? 'Deleting...' : 'Delete'}
+                  <Button variant="outline" size="sm" disabled={isUpdating}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Reinstate
                   </Button>
                 </AlertDialogTrigger>
                 <AlertDialogContent>
                   <AlertDialogHeader>
-                    <AlertDialogTitle>Delete Employee Record</AlertDialogTitle>
+                    <AlertDialogTitle>Reinstate Employee</AlertDialogTitle>
                     <AlertDialogDescription>
-                      Are you sure you want to delete this employee record?
-                      This will delete all associated data, including salary history.
-                      This action cannot be undone.
+                      Make this employee active again? Their termination date and reason will be cleared.
+                      Reporting lines changed at termination are not restored.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
                     <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction onClick={handleDelete}>
-                      Delete
+                    <AlertDialogAction
+                      onClick={() => runStatusChange(() => reinstateEmployee(employee.id), 'Employee reinstated')}
+                    >
+                      Reinstate
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
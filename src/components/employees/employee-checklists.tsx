@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LifecycleChecklist } from "@prisma/client";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  addEmployeeChecklistItem,
+  deleteEmployeeChecklistItem,
+  startEmployeeChecklist,
+  toggleEmployeeChecklistItem,
+} from "@/lib/actions/employee-lifecycle-actions";
+import { LIFECYCLE_CHECKLIST_LABELS } from "@/lib/constants/employees";
+import { cn, formatDate } from "@/lib/utils";
+
+interface ChecklistItem {
+  id: string;
+  kind: LifecycleChecklist;
+  text: string;
+  completed: boolean;
+  completedAt: Date | null;
+  completedBy: { name: string | null } | null;
+}
+
+interface EmployeeChecklistsProps {
+  employeeId: string;
+  items: ChecklistItem[];
+  // Offboarding is only shown once it has been started, normally at termination
+  isTerminated: boolean;
+  canEdit: boolean;
+}
+
+// One checklist with progress, tick boxes and an input for extra steps
+function ChecklistCard({
+  employeeId,
+  kind,
+  items,
+  canEdit,
+}: {
+  employeeId: string;
+  kind: LifecycleChecklist;
+  items: ChecklistItem[];
+  canEdit: boolean;
+}) {
+  const router = useRouter();
+  const [newItem, setNewItem] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const completedCount = items.filter((item) => item.completed).length;
+
+  // Run a checklist change, refreshing the list when it succeeds
+  const runAction = async (id: string, action: () => Promise<{ error?: string }>) => {
+    setPendingId(id);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+
+    try {
+      const result = await addEmployeeChecklistItem(employeeId, kind, newItem);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setNewItem("");
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{LIFECYCLE_CHECKLIST_LABELS[kind]}</CardTitle>
+          {items.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {completedCount}/{items.length} done
+            </span>
+          )}
+        </div>
+        {items.length > 0 && <Progress value={(completedCount / items.length) * 100} />}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.length === 0 ? (
+          canEdit ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pendingId === kind}
+              onClick={() => runAction(kind, () => startEmployeeChecklist(employeeId, kind))}
+            >
+              {pendingId === kind && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start {LIFECYCLE_CHECKLIST_LABELS[kind]} Checklist
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">Not started</p>
+          )
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => (
+              <li key={item.id} className="group flex items-center gap-2">
+                <Checkbox
+                  checked={item.completed}
+                  disabled={!canEdit || pendingId === item.id}
+                  onCheckedChange={(checked) =>
+                    runAction(item.id, () => toggleEmployeeChecklistItem(item.id, checked === true))
+                  }
+                  aria-label={`Mark "${item.text}" as ${item.completed ? "not done" : "done"}`}
+                />
+                <div className="flex-1">
+                  <span className={cn("text-sm", item.completed && "line-through text-muted-foreground")}>
+                    {item.text}
+                  </span>
+                  {item.completed && item.completedAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Done {formatDate(item.completedAt)}
+                      {item.completedBy?.name ? ` by ${item.completedBy.name}` : ""}
+                    </div>
+                  )}
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    disabled={pendingId === item.id}
+                    onClick={() => runAction(item.id, () => deleteEmployeeChecklistItem(item.id))}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Remove step</span>
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && items.length > 0 && (
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <Input
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder="Add a step"
+              className="h-8"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={isAdding || !newItem.trim()}>
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              <span className="sr-only">Add step</span>
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function EmployeeChecklists({ employeeId, items, isTerminated, canEdit }: EmployeeChecklistsProps) {
+  const offboarding = items.filter((item) => item.kind === "OFFBOARDING");
+
+  return (
+    <div className="space-y-4">
+      {(isTerminated || offboarding.length > 0) && (
+        <ChecklistCard employeeId={employeeId} kind="OFFBOARDING" items={offboarding} canEdit={canEdit} />
+      )}
+      <ChecklistCard
+        employeeId={employeeId}
+        kind="ONBOARDING"
+        items={items.filter((item) => item.kind === "ONBOARDING")}
+        canEdit={canEdit}
+      />
+    </div>
+  );
+}
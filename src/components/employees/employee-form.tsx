@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import * as z from 'zod';
 
@@ -18,6 +18,8 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Select,
@@ -32,24 +34,83 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { format } from 'date-fns';
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Plus, Trash2 } from 'lucide-react';
+import type { ContractType } from '@prisma/client';
 import { cn } from '@/lib/utils';
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/constants/currencies';
+import {
+  ALL_FIELD_GROUPS,
+  CONTRACT_TYPE_LABELS,
+  EMPLOYEE_FIELD_GROUPS,
+  type EmployeeFieldGroup,
+} from '@/lib/constants/employees';
 import { createEmployee, updateEmployee } from '@/lib/actions/employee-actions';
 
-// Define the form schema
-const employeeFormSchema = z.object({
-  userId: z.string().min(1, 'User is required'),
-  position: z.string().min(1, 'Position is required'),
-  department: z.string().min(1, 'Department is required'),
-  joinDate: z.date({
-    required_error: 'Join date is required',
-  }),
-  baseSalary: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: 'Base salary must be a positive number',
-  }),
+const MAX_EMERGENCY_CONTACTS = 5;
+
+// Select items can't have an empty value, so "no contract" uses a placeholder
+const NO_CONTRACT = 'none';
+
+const emergencyContactSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'Name is required'),
+  relationship: z.string().trim().min(1, 'Relationship is required'),
+  phone: z.string().trim().min(1, 'Phone is required'),
+  email: z.union([z.string().trim().email('Enter a valid email'), z.literal('')]),
 });
 
-type EmployeeFormValues = z.infer<typeof employeeFormSchema>;
+// Define the form schema; the base salary is only set when creating an employee
+const createEmployeeFormSchema = (isNew: boolean) =>
+  z
+    .object({
+      userId: z.string().min(1, 'User is required'),
+      positionId: z.string().min(1, 'Position is required'),
+      departmentId: z.string().min(1, 'Department is required'),
+      managerId: z.string(),
+      currency: z.string().min(1, 'Currency is required'),
+      joinDate: z.date({
+        required_error: 'Join date is required',
+      }),
+      baseSalary: isNew
+        ? z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
+            message: 'Base salary must be a positive number',
+          })
+        : z.string(),
+      phone: z.string(),
+      address: z.string(),
+      dateOfBirth: z.string(),
+      emergencyContacts: z.array(emergencyContactSchema).max(MAX_EMERGENCY_CONTACTS),
+      bankName: z.string(),
+      bankAccountName: z.string(),
+      bankAccountNumber: z.string(),
+      bankRoutingNumber: z.string(),
+      contractType: z.string(),
+      contractStartDate: z.string(),
+      contractEndDate: z.string(),
+      contractNotes: z.string(),
+    })
+    .superRefine((values, ctx) => {
+      if (values.contractType === NO_CONTRACT) {
+        return;
+      }
+
+      if (!values.contractStartDate) {
+        ctx.addIssue({ code: 'custom', path: ['contractStartDate'], message: 'Start date is required' });
+      }
+
+      if (values.contractType === 'FIXED_TERM' && !values.contractEndDate) {
+        ctx.addIssue({ code: 'custom', path: ['contractEndDate'], message: 'A fixed-term contract needs an end date' });
+      }
+
+      if (values.contractEndDate && values.contractEndDate < values.contractStartDate) {
+        ctx.addIssue({ code: 'custom', path: ['contractEndDate'], message: "End date can't be before the start date" });
+      }
+    });
+
+type EmployeeFormValues = z.infer<ReturnType<typeof createEmployeeFormSchema>>;
+
+// Select items can't have an empty value, so "no manager" uses a placeholder
+const NO_MANAGER = 'none';
 
 interface User {
   id: string;
@@ -57,51 +118,195 @@ interface User {
   email: string | null;
 }
 
+interface OrgOption {
+  id: string;
+  name: string;
+}
+
+interface ManagerOption {
+  id: string;
+  user: { name: string | null };
+  position: { name: string };
+}
+
 interface EmployeeFormProps {
   users?: User[];
   employee?: {
     id: string;
     userId: string;
-    position: string;
-    department: string;
+    positionId: string;
+    departmentId: string;
+    managerId: string | null;
+    currency: string;
     joinDate: Date;
+    phone: string | null;
+    address: string | null;
+    dateOfBirth: Date | null;
+    emergencyContacts: Array<{
+      id: string;
+      name: string;
+      relationship: string;
+      phone: string;
+      email: string | null;
+    }>;
+    contract: {
+      type: ContractType;
+      startDate: Date;
+      endDate: Date | null;
+      notes: string | null;
+    } | null;
+    bankDetails: {
+      bankName: string | null;
+      bankAccountName: string | null;
+      bankAccountNumber: string | null;
+      bankRoutingNumber: string | null;
+    } | null;
     user: {
       id: string;
       name: string | null;
       email: string | null;
     };
   };
-  departments?: string[];
+  departments: OrgOption[];
+  positions: OrgOption[];
+  managers: ManagerOption[];
+  // Sections the user may change; the rest are shown read-only
+  editableGroups?: EmployeeFieldGroup[];
+}
+
+// Date inputs work with yyyy-MM-dd; profile dates are stored as UTC calendar days
+function toDayInput(date: Date | null | undefined) {
+  return date ? new Date(date).toISOString().slice(0, 10) : '';
+}
+
+// A titled block of the form, disabled as a whole when the user can't edit it
+function FormSection({
+  group,
+  description,
+  locked,
+  children,
+}: {
+  group: EmployeeFieldGroup;
+  description: string;
+  locked: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <fieldset disabled={locked} className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">{EMPLOYEE_FIELD_GROUPS[group].label}</h3>
+        <p className="text-sm text-muted-foreground">
+          {locked ? 'Only HR can change these details.' : description}
+        </p>
+      </div>
+      {children}
+    </fieldset>
+  );
 }
 
 export function EmployeeForm({
   users = [],
   employee,
-  departments = ['Engineering', 'Marketing', 'Sales', 'Finance', 'HR', 'Operations'],
+  departments,
+  positions,
+  managers,
+  editableGroups = ALL_FIELD_GROUPS,
 }: EmployeeFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const canEdit = (group: EmployeeFieldGroup) => editableGroups.includes(group);
 
   // Define form
   const form = useForm<EmployeeFormValues>({
-    resolver: zodResolver(employeeFormSchema),
+    resolver: zodResolver(createEmployeeFormSchema(!employee)),
     defaultValues: employee
       ? {
           userId: employee.userId,
-          position: employee.position,
-          department: employee.department,
+          positionId: employee.positionId,
+          departmentId: employee.departmentId,
+          managerId: employee.managerId ?? NO_MANAGER,
+          currency: employee.currency,
           joinDate: new Date(employee.joinDate),
-          baseSalary: '0', // Not editable for existing employees
+          baseSalary: '', // Not editable for existing employees
+          phone: employee.phone ?? '',
+          address: employee.address ?? '',
+          dateOfBirth: toDayInput(employee.dateOfBirth),
+          emergencyContacts: employee.emergencyContacts.map((contact) => ({
+            ...contact,
+            email: contact.email ?? '',
+          })),
+          bankName: employee.bankDetails?.bankName ?? '',
+          bankAccountName: employee.bankDetails?.bankAccountName ?? '',
+          bankAccountNumber: employee.bankDetails?.bankAccountNumber ?? '',
+          bankRoutingNumber: employee.bankDetails?.bankRoutingNumber ?? '',
+          contractType: employee.contract?.type ?? NO_CONTRACT,
+          contractStartDate: toDayInput(employee.contract?.startDate),
+          contractEndDate: toDayInput(employee.contract?.endDate),
+          contractNotes: employee.contract?.notes ?? '',
         }
       : {
           userId: '',
-          position: '',
-          department: '',
+          positionId: '',
+          departmentId: '',
+          managerId: NO_MANAGER,
+          currency: BASE_CURRENCY,
           joinDate: new Date(),
           baseSalary: '',
+          phone: '',
+          address: '',
+          dateOfBirth: '',
+          emergencyContacts: [],
+          bankName: '',
+          bankAccountName: '',
+          bankAccountNumber: '',
+          bankRoutingNumber: '',
+          contractType: NO_CONTRACT,
+          contractStartDate: '',
+          contractEndDate: '',
+          contractNotes: '',
         },
   });
 
+  const emergencyContacts = useFieldArray({
+    control: form.control,
+    name: 'emergencyContacts',
+  });
+  const contractType = form.watch('contractType');
+
+  // Only send the sections the user may edit; the server rejects the rest
+  function appendEditableFields(formData: FormData, values: EmployeeFormValues) {
+    if (canEdit('job')) {
+      formData.append('positionId', values.positionId);
+      formData.append('departmentId', values.departmentId);
+      formData.append('managerId', values.managerId === NO_MANAGER ? '' : values.managerId);
+      formData.append('currency', values.currency);
+    }
+
+    if (canEdit('contact')) {
+      formData.append('phone', values.phone);
+      formData.append('address', values.address);
+      formData.append('dateOfBirth', values.dateOfBirth);
+    }
+
+    if (canEdit('emergencyContacts')) {
+      formData.append('emergencyContacts', JSON.stringify(values.emergencyContacts));
+    }
+
+    if (canEdit('bank')) {
+      formData.append('bankName', values.bankName);
+      formData.append('bankAccountName', values.bankAccountName);
+      formData.append('bankAccountNumber', values.bankAccountNumber);
+      formData.append('bankRoutingNumber', values.bankRoutingNumber);
+    }
+
+    if (canEdit('contract')) {
+      formData.append('contractType', values.contractType === NO_CONTRACT ? '' : values.contractType);
+      formData.append('contractStartDate', values.contractStartDate);
+      formData.append('contractEndDate', values.contractEndDate);
+      formData.append('contractNotes', values.contractNotes);
+    }
+  }
+
   // Handle form submission
   async function onSubmit(values: EmployeeFormValues) {
     setIsSubmitting(true);
@@ -112,8 +317,7 @@ export function EmployeeForm({
       if (employee) {
         // Update existing employee
         formData.append('id', employee.id);
-        formData.append('position', values.position);
-        formData.append('department', values.department);
+        appendEditableFields(formData, values);
         
         const result = await updateEmployee(formData);
         
@@ -127,10 +331,9 @@ export function EmployeeForm({
       } else {
         // Create new employee
         formData.append('userId', values.userId);
-        formData.append('position', values.position);
-        formData.append('department', values.department);
         formData.append('joinDate', values.joinDate.toISOString());
         formData.append('baseSalary', values.baseSalary);
+        appendEditableFields(formData, values);
         
         const result = await createEmployee(formData);
         
@@ -193,89 +396,223 @@ export function EmployeeForm({
           />
         )}
 
-        <FormField
-          control={form.control}
-          name="position"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Position</FormLabel>
-              <FormControl>
-                <Input placeholder="e.g. Software Engineer" {...field} disabled={isSubmitting} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        <FormField
-          control={form.control}
-          name="department"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Department</FormLabel>
-              <Select
-                onValueChange={field.onChange}
-                defaultValue={field.value}
-                disabled={isSubmitting}
-              >
-                <FormControl>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a department" />
-                  </SelectTrigger>
-                </FormControl>
-                <SelectContent>
-                  {departments.map((dept) => (
-                    <SelectItem key={dept} value={dept}>
-                      {dept}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <FormMessage />
-            </FormItem>
+        <FormSection
+          group="job"
+          description="Role, reporting line and pay currency."
+          locked={!canEdit('job')}
+        >
+          <FormField
+            control={form.control}
+            name="positionId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Position</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a position" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {positions.map((position) => (
+                      <SelectItem key={position.id} value={position.id}>
+                        {position.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="departmentId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Department</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a department" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {departments.map((dept) => (
+                      <SelectItem key={dept.id} value={dept.id}>
+                        {dept.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Departments and positions are managed from the admin panel.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="managerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reports To</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a manager" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                    {managers.map((manager) => (
+                      <SelectItem key={manager.id} value={manager.id}>
+                        {manager.user.name || 'Unnamed'} ({manager.position.name})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pay Currency</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a currency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(CURRENCIES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>
+                        {code} - {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {employee
+                    ? 'Applies to new salary months; existing records keep their currency.'
+                    : 'Currency this employee is paid in.'}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {!employee && (
+            <>
+              <FormField
+                control={form.control}
+                name="joinDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Join Date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant={"outline"}
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                            disabled={isSubmitting}
+                          >
+                            {field.value ? (
+                              format(field.value, "PPP")
+                            ) : (
+                              <span>Pick a date</span>
+                            )}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          disabled={(date) =>
+                            date > new Date() || date < new Date("2000-01-01")
+                          }
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="baseSalary"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Base Salary</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="e.g. 50000"
+                        {...field}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Annual base salary amount (before bonuses or deductions).
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
           )}
-        />
+        </FormSection>
 
-        {!employee && (
-          <>
+        <Separator />
+
+        <FormSection
+          group="contact"
+          description="How to reach the employee outside work."
+          locked={!canEdit('contact')}
+        >
+          <div className="grid gap-4 sm:grid-cols-2">
             <FormField
               control={form.control}
-              name="joinDate"
+              name="phone"
               render={({ field }) => (
-                <FormItem className="flex flex-col">
-                  <FormLabel>Join Date</FormLabel>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <FormControl>
-                        <Button
-                          variant={"outline"}
-                          className={cn(
-                            "w-full pl-3 text-left font-normal",
-                            !field.value && "text-muted-foreground"
-                          )}
-                          disabled={isSubmitting}
-                        >
-                          {field.value ? (
-                            format(field.value, "PPP")
-                          ) : (
-                            <span>Pick a date</span>
-                          )}
-                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                        </Button>
-                      </FormControl>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        mode="single"
-                        selected={field.value}
-                        onSelect={field.onChange}
-                        disabled={(date) =>
-                          date > new Date() || date < new Date("2000-01-01")
-                        }
-                        initialFocus
-                      />
-                    </PopoverContent>
-                  </Popover>
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input type="tel" placeholder="e.g. +1 555 0100" {...field} disabled={isSubmitting} />
+                  </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
@@ -283,28 +620,279 @@ export function EmployeeForm({
 
             <FormField
               control={form.control}
-              name="baseSalary"
+              name="dateOfBirth"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Base Salary</FormLabel>
+                  <FormLabel>Date of Birth</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="e.g. 50000"
-                      {...field}
-                      disabled={isSubmitting}
-                    />
+                    <Input type="date" {...field} disabled={isSubmitting} />
                   </FormControl>
-                  <FormDescription>
-                    Annual base salary amount (before bonuses or deductions).
-                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Address</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} disabled={isSubmitting} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </FormSection>
+
+        <Separator />
+
+        <FormSection
+          group="emergencyContacts"
+          description="People to contact if something happens at work."
+          locked={!canEdit('emergencyContacts')}
+        >
+          {emergencyContacts.fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">No emergency contacts yet.</p>
+          )}
+
+          {emergencyContacts.fields.map((contact, index) => (
+            <div key={contact.id} className="grid gap-4 rounded-lg border p-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name={`emergencyContacts.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`emergencyContacts.${index}.relationship`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Relationship</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Spouse" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`emergencyContacts.${index}.phone`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`emergencyContacts.${index}.email`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="sm:col-span-2 flex justify-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => emergencyContacts.remove(index)}
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => emergencyContacts.append({ name: '', relationship: '', phone: '', email: '' })}
+            disabled={isSubmitting || emergencyContacts.fields.length >= MAX_EMERGENCY_CONTACTS}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Contact
+          </Button>
+        </FormSection>
+
+        {canEdit('bank') && (
+          <>
+            <Separator />
+
+            <FormSection
+              group="bank"
+              description="Where salary is paid. Account and routing numbers are stored encrypted."
+              locked={false}
+            >
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="bankName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bank Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bankAccountName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Holder</FormLabel>
+                      <FormControl>
+                        <Input {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bankAccountNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Number / IBAN</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bankRoutingNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Routing Number / SWIFT</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </FormSection>
           </>
         )}
 
+        <Separator />
+
+        <FormSection
+          group="contract"
+          description="The current contract of employment."
+          locked={!canEdit('contract')}
+        >
+          <FormField
+            control={form.control}
+            name="contractType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contract Type</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a contract type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_CONTRACT}>No contract on file</SelectItem>
+                    {Object.entries(CONTRACT_TYPE_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {contractType !== NO_CONTRACT && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="contractStartDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="contractEndDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormDescription>Leave empty for an open-ended contract.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="contractNotes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="e.g. notice period, probation" {...field} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+        </FormSection>
+
         <div className="flex gap-4 justify-end">
           <Button
             type="button"
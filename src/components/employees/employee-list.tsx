@@ -30,13 +30,17 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination';
+import { EmploymentStatus } from '@prisma/client';
+import { EmploymentStatusBadge } from '@/components/employees/employment-status-badge';
+import { EMPLOYEE_STATUS_FILTERS } from '@/lib/constants/employees';
 import { formatDate } from '@/lib/utils';
 
 interface Employee {
   id: string;
   joinDate: Date;
-  position: string;
-  department: string;
+  status: EmploymentStatus;
+  position: { id: string; name: string };
+  department: { id: string; name: string };
   user: {
     id: string;
     name: string | null;
@@ -53,6 +57,7 @@ interface EmployeeListProps {
     page: number;
     limit: number;
   };
+  initialStatus: string;
   canCreate: boolean;
 }
 
@@ -61,6 +66,7 @@ import { searchEmployees } from '@/lib/actions/search-employees';
 export function EmployeeList({
   initialEmployees,
   pagination,
+  initialStatus,
   canCreate,
 }: EmployeeListProps) {
   const router = useRouter();
@@ -70,6 +76,7 @@ export function EmployeeList({
   const [search, setSearch] = useState('');
   const [sortBy, setSortBy] = useState('name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [status, setStatus] = useState(initialStatus);
   const [isLoading, setIsLoading] = useState(false);
   
   // Update URL without causing a full page reload
@@ -88,7 +95,8 @@ export function EmployeeList({
     newPage = page,
     newSearch = search,
     newSortBy = sortBy,
-    newSortDirection = sortDirection
+    newSortDirection = sortDirection,
+    newStatus = status
   }) => {
     try {
       setIsLoading(true);
@@ -97,7 +105,8 @@ export function EmployeeList({
         page: newPage,
         search: newSearch,
         sortBy: newSortBy,
-        sortDirection: newSortDirection
+        sortDirection: newSortDirection,
+        status: newStatus
       });
       
       if (result.error) {
@@ -120,7 +129,8 @@ export function EmployeeList({
         page: newPage.toString(),
         search: newSearch,
         sortBy: newSortBy,
-        sortDirection: newSortDirection
+        sortDirection: newSortDirection,
+        status: newStatus
       });
       
     } catch (error) {
@@ -228,6 +238,25 @@ export function EmployeeList({
             <SelectItem value="desc">Descending</SelectItem>
           </SelectContent>
         </Select>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value);
+            setPage(1);
+            fetchEmployees({ newPage: 1, newStatus: value });
+          }}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EMPLOYEE_STATUS_FILTERS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Button type="submit">Search</Button>
       </form>
       
@@ -239,13 +268,14 @@ export function EmployeeList({
               <TableHead>Position</TableHead>
               <TableHead>Department</TableHead>
               <TableHead>Join Date</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {employees.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8">
+                <TableCell colSpan={6} className="text-center py-8">
                   No employees found
                 </TableCell>
               </TableRow>
@@ -264,9 +294,12 @@ export function EmployeeList({
                       </div>
                     </div>
                   </TableCell>
-                  <TableCell>{employee.position}</TableCell>
-                  <TableCell>{employee.department}</TableCell>
+                  <TableCell>{employee.position.name}</TableCell>
+                  <TableCell>{employee.department.name}</TableCell>
                   <TableCell>{formatDate(employee.joinDate)}</TableCell>
+                  <TableCell>
+                    <EmploymentStatusBadge status={employee.status} />
+                  </TableCell>
                   <TableCell className="text-right">
                     <Button
                       variant="ghost"
@@ -0,0 +1,115 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCalendarDay, maskAccountNumber } from '@/lib/utils';
+
+interface EmployeeProfileDetailsProps {
+  phone: string | null;
+  address: string | null;
+  dateOfBirth: Date | null;
+  emergencyContacts: Array<{
+    id: string;
+    name: string;
+    relationship: string;
+    phone: string;
+    email: string | null;
+  }>;
+  // Null when there are none on file or the viewer may not see them
+  bankDetails: {
+    bankName: string | null;
+    bankAccountName: string | null;
+    bankAccountNumber: string | null;
+    bankRoutingNumber: string | null;
+  } | null;
+  showBankDetails: boolean;
+}
+
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-muted-foreground">{label}</h4>
+      <div>{children || <span className="text-muted-foreground">—</span>}</div>
+    </div>
+  );
+}
+
+export function EmployeeProfileDetails({
+  phone,
+  address,
+  dateOfBirth,
+  emergencyContacts,
+  bankDetails,
+  showBankDetails,
+}: EmployeeProfileDetailsProps) {
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Personal Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4">
+          <Detail label="Phone">{phone}</Detail>
+          <Detail label="Date of Birth">{dateOfBirth ? formatCalendarDay(dateOfBirth) : null}</Detail>
+          <div className="col-span-2">
+            <Detail label="Address">
+              {address && <p className="whitespace-pre-wrap">{address}</p>}
+            </Detail>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Emergency Contacts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {emergencyContacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No emergency contacts on file</p>
+          ) : (
+            <ul className="divide-y">
+              {emergencyContacts.map((contact) => (
+                <li key={contact.id} className="flex flex-wrap items-baseline justify-between gap-2 py-2">
+                  <div>
+                    <span className="font-medium">{contact.name}</span>
+                    <span className="text-sm text-muted-foreground"> · {contact.relationship}</span>
+                  </div>
+                  <div className="text-sm">
+                    {contact.phone}
+                    {contact.email && <span className="text-muted-foreground"> · {contact.email}</span>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {showBankDetails && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Bank Details</CardTitle>
+            <CardDescription>Only visible to the employee and HR</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {bankDetails ? (
+              <div className="grid grid-cols-2 gap-4">
+                <Detail label="Bank">{bankDetails.bankName}</Detail>
+                <Detail label="Account Holder">{bankDetails.bankAccountName}</Detail>
+                <Detail label="Account Number">
+                  {bankDetails.bankAccountNumber && (
+                    <span className="font-mono text-sm">{maskAccountNumber(bankDetails.bankAccountNumber)}</span>
+                  )}
+                </Detail>
+                <Detail label="Routing Number">
+                  {bankDetails.bankRoutingNumber && (
+                    <span className="font-mono text-sm">{maskAccountNumber(bankDetails.bankRoutingNumber)}</span>
+                  )}
+                </Detail>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No bank details on file</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { ContractType } from '@prisma/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CONTRACT_TYPE_LABELS } from '@/lib/constants/employees';
+import { formatCalendarDay } from '@/lib/utils';
+
+interface EmploymentContractCardProps {
+  contract: {
+    type: ContractType;
+    startDate: Date;
+    endDate: Date | null;
+    notes: string | null;
+  } | null;
+}
+
+export function EmploymentContractCard({ contract }: EmploymentContractCardProps) {
+  // Contract dates are UTC calendar days, so compare against the start of today in UTC
+  const today = new Date(new Date().toISOString().slice(0, 10));
+  const hasEnded = !!contract?.endDate && new Date(contract.endDate) < today;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Employment Contract</CardTitle>
+          {contract && (
+            <Badge variant={hasEnded ? 'destructive' : 'outline'}>
+              {hasEnded ? 'Ended' : CONTRACT_TYPE_LABELS[contract.type]}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {contract ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Type</h4>
+              <p>{CONTRACT_TYPE_LABELS[contract.type]}</p>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Period</h4>
+              <p>
+                {formatCalendarDay(contract.startDate)} –{' '}
+                {contract.endDate ? formatCalendarDay(contract.endDate) : 'Open-ended'}
+              </p>
+            </div>
+            {contract.notes && (
+              <div className="col-span-2">
+                <h4 className="text-sm font-medium text-muted-foreground">Notes</h4>
+                <p className="whitespace-pre-wrap">{contract.notes}</p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No contract on file</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
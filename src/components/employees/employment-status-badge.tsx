@@ -0,0 +1,17 @@
+import { EmploymentStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { EMPLOYMENT_STATUS_LABELS } from "@/lib/constants/employees";
+
+const statusColors: Record<EmploymentStatus, string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  ON_LEAVE: "bg-yellow-100 text-yellow-800",
+  TERMINATED: "bg-gray-100 text-gray-800",
+};
+
+export function EmploymentStatusBadge({ status }: { status: EmploymentStatus }) {
+  return (
+    <Badge variant="outline" className={statusColors[status]}>
+      {EMPLOYMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
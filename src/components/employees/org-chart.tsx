@@ -0,0 +1,282 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { setEmployeeManager } from '@/lib/actions/org-actions';
+import { cn } from '@/lib/utils';
+
+interface OrgChartEmployee {
+  id: string;
+  managerId: string | null;
+  user: {
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  };
+  department: { name: string };
+  position: { name: string };
+}
+
+interface OrgChartProps {
+  employees: OrgChartEmployee[];
+  canEdit: boolean;
+}
+
+// Get initials for avatar fallback
+const getInitials = (name: string | null) => {
+  if (!name) return 'U';
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .substring(0, 2);
+};
+
+export function OrgChart({ employees, canEdit }: OrgChartProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reports of each employee; employees whose manager isn't listed are shown at the top level
+  const { roots, reportsOf, managerOf } = useMemo(() => {
+    const ids = new Set(employees.map((employee) => employee.id));
+    const reportsOf = new Map<string, OrgChartEmployee[]>();
+    const managerOf = new Map<string, string>();
+    const roots: OrgChartEmployee[] = [];
+
+    for (const employee of employees) {
+      if (employee.managerId && ids.has(employee.managerId)) {
+        reportsOf.set(employee.managerId, [...(reportsOf.get(employee.managerId) ?? []), employee]);
+        managerOf.set(employee.id, employee.managerId);
+      } else {
+        roots.push(employee);
+      }
+    }
+
+    return { roots, reportsOf, managerOf };
+  }, [employees]);
+
+  // Employees matching the search, and everyone above them so the matches stay visible
+  const { matches, expandedForSearch } = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matches = new Set<string>();
+    const expandedForSearch = new Set<string>();
+
+    if (!query) {
+      return { matches, expandedForSearch };
+    }
+
+    for (const employee of employees) {
+      const haystack = [employee.user.name, employee.user.email, employee.position.name, employee.department.name]
+        .join(' ')
+        .toLowerCase();
+
+      if (haystack.includes(query)) {
+        matches.add(employee.id);
+
+        for (let id = managerOf.get(employee.id); id; id = managerOf.get(id)) {
+          expandedForSearch.add(id);
+        }
+      }
+    }
+
+    return { matches, expandedForSearch };
+  }, [employees, managerOf, search]);
+
+  // Whether candidateId sits anywhere below employeeId
+  const isBelow = (candidateId: string, employeeId: string) => {
+    for (let id = managerOf.get(candidateId); id; id = managerOf.get(id)) {
+      if (id === employeeId) return true;
+    }
+    return false;
+  };
+
+  const canDropOn = (targetId: string | null) =>
+    !!draggingId &&
+    draggingId !== targetId &&
+    (targetId === null
+      ? managerOf.has(draggingId)
+      : managerOf.get(draggingId) !== targetId && !isBelow(targetId, draggingId));
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Move the dragged employee under a new manager, or to the top level
+  const handleDrop = async (managerId: string | null) => {
+    const employeeId = draggingId;
+    setDraggingId(null);
+    setDropTargetId(null);
+
+    if (!employeeId || !canDropOn(managerId)) return;
+
+    setIsSaving(true);
+
+    try {
+      const result = await setEmployeeManager(employeeId, managerId);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Reporting line updated');
+        router.refresh();
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderNode = (employee: OrgChartEmployee) => {
+    const reports = reportsOf.get(employee.id) ?? [];
+    const isExpanded = expandedForSearch.has(employee.id) || !collapsed.has(employee.id);
+
+    return (
+      <li key={employee.id} className="relative">
+        <div
+          draggable={canEdit && !isSaving}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggingId(employee.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={(e) => {
+            if (canDropOn(employee.id)) {
+              e.preventDefault();
+              setDropTargetId(employee.id);
+            }
+          }}
+          onDragLeave={() => setDropTargetId((current) => (current === employee.id ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(employee.id);
+          }}
+          className={cn(
+            'flex items-center gap-3 rounded-md border bg-card p-2 pr-3 w-fit min-w-[280px]',
+            canEdit && 'cursor-grab',
+            matches.has(employee.id) && 'border-primary ring-2 ring-primary/30',
+            dropTargetId === employee.id && 'border-dashed border-primary bg-primary/5',
+            draggingId === employee.id && 'opacity-50',
+          )}
+        >
+          {reports.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={() => toggle(employee.id)}
+              aria-label={isExpanded ? 'Collapse reports' : 'Expand reports'}
+            >
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6 shrink-0" />
+          )}
+          <Avatar className="h-9 w-9">
+            <AvatarImage src={employee.user.image || ''} alt={employee.user.name || ''} />
+            <AvatarFallback>{getInitials(employee.user.name)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <Link href={`/dashboard/employees/${employee.id}`} className="block font-medium hover:underline truncate">
+              {employee.user.name || 'Unnamed'}
+            </Link>
+            <div className="text-xs text-muted-foreground truncate">
+              {employee.position.name} · {employee.department.name}
+            </div>
+          </div>
+          {reports.length > 0 && (
+            <Badge variant="secondary" className="shrink-0">
+              {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+            </Badge>
+          )}
+        </div>
+        {reports.length > 0 && isExpanded && (
+          <ul className="ml-5 mt-2 space-y-2 border-l pl-5">
+            {reports.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <Input
+          placeholder="Search by name, position or department..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+        <Button variant="outline" size="sm" onClick={() => setCollapsed(new Set())}>
+          Expand All
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setCollapsed(new Set(reportsOf.keys()))}>
+          Collapse All
+        </Button>
+        {search.trim() && (
+          <span className="text-sm text-muted-foreground">
+            {matches.size} {matches.size === 1 ? 'match' : 'matches'}
+          </span>
+        )}
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+
+      {canEdit && (
+        <div
+          onDragOver={(e) => {
+            if (canDropOn(null)) {
+              e.preventDefault();
+              setDropTargetId('top');
+            }
+          }}
+          onDragLeave={() => setDropTargetId((current) => (current === 'top' ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(null);
+          }}
+          className={cn(
+            'rounded-md border border-dashed p-3 text-center text-sm text-muted-foreground',
+            dropTargetId === 'top' && 'border-primary bg-primary/5 text-foreground',
+          )}
+        >
+          Drag an employee onto someone to change who they report to, or drop here to remove their manager
+        </div>
+      )}
+
+      {employees.length === 0 ? (
+        <div className="flex items-center justify-center h-64 border rounded-lg bg-muted/50">
+          <p className="text-muted-foreground">No employees yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border p-4">
+          <ul className="space-y-2">{roots.map(renderNode)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
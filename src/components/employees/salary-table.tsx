@@ -3,13 +3,17 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import * as z from 'zod';
+import type { SalaryItemSource } from '@prisma/client';
 import {
+  Download,
   Edit,
+  History,
+  Lock,
+  LockOpen,
   Plus,
-  Save,
   Trash,
   X,
 } from 'lucide-react';
@@ -24,6 +28,9 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -59,8 +66,15 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-import { formatCurrency } from '@/lib/utils';
-import { saveSalaryRecord, deleteSalaryRecord } from '@/lib/actions/salary-actions';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { MONTH_NAMES } from '@/lib/constants/months';
+import {
+  saveSalaryRecord,
+  deleteSalaryRecord,
+  finalizeSalaryRecord,
+  reopenSalaryRecord,
+} from '@/lib/actions/salary-actions';
+import { summarizeSalaryItems } from '@/lib/salary';
 
 // Define the form schema
 const salaryFormSchema = z.object({
@@ -70,16 +84,59 @@ const salaryFormSchema = z.object({
   baseSalary: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
     message: 'Base salary must be a non-negative number',
   }),
-  bonus: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
-    message: 'Bonus must be a non-negative number',
-  }),
-  deductions: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
-    message: 'Deductions must be a non-negative number',
-  }),
+  items: z.array(
+    z.object({
+      typeId: z.string().optional(),
+      kind: z.enum(['BONUS', 'DEDUCTION']),
+      label: z.string().min(1, 'Label is required'),
+      amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
+        message: 'Amount must be a non-negative number',
+      }),
+      taxable: z.boolean(),
+      // Kept so computed lines (e.g. unpaid leave) stay recognisable after edits
+      source: z.enum(['MANUAL', 'UNPAID_LEAVE', 'OVERTIME']).optional(),
+    }),
+  ),
+  reason: z.string().optional(),
 });
 
 type SalaryFormValues = z.infer<typeof salaryFormSchema>;
 
+// Select value for a free-form line that is not based on an item type
+const CUSTOM_ITEM = 'custom';
+
+// Type for a bonus or deduction line
+interface SalaryItem {
+  id: string;
+  typeId: string | null;
+  kind: 'BONUS' | 'DEDUCTION';
+  label: string;
+  amount: number;
+  taxable: boolean;
+  source: SalaryItemSource;
+}
+
+// Type for a configurable line item preset
+interface SalaryItemType {
+  id: string;
+  name: string;
+  kind: 'BONUS' | 'DEDUCTION';
+  taxable: boolean;
+}
+
+// Type for a snapshot in a salary month's revision history
+interface SalaryRevision {
+  id: string;
+  revision: number;
+  baseSalary: number;
+  bonus: number;
+  deductions: number;
+  totalSalary: number;
+  reason: string | null;
+  createdAt: Date;
+  createdBy: { name: string | null } | null;
+}
+
 // Type for salary record
 interface SalaryRecord {
   id: string;
@@ -89,34 +146,45 @@ interface SalaryRecord {
   bonus: number;
   deductions: number;
   totalSalary: number;
+  currency: string;
+  status: 'DRAFT' | 'PAID';
+  finalizedAt: Date | null;
+  finalizedBy: { name: string | null } | null;
+  reopenedAt: Date | null;
+  reopenedBy: { name: string | null } | null;
+  reopenReason: string | null;
+  items: SalaryItem[];
+  revisions: SalaryRevision[];
 }
 
 interface SalaryTableProps {
   employeeId: string;
   employeeName: string;
+  employeeCurrency: string;
   salaryRecords: SalaryRecord[];
   availableYears: number[];
+  itemTypes: SalaryItemType[];
   isAdmin: boolean;
   canEdit: boolean;
 }
 
-// Month names for display
-const monthNames = [
-  'January', 'February', 'March', 'April', 'May', 'June', 
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
-
 export function SalaryTable({
   employeeId,
   employeeName,
+  employeeCurrency,
   salaryRecords,
   availableYears,
+  itemTypes,
   isAdmin,
   canEdit,
 }: SalaryTableProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<SalaryRecord | null>(null);
+  const [historyRecord, setHistoryRecord] = useState<SalaryRecord | null>(null);
+  const [reopeningRecord, setReopeningRecord] = useState<SalaryRecord | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
 
   // Get current year and month
   const currentDate = new Date();
@@ -128,21 +196,79 @@ export function SalaryTable({
     ? availableYears 
     : [currentYear - 1, currentYear, currentYear + 1];
 
+  const defaultValues: SalaryFormValues = {
+    employeeId,
+    month: currentMonth.toString(),
+    year: currentYear.toString(),
+    baseSalary: '0',
+    items: [],
+    reason: '',
+  };
+
   // Define form
   const form = useForm<SalaryFormValues>({
     resolver: zodResolver(salaryFormSchema),
-    defaultValues: {
-      employeeId,
-      month: currentMonth.toString(),
-      year: currentYear.toString(),
-      baseSalary: '0',
-      bonus: '0',
-      deductions: '0',
-    },
+    defaultValues,
   });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'items',
+  });
+
+  // Live total shown under the line items
+  const watchedBaseSalary = form.watch('baseSalary');
+  const watchedItems = form.watch('items');
+  const formTotals = summarizeSalaryItems(
+    Number(watchedBaseSalary) || 0,
+    watchedItems.map((item) => ({ kind: item.kind, amount: Number(item.amount) || 0 })),
+  );
+
+  // Add a line, prefilled from an item type when one is picked
+  const addItem = (typeId: string) => {
+    const itemType = itemTypes.find((type) => type.id === typeId);
+
+    append(
+      itemType
+        ? { typeId: itemType.id, kind: itemType.kind, label: itemType.name, amount: '0', taxable: itemType.taxable }
+        : { typeId: undefined, kind: 'BONUS', label: '', amount: '0', taxable: false },
+    );
+  };
+
+  // Open the dialog for a new month
+  const openCreateDialog = () => {
+    setEditingRecord(null);
+    form.reset(defaultValues);
+  };
+
+  // Open the dialog to revise an existing month
+  const openEditDialog = (record: SalaryRecord) => {
+    setEditingRecord(record);
+    form.reset({
+      employeeId,
+      month: record.month.toString(),
+      year: record.year.toString(),
+      baseSalary: record.baseSalary.toString(),
+      items: record.items.map((item) => ({
+        typeId: item.typeId ?? undefined,
+        kind: item.kind,
+        label: item.label,
+        amount: item.amount.toString(),
+        taxable: item.taxable,
+        source: item.source,
+      })),
+      reason: '',
+    });
+    setIsDialogOpen(true);
+  };
 
   // Handle form submission
   async function onSubmit(values: SalaryFormValues) {
+    // Revisions must explain why the figures changed
+    if (editingRecord && !values.reason?.trim()) {
+      form.setError('reason', { message: 'Please give a reason for this change' });
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -151,8 +277,11 @@ export function SalaryTable({
       formData.append('month', values.month);
       formData.append('year', values.year);
       formData.append('baseSalary', values.baseSalary);
-      formData.append('bonus', values.bonus);
-      formData.append('deductions', values.deductions);
+      formData.append(
+        'items',
+        JSON.stringify(values.items.map((item) => ({ ...item, amount: Number(item.amount) }))),
+      );
+      formData.append('reason', values.reason || '');
       
       const result = await saveSalaryRecord(formData);
       
@@ -161,6 +290,7 @@ export function SalaryTable({
       } else {
         toast.success('Salary record saved successfully');
         setIsDialogOpen(false);
+        setEditingRecord(null);
         router.refresh();
       }
     } catch (error) {
@@ -187,8 +317,63 @@ export function SalaryTable({
     }
   }
 
-  // Calculate the total
-  const salaryTotal = salaryRecords.reduce((sum, record) => sum + record.totalSalary, 0);
+  // Mark a month as paid
+  async function handleFinalize(id: string) {
+    try {
+      const result = await finalizeSalaryRecord(id);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Salary record marked as paid');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    }
+  }
+
+  // Reopen a paid month for edits
+  async function handleReopen(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!reopeningRecord) return;
+
+    if (!reopenReason.trim()) {
+      toast.error('Please give a reason for reopening');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await reopenSalaryRecord(reopeningRecord.id, reopenReason);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Salary record reopened');
+        setReopeningRecord(null);
+        setReopenReason('');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  // Revisions keep the month's currency; new months use the employee's current one
+  const formCurrency = editingRecord?.currency ?? employeeCurrency;
+
+  // Calculate the total per currency, in case the employee's pay currency changed
+  const salaryTotals = Object.entries(
+    salaryRecords.reduce<Record<string, number>>((totals, record) => {
+      totals[record.currency] = (totals[record.currency] || 0) + record.totalSalary;
+      return totals;
+    }, {}),
+  );
 
   return (
     <div className="space-y-4">
@@ -197,16 +382,18 @@ export function SalaryTable({
         {canEdit && (
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button onClick={openCreateDialog}>
                 <Plus className="mr-2 h-4 w-4" />
                 Add Salary Record
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Add Salary Record</DialogTitle>
+                <DialogTitle>{editingRecord ? 'Revise Salary Record' : 'Add Salary Record'}</DialogTitle>
                 <DialogDescription>
-                  Create a new salary record for {employeeName}.
+                  {editingRecord
+                    ? `Save a new revision of ${MONTH_NAMES[editingRecord.month - 1]} ${editingRecord.year} for ${employeeName}. Previous figures are kept in the history.`
+                    : `Create a new salary record for ${employeeName}.`}
                 </DialogDescription>
               </DialogHeader>
               <Form {...form}>
@@ -220,8 +407,8 @@ export function SalaryTable({
                           <FormLabel>Month</FormLabel>
                           <Select 
                             onValueChange={field.onChange} 
-                            defaultValue={field.value}
-                            disabled={isSubmitting}
+                            value={field.value}
+                            disabled={isSubmitting || !!editingRecord}
                           >
                             <FormControl>
                               <SelectTrigger>
@@ -229,7 +416,7 @@ export function SalaryTable({
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {monthNames.map((month, index) => (
+                              {MONTH_NAMES.map((month, index) => (
                                 <SelectItem key={index + 1} value={(index + 1).toString()}>
                                   {month}
                                 </SelectItem>
@@ -249,8 +436,8 @@ export function SalaryTable({
                           <FormLabel>Year</FormLabel>
                           <Select 
                             onValueChange={field.onChange} 
-                            defaultValue={field.value}
-                            disabled={isSubmitting}
+                            value={field.value}
+                            disabled={isSubmitting || !!editingRecord}
                           >
                             <FormControl>
                               <SelectTrigger>
@@ -276,7 +463,7 @@ export function SalaryTable({
                     name="baseSalary"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Base Salary</FormLabel>
+                        <FormLabel>Base Salary ({formCurrency})</FormLabel>
                         <FormControl>
                           <Input
                             type="number"
@@ -291,37 +478,123 @@ export function SalaryTable({
                     )}
                   />
 
-                  <FormField
-                    control={form.control}
-                    name="bonus"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Bonus</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            placeholder="e.g. 1000"
-                            {...field}
-                            disabled={isSubmitting}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Bonuses &amp; Deductions</FormLabel>
+                      <Select value="" onValueChange={addItem} disabled={isSubmitting}>
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue placeholder="Add line" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {itemTypes.map((itemType) => (
+                            <SelectItem key={itemType.id} value={itemType.id}>
+                              {itemType.name}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={CUSTOM_ITEM}>Custom line</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {fields.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No bonuses or deductions</p>
                     )}
-                  />
+
+                    {fields.map((item, index) => (
+                      <div key={item.id} className="flex items-start gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.kind`}
+                          render={({ field }) => (
+                            <FormItem className="w-[120px]">
+                              <Select
+                                onValueChange={field.onChange}
+                                value={field.value}
+                                disabled={isSubmitting}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="BONUS">Bonus</SelectItem>
+                                  <SelectItem value="DEDUCTION">Deduction</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormControl>
+                                <Input placeholder="Label" {...field} disabled={isSubmitting} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.amount`}
+                          render={({ field }) => (
+                            <FormItem className="w-[110px]">
+                              <FormControl>
+                                <Input type="number" min="0" {...field} disabled={isSubmitting} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.taxable`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-1 space-y-0 pt-2">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={(value) => field.onChange(value === true)}
+                                  disabled={isSubmitting}
+                                />
+                              </FormControl>
+                              <FormLabel className="text-xs font-normal">Taxable</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => remove(index)}
+                          disabled={isSubmitting}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    <div className="flex justify-end gap-4 text-sm text-muted-foreground">
+                      <span>Bonuses: {formatCurrency(formTotals.bonus, formCurrency)}</span>
+                      <span>Deductions: {formatCurrency(formTotals.deductions, formCurrency)}</span>
+                      <span className="font-medium text-foreground">
+                        Total: {formatCurrency(formTotals.totalSalary, formCurrency)}
+                      </span>
+                    </div>
+                  </div>
 
                   <FormField
                     control={form.control}
-                    name="deductions"
+                    name="reason"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Deductions</FormLabel>
+                        <FormLabel>Reason{editingRecord ? '' : ' (optional)'}</FormLabel>
                         <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            placeholder="e.g. 500"
+                          <Textarea
+                            placeholder={editingRecord ? 'e.g. Corrected overtime bonus' : 'e.g. Annual raise'}
                             {...field}
                             disabled={isSubmitting}
                           />
@@ -361,38 +634,107 @@ export function SalaryTable({
               <TableHead className="text-right">Bonus</TableHead>
               <TableHead className="text-right">Deductions</TableHead>
               <TableHead className="text-right">Total</TableHead>
-              {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {salaryRecords.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={canEdit ? 7 : 6} className="text-center py-8">
+                <TableCell colSpan={8} className="text-center py-8">
                   No salary records found
                 </TableCell>
               </TableRow>
             ) : (
-              salaryRecords.map((record) => (
-                <TableRow key={record.id}>
-                  <TableCell>{monthNames[record.month - 1]}</TableCell>
-                  <TableCell>{record.year}</TableCell>
-                  <TableCell className="text-right">
-                    {formatCurrency(record.baseSalary)}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    {formatCurrency(record.bonus)}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    {formatCurrency(record.deductions)}
-                  </TableCell>
-                  <TableCell className="text-right font-medium">
-                    {formatCurrency(record.totalSalary)}
-                  </TableCell>
-                  {canEdit && (
+              salaryRecords.map((record) => {
+                const isPaid = record.status === 'PAID';
+
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell>{MONTH_NAMES[record.month - 1]}</TableCell>
+                    <TableCell>{record.year}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(record.baseSalary, record.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(record.bonus, record.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(record.deductions, record.currency)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(record.totalSalary, record.currency)}
+                    </TableCell>
+                    <TableCell>
+                      {isPaid ? (
+                        <Badge>
+                          <Lock className="mr-1 h-3 w-3" />
+                          Paid
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Draft</Badge>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        {/* Edit functionality would go here */}
-                        {isAdmin && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revision history"
+                          onClick={() => setHistoryRecord(record)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Download payslip" asChild>
+                          <a href={`/api/salaries/${record.id}/payslip`} download>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        {canEdit && !isPaid && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revise"
+                            onClick={() => openEditDialog(record)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canEdit && !isPaid && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" title="Mark as paid">
+                                <Lock className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Mark as Paid</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {MONTH_NAMES[record.month - 1]} {record.year} will be locked against edits.
+                                  Only an administrator can reopen it.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleFinalize(record.id)}>
+                                  Mark as Paid
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        {isAdmin && isPaid && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Reopen"
+                            onClick={() => setReopeningRecord(record)}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {isAdmin && !isPaid && (
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button variant="ghost" size="icon">
@@ -420,9 +762,9 @@ export function SalaryTable({
                         )}
                       </div>
                     </TableCell>
-                  )}
-                </TableRow>
-              ))
+                  </TableRow>
+                );
+              })
             )}
             {salaryRecords.length > 0 && (
               <TableRow className="bg-muted/50">
@@ -430,14 +772,149 @@ export function SalaryTable({
                   Total:
                 </TableCell>
                 <TableCell className="text-right font-bold">
-                  {formatCurrency(salaryTotal)}
+                  {salaryTotals.map(([currency, total]) => (
+                    <div key={currency}>{formatCurrency(total, currency)}</div>
+                  ))}
                 </TableCell>
-                {canEdit && <TableCell />}
+                <TableCell colSpan={2} />
               </TableRow>
             )}
           </TableBody>
         </Table>
       </div>
+
+      {/* Revision history for a single month */}
+      <Dialog open={!!historyRecord} onOpenChange={(open) => !open && setHistoryRecord(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Revision History
+              {historyRecord && ` - ${MONTH_NAMES[historyRecord.month - 1]} ${historyRecord.year}`}
+            </DialogTitle>
+            <DialogDescription>
+              Every saved version of this month&apos;s figures, newest first.
+            </DialogDescription>
+          </DialogHeader>
+          {historyRecord && (
+            <div className="space-y-4">
+              {historyRecord.finalizedAt && (
+                <p className="text-sm text-muted-foreground">
+                  Marked as paid on {formatDate(historyRecord.finalizedAt)}
+                  {historyRecord.finalizedBy?.name && ` by ${historyRecord.finalizedBy.name}`}
+                </p>
+              )}
+              {historyRecord.reopenedAt && (
+                <p className="text-sm text-muted-foreground">
+                  Reopened on {formatDate(historyRecord.reopenedAt)}
+                  {historyRecord.reopenedBy?.name && ` by ${historyRecord.reopenedBy.name}`}
+                  {historyRecord.reopenReason && `: ${historyRecord.reopenReason}`}
+                </p>
+              )}
+              {historyRecord.items.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Current line items</h4>
+                  <ul className="text-sm space-y-1">
+                    {historyRecord.items.map((item) => (
+                      <li key={item.id} className="flex justify-between">
+                        <span>
+                          {item.label}
+                          {item.taxable && <span className="text-muted-foreground"> (taxable)</span>}
+                        </span>
+                        <span className={item.kind === 'DEDUCTION' ? 'text-destructive' : undefined}>
+                          {item.kind === 'DEDUCTION' ? '-' : '+'}{formatCurrency(item.amount, historyRecord.currency)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Base</TableHead>
+                      <TableHead className="text-right">Bonus</TableHead>
+                      <TableHead className="text-right">Deductions</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {historyRecord.revisions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-4">
+                          No revisions recorded
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      historyRecord.revisions.map((revision) => (
+                        <TableRow key={revision.id}>
+                          <TableCell>{revision.revision}</TableCell>
+                          <TableCell>
+                            <div>{formatDate(revision.createdAt)}</div>
+                            {revision.createdBy?.name && (
+                              <div className="text-xs text-muted-foreground">{revision.createdBy.name}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(revision.baseSalary, historyRecord.currency)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(revision.bonus, historyRecord.currency)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(revision.deductions, historyRecord.currency)}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(revision.totalSalary, historyRecord.currency)}</TableCell>
+                          <TableCell className="text-sm">{revision.reason || '—'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Admin-only reopen of a paid month */}
+      <Dialog
+        open={!!reopeningRecord}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReopeningRecord(null);
+            setReopenReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen Salary Record</DialogTitle>
+            <DialogDescription>
+              {reopeningRecord &&
+                `${MONTH_NAMES[reopeningRecord.month - 1]} ${reopeningRecord.year} has been paid. Reopening it allows its figures to be revised again.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReopen} className="space-y-4">
+            <Textarea
+              placeholder="Why does this paid month need to change?"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <div className="flex justify-end gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setReopeningRecord(null)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Reopening...' : 'Reopen'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { TaskStatus } from '@prisma/client';
+import { AlertTriangle } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { reassignOpenTasks } from '@/lib/actions/employee-lifecycle-actions';
+import { STATUS_CATEGORY_LABELS } from '@/lib/constants/workflows';
+import { formatDate } from '@/lib/utils';
+
+// Select items can't have an empty value, so "leave unassigned" uses a placeholder
+const UNASSIGNED = 'unassigned';
+
+interface OpenTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dueDate: Date | null;
+  workflowStatus: { name: string } | null;
+  project: { id: string; name: string };
+}
+
+interface Candidate {
+  id: string;
+  user: { name: string | null };
+  position: { name: string };
+}
+
+interface TaskReassignmentProps {
+  employeeId: string;
+  employeeName: string | null;
+  tasks: OpenTask[];
+  candidates: Candidate[];
+}
+
+export function TaskReassignment({ employeeId, employeeName, tasks, candidates }: TaskReassignmentProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Chosen assignee per task; tasks without a choice are left with the employee
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const chosenCount = Object.keys(choices).length;
+
+  const assignAll = (value: string) => {
+    setChoices(Object.fromEntries(tasks.map((task) => [task.id, value])));
+  };
+
+  const handleSubmit = async () => {
+    if (!chosenCount) {
+      toast.error('Choose who should take over at least one task');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await reassignOpenTasks(
+        employeeId,
+        Object.entries(choices).map(([taskId, value]) => ({
+          taskId,
+          assignedToId: value === UNASSIGNED ? null : value,
+        })),
+      );
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`${chosenCount} ${chosenCount === 1 ? 'task' : 'tasks'} reassigned`);
+        setIsDialogOpen(false);
+        setChoices({});
+        router.refresh();
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const candidateItems = (
+    <>
+      <SelectItem value={UNASSIGNED}>Leave unassigned</SelectItem>
+      {candidates.map((candidate) => (
+        <SelectItem key={candidate.id} value={candidate.id}>
+          {candidate.user.name || 'Unnamed'} ({candidate.position.name})
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <>
+      <Alert variant="destructive" className="mb-6">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Open tasks need a new owner</AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>
+            {tasks.length} unfinished {tasks.length === 1 ? 'task is' : 'tasks are'} still assigned to{' '}
+            {employeeName || 'this employee'}.
+          </span>
+          <Button size="sm" variant="outline" onClick={() => setIsDialogOpen(true)}>
+            Reassign Tasks
+          </Button>
+        </AlertDescription>
+      </Alert>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Reassign Open Tasks</DialogTitle>
+            <DialogDescription>
+              Choose who takes over each task. Tasks without a choice stay with {employeeName || 'this employee'}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Assign all to</span>
+            <Select onValueChange={assignAll} disabled={isSubmitting}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Choose an employee" />
+              </SelectTrigger>
+              <SelectContent>{candidateItems}</SelectContent>
+            </Select>
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="w-[220px]">New Assignee</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tasks.map((task) => (
+                  <TableRow key={task.id}>
+                    <TableCell>
+                      <Link href={`/dashboard/tasks/${task.id}`} className="font-medium hover:underline">
+                        {task.title}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">{task.project.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {task.workflowStatus?.name ?? STATUS_CATEGORY_LABELS[task.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{task.dueDate ? formatDate(task.dueDate) : '—'}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={choices[task.id] ?? ''}
+                        onValueChange={(value) => setChoices((current) => ({ ...current, [task.id]: value }))}
+                        disabled={isSubmitting}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Keep for now" />
+                        </SelectTrigger>
+                        <SelectContent>{candidateItems}</SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end gap-4">
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting || !chosenCount}>
+              {isSubmitting ? 'Reassigning...' : `Reassign ${chosenCount || ''} ${chosenCount === 1 ? 'Task' : 'Tasks'}`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { UserX } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { terminateEmployee } from '@/lib/actions/employee-lifecycle-actions';
+
+interface TerminateEmployeeDialogProps {
+  employeeId: string;
+  employeeName: string | null;
+}
+
+export function TerminateEmployeeDialog({ employeeId, employeeName }: TerminateEmployeeDialogProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [terminationDate, setTerminationDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!terminationDate || !reason.trim()) {
+      toast.error('Please enter the last day of employment and a reason');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('terminationDate', terminationDate);
+      formData.append('reason', reason);
+
+      const result = await terminateEmployee(employeeId, formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          result.openTasks
+            ? `Employee terminated. ${result.openTasks} open ${result.openTasks === 1 ? 'task needs' : 'tasks need'} reassigning`
+            : 'Employee terminated',
+        );
+        setIsDialogOpen(false);
+        setReason('');
+        router.refresh();
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          <UserX className="mr-2 h-4 w-4" />
+          Terminate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Terminate {employeeName || 'Employee'}</DialogTitle>
+          <DialogDescription>
+            The employee record and salary history are kept. Their direct reports move to their manager
+            and an offboarding checklist is started.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="terminationDate">Last Day of Employment</Label>
+            <Input
+              id="terminationDate"
+              type="date"
+              value={terminationDate}
+              onChange={(e) => setTerminationDate(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="terminationReason">Reason</Label>
+            <Textarea
+              id="terminationReason"
+              placeholder="e.g. Resigned to join another company"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="flex justify-end gap-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsDialogOpen(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting ? 'Terminating...' : 'Terminate Employee'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
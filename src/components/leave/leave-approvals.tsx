@@ -0,0 +1,276 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LeaveType } from "@prisma/client";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LeaveTypeBadge } from "@/components/leave/leave-badges";
+import { recordLeaveRequest, reviewLeaveRequest } from "@/lib/actions/leave-actions";
+import { cn, formatDate, formatCalendarDay } from "@/lib/utils";
+
+interface ApprovalRequest {
+  id: string;
+  type: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  days: number;
+  reason: string | null;
+  remaining: number | null;
+  reviewedAt: Date | null;
+  reviewedBy: { name: string | null } | null;
+  employee: {
+    department: { name: string };
+    user: {
+      name: string | null;
+      email: string | null;
+    };
+  };
+}
+
+interface LeaveApprovalsProps {
+  canReview: boolean;
+  canRecord: boolean;
+  pending: ApprovalRequest[];
+  approved: ApprovalRequest[];
+}
+
+// Employee name, department and requested dates, shared by both tables
+function RequestCells({ request }: { request: ApprovalRequest }) {
+  return (
+    <>
+      <TableCell>
+        <div className="font-medium">{request.employee.user.name || request.employee.user.email}</div>
+        <div className="text-xs text-muted-foreground">{request.employee.department.name}</div>
+      </TableCell>
+      <TableCell>
+        <LeaveTypeBadge type={request.type} />
+      </TableCell>
+      <TableCell>
+        {formatCalendarDay(request.startDate)}
+        {request.endDate.getTime() !== request.startDate.getTime() && ` – ${formatCalendarDay(request.endDate)}`}
+      </TableCell>
+      <TableCell className="text-right">{request.days}</TableCell>
+    </>
+  );
+}
+
+export function LeaveApprovals({ canReview, canRecord, pending, approved }: LeaveApprovalsProps) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<ApprovalRequest | null>(null);
+  const [note, setNote] = useState("");
+
+  // Run a workflow step, refreshing the lists when it succeeds
+  const runAction = async (id: string, action: () => Promise<{ error?: string }>, message: string) => {
+    setPendingId(id);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return false;
+      }
+
+      toast.success(message);
+      router.refresh();
+      return true;
+    } catch {
+      toast.error("An unexpected error occurred");
+      return false;
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    const rejected = await runAction(
+      rejecting.id,
+      () => reviewLeaveRequest(rejecting.id, false, note),
+      "Leave request rejected",
+    );
+
+    if (rejected) {
+      setRejecting(null);
+      setNote("");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {canReview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Approval</CardTitle>
+            <CardDescription>Approve or reject leave your team has requested</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Left After</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                      No requests waiting for approval
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pending.map((request) => (
+                    <TableRow key={request.id}>
+                      <RequestCells request={request} />
+                      <TableCell className={cn("text-right", request.remaining !== null && request.remaining < 0 && "text-destructive")}>
+                        {request.remaining ?? "—"}
+                      </TableCell>
+                      <TableCell className="max-w-[240px] text-sm text-muted-foreground">{request.reason}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={pendingId === request.id}
+                            onClick={() =>
+                              runAction(request.id, () => reviewLeaveRequest(request.id, true), "Leave request approved")
+                            }
+                          >
+                            <Check className="h-4 w-4 text-green-600" />
+                            <span className="sr-only">Approve</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={pendingId === request.id}
+                            onClick={() => setRejecting(request)}
+                          >
+                            <X className="h-4 w-4 text-destructive" />
+                            <span className="sr-only">Reject</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {canRecord && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Ready to Record</CardTitle>
+            <CardDescription>Approved leave to record on each employee&apos;s HR file</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead>Approved By</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approved.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      No approved leave waiting to be recorded
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  approved.map((request) => (
+                    <TableRow key={request.id}>
+                      <RequestCells request={request} />
+                      <TableCell className="text-sm">
+                        {request.reviewedBy?.name ?? "—"}
+                        {request.reviewedAt && (
+                          <div className="text-xs text-muted-foreground">{formatDate(request.reviewedAt)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={pendingId === request.id}
+                          onClick={() =>
+                            runAction(request.id, () => recordLeaveRequest(request.id), "Leave recorded")
+                          }
+                        >
+                          <ClipboardCheck className="mr-1 h-4 w-4" />
+                          Record
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Leave Request</DialogTitle>
+            <DialogDescription>
+              {rejecting?.employee.user.name} will see this note with their request.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectNote">Reason</Label>
+            <Textarea id="rejectNote" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!note.trim() || pendingId === rejecting?.id}
+              onClick={handleReject}
+            >
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
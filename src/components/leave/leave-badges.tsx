@@ -0,0 +1,35 @@
+import { LeaveStatus, LeaveType } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { LEAVE_STATUS_LABELS, LEAVE_TYPE_LABELS } from "@/lib/constants/leave";
+import { cn } from "@/lib/utils";
+
+// Colors for each leave type, shared with the team calendar
+export const LEAVE_TYPE_COLORS: Record<LeaveType, string> = {
+  ANNUAL: "bg-blue-100 text-blue-800 border-blue-200",
+  SICK: "bg-amber-100 text-amber-800 border-amber-200",
+  UNPAID: "bg-purple-100 text-purple-800 border-purple-200",
+};
+
+const statusColors: Record<LeaveStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-green-100 text-green-800",
+  RECORDED: "bg-emerald-100 text-emerald-800",
+  REJECTED: "bg-red-100 text-red-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+export function LeaveTypeBadge({ type }: { type: LeaveType }) {
+  return (
+    <Badge variant="outline" className={LEAVE_TYPE_COLORS[type]}>
+      {LEAVE_TYPE_LABELS[type]}
+    </Badge>
+  );
+}
+
+export function LeaveStatusBadge({ status, className }: { status: LeaveStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn(statusColors[status], className)}>
+      {LEAVE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
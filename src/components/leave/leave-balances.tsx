@@ -0,0 +1,55 @@
+import { LeaveType } from "@prisma/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { LEAVE_TYPE_LABELS } from "@/lib/constants/leave";
+
+interface LeaveBalancesProps {
+  year: number;
+  balances: Array<{
+    type: LeaveType;
+    entitlement: number | null;
+    taken: number;
+    pending: number;
+    remaining: number | null;
+  }>;
+}
+
+export function LeaveBalances({ year, balances }: LeaveBalancesProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {balances.map((balance) => (
+        <Card key={balance.type}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              {LEAVE_TYPE_LABELS[balance.type]} {year}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {balance.entitlement === null ? (
+              <>
+                <div className="text-3xl font-semibold">{balance.taken}</div>
+                <p className="text-xs text-muted-foreground">
+                  Days taken, deducted from salary
+                  {balance.pending > 0 && `, ${balance.pending} pending`}
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="text-3xl font-semibold">
+                  {balance.remaining}
+                  <span className="text-base font-normal text-muted-foreground"> / {balance.entitlement} days left</span>
+                </div>
+                <Progress
+                  value={balance.entitlement > 0 ? ((balance.taken + balance.pending) / balance.entitlement) * 100 : 0}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {balance.taken} taken, {balance.pending} pending approval
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
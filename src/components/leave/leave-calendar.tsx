@@ -0,0 +1,205 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { LeaveStatus, LeaveType } from "@prisma/client";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Button } from "@/components/ui/button";
+import { LEAVE_TYPE_COLORS } from "@/components/leave/leave-badges";
+import { MONTH_NAMES } from "@/lib/constants/months";
+import { LEAVE_STATUS_LABELS, LEAVE_TYPE_LABELS } from "@/lib/constants/leave";
+import { cn, formatCalendarDay } from "@/lib/utils";
+
+interface CalendarRequest {
+  id: string;
+  type: LeaveType;
+  status: LeaveStatus;
+  startDate: Date;
+  endDate: Date;
+  employee: {
+    id: string;
+    department: { name: string };
+    user: {
+      name: string | null;
+      email: string | null;
+    };
+  };
+}
+
+interface LeaveCalendarProps {
+  month: number;
+  year: number;
+  department: string;
+  departments: Array<{ id: string; name: string }>;
+  requests: CalendarRequest[];
+}
+
+const ALL_DEPARTMENTS = "all";
+
+export function LeaveCalendar({ month, year, department, departments, requests }: LeaveCalendarProps) {
+  const router = useRouter();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days = Array.from({ length: daysInMonth }, (_, index) => new Date(Date.UTC(year, month - 1, index + 1)));
+
+  // One row per employee with leave this month
+  const rows = [...new Map(requests.map((request) => [request.employee.id, request.employee])).values()]
+    .sort((a, b) => (a.user.name || "").localeCompare(b.user.name || ""))
+    .map((employee) => ({
+      employee,
+      requests: requests.filter((request) => request.employee.id === employee.id),
+    }));
+
+  // Change the period or department; the server page reloads the calendar
+  const navigate = (params: { month?: number; year?: number; department?: string }) => {
+    const url = new URLSearchParams({
+      tab: "calendar",
+      month: String(params.month ?? month),
+      year: String(params.year ?? year),
+    });
+    const nextDepartment = params.department ?? department;
+
+    if (nextDepartment) {
+      url.set("department", nextDepartment);
+    }
+
+    router.push(`/dashboard/leave?${url.toString()}`);
+  };
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(Date.UTC(year, month - 1 + delta, 1));
+    navigate({ month: date.getUTCMonth() + 1, year: date.getUTCFullYear() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shiftMonth(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous month</span>
+          </Button>
+          <h2 className="w-44 text-center text-lg font-semibold">
+            {MONTH_NAMES[month - 1]} {year}
+          </h2>
+          <Button variant="outline" size="icon" onClick={() => shiftMonth(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next month</span>
+          </Button>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map((type) => (
+              <span key={type} className="flex items-center gap-1">
+                <span className={cn("inline-block h-3 w-3 rounded-sm border", LEAVE_TYPE_COLORS[type])} />
+                {LEAVE_TYPE_LABELS[type]}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-gray-400" />
+              Pending
+            </span>
+          </div>
+          {departments.length > 0 && (
+            <Select
+              value={department || ALL_DEPARTMENTS}
+              onValueChange={(value) => navigate({ department: value === ALL_DEPARTMENTS ? "" : value })}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                {departments.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border">
+        <TooltipProvider>
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                <th className="sticky left-0 z-10 min-w-[160px] border-b bg-background p-2 text-left font-medium">
+                  Employee
+                </th>
+                {days.map((day) => (
+                  <th
+                    key={day.getUTCDate()}
+                    className={cn(
+                      "min-w-[28px] border-b p-1 text-center font-normal",
+                      (day.getUTCDay() === 0 || day.getUTCDay() === 6) && "bg-muted text-muted-foreground"
+                    )}
+                  >
+                    <div>{day.getUTCDate()}</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {formatCalendarDay(day, "EEEEE")}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={daysInMonth + 1} className="py-8 text-center text-muted-foreground">
+                    Nobody is on leave this month
+                  </td>
+                </tr>
+              ) : (
+                rows.map(({ employee, requests: employeeRequests }) => (
+                  <tr key={employee.id}>
+                    <td className="sticky left-0 z-10 border-b bg-background p-2">
+                      <div className="font-medium">{employee.user.name || employee.user.email}</div>
+                      <div className="text-muted-foreground">{employee.department.name}</div>
+                    </td>
+                    {days.map((day) => {
+                      const request = employeeRequests.find(
+                        ({ startDate, endDate }) => new Date(startDate) <= day && new Date(endDate) >= day
+                      );
+                      const isWeekend = day.getUTCDay() === 0 || day.getUTCDay() === 6;
+
+                      return (
+                        <td key={day.getUTCDate()} className={cn("border-b p-0.5", isWeekend && "bg-muted")}>
+                          {request && !isWeekend && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div
+                                  className={cn(
+                                    "h-6 rounded-sm border",
+                                    LEAVE_TYPE_COLORS[request.type],
+                                    request.status === "PENDING" && "border-dashed opacity-60"
+                                  )}
+                                />
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                {LEAVE_TYPE_LABELS[request.type]}, {formatCalendarDay(request.startDate)} –{" "}
+                                {formatCalendarDay(request.endDate)} ({LEAVE_STATUS_LABELS[request.status]})
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </TooltipProvider>
+      </div>
+    </div>
+  );
+}
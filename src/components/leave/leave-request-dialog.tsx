@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LeaveType } from "@prisma/client";
+import { Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LEAVE_TYPE_LABELS } from "@/lib/constants/leave";
+import { countWorkingDays } from "@/lib/leave";
+import { requestLeave } from "@/lib/actions/leave-actions";
+
+interface LeaveRequestDialogProps {
+  // Days left per leave type, shown next to each option (null means no limit)
+  remaining: Partial<Record<LeaveType, number | null>>;
+}
+
+export function LeaveRequestDialog({ remaining }: LeaveRequestDialogProps) {
+  const router = useRouter();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [type, setType] = useState<LeaveType>("ANNUAL");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Preview the working days the request will use
+  const days =
+    startDate && endDate && endDate >= startDate
+      ? countWorkingDays(new Date(`${startDate}T00:00:00.000Z`), new Date(`${endDate}T00:00:00.000Z`))
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate || !endDate) {
+      toast.error("Please choose the first and last day of your leave");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("type", type);
+      formData.append("startDate", startDate);
+      formData.append("endDate", endDate);
+      formData.append("reason", reason);
+
+      const result = await requestLeave(formData);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success("Leave requested. Your manager has been asked to approve it");
+        setIsDialogOpen(false);
+        setStartDate("");
+        setEndDate("");
+        setReason("");
+        router.refresh();
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          Request Leave
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Leave</DialogTitle>
+          <DialogDescription>
+            Your manager approves the request, then HR records it on your file.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Leave Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as LeaveType)} disabled={isSubmitting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {LEAVE_TYPE_LABELS[option]}
+                    {remaining[option] != null && ` (${remaining[option]} days left)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leaveStartDate">First Day</Label>
+              <Input
+                id="leaveStartDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaveEndDate">Last Day</Label>
+              <Input
+                id="leaveEndDate"
+                type="date"
+                min={startDate || undefined}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          {days !== null && (
+            <p className="text-sm text-muted-foreground">
+              {days} working {days === 1 ? "day" : "days"}
+              {type === "UNPAID" && days > 0 && ", deducted from the salary of the months they fall in"}
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="leaveReason">Reason (optional)</Label>
+            <Textarea
+              id="leaveReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="flex justify-end gap-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsDialogOpen(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit Request"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LeaveStatus, LeaveType } from "@prisma/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { LeaveStatusBadge, LeaveTypeBadge } from "@/components/leave/leave-badges";
+import { cancelLeaveRequest } from "@/lib/actions/leave-actions";
+import { formatCalendarDay } from "@/lib/utils";
+
+interface MyLeaveRequestsProps {
+  requests: Array<{
+    id: string;
+    type: LeaveType;
+    status: LeaveStatus;
+    startDate: Date;
+    endDate: Date;
+    days: number;
+    reason: string | null;
+    reviewNote: string | null;
+    reviewedBy: { name: string | null } | null;
+  }>;
+}
+
+export function MyLeaveRequests({ requests }: MyLeaveRequestsProps) {
+  const router = useRouter();
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const handleCancel = async (id: string) => {
+    setCancellingId(id);
+
+    try {
+      const result = await cancelLeaveRequest(id);
+
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success("Leave request cancelled");
+        router.refresh();
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Type</TableHead>
+            <TableHead>Dates</TableHead>
+            <TableHead className="text-right">Days</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead className="w-[100px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                You haven&apos;t requested any leave yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            requests.map((request) => (
+              <TableRow key={request.id}>
+                <TableCell>
+                  <LeaveTypeBadge type={request.type} />
+                </TableCell>
+                <TableCell>
+                  {formatCalendarDay(request.startDate)}
+                  {request.endDate.getTime() !== request.startDate.getTime() && ` – ${formatCalendarDay(request.endDate)}`}
+                </TableCell>
+                <TableCell className="text-right">{request.days}</TableCell>
+                <TableCell>
+                  <LeaveStatusBadge status={request.status} />
+                </TableCell>
+                <TableCell className="max-w-[280px] text-sm text-muted-foreground">
+                  {request.reviewNote ? (
+                    <span>
+                      {request.reviewedBy?.name ?? "Reviewer"}: {request.reviewNote}
+                    </span>
+                  ) : (
+                    request.reason
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {(request.status === "PENDING" || request.status === "APPROVED") && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={cancellingId === request.id}>
+                          Cancel
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Cancel this leave request?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The days go back into your balance. You can request them again later.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep Request</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleCancel(request.id)}>
+                            Cancel Request
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { AlertTriangle, Play } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+import { formatCurrency } from '@/lib/utils';
+import { MONTH_NAMES } from '@/lib/constants/months';
+import { BASE_CURRENCY } from '@/lib/constants/currencies';
+import { runPayroll } from '@/lib/actions/payroll-actions';
+
+interface PayrollEntry {
+  employeeId: string;
+  name: string | null;
+  email: string | null;
+  department: string;
+  position: string;
+  currency: string;
+  exchangeRate: number | null;
+  baseSalary: number;
+  hasSalaryHistory: boolean;
+  previousCurrency: string | null;
+  unpaidLeave: { label: string; amount: number } | null;
+  overtime: { label: string; amount: number } | null;
+  existingSalary: { id: string; status: string; totalSalary: number; currency: string } | null;
+}
+
+interface PayrollRunProps {
+  month: number;
+  year: number;
+  entries: PayrollEntry[];
+}
+
+interface Adjustment {
+  included: boolean;
+  bonus: string;
+  deductions: string;
+  includeOvertime: boolean;
+}
+
+// Employees already paid for the month, or whose last salary is in another currency, can't be included
+const isPayable = (entry: PayrollEntry) => !entry.existingSalary && !entry.previousCurrency;
+
+// Inputs are kept as strings while typing; blanks count as zero
+const toAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+};
+
+export function PayrollRun({ month, year, entries }: PayrollRunProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [adjustments, setAdjustments] = useState<Record<string, Adjustment>>(() =>
+    Object.fromEntries(
+      entries.map((entry) => [
+        entry.employeeId,
+        // Employees already paid for this month are skipped by default
+        { included: isPayable(entry), bonus: '0', deductions: '0', includeOvertime: !!entry.overtime },
+      ]),
+    ),
+  );
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = [currentYear - 1, currentYear, currentYear + 1];
+
+  const updateAdjustment = (employeeId: string, changes: Partial<Adjustment>) => {
+    setAdjustments((previous) => ({
+      ...previous,
+      [employeeId]: { ...previous[employeeId], ...changes },
+    }));
+  };
+
+  // Change the period; the server page reloads the preview
+  const changePeriod = (params: { month?: string; year?: string }) => {
+    const url = new URLSearchParams({
+      month: params.month ?? month.toString(),
+      year: params.year ?? year.toString(),
+    });
+    router.push(`/dashboard/payroll?${url.toString()}`);
+  };
+
+  const getTotal = (entry: PayrollEntry) => {
+    const adjustment = adjustments[entry.employeeId];
+    return (
+      entry.baseSalary +
+      toAmount(adjustment.bonus) +
+      (adjustment.includeOvertime ? entry.overtime?.amount ?? 0 : 0) -
+      toAmount(adjustment.deductions) -
+      (entry.unpaidLeave?.amount ?? 0)
+    );
+  };
+
+  const includedEntries = entries.filter(
+    (entry) => isPayable(entry) && adjustments[entry.employeeId]?.included,
+  );
+  const conflictCount = entries.filter((entry) => entry.existingSalary).length;
+
+  // Employees paid in a currency with no rate for this month can't be added to the totals
+  const unconvertedEntries = includedEntries.filter((entry) => entry.exchangeRate === null);
+  const missingRateCurrencies = Array.from(new Set(unconvertedEntries.map((entry) => entry.currency)));
+
+  // Totals per department for the employees being paid, converted to the base currency
+  const departmentTotals = Object.entries(
+    includedEntries.reduce<Record<string, { count: number; total: number }>>((totals, entry) => {
+      const current = totals[entry.department] || { count: 0, total: 0 };
+      totals[entry.department] = {
+        count: current.count + 1,
+        total: current.total + getTotal(entry) * (entry.exchangeRate ?? 0),
+      };
+      return totals;
+    }, {}),
+  ).sort(([a], [b]) => a.localeCompare(b));
+
+  const grandTotal = departmentTotals.reduce((sum, [, { total }]) => sum + total, 0);
+
+  // Commit the run
+  async function handleRun() {
+    setIsSubmitting(true);
+    setConflicts([]);
+
+    try {
+      const result = await runPayroll(
+        month,
+        year,
+        includedEntries.map((entry) => ({
+          employeeId: entry.employeeId,
+          bonus: toAmount(adjustments[entry.employeeId].bonus),
+          deductions: toAmount(adjustments[entry.employeeId].deductions),
+          includeOvertime: adjustments[entry.employeeId].includeOvertime,
+        })),
+      );
+
+      if (result.error) {
+        toast.error(result.error);
+        if ('conflicts' in result && result.conflicts) {
+          setConflicts(result.conflicts);
+        }
+      } else {
+        toast.success(`Created ${result.created} salary records for ${MONTH_NAMES[month - 1]} ${year}`);
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={month.toString()} onValueChange={(value) => changePeriod({ month: value })}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Month" />
+          </SelectTrigger>
+          <SelectContent>
+            {MONTH_NAMES.map((name, index) => (
+              <SelectItem key={name} value={(index + 1).toString()}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={year.toString()} onValueChange={(value) => changePeriod({ year: value })}>
+          <SelectTrigger className="w-[120px]">
+            <SelectValue placeholder="Year" />
+          </SelectTrigger>
+          <SelectContent>
+            {(yearOptions.includes(year) ? yearOptions : [year, ...yearOptions]).map((option) => (
+              <SelectItem key={option} value={option.toString()}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {conflictCount > 0 && (
+        <div className="flex items-start gap-2 rounded-md bg-muted p-4 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500" />
+          <p>
+            {conflictCount} {conflictCount === 1 ? 'employee already has' : 'employees already have'} a
+            salary record for {MONTH_NAMES[month - 1]} {year} and will be skipped. Revise those records
+            from the employee&apos;s salary tab instead.
+          </p>
+        </div>
+      )}
+
+      {missingRateCurrencies.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md bg-muted p-4 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500" />
+          <p>
+            No exchange rate to {BASE_CURRENCY} is set for {missingRateCurrencies.join(', ')} as of{' '}
+            {MONTH_NAMES[month - 1]} {year}. {unconvertedEntries.length}{' '}
+            {unconvertedEntries.length === 1 ? 'employee is' : 'employees are'} left out of the totals
+            below until an administrator adds one.
+          </p>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="rounded-md bg-destructive/15 p-4 text-sm text-destructive">
+          Nothing was saved. These employees received a salary record for this month since the
+          preview was loaded: {conflicts.join(', ')}. Refresh the preview and try again.
+        </div>
+      )}
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]" />
+              <TableHead>Employee</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead className="text-right">Base Salary</TableHead>
+              <TableHead className="w-[130px]">Bonus</TableHead>
+              <TableHead className="w-[130px]">Deductions</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  No employees found
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => {
+                const adjustment = adjustments[entry.employeeId];
+                const isLocked = !isPayable(entry);
+
+                return (
+                  <TableRow key={entry.employeeId} className={isLocked ? 'opacity-60' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!isLocked && adjustment.included}
+                        onCheckedChange={(value) => updateAdjustment(entry.employeeId, { included: value === true })}
+                        disabled={isLocked || isSubmitting}
+                        aria-label={`Include ${entry.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.name}</div>
+                      <div className="text-xs text-muted-foreground">{entry.position}</div>
+                      {entry.existingSalary && <Badge variant="outline" className="mt-1">Already recorded</Badge>}
+                      {entry.previousCurrency && (
+                        <Badge variant="outline" className="mt-1">
+                          Last salary in {entry.previousCurrency}; record one in {entry.currency}
+                        </Badge>
+                      )}
+                      {!entry.hasSalaryHistory && (
+                        <Badge variant="outline" className="mt-1">No salary history</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.department}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.previousCurrency ? '—' : formatCurrency(entry.baseSalary, entry.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={adjustment.bonus}
+                        onChange={(e) => updateAdjustment(entry.employeeId, { bonus: e.target.value })}
+                        disabled={isLocked || !adjustment.included || isSubmitting}
+                      />
+                      {entry.overtime && !isLocked && (
+                        <label className="mt-1 flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <Checkbox
+                            checked={adjustment.includeOvertime}
+                            onCheckedChange={(value) =>
+                              updateAdjustment(entry.employeeId, { includeOvertime: value === true })
+                            }
+                            disabled={!adjustment.included || isSubmitting}
+                          />
+                          + {entry.overtime.label}: {formatCurrency(entry.overtime.amount, entry.currency)}
+                        </label>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={adjustment.deductions}
+                        onChange={(e) => updateAdjustment(entry.employeeId, { deductions: e.target.value })}
+                        disabled={isLocked || !adjustment.included || isSubmitting}
+                      />
+                      {entry.unpaidLeave && !isLocked && (
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          + {entry.unpaidLeave.label}: {formatCurrency(entry.unpaidLeave.amount, entry.currency)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {entry.existingSalary
+                        ? formatCurrency(entry.existingSalary.totalSalary, entry.existingSalary.currency)
+                        : entry.previousCurrency
+                          ? '—'
+                          : formatCurrency(getTotal(entry), entry.currency)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Totals by Department</CardTitle>
+          <CardDescription>
+            {includedEntries.length} of {entries.length} employees included for {MONTH_NAMES[month - 1]} {year},
+            converted to {BASE_CURRENCY}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Department</TableHead>
+                <TableHead className="text-right">Employees</TableHead>
+                <TableHead className="text-right">Total ({BASE_CURRENCY})</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {departmentTotals.map(([department, { count, total }]) => (
+                <TableRow key={department}>
+                  <TableCell>{department}</TableCell>
+                  <TableCell className="text-right">{count}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{includedEntries.length}</TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(grandTotal)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button disabled={includedEntries.length === 0 || isSubmitting}>
+              <Play className="mr-2 h-4 w-4" />
+              {isSubmitting ? 'Running...' : 'Run Payroll'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Run Payroll</AlertDialogTitle>
+              <AlertDialogDescription>
+                Create {includedEntries.length} salary records for {MONTH_NAMES[month - 1]} {year} totalling{' '}
+                {formatCurrency(grandTotal)}
+                {missingRateCurrencies.length > 0 && ' (excluding employees without an exchange rate)'}?
+                Either all records are created or none are.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRun}>Run Payroll</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   CheckCircle, 
   Clock, 
   Folder, 
+  GitBranch,
   MoreHorizontal,
   Pencil,
   Trash2
@@ -46,6 +47,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { deleteProject } from "@/lib/actions/project-actions";
+import { KanbanBoard } from "@/components/tasks/kanban-board";
 
 // Define the types for the project data
 interface Task {
@@ -54,6 +56,16 @@ interface Task {
   description: string | null;
   priority: TaskPriority;
   status: TaskStatus;
+  workflowStatusId: string | null;
+  workflowStatus: {
+    id: string;
+    name: string;
+  } | null;
+  projectId: string;
+  dueDate: Date | null;
+  _count?: {
+    comments: number;
+  };
   assignedTo: {
     id: string;
     user: {
@@ -75,6 +87,13 @@ interface ProjectDetailProps {
     endDate: Date | null;
     status: ProjectStatus;
     tasks: Task[];
+    workflowStatuses: {
+      id: string;
+      name: string;
+      category: TaskStatus;
+      wipLimit: number | null;
+      enforceWipLimit: boolean;
+    }[];
     totalTasks: number;
     completedTasks: number;
     progress: number;
@@ -83,9 +102,10 @@ interface ProjectDetailProps {
   };
   canUpdate: boolean;
   canDelete: boolean;
+  userRole: string;
 }
 
-export function ProjectDetail({ project, canUpdate, canDelete }: ProjectDetailProps) {
+export function ProjectDetail({ project, canUpdate, canDelete, userRole }: ProjectDetailProps) {
   const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -185,6 +205,12 @@ export function ProjectDetail({ project, canUpdate, canDelete }: ProjectDetailPr
                   Edit Project
                 </DropdownMenuItem>
               )}
+              {canUpdate && (
+                <DropdownMenuItem onClick={() => router.push(`/dashboard/projects/workflow/${project.id}`)}>
+                  <GitBranch className="mr-2 h-4 w-4" />
+                  Edit Workflow
+                </DropdownMenuItem>
+              )}
               {canDelete && (
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -321,10 +347,13 @@ export function ProjectDetail({ project, canUpdate, canDelete }: ProjectDetailPr
               <TabsTrigger value="todo">To Do</TabsTrigger>
               <TabsTrigger value="in-progress">In Progress</TabsTrigger>
               <TabsTrigger value="completed">Completed</TabsTrigger>
+              <TabsTrigger value="board">Board</TabsTrigger>
             </TabsList>
-            <Button onClick={() => router.push(`/dashboard/tasks/new?projectId=${project.id}`)}>
-              Add Task
-            </Button>
+            {(userRole === "ADMIN" || userRole === "MANAGER") && (
+              <Button onClick={() => router.push(`/dashboard/tasks/new?projectId=${project.id}`)}>
+                Add Task
+              </Button>
+            )}
           </div>
 
           <TabsContent value="all">
@@ -420,6 +449,15 @@ export function ProjectDetail({ project, canUpdate, canDelete }: ProjectDetailPr
               </Alert>
             )}
           </TabsContent>
+
+          <TabsContent value="board">
+            <KanbanBoard
+              tasks={project.tasks}
+              statuses={project.workflowStatuses}
+              userRole={userRole}
+              projectId={project.id}
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -444,7 +482,7 @@ function TaskCard({ task, statusColor, priorityColor }: TaskCardProps) {
         <CardTitle className="text-lg font-semibold line-clamp-1">{task.title}</CardTitle>
         <div className="flex gap-2">
           <Badge className={statusColor(task.status)}>
-            {task.status.replace("_", " ")}
+            {task.workflowStatus?.name ?? task.status.replace("_", " ")}
           </Badge>
           <Badge className={priorityColor(task.priority)}>
             {task.priority}
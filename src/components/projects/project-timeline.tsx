@@ -0,0 +1,431 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ProjectStatus, TaskStatus } from "@prisma/client";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  max,
+  min,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ArrowLeft, ChevronDown, ChevronRight } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { rescheduleProject } from "@/lib/actions/project-actions";
+import { cn } from "@/lib/utils";
+
+interface TimelineProject {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  startDate: Date;
+  endDate: Date | null;
+  tasks: Array<{
+    id: string;
+    title: string;
+    status: TaskStatus;
+    startDate: Date | null;
+    dueDate: Date | null;
+  }>;
+}
+
+interface ProjectTimelineProps {
+  projects: TimelineProject[];
+  canReschedule: boolean;
+}
+
+type Scale = "month" | "week";
+
+// Width of one day in pixels at each zoom level
+const DAY_WIDTH: Record<Scale, number> = {
+  month: 8,
+  week: 28,
+};
+
+const PROJECT_ROW_HEIGHT = 40;
+const TASK_ROW_HEIGHT = 32;
+
+// Bar colors for each project status
+const projectStatusColors: Record<ProjectStatus, string> = {
+  PLANNING: "bg-blue-500",
+  IN_PROGRESS: "bg-yellow-500",
+  ON_HOLD: "bg-orange-500",
+  COMPLETED: "bg-green-500",
+  CANCELLED: "bg-red-500",
+};
+
+const projectStatusLabels: Record<ProjectStatus, string> = {
+  PLANNING: "Planning",
+  IN_PROGRESS: "In Progress",
+  ON_HOLD: "On Hold",
+  COMPLETED: "Completed",
+  CANCELLED: "Cancelled",
+};
+
+// Bar colors for each task status category
+const taskStatusColors: Record<TaskStatus, string> = {
+  TODO: "bg-gray-300",
+  IN_PROGRESS: "bg-blue-300",
+  REVIEW: "bg-amber-300",
+  DONE: "bg-green-300",
+};
+
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  projectId: string;
+  mode: DragMode;
+  originX: number;
+  days: number;
+}
+
+// Open-ended projects are drawn up to today, or their start if that is later
+const displayEnd = (project: TimelineProject, today: Date) =>
+  project.endDate ?? max([today, project.startDate]);
+
+// A project's dates after being dragged by `days` in the given mode
+function applyDrag(project: TimelineProject, mode: DragMode, days: number, today: Date) {
+  const end = displayEnd(project, today);
+
+  switch (mode) {
+    case "move":
+      return {
+        startDate: addDays(project.startDate, days),
+        endDate: project.endDate ? addDays(project.endDate, days) : null,
+      };
+    case "start":
+      return { startDate: min([addDays(project.startDate, days), end]), endDate: project.endDate };
+    case "end":
+      return { startDate: project.startDate, endDate: max([addDays(end, days), project.startDate]) };
+  }
+}
+
+const formatRange = (start: Date, end: Date | null) =>
+  `${format(start, "MMM d, yyyy")} – ${end ? format(end, "MMM d, yyyy") : "ongoing"}`;
+
+export function ProjectTimeline({ projects, canReschedule }: ProjectTimelineProps) {
+  const router = useRouter();
+  const [localProjects, setLocalProjects] = useState(projects);
+  const [scale, setScale] = useState<Scale>("month");
+  const [showTasks, setShowTasks] = useState(true);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const today = useMemo(() => startOfDay(new Date()), []);
+  const dayWidth = DAY_WIDTH[scale];
+
+  // Show the projects with the dragged one moved to where it is being dropped
+  const displayedProjects = useMemo(
+    () =>
+      localProjects.map((project) =>
+        drag?.projectId === project.id ? { ...project, ...applyDrag(project, drag.mode, drag.days, today) } : project,
+      ),
+    [localProjects, drag, today],
+  );
+
+  // The visible range covers every bar and today, padded to whole months or weeks
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const dates = [today];
+    localProjects.forEach((project) => {
+      dates.push(project.startDate, displayEnd(project, today));
+      project.tasks.forEach((task) => {
+        if (task.startDate) dates.push(task.startDate);
+        if (task.dueDate) dates.push(task.dueDate);
+      });
+    });
+
+    const first = min(dates);
+    const last = max(dates);
+
+    return scale === "month"
+      ? { rangeStart: startOfMonth(addDays(first, -30)), rangeEnd: endOfMonth(addDays(last, 30)) }
+      : {
+          rangeStart: startOfWeek(addDays(first, -7), { weekStartsOn: 1 }),
+          rangeEnd: endOfWeek(addDays(last, 7), { weekStartsOn: 1 }),
+        };
+  }, [localProjects, scale, today]);
+
+  const totalWidth = (differenceInCalendarDays(rangeEnd, rangeStart) + 1) * dayWidth;
+
+  // Header units: months or weeks, clipped to the visible range
+  const units = (
+    scale === "month"
+      ? eachMonthOfInterval({ start: rangeStart, end: rangeEnd }).map((start) => ({
+          start,
+          end: endOfMonth(start),
+          label: format(start, "MMM yyyy"),
+        }))
+      : eachWeekOfInterval({ start: rangeStart, end: rangeEnd }, { weekStartsOn: 1 }).map((start) => ({
+          start,
+          end: endOfWeek(start, { weekStartsOn: 1 }),
+          label: format(start, "MMM d"),
+        }))
+  ).map((unit) => ({
+    ...unit,
+    width: (differenceInCalendarDays(min([unit.end, rangeEnd]), max([unit.start, rangeStart])) + 1) * dayWidth,
+  }));
+
+  const offsetOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+  const widthOf = (start: Date, end: Date) => (differenceInCalendarDays(end, start) + 1) * dayWidth;
+
+  const startDrag = (e: React.PointerEvent, projectId: string, mode: DragMode) => {
+    if (!canReschedule) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ projectId, mode, originX: e.clientX, days: 0 });
+  };
+
+  // Follow the pointer while dragging, then save the new dates on release
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const days = Math.round((e.clientX - drag.originX) / dayWidth);
+      setDrag((current) => (current && current.days !== days ? { ...current, days } : current));
+    };
+
+    const handleUp = async () => {
+      const current = drag;
+      setDrag(null);
+
+      const project = localProjects.find((p) => p.id === current.projectId);
+
+      if (!project) return;
+
+      // A click without dragging opens the project
+      if (current.days === 0) {
+        router.push(`/dashboard/projects/${project.id}`);
+        return;
+      }
+
+      const dates = applyDrag(project, current.mode, current.days, today);
+      const previous = localProjects;
+
+      setLocalProjects((list) => list.map((p) => (p.id === project.id ? { ...p, ...dates } : p)));
+
+      const result = await rescheduleProject(
+        project.id,
+        dates.startDate.toISOString(),
+        dates.endDate ? dates.endDate.toISOString() : null,
+      );
+
+      if (result.error) {
+        toast.error(result.error);
+        setLocalProjects(previous);
+        return;
+      }
+
+      toast.success(`${project.name} rescheduled to ${formatRange(dates.startDate, dates.endDate)}`);
+      router.refresh();
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, dayWidth, localProjects, router, today]);
+
+  const toggleProject = (id: string) => {
+    setCollapsed((current) => (current.includes(id) ? current.filter((key) => key !== id) : [...current, id]));
+  };
+
+  const visibleTasks = (project: TimelineProject) =>
+    showTasks && !collapsed.includes(project.id) ? project.tasks : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/dashboard/projects">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Projects
+          </Link>
+        </Button>
+
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch id="show-tasks" checked={showTasks} onCheckedChange={setShowTasks} />
+            <Label htmlFor="show-tasks">Show tasks</Label>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={scale}
+            onValueChange={(value) => value && setScale(value as Scale)}
+          >
+            <ToggleGroupItem value="month">Months</ToggleGroupItem>
+            <ToggleGroupItem value="week">Weeks</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {(Object.keys(projectStatusColors) as ProjectStatus[]).map((status) => (
+          <span key={status} className="flex items-center">
+            <span className={cn("mr-1.5 h-3 w-3 rounded-sm", projectStatusColors[status])} />
+            {projectStatusLabels[status]}
+          </span>
+        ))}
+        {canReschedule && <span>Drag a project bar to move it, or its edges to change its dates.</span>}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {displayedProjects.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">No projects to show</div>
+          ) : (
+            <div className="flex">
+              {/* Row labels */}
+              <div className="w-64 shrink-0 border-r">
+                <div className="h-10 border-b px-3 flex items-center text-sm font-medium">Project</div>
+                {displayedProjects.map((project) => (
+                  <div key={project.id}>
+                    <div className="flex items-center px-2 border-b" style={{ height: PROJECT_ROW_HEIGHT }}>
+                      {showTasks && project.tasks.length > 0 ? (
+                        <button
+                          type="button"
+                          className="mr-1 text-muted-foreground hover:text-foreground"
+                          onClick={() => toggleProject(project.id)}
+                        >
+                          {collapsed.includes(project.id) ? (
+                            <ChevronRight className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                          <span className="sr-only">Toggle tasks</span>
+                        </button>
+                      ) : (
+                        <span className="mr-1 w-4" />
+                      )}
+                      <Link
+                        href={`/dashboard/projects/${project.id}`}
+                        className="truncate text-sm font-medium hover:underline"
+                      >
+                        {project.name}
+                      </Link>
+                    </div>
+                    {visibleTasks(project).map((task) => (
+                      <div
+                        key={task.id}
+                        className="flex items-center pl-9 pr-2 border-b"
+                        style={{ height: TASK_ROW_HEIGHT }}
+                      >
+                        <Link
+                          href={`/dashboard/tasks/${task.id}`}
+                          className="truncate text-xs text-muted-foreground hover:underline"
+                        >
+                          {task.title}
+                        </Link>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              {/* Scale and bars */}
+              <div className="flex-1 overflow-x-auto">
+                <div className="relative" style={{ width: totalWidth }}>
+                  <div className="flex h-10 border-b">
+                    {units.map((unit) => (
+                      <div
+                        key={unit.start.toISOString()}
+                        className="shrink-0 border-r px-2 flex items-center text-xs text-muted-foreground"
+                        style={{ width: unit.width }}
+                      >
+                        {unit.label}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Today marker */}
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-destructive z-10 pointer-events-none"
+                    style={{ left: offsetOf(today) + dayWidth / 2 }}
+                    title={`Today, ${format(today, "MMM d, yyyy")}`}
+                  />
+
+                  {displayedProjects.map((project) => {
+                    const end = displayEnd(project, today);
+
+                    return (
+                      <div key={project.id}>
+                        <div className="relative border-b" style={{ height: PROJECT_ROW_HEIGHT }}>
+                          <div
+                            className={cn(
+                              "absolute top-2 bottom-2 rounded-md text-white text-xs flex items-center px-2 select-none shadow-sm",
+                              projectStatusColors[project.status],
+                              !project.endDate && "rounded-r-none opacity-80",
+                              canReschedule ? "cursor-grab" : "cursor-pointer",
+                              drag?.projectId === project.id && "cursor-grabbing ring-2 ring-ring",
+                            )}
+                            style={{ left: offsetOf(project.startDate), width: widthOf(project.startDate, end) }}
+                            title={`${project.name}: ${formatRange(project.startDate, project.endDate)}`}
+                            onPointerDown={(e) =>
+                              canReschedule
+                                ? startDrag(e, project.id, "move")
+                                : router.push(`/dashboard/projects/${project.id}`)
+                            }
+                          >
+                            {canReschedule && (
+                              <span
+                                className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize"
+                                onPointerDown={(e) => startDrag(e, project.id, "start")}
+                              />
+                            )}
+                            <span className="truncate">{project.name}</span>
+                            {canReschedule && (
+                              <span
+                                className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize"
+                                onPointerDown={(e) => startDrag(e, project.id, "end")}
+                              />
+                            )}
+                          </div>
+                        </div>
+
+                        {visibleTasks(project).map((task) => {
+                          const taskStart = (task.startDate ?? task.dueDate) as Date;
+                          const taskEnd = max([task.dueDate ?? taskStart, taskStart]);
+
+                          return (
+                            <div key={task.id} className="relative border-b" style={{ height: TASK_ROW_HEIGHT }}>
+                              <Link
+                                href={`/dashboard/tasks/${task.id}`}
+                                className={cn(
+                                  "absolute top-2 bottom-2 rounded",
+                                  taskStatusColors[task.status],
+                                )}
+                                style={{ left: offsetOf(taskStart), width: widthOf(taskStart, taskEnd) }}
+                                title={`${task.title}: ${formatRange(taskStart, taskEnd)}`}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
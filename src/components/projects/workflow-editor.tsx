@@ -0,0 +1,350 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { TaskStatus } from "@prisma/client";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { saveProjectWorkflow, WorkflowStatusInput } from "@/lib/actions/workflow-actions";
+import { STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
+
+interface WorkflowEditorProps {
+  project: {
+    id: string;
+    name: string;
+    workflowStatuses: Array<{
+      id: string;
+      name: string;
+      category: TaskStatus;
+      wipLimit: number | null;
+      enforceWipLimit: boolean;
+      nextStatuses: { id: string }[];
+      _count: { tasks: number };
+    }>;
+  };
+}
+
+type EditableStatus = WorkflowStatusInput & { taskCount: number };
+
+export function WorkflowEditor({ project }: WorkflowEditorProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [statuses, setStatuses] = useState<EditableStatus[]>(() =>
+    project.workflowStatuses.map((status) => ({
+      id: status.id,
+      key: status.id,
+      name: status.name,
+      category: status.category,
+      wipLimit: status.wipLimit,
+      enforceWipLimit: status.enforceWipLimit,
+      next: status.nextStatuses.map((next) => next.id),
+      taskCount: status._count.tasks,
+    })),
+  );
+  const [restricted, setRestricted] = useState(() =>
+    project.workflowStatuses.some((status) => status.nextStatuses.length > 0),
+  );
+
+  const updateStatus = (key: string, data: Partial<EditableStatus>) => {
+    setStatuses((current) => current.map((status) => (status.key === key ? { ...status, ...data } : status)));
+  };
+
+  // Swap a status with its neighbour
+  const moveStatus = (index: number, offset: -1 | 1) => {
+    setStatuses((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const addStatus = () => {
+    setStatuses((current) => [
+      ...current,
+      {
+        key: `new-${Date.now()}`,
+        name: "",
+        category: "IN_PROGRESS",
+        wipLimit: null,
+        enforceWipLimit: false,
+        next: [],
+        taskCount: 0,
+      },
+    ]);
+  };
+
+  const removeStatus = (key: string) => {
+    setStatuses((current) =>
+      current
+        .filter((status) => status.key !== key)
+        .map((status) => ({ ...status, next: status.next.filter((next) => next !== key) })),
+    );
+  };
+
+  const toggleTransition = (from: EditableStatus, toKey: string, allowed: boolean) => {
+    updateStatus(from.key, {
+      next: allowed ? [...from.next, toKey] : from.next.filter((key) => key !== toKey),
+    });
+  };
+
+  // Turning restrictions on starts from every move being allowed
+  const handleRestrictedChange = (checked: boolean) => {
+    setRestricted(checked);
+    setStatuses((current) =>
+      current.map((status) => ({
+        ...status,
+        next: checked ? current.filter((other) => other.key !== status.key).map((other) => other.key) : [],
+      })),
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const result = await saveProjectWorkflow(
+        project.id,
+        statuses.map(({ id, key, name, category, wipLimit, enforceWipLimit, next }) => ({
+          id,
+          key,
+          name,
+          category,
+          wipLimit,
+          enforceWipLimit,
+          next: restricted ? next : [],
+        })),
+      );
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Workflow saved successfully");
+      router.push(`/dashboard/projects/${project.id}`);
+      router.refresh();
+    } catch (error) {
+      toast.error("An unexpected error occurred");
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Statuses</CardTitle>
+          <CardDescription>
+            Columns of the {project.name} board, in order. The category decides how a status
+            counts towards progress and reports. A WIP limit warns when a column holds too many
+            tasks, or blocks further moves into it when enforced.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Order</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-48">Category</TableHead>
+                <TableHead className="w-28">WIP Limit</TableHead>
+                <TableHead className="w-24">Enforce</TableHead>
+                <TableHead className="w-24">Tasks</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.map((status, index) => (
+                <TableRow key={status.key}>
+                  <TableCell>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={index === 0}
+                        onClick={() => moveStatus(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={index === statuses.length - 1}
+                        onClick={() => moveStatus(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={status.name}
+                      onChange={(e) => updateStatus(status.key, { name: e.target.value })}
+                      placeholder="e.g. Blocked"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={status.category}
+                      onValueChange={(value) => updateStatus(status.key, { category: value as TaskStatus })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(STATUS_CATEGORY_LABELS) as TaskStatus[]).map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {STATUS_CATEGORY_LABELS[category]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={status.wipLimit ?? ""}
+                      onChange={(e) =>
+                        updateStatus(status.key, {
+                          wipLimit: e.target.value ? Number(e.target.value) : null,
+                          ...(e.target.value ? {} : { enforceWipLimit: false }),
+                        })
+                      }
+                      placeholder="None"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={status.enforceWipLimit}
+                      disabled={status.wipLimit === null}
+                      onCheckedChange={(checked) => updateStatus(status.key, { enforceWipLimit: checked })}
+                      aria-label={`Enforce the WIP limit of ${status.name || "this status"}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{status.taskCount}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      disabled={status.taskCount > 0 || statuses.length === 1}
+                      title={status.taskCount > 0 ? "Move this status's tasks before removing it" : undefined}
+                      onClick={() => removeStatus(status.key)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove status</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" size="sm" onClick={addStatus}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Status
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transitions</CardTitle>
+          <CardDescription>
+            By default a task can move between any two statuses. Restrict transitions to choose
+            which moves are allowed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="restrict-transitions" checked={restricted} onCheckedChange={handleRestrictedChange} />
+            <Label htmlFor="restrict-transitions">Restrict transitions</Label>
+          </div>
+
+          {restricted && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From \ To</TableHead>
+                  {statuses.map((status) => (
+                    <TableHead key={status.key} className="text-center">
+                      {status.name || "Untitled"}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statuses.map((from) => (
+                  <TableRow key={from.key}>
+                    <TableCell className="font-medium">{from.name || "Untitled"}</TableCell>
+                    {statuses.map((to) => (
+                      <TableCell key={to.key} className="text-center">
+                        {from.key !== to.key && (
+                          <Checkbox
+                            checked={from.next.includes(to.key)}
+                            onCheckedChange={(checked) => toggleTransition(from, to.key, checked === true)}
+                            aria-label={`Allow ${from.name} to ${to.name}`}
+                          />
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => router.push(`/dashboard/projects/${project.id}`)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Project
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Workflow
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
+import { DragDropContext, Droppable, Draggable, type DragStart, type DropResult } from "@hello-pangea/dnd";
 import { TaskStatus, TaskPriority } from "@prisma/client";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { updateTask } from "@/lib/actions/task-actions";
-import { PlusCircle, Loader2, Clock, Check, FilePenLine, AlertCircle } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { moveTask } from "@/lib/actions/task-actions";
+import { toast } from "sonner";
+import { PlusCircle, Loader2, Clock, Check, FilePenLine, AlertCircle, CalendarClock, MessageSquare, ChevronDown, ChevronRight, Ban } from "lucide-react";
+import { cn, formatDate } from "@/lib/utils";
+import { isTaskOverdue } from "@/lib/tasks";
+import { STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
 
 // Define types for the component
 interface KanbanProps {
@@ -20,7 +30,14 @@ interface KanbanProps {
     title: string;
     description: string | null;
     status: TaskStatus;
+    workflowStatusId?: string | null;
     priority: TaskPriority;
+    dueDate?: Date | null;
+    _count?: {
+      comments: number;
+      // Unfinished tasks blocking this one
+      blockedBy?: number;
+    };
     assignedTo: {
       id: string;
       user: {
@@ -36,6 +53,14 @@ interface KanbanProps {
       name: string;
     };
   }>;
+  // A project's workflow statuses; boards spanning projects show one column per category
+  statuses?: Array<{
+    id: string;
+    name: string;
+    category: TaskStatus;
+    wipLimit?: number | null;
+    enforceWipLimit?: boolean;
+  }>;
   userRole: string;
   projectId?: string;
   refreshTasks?: () => void;
@@ -49,35 +74,114 @@ const priorityConfig = {
   'CRITICAL': { color: "bg-red-100 text-red-800" },
 };
 
-// Define columns with their ids, titles and icons
-const columns = [
-  { 
-    id: "TODO", 
-    title: "To Do", 
-    icon: <Clock className="h-4 w-4 mr-2" /> 
-  },
-  { 
-    id: "IN_PROGRESS", 
-    title: "In Progress",
-    icon: <Clock className="h-4 w-4 mr-2 text-blue-500" />
-  },
-  { 
-    id: "REVIEW", 
-    title: "Review",
-    icon: <FilePenLine className="h-4 w-4 mr-2 text-amber-500" />
-  },
-  { 
-    id: "DONE", 
-    title: "Done",
-    icon: <Check className="h-4 w-4 mr-2 text-green-500" />
-  }
+// Column icons for each status category
+const categoryIcons: Record<TaskStatus, React.ReactNode> = {
+  TODO: <Clock className="h-4 w-4 mr-2" />,
+  IN_PROGRESS: <Clock className="h-4 w-4 mr-2 text-blue-500" />,
+  REVIEW: <FilePenLine className="h-4 w-4 mr-2 text-amber-500" />,
+  DONE: <Check className="h-4 w-4 mr-2 text-green-500" />,
+};
+
+// One column per category, for boards spanning projects with different workflows
+const categoryColumns = (Object.keys(STATUS_CATEGORY_LABELS) as TaskStatus[]).map(category => ({
+  id: category as string,
+  title: STATUS_CATEGORY_LABELS[category],
+  category,
+  wipLimit: null as number | null,
+  enforceWipLimit: false,
+}));
+
+type KanbanTask = KanbanProps["tasks"][number];
+type GroupBy = "none" | "assignee" | "priority" | "project";
+
+const priorityLanes: Array<{ key: TaskPriority; title: string }> = [
+  { key: "CRITICAL", title: "Critical" },
+  { key: "HIGH", title: "High" },
+  { key: "MEDIUM", title: "Medium" },
+  { key: "LOW", title: "Low" },
 ];
 
-export function KanbanBoard({ tasks, userRole, projectId, refreshTasks }: KanbanProps) {
+// The swimlane a task belongs in for a grouping
+const laneOf = (task: KanbanTask, groupBy: GroupBy) => {
+  switch (groupBy) {
+    case "assignee":
+      return task.assignedTo?.id ?? "unassigned";
+    case "priority":
+      return task.priority;
+    case "project":
+      return task.projectId;
+    default:
+      return "all";
+  }
+};
+
+// Swimlanes for a grouping in display order; assignee and project lanes only exist for tasks shown
+const getLanes = (tasks: KanbanTask[], groupBy: GroupBy) => {
+  if (groupBy === "priority") {
+    return priorityLanes;
+  }
+  
+  if (groupBy === "assignee") {
+    const lanes = new Map<string, string>();
+    tasks.forEach(task => {
+      if (task.assignedTo) {
+        lanes.set(task.assignedTo.id, task.assignedTo.user.name || "Unnamed employee");
+      }
+    });
+    const sorted = [...lanes].map(([key, title]) => ({ key, title })).sort((a, b) => a.title.localeCompare(b.title));
+    return tasks.some(task => !task.assignedTo) ? [...sorted, { key: "unassigned", title: "Unassigned" }] : sorted;
+  }
+  
+  if (groupBy === "project") {
+    const lanes = new Map<string, string>();
+    tasks.forEach(task => lanes.set(task.projectId, task.project?.name ?? "Unknown project"));
+    return [...lanes].map(([key, title]) => ({ key, title })).sort((a, b) => a.title.localeCompare(b.title));
+  }
+  
+  return [{ key: "all", title: "All tasks" }];
+};
+
+// Droppable IDs combine the lane and column so each cell of the board is its own drop target
+const cellId = (laneKey: string, columnId: string) => `${laneKey}::${columnId}`;
+const parseCellId = (id: string) => {
+  const [laneKey, columnId] = id.split("::");
+  return { laneKey, columnId };
+};
+
+export function KanbanBoard({ tasks, statuses, userRole, projectId, refreshTasks }: KanbanProps) {
   const router = useRouter();
   const [localTasks, setLocalTasks] = useState(tasks);
   const [loading, setLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const [draggingLane, setDraggingLane] = useState<string | null>(null);
+  
+  const columns = statuses
+    ? statuses.map(status => ({
+        id: status.id,
+        title: status.name,
+        category: status.category,
+        wipLimit: status.wipLimit ?? null,
+        enforceWipLimit: !!status.enforceWipLimit,
+      }))
+    : categoryColumns;
+  
+  // The column a task belongs in
+  const columnOf = (task: KanbanTask) => statuses ? task.workflowStatusId : task.status;
+  
+  const lanes = useMemo(() => getLanes(localTasks, groupBy), [localTasks, groupBy]);
+  
+  const toggleLane = (laneKey: string) => {
+    setCollapsedLanes(current =>
+      current.includes(laneKey) ? current.filter(key => key !== laneKey) : [...current, laneKey]
+    );
+  };
+  
+  const handleGroupByChange = (value: string) => {
+    setGroupBy(value as GroupBy);
+    setCollapsedLanes([]);
+  };
   
   // Function to get initials from name
   const getInitials = (name: string | null) => {
@@ -90,10 +194,17 @@ export function KanbanBoard({ tasks, userRole, projectId, refreshTasks }: Kanban
       .toUpperCase();
   };
 
+  // Cards can only be dropped within their own lane
+  const handleDragStart = (start: DragStart) => {
+    setDraggingLane(parseCellId(start.source.droppableId).laneKey);
+  };
+  
   // Handle task drag and drop
-  const handleDragEnd = async (result: any) => {
+  const handleDragEnd = async (result: DropResult) => {
     const { destination, source, draggableId } = result;
     
+    setDraggingLane(null);
+    
     // Drop outside a droppable area or same position
     if (!destination || 
         (destination.droppableId === source.droppableId && 
@@ -107,48 +218,74 @@ export function KanbanBoard({ tasks, userRole, projectId, refreshTasks }: Kanban
     
     if (!task) return;
     
+    const { laneKey, columnId } = parseCellId(destination.droppableId);
+    const column = columns.find(c => c.id === columnId);
+    
+    if (!column) return;
+    
+    // Check the destination's WIP limit before moving a card into it
+    if (column.wipLimit !== null && columnOf(task) !== column.id) {
+      const count = localTasks.filter(t => columnOf(t) === column.id).length;
+      
+      if (count >= column.wipLimit) {
+        if (column.enforceWipLimit) {
+          setError(`"${column.title}" is at its work-in-progress limit of ${column.wipLimit}`);
+          return;
+        }
+        
+        toast.warning(`"${column.title}" is over its work-in-progress limit of ${column.wipLimit}`);
+      }
+    }
+    
     // Set loading for this task
     setLoading(taskId);
     setError(null);
     
+    // Neighbours in the destination cell, which don't include the moved card
+    const columnTasks = localTasks.filter(
+      t => columnOf(t) === column.id && laneOf(t, groupBy) === laneKey && t.id !== taskId
+    );
+    const after = columnTasks[destination.index - 1];
+    const before = columnTasks[destination.index];
+    
     // Update the local state optimistically
-    const newTasks = localTasks.map(t => {
-      if (t.id === taskId) {
-        return { ...t, status: destination.droppableId as TaskStatus };
-      }
-      return t;
+    const newTasks = localTasks.filter(t => t.id !== taskId);
+    const insertAt = before
+      ? newTasks.indexOf(before)
+      : after ? newTasks.indexOf(after) + 1 : newTasks.length;
+    newTasks.splice(insertAt, 0, {
+      ...task,
+      status: column.category,
+      ...(statuses ? { workflowStatusId: column.id } : {}),
     });
     
     setLocalTasks(newTasks);
     
-    // Create FormData for the task update
-    const formData = new FormData();
-    formData.append("id", taskId);
-    formData.append("title", task.title);
-    formData.append("description", task.description || "");
-    formData.append("projectId", task.projectId);
-    formData.append("priority", task.priority);
-    formData.append("status", destination.droppableId); // New status
-    if (task.assignedTo) {
-      formData.append("assignedToId", task.assignedTo.id);
-    }
-    
-    // Update the task in the database
+    // Save the new column and position
     try {
-      const result = await updateTask(formData);
+      const result = await moveTask({
+        id: taskId,
+        ...(statuses ? { workflowStatusId: column.id } : { status: column.id }),
+        afterId: after?.id,
+        beforeId: before?.id,
+      });
       
       if (result.error) {
         setError(result.error);
         // Revert optimistic update
         setLocalTasks(tasks);
       } else {
+        if (result.warning) {
+          toast.warning(result.warning);
+        }
+        
         // Update successful
         if (refreshTasks) {
           refreshTasks();
         }
       }
     } catch (err) {
-      setError("Failed to update task status");
+      setError("Failed to move task");
       // Revert optimistic update
       setLocalTasks(tasks);
     } finally {
@@ -156,12 +293,115 @@ export function KanbanBoard({ tasks, userRole, projectId, refreshTasks }: Kanban
     }
   };
   
-  // Group tasks by status
-  const tasksByStatus = columns.reduce((acc: any, column) => {
-    acc[column.id] = localTasks.filter(task => task.status === column.id);
+  // Group tasks by column, across all lanes
+  const tasksByStatus = columns.reduce((acc: Record<string, KanbanTask[]>, column) => {
+    acc[column.id] = localTasks.filter(task => columnOf(task) === column.id);
     return acc;
   }, {});
   
+  const isGrouped = groupBy !== "none";
+  
+  const renderTask = (task: KanbanTask, index: number) => (
+    <Draggable 
+      key={task.id} 
+      draggableId={task.id} 
+      index={index}
+      isDragDisabled={!!loading}
+    >
+      {(provided) => (
+        <Card
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          className={cn(
+            "shadow-sm hover:shadow transition-shadow",
+            isTaskOverdue(task) && "border-destructive",
+            loading === task.id ? "opacity-60" : ""
+          )}
+        >
+          <CardContent className="p-3">
+            <Link href={`/dashboard/tasks/${task.id}`}>
+              <h4 className="font-medium mb-2 hover:underline">
+                {task.title}
+              </h4>
+            </Link>
+            
+            {!!task._count?.blockedBy && (
+              <Badge variant="destructive" className="mb-2">
+                <Ban className="h-3 w-3 mr-1" />
+                Blocked
+              </Badge>
+            )}
+            
+            {task.description && (
+              <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+                {task.description}
+              </p>
+            )}
+            
+            {task.dueDate && (
+              <div
+                className={cn(
+                  "flex items-center text-xs mb-3",
+                  isTaskOverdue(task) ? "font-medium text-destructive" : "text-muted-foreground"
+                )}
+              >
+                <CalendarClock className="h-3.5 w-3.5 mr-1" />
+                {isTaskOverdue(task) ? "Overdue: " : "Due "}
+                {formatDate(task.dueDate)}
+              </div>
+            )}
+            
+            <div className="flex items-center justify-between">
+              <Badge variant="outline" className={cn(priorityConfig['LOW'].color)}>
+                {task.priority}
+              </Badge>
+              
+              <div className="flex items-center gap-2">
+                {!!task._count?.comments && (
+                  <span className="flex items-center text-xs text-muted-foreground">
+                    <MessageSquare className="h-3.5 w-3.5 mr-1" />
+                    {task._count.comments}
+                  </span>
+                )}
+                
+                {task.assignedTo ? (
+                  <Avatar className="h-6 w-6">
+                    {task.assignedTo.user.image && (
+                      <AvatarImage src={task.assignedTo.user.image} />
+                    )}
+                    <AvatarFallback>
+                      {getInitials(task.assignedTo.user.name)}
+                    </AvatarFallback>
+                  </Avatar>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Unassigned</span>
+                )}
+              </div>
+            </div>
+          </CardContent>
+          
+          {task.project && (
+            <CardFooter className="p-3 pt-0 flex items-center text-xs text-muted-foreground">
+              <Link 
+                href={`/dashboard/projects/${task.project.id}`}
+                className="hover:underline"
+              >
+                {task.project.name}
+              </Link>
+            </CardFooter>
+          )}
+          
+          {loading === task.id && (
+            <div className="absolute inset-0 bg-background/50 flex items-center justify-center rounded-md">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+        </Card>
+      )}
+    </Draggable>
+  );
+  
   return (
     <div className="flex flex-col space-y-6">
       {error && (
@@ -171,126 +411,132 @@ export function KanbanBoard({ tasks, userRole, projectId, refreshTasks }: Kanban
         </div>
       )}
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <DragDropContext onDragEnd={handleDragEnd}>
-          {columns.map(column => (
-            <div key={column.id} className="flex flex-col h-full">
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center">
-                  {column.icon}
-                  <h3 className="font-semibold">{column.title}</h3>
-                  <Badge variant="outline" className="ml-2">
-                    {tasksByStatus[column.id]?.length || 0}
-                  </Badge>
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-sm text-muted-foreground">Swimlanes</span>
+        <Select value={groupBy} onValueChange={handleGroupByChange}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="assignee">By assignee</SelectItem>
+            <SelectItem value="priority">By priority</SelectItem>
+            {!statuses && <SelectItem value="project">By project</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="overflow-x-auto pb-2">
+        <div className="min-w-fit space-y-3">
+          {/* Column headers, with counts and WIP limits across all lanes */}
+          <div className="grid grid-flow-col auto-cols-[minmax(260px,1fr)] gap-4">
+            {columns.map((column, columnIndex) => {
+              const count = tasksByStatus[column.id]?.length || 0;
+              const overLimit = column.wipLimit !== null && count > column.wipLimit;
+              
+              return (
+                <div key={column.id} className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    {categoryIcons[column.category]}
+                    <h3 className="font-semibold">{column.title}</h3>
+                    <Badge
+                      variant="outline"
+                      className={cn("ml-2", overLimit && "border-destructive text-destructive")}
+                      title={column.wipLimit !== null
+                        ? `WIP limit ${column.wipLimit}${column.enforceWipLimit ? " (enforced)" : ""}`
+                        : undefined}
+                    >
+                      {count}{column.wipLimit !== null && ` / ${column.wipLimit}`}
+                    </Badge>
+                  </div>
+                  
+                  {(userRole === "ADMIN" || userRole === "MANAGER") && columnIndex === 0 && (
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      className="h-8 w-8 p-0"
+                      asChild
+                    >
+                      <Link href={`/dashboard/tasks/new${projectId ? `?projectId=${projectId}` : ''}`}>
+                        <PlusCircle className="h-4 w-4" />
+                        <span className="sr-only">Add new task</span>
+                      </Link>
+                    </Button>
+                  )}
                 </div>
-                
-                {(userRole === "ADMIN" || userRole === "MANAGER") && column.id === "TODO" && (
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    className="h-8 w-8 p-0"
-                    asChild
-                  >
-                    <Link href={`/dashboard/tasks/new${projectId ? `?projectId=${projectId}` : ''}`}>
-                      <PlusCircle className="h-4 w-4" />
-                      <span className="sr-only">Add new task</span>
-                    </Link>
-                  </Button>
-                )}
-              </div>
+              );
+            })}
+          </div>
+          
+          <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+            {lanes.map(lane => {
+              const laneTasks = localTasks.filter(task => laneOf(task, groupBy) === lane.key);
+              const collapsed = collapsedLanes.includes(lane.key);
               
-              <Droppable droppableId={column.id}>
-                {(provided) => (
-                  <div
-                    ref={provided.innerRef}
-                    {...provided.droppableProps}
-                    className="bg-muted/50 p-3 rounded-lg flex-1 min-h-[500px]"
-                  >
-                    {tasksByStatus[column.id]?.length === 0 ? (
-                      <div className="h-full flex items-center justify-center text-sm text-muted-foreground p-4 text-center border-2 border-dashed rounded-md">
-                        No tasks in this column
-                      </div>
-                    ) : (
-                      <div className="space-y-3">
-                        {tasksByStatus[column.id]?.map((task: any, index: number) => (
-                          <Draggable 
-                            key={task.id} 
-                            draggableId={task.id} 
-                            index={index}
-                            isDragDisabled={!!loading}
+              return (
+                <div key={lane.key} className="space-y-2">
+                  {isGrouped && (
+                    <button
+                      type="button"
+                      className="flex items-center text-sm font-medium hover:text-primary"
+                      onClick={() => toggleLane(lane.key)}
+                    >
+                      {collapsed ? (
+                        <ChevronRight className="h-4 w-4 mr-1" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 mr-1" />
+                      )}
+                      {lane.title}
+                      <Badge variant="secondary" className="ml-2">
+                        {laneTasks.length}
+                      </Badge>
+                    </button>
+                  )}
+                  
+                  {!collapsed && (
+                    <div className="grid grid-flow-col auto-cols-[minmax(260px,1fr)] gap-4">
+                      {columns.map(column => {
+                        const cellTasks = laneTasks.filter(task => columnOf(task) === column.id);
+                        const overLimit = column.wipLimit !== null && (tasksByStatus[column.id]?.length || 0) > column.wipLimit;
+                        
+                        return (
+                          <Droppable
+                            key={column.id}
+                            droppableId={cellId(lane.key, column.id)}
+                            isDropDisabled={draggingLane !== null && draggingLane !== lane.key}
                           >
                             {(provided) => (
-                              <Card
+                              <div
                                 ref={provided.innerRef}
-                                {...provided.draggableProps}
-                                {...provided.dragHandleProps}
+                                {...provided.droppableProps}
                                 className={cn(
-                                  "shadow-sm hover:shadow transition-shadow",
-                                  loading === task.id ? "opacity-60" : ""
+                                  "p-3 rounded-lg",
+                                  overLimit ? "bg-destructive/10" : "bg-muted/50",
+                                  isGrouped ? "min-h-[120px]" : "min-h-[500px]"
                                 )}
                               >
-                                <CardContent className="p-3">
-                                  <Link href={`/dashboard/tasks/${task.id}`}>
-                                    <h4 className="font-medium mb-2 hover:underline">
-                                      {task.title}
-                                    </h4>
-                                  </Link>
-                                  
-                                  {task.description && (
-                                    <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-                                      {task.description}
-                                    </p>
-                                  )}
-                                  
-                                  <div className="flex items-center justify-between">
-                                    <Badge variant="outline" className={cn(priorityConfig['LOW'].color)}>
-                                      {task.priority}
-                                    </Badge>
-                                    
-                                    {task.assignedTo ? (
-                                      <Avatar className="h-6 w-6">
-                                        {task.assignedTo.user.image && (
-                                          <AvatarImage src={task.assignedTo.user.image} />
-                                        )}
-                                        <AvatarFallback>
-                                          {getInitials(task.assignedTo.user.name)}
-                                        </AvatarFallback>
-                                      </Avatar>
-                                    ) : (
-                                      <span className="text-xs text-muted-foreground">Unassigned</span>
-                                    )}
+                                {cellTasks.length === 0 && !isGrouped ? (
+                                  <div className="h-full flex items-center justify-center text-sm text-muted-foreground p-4 text-center border-2 border-dashed rounded-md">
+                                    No tasks in this column
                                   </div>
-                                </CardContent>
-                                
-                                {task.project && (
-                                  <CardFooter className="p-3 pt-0 flex items-center text-xs text-muted-foreground">
-                                    <Link 
-                                      href={`/dashboard/projects/${task.project.id}`}
-                                      className="hover:underline"
-                                    >
-                                      {task.project.name}
-                                    </Link>
-                                  </CardFooter>
-                                )}
-                                
-                                {loading === task.id && (
-                                  <div className="absolute inset-0 bg-background/50 flex items-center justify-center rounded-md">
-                                    <Loader2 className="h-5 w-5 animate-spin" />
+                                ) : (
+                                  <div className="space-y-3">
+                                    {cellTasks.map(renderTask)}
                                   </div>
                                 )}
-                              </Card>
+                                {provided.placeholder}
+                              </div>
                             )}
-                          </Draggable>
-                        ))}
-                      </div>
-                    )}
-                    {provided.placeholder}
-                  </div>
-                )}
-              </Droppable>
-            </div>
-          ))}
-        </DragDropContext>
+                          </Droppable>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </DragDropContext>
+        </div>
       </div>
     </div>
   );
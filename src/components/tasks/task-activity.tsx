@@ -0,0 +1,131 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import type { TaskEventType } from "@prisma/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
+import { formatDuration } from "@/lib/task-events";
+import { formatDate } from "@/lib/utils";
+
+export interface TaskActivityData {
+  events: Array<{
+    id: string;
+    type: TaskEventType;
+    fromValue: string | null;
+    toValue: string | null;
+    createdAt: Date;
+    actor: {
+      id: string;
+      name: string | null;
+    } | null;
+  }>;
+  // Workflow status, employee and project names by ID
+  names: Record<string, string>;
+  timeInStatus: Record<string, number>;
+  cycleTime: number | null;
+}
+
+// Status events store workflow status IDs; older history holds the status category
+function describeStatus(value: string, names: Record<string, string>) {
+  return names[value] ?? STATUS_CATEGORY_LABELS[value as keyof typeof STATUS_CATEGORY_LABELS] ?? "a removed status";
+}
+
+const priorityLabels: Record<string, string> = {
+  LOW: "Low",
+  MEDIUM: "Medium",
+  HIGH: "High",
+  CRITICAL: "Critical",
+};
+
+// Human-readable value of an event for its type
+function describeValue(type: TaskEventType, value: string | null, names: Record<string, string>) {
+  switch (type) {
+    case "CREATED":
+    case "STATUS":
+      return value ? describeStatus(value, names) : "none";
+    case "PRIORITY":
+      return value ? priorityLabels[value] ?? value : "none";
+    case "ASSIGNEE":
+      return value ? names[value] ?? "a removed employee" : "nobody";
+    case "PROJECT":
+      return value ? names[value] ?? "a deleted project" : "none";
+  }
+}
+
+const eventVerbs: Record<TaskEventType, string> = {
+  CREATED: "created the task in",
+  STATUS: "changed the status",
+  ASSIGNEE: "reassigned the task",
+  PRIORITY: "changed the priority",
+  PROJECT: "moved the task",
+};
+
+export function TaskActivity({ activity }: { activity: TaskActivityData }) {
+  const { events, names, timeInStatus, cycleTime } = activity;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          {cycleTime !== null
+            ? `Cycle time ${formatDuration(cycleTime)}`
+            : "Changes to status, assignee, priority and project"}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {Object.keys(timeInStatus).length > 0 && (
+          <>
+            <div>
+              <h3 className="font-medium text-sm text-muted-foreground">Time in Status</h3>
+              <dl className="mt-2 space-y-1 text-sm">
+                {Object.entries(timeInStatus).map(([status, ms]) => (
+                  <div key={status} className="flex justify-between">
+                    <dt>{describeStatus(status, names)}</dt>
+                    <dd className="text-muted-foreground">{formatDuration(ms)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No activity recorded yet</p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-4">
+            {events.map((event) => (
+              <li key={event.id} className="text-sm">
+                <span className="absolute -left-1 mt-1.5 h-2 w-2 rounded-full bg-primary" />
+                <p>
+                  <span className="font-medium">{event.actor?.name || "Someone"}</span>{" "}
+                  {eventVerbs[event.type]}{" "}
+                  {event.type === "CREATED" ? (
+                    <span className="font-medium">{describeValue(event.type, event.toValue, names)}</span>
+                  ) : (
+                    <>
+                      from <span className="font-medium">{describeValue(event.type, event.fromValue, names)}</span>{" "}
+                      to <span className="font-medium">{describeValue(event.type, event.toValue, names)}</span>
+                    </>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground" title={formatDate(event.createdAt)}>
+                  {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  addChecklistItem,
+  deleteChecklistItem,
+  updateChecklistItem,
+} from "@/lib/actions/task-checklist-actions";
+import { cn } from "@/lib/utils";
+
+interface TaskChecklistProps {
+  taskId: string;
+  items: Array<{
+    id: string;
+    text: string;
+    completed: boolean;
+  }>;
+  canEdit: boolean;
+}
+
+export function TaskChecklist({ taskId, items, canEdit }: TaskChecklistProps) {
+  const router = useRouter();
+  const [newItem, setNewItem] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const completedCount = items.filter((item) => item.completed).length;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+
+    try {
+      const result = await addChecklistItem(taskId, newItem);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setNewItem("");
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // Run a change to one item, refreshing the list when it succeeds
+  const runItemAction = async (id: string, action: () => Promise<{ error?: string }>) => {
+    setPendingId(id);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm text-muted-foreground">Checklist</h3>
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {completedCount}/{items.length} done
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && <Progress value={(completedCount / items.length) * 100} />}
+
+      {items.length === 0 && !canEdit && (
+        <p className="text-sm text-muted-foreground">No checklist items</p>
+      )}
+
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <li key={item.id} className="group flex items-center gap-2">
+            <Checkbox
+              checked={item.completed}
+              disabled={!canEdit || pendingId === item.id}
+              onCheckedChange={(checked) =>
+                runItemAction(item.id, () => updateChecklistItem(item.id, { completed: checked === true }))
+              }
+              aria-label={`Mark "${item.text}" as ${item.completed ? "not done" : "done"}`}
+            />
+            <span className={cn("flex-1 text-sm", item.completed && "line-through text-muted-foreground")}>
+              {item.text}
+            </span>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                disabled={pendingId === item.id}
+                onClick={() => runItemAction(item.id, () => deleteChecklistItem(item.id))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Remove item</span>
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            placeholder="Add an item"
+            className="h-8"
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={isAdding || !newItem.trim()}>
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            <span className="sr-only">Add item</span>
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
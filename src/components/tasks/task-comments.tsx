@@ -0,0 +1,396 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { AtSign, Loader2, MessageSquare, Pencil, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  addTaskComment,
+  deleteTaskComment,
+  updateTaskComment,
+} from "@/lib/actions/task-comment-actions";
+import { formatMention, linkMentions } from "@/lib/tasks";
+
+interface TaskComment {
+  id: string;
+  body: string;
+  editedAt: Date | null;
+  createdAt: Date;
+  author: {
+    id: string;
+    name: string | null;
+    image: string | null;
+  } | null;
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+  comments: TaskComment[];
+  employees: { id: string; name: string }[];
+  userId: string;
+  canComment: boolean;
+}
+
+// Get initials for avatar fallback
+const getInitials = (name: string | null) => {
+  if (!name) return "?";
+  return name
+    .split(" ")
+    .map(n => n[0])
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+};
+
+// Textarea with a picker that inserts @mentions at the cursor
+function CommentEditor({
+  value,
+  onChange,
+  employees,
+  disabled,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  employees: { id: string; name: string }[];
+  disabled: boolean;
+  placeholder?: string;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [showMentions, setShowMentions] = useState(false);
+
+  const insertMention = (employee: { id: string; name: string }) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const mention = `${formatMention(employee.name, employee.id)} `;
+
+    onChange(value.slice(0, start) + mention + value.slice(end));
+    setShowMentions(false);
+
+    // Put the cursor back after the inserted mention
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + mention.length, start + mention.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={3}
+      />
+      <Popover open={showMentions} onOpenChange={setShowMentions}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" disabled={disabled}>
+            <AtSign className="mr-1 h-4 w-4" />
+            Mention
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search employees..." />
+            <CommandList>
+              <CommandEmpty>No employees found.</CommandEmpty>
+              <CommandGroup>
+                {employees.map((employee) => (
+                  <CommandItem
+                    key={employee.id}
+                    value={`${employee.name} ${employee.id}`}
+                    onSelect={() => insertMention(employee)}
+                  >
+                    {employee.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+// Render a comment body as markdown, with mentions linked to the employee profile
+function CommentBody({ body }: { body: string }) {
+  return (
+    <div className="text-sm break-words [&_p]:my-1 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_code]:rounded [&_code]:bg-muted [&_code]:px-1 [&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-2 [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground">
+      <ReactMarkdown
+        components={{
+          a: ({ href, children }) =>
+            href?.startsWith("/") ? (
+              <Link href={href} className="font-medium text-primary hover:underline">
+                {children}
+              </Link>
+            ) : (
+              <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+                {children}
+              </a>
+            ),
+        }}
+      >
+        {linkMentions(body)}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export function TaskComments({ taskId, comments, employees, userId, canComment }: TaskCommentsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [newComment, setNewComment] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  // Post a new comment
+  const handleAdd = async () => {
+    if (!newComment.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await addTaskComment(taskId, newComment);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setNewComment("");
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Save changes to an edited comment
+  const handleUpdate = async () => {
+    if (!editingId || !editBody.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await updateTaskComment(editingId, editBody);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setEditingId(null);
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Delete the comment selected in the confirmation dialog
+  const handleDelete = async () => {
+    if (!deleteId) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await deleteTaskComment(deleteId);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setDeleteId(null);
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MessageSquare className="mr-2 h-5 w-5" />
+            Discussion
+          </CardTitle>
+          <CardDescription>
+            {comments.length === 1 ? "1 comment" : `${comments.length} comments`}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {comments.length === 0 && (
+            <p className="text-sm text-muted-foreground italic">No comments yet</p>
+          )}
+
+          {comments.map((comment) => (
+            <div key={comment.id} className="flex gap-3">
+              <Avatar className="h-8 w-8">
+                {comment.author?.image && <AvatarImage src={comment.author.image} />}
+                <AvatarFallback>{getInitials(comment.author?.name ?? null)}</AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm">
+                    <span className="font-medium">{comment.author?.name || "Deleted user"}</span>
+                    <span className="ml-2 text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                      {comment.editedAt && " (edited)"}
+                    </span>
+                  </p>
+
+                  {comment.author?.id === userId && editingId !== comment.id && (
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditingId(comment.id);
+                          setEditBody(comment.body);
+                        }}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                        <span className="sr-only">Edit comment</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => setDeleteId(comment.id)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                        <span className="sr-only">Delete comment</span>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="mt-2 space-y-2">
+                    <CommentEditor
+                      value={editBody}
+                      onChange={setEditBody}
+                      employees={employees}
+                      disabled={isLoading}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={isLoading}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleUpdate} disabled={isLoading || !editBody.trim()}>
+                        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <CommentBody body={comment.body} />
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canComment && (
+            <div className="space-y-2 border-t pt-4">
+              <CommentEditor
+                value={newComment}
+                onChange={setNewComment}
+                employees={employees}
+                disabled={isLoading}
+                placeholder="Write a comment... Markdown is supported"
+              />
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleAdd} disabled={isLoading || !newComment.trim()}>
+                  {isLoading && !editingId && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Comment
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Comment Alert Dialog */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. The comment will be removed from the discussion.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isLoading}
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
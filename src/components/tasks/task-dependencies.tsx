@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { TaskStatus } from "@prisma/client";
+import { AlertTriangle, Loader2, Plus, X } from "lucide-react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  addTaskDependency,
+  getDependencyCandidates,
+  removeTaskDependency,
+} from "@/lib/actions/task-dependency-actions";
+import { STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
+import { cn } from "@/lib/utils";
+
+interface DependencyTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  workflowStatus: {
+    name: string;
+  } | null;
+  project: {
+    id: string;
+    name: string;
+  };
+}
+
+interface TaskDependenciesProps {
+  taskId: string;
+  blockedBy: Array<{ id: string; blocker: DependencyTask }>;
+  blocks: Array<{ id: string; blockedTask: DependencyTask }>;
+  canEdit: boolean;
+}
+
+// Searchable list of tasks from every project to link to
+function DependencyPicker({
+  taskId,
+  label,
+  disabled,
+  onSelect,
+}: {
+  taskId: string;
+  label: string;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [candidates, setCandidates] = useState<Array<{ id: string; title: string; project: { name: string } }>>([]);
+
+  // Search again as the query changes while the picker is open
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+
+    getDependencyCandidates(taskId, query).then((result) => {
+      if (!cancelled && result.tasks) {
+        setCandidates(result.tasks);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, query, taskId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7" disabled={disabled}>
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search tasks..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No tasks found.</CommandEmpty>
+            <CommandGroup>
+              {candidates.map((task) => (
+                <CommandItem
+                  key={task.id}
+                  value={task.id}
+                  onSelect={() => {
+                    setOpen(false);
+                    onSelect(task.id);
+                  }}
+                >
+                  <div className="flex flex-col">
+                    <span>{task.title}</span>
+                    <span className="text-xs text-muted-foreground">{task.project.name}</span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// One linked task, flagged when it is an unfinished blocker
+function DependencyRow({
+  task,
+  isOpenBlocker,
+  canEdit,
+  disabled,
+  onRemove,
+}: {
+  task: DependencyTask;
+  isOpenBlocker: boolean;
+  canEdit: boolean;
+  disabled: boolean;
+  onRemove: () => void;
+}) {
+  return (
+    <li className="flex items-center justify-between gap-2 p-2">
+      <div className="flex items-center min-w-0">
+        {isOpenBlocker && <AlertTriangle className="mr-1.5 h-3.5 w-3.5 shrink-0 text-destructive" />}
+        <div className="min-w-0">
+          <Link
+            href={`/dashboard/tasks/${task.id}`}
+            className={cn("block text-sm hover:underline truncate", task.status === "DONE" && "line-through text-muted-foreground")}
+          >
+            {task.title}
+          </Link>
+          <span className="text-xs text-muted-foreground">{task.project.name}</span>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Badge variant="outline">
+          {task.workflowStatus?.name ?? STATUS_CATEGORY_LABELS[task.status]}
+        </Badge>
+        {canEdit && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" disabled={disabled} onClick={onRemove}>
+            <X className="h-3.5 w-3.5" />
+            <span className="sr-only">Remove link</span>
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function TaskDependencies({ taskId, blockedBy, blocks, canEdit }: TaskDependenciesProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Run a dependency change, refreshing the lists when it succeeds
+  const runAction = async (action: () => Promise<{ error?: string }>) => {
+    setIsLoading(true);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm text-muted-foreground">Blocked by</h3>
+          {canEdit && (
+            <DependencyPicker
+              taskId={taskId}
+              label="Add Blocker"
+              disabled={isLoading}
+              onSelect={(id) => runAction(() => addTaskDependency(id, taskId))}
+            />
+          )}
+        </div>
+        {blockedBy.length > 0 ? (
+          <ul className="divide-y rounded-md border">
+            {blockedBy.map((dependency) => (
+              <DependencyRow
+                key={dependency.id}
+                task={dependency.blocker}
+                isOpenBlocker={dependency.blocker.status !== "DONE"}
+                canEdit={canEdit}
+                disabled={isLoading}
+                onRemove={() => runAction(() => removeTaskDependency(dependency.id))}
+              />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Not blocked by any tasks</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm text-muted-foreground">Blocks</h3>
+          {canEdit && (
+            <DependencyPicker
+              taskId={taskId}
+              label="Add Blocked Task"
+              disabled={isLoading}
+              onSelect={(id) => runAction(() => addTaskDependency(taskId, id))}
+            />
+          )}
+        </div>
+        {blocks.length > 0 ? (
+          <ul className="divide-y rounded-md border">
+            {blocks.map((dependency) => (
+              <DependencyRow
+                key={dependency.id}
+                task={dependency.blockedTask}
+                isOpenBlocker={false}
+                canEdit={canEdit}
+                disabled={isLoading}
+                onRemove={() => runAction(() => removeTaskDependency(dependency.id))}
+              />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Doesn&apos;t block any tasks</p>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          Saving...
+        </div>
+      )}
+    </div>
+  );
+}
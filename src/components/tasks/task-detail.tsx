@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { toast } from "sonner";
 import { 
   Card, 
   CardContent, 
@@ -35,7 +36,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { deleteTask, updateTask } from "@/lib/actions/task-actions";
 import { 
+  AlertTriangle,
   ArrowLeft, 
+  Ban, 
   Calendar, 
   Check, 
   Clock, 
@@ -49,6 +52,11 @@ import {
   UserCheck 
 } from "lucide-react";
 import { formatDate, cn } from "@/lib/utils";
+import { isTaskOverdue } from "@/lib/tasks";
+import { TaskActivity, TaskActivityData } from "@/components/tasks/task-activity";
+import { TaskChecklist } from "@/components/tasks/task-checklist";
+import { TaskDependencies } from "@/components/tasks/task-dependencies";
+import { TaskSubtasks } from "@/components/tasks/task-subtasks";
 import { TaskPriority, TaskStatus } from "@prisma/client";
 
 interface TaskDetailProps {
@@ -58,11 +66,22 @@ interface TaskDetailProps {
     description: string | null;
     priority: TaskPriority;
     status: TaskStatus;
+    workflowStatusId: string | null;
+    workflowStatus: {
+      id: string;
+      name: string;
+    } | null;
     projectId: string;
     project: {
       id: string;
       name: string;
       status: string;
+      workflowStatuses: Array<{
+        id: string;
+        name: string;
+        category: TaskStatus;
+        nextStatuses: { id: string }[];
+      }>;
     };
     assignedToId: string | null;
     assignedTo: {
@@ -74,9 +93,22 @@ interface TaskDetailProps {
         image: string | null;
       };
     } | null;
+    startDate: Date | null;
+    dueDate: Date | null;
+    estimateHours: number | null;
+    parent: {
+      id: string;
+      title: string;
+    } | null;
+    subtasks: React.ComponentProps<typeof TaskSubtasks>["subtasks"];
+    subtaskProgress: React.ComponentProps<typeof TaskSubtasks>["progress"];
+    checklistItems: React.ComponentProps<typeof TaskChecklist>["items"];
+    blockedBy: React.ComponentProps<typeof TaskDependencies>["blockedBy"];
+    blocks: React.ComponentProps<typeof TaskDependencies>["blocks"];
     createdAt: Date;
     updatedAt: Date;
   };
+  activity?: TaskActivityData;
   userRole: string;
   userId: string;
 }
@@ -89,7 +121,7 @@ const priorityConfig = {
   CRITICAL: { color: "bg-red-100 text-red-800", icon: null },
 };
 
-// Map task status to color and icon
+// Map status category to color and icon
 const statusConfig = {
   TODO: { 
     color: "bg-gray-100 text-gray-800", 
@@ -113,7 +145,7 @@ const statusConfig = {
   },
 };
 
-export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
+export function TaskDetail({ task, activity, userRole, userId }: TaskDetailProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -143,7 +175,7 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
   };
   
   // Handle status change
-  const handleStatusChange = async (newStatus: TaskStatus) => {
+  const handleStatusChange = async (workflowStatusId: string) => {
     setIsLoading(true);
     setError(null);
     
@@ -155,7 +187,7 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
       formData.append("description", task.description || "");
       formData.append("projectId", task.projectId);
       formData.append("priority", task.priority);
-      formData.append("status", newStatus);
+      formData.append("workflowStatusId", workflowStatusId);
       if (task.assignedToId) {
         formData.append("assignedToId", task.assignedToId);
       }
@@ -167,6 +199,10 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
         return;
       }
       
+      if (result.warning) {
+        toast.warning(result.warning);
+      }
+      
       setShowStatusSheet(false);
       router.refresh();
     } catch (error) {
@@ -184,9 +220,22 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
   const canChangeStatus = userRole === "ADMIN" || userRole === "MANAGER" || 
     (userRole === "EMPLOYEE" && task.assignedTo?.user.id === userId);
   
+  // Once a workflow restricts transitions, only the current status's next statuses are offered
+  const workflowStatuses = task.project.workflowStatuses;
+  const currentStatus = workflowStatuses.find((status) => status.id === task.workflowStatusId);
+  const isRestricted = workflowStatuses.some((status) => status.nextStatuses.length > 0);
+  const canMoveTo = (statusId: string) =>
+    !isRestricted || !currentStatus || currentStatus.nextStatuses.some((next) => next.id === statusId);
+  
   // Check if user can delete the task (only admin and manager)
   const canDelete = userRole === "ADMIN" || userRole === "MANAGER";
   
+  // Unfinished tasks this one is waiting on
+  const openBlockers = task.blockedBy.filter((dependency) => dependency.blocker.status !== "DONE");
+  
+  // Subtasks are new tasks, which only admins and managers create
+  const canAddSubtask = userRole === "ADMIN" || userRole === "MANAGER";
+  
   // Get initials for avatar fallback
   const getInitials = (name: string | null) => {
     if (!name) return "?";
@@ -219,7 +268,8 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
               </Button>
             )}
             
-            {canEdit && (
+            {/* The full edit form is for admins and managers; employees only change the status */}
+            {canEdit && userRole !== "EMPLOYEE" && (
               <Button
                 variant="outline"
                 size="sm"
@@ -263,7 +313,7 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
                   className={cn("flex items-center", statusConfig[task.status].color)}
                 >
                   {statusConfig[task.status].icon}
-                  {statusConfig[task.status].label}
+                  {task.workflowStatus?.name ?? statusConfig[task.status].label}
                 </Badge>
                 
                 <Badge 
@@ -272,6 +322,13 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
                 >
                   {task.priority} Priority
                 </Badge>
+                
+                {openBlockers.length > 0 && (
+                  <Badge variant="destructive" className="flex items-center">
+                    <Ban className="h-3.5 w-3.5 mr-1" />
+                    Blocked
+                  </Badge>
+                )}
               </div>
             </CardHeader>
             
@@ -294,6 +351,71 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
                 </Link>
               </div>
               
+              {task.parent && (
+                <div>
+                  <h3 className="font-medium text-sm text-muted-foreground">Subtask of</h3>
+                  <Link 
+                    href={`/dashboard/tasks/${task.parent.id}`}
+                    className="inline-flex items-center mt-1 hover:underline"
+                  >
+                    <Link2 className="mr-1.5 h-3.5 w-3.5" />
+                    {task.parent.title}
+                  </Link>
+                </div>
+              )}
+              
+              <Separator />
+              
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <h3 className="font-medium text-sm text-muted-foreground">Start Date</h3>
+                  <p className="mt-1">
+                    {task.startDate ? formatDate(task.startDate) : "Not set"}
+                  </p>
+                </div>
+                
+                <div>
+                  <h3 className="font-medium text-sm text-muted-foreground">Due Date</h3>
+                  <p className={cn("mt-1 flex items-center", isTaskOverdue(task) && "font-medium text-destructive")}>
+                    {isTaskOverdue(task) && <AlertTriangle className="mr-1.5 h-4 w-4" />}
+                    {task.dueDate ? formatDate(task.dueDate) : "Not set"}
+                    {isTaskOverdue(task) && " (overdue)"}
+                  </p>
+                </div>
+                
+                <div>
+                  <h3 className="font-medium text-sm text-muted-foreground">Estimate</h3>
+                  <p className="mt-1">
+                    {task.estimateHours != null ? `${task.estimateHours} h` : "Not set"}
+                  </p>
+                </div>
+              </div>
+              
+              <Separator />
+              
+              <TaskSubtasks
+                taskId={task.id}
+                projectId={task.projectId}
+                subtasks={task.subtasks}
+                progress={task.subtaskProgress}
+                canAdd={canAddSubtask}
+              />
+              
+              <TaskChecklist
+                taskId={task.id}
+                items={task.checklistItems}
+                canEdit={canEdit}
+              />
+              
+              <Separator />
+              
+              <TaskDependencies
+                taskId={task.id}
+                blockedBy={task.blockedBy}
+                blocks={task.blocks}
+                canEdit={canEdit}
+              />
+              
               <Separator />
               
               <div className="grid grid-cols-2 gap-4">
@@ -314,47 +436,51 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
             </CardContent>
           </Card>
           
-          {/* Sidebar with assignment info */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Assignment</CardTitle>
-              <CardDescription>
-                Task assignment details
-              </CardDescription>
-            </CardHeader>
-            
-            <CardContent>
-              <div className="space-y-4">
-                <div>
-                  <h3 className="font-medium text-sm text-muted-foreground">Assigned To</h3>
-                  {task.assignedTo ? (
-                    <div className="flex items-center gap-3 mt-2">
-                      <Avatar>
-                        {task.assignedTo.user.image && (
-                          <AvatarImage src={task.assignedTo.user.image} />
-                        )}
-                        <AvatarFallback>
-                          {getInitials(task.assignedTo.user.name)}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <p className="font-medium">{task.assignedTo.user.name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {task.assignedTo.user.email}
-                        </p>
+          {/* Sidebar with assignment info and activity */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Assignment</CardTitle>
+                <CardDescription>
+                  Task assignment details
+                </CardDescription>
+              </CardHeader>
+              
+              <CardContent>
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="font-medium text-sm text-muted-foreground">Assigned To</h3>
+                    {task.assignedTo ? (
+                      <div className="flex items-center gap-3 mt-2">
+                        <Avatar>
+                          {task.assignedTo.user.image && (
+                            <AvatarImage src={task.assignedTo.user.image} />
+                          )}
+                          <AvatarFallback>
+                            {getInitials(task.assignedTo.user.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="font-medium">{task.assignedTo.user.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {task.assignedTo.user.email}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-muted-foreground mt-2 italic">
+                        Not assigned to anyone
                       </div>
-                    </div>
-                  ) : (
-                    <div className="text-sm text-muted-foreground mt-2 italic">
-                      Not assigned to anyone
-                    </div>
-                  )}
+                    )}
+                  </div>
+                  
+                  {/* Additional information can be added here */}
                 </div>
-                
-                {/* Additional information can be added here */}
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+            
+            {activity && <TaskActivity activity={activity} />}
+          </div>
         </div>
       </div>
       
@@ -365,7 +491,7 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
             <AlertDialogTitle>Are you sure you want to delete this task?</AlertDialogTitle>
             <AlertDialogDescription>
               This action cannot be undone. The task will be permanently deleted
-              from the system.
+              from the system{task.subtasks.length > 0 && ", and its subtasks will become standalone tasks"}.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -401,16 +527,16 @@ export function TaskDetail({ task, userRole, userId }: TaskDetailProps) {
           
           <div className="grid gap-4 py-6">
             <div className="space-y-4">
-              {(Object.keys(statusConfig) as Array<TaskStatus>).map((statusKey) => (
+              {workflowStatuses.map((status) => (
                 <Button
-                  key={statusKey}
-                  variant={task.status === statusKey ? "default" : "outline"}
+                  key={status.id}
+                  variant={task.workflowStatusId === status.id ? "default" : "outline"}
                   className="w-full justify-start"
-                  onClick={() => handleStatusChange(statusKey)}
-                  disabled={isLoading || task.status === statusKey}
+                  onClick={() => handleStatusChange(status.id)}
+                  disabled={isLoading || task.workflowStatusId === status.id || !canMoveTo(status.id)}
                 >
-                  {statusConfig[statusKey].icon}
-                  {statusConfig[statusKey].label}
+                  {statusConfig[status.category].icon}
+                  {status.name}
                 </Button>
               ))}
             </div>
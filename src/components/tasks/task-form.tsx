@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -33,9 +34,16 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { createTask, updateTask, getEmployeesForAssignment } from "@/lib/actions/task-actions";
-import { Loader2, UserCheck } from "lucide-react";
+import { CalendarIcon, Loader2, UserCheck, X } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 // Define the form schema with Zod
@@ -51,10 +59,18 @@ const taskFormSchema = z.object({
   priority: z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"], {
     required_error: "Please select a priority level.",
   }),
-  status: z.enum(["TODO", "IN_PROGRESS", "REVIEW", "DONE"], {
+  workflowStatusId: z.string({
     required_error: "Please select a status.",
-  }),
+  }).min(1, "Please select a status."),
   assignedToId: z.string().optional().nullable(),
+  startDate: z.date().optional().nullable(),
+  dueDate: z.date().optional().nullable(),
+  estimateHours: z.string().optional().refine((val) => !val || (!isNaN(Number(val)) && Number(val) >= 0), {
+    message: "Estimate must be a non-negative number of hours.",
+  }),
+}).refine((data) => !data.startDate || !data.dueDate || data.dueDate >= data.startDate, {
+  message: "Due date cannot be before the start date.",
+  path: ["dueDate"],
 });
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
@@ -62,6 +78,11 @@ type TaskFormValues = z.infer<typeof taskFormSchema>;
 interface Project {
   id: string;
   name: string;
+  workflowStatuses: Array<{
+    id: string;
+    name: string;
+    category: TaskStatus;
+  }>;
 }
 
 interface Employee {
@@ -80,10 +101,16 @@ interface TaskFormProps {
     title: string;
     description: string | null;
     priority: TaskPriority;
-    status: TaskStatus;
+    workflowStatusId: string | null;
     projectId: string;
-    project: Project;
+    project: {
+      id: string;
+      name: string;
+    };
     assignedToId: string | null;
+    startDate: Date | null;
+    dueDate: Date | null;
+    estimateHours: number | null;
     assignedTo: {
       id: string;
       user: {
@@ -96,14 +123,20 @@ interface TaskFormProps {
   };
   projects: Project[];
   defaultProjectId?: string;
+  // Set when creating a subtask; the subtask stays in the parent's project
+  parentTask?: {
+    id: string;
+    title: string;
+  };
   userRole?: string;
 }
 
-export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFormProps) {
+export function TaskForm({ task, projects, defaultProjectId, parentTask, userRole }: TaskFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const initialProjectId = task?.projectId || defaultProjectId || "";
   
   // Initialize form with default values or existing task data
   const form = useForm<TaskFormValues>({
@@ -112,10 +145,16 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
       id: task?.id,
       title: task?.title || "",
       description: task?.description || "",
-      projectId: task?.projectId || defaultProjectId || "",
+      projectId: initialProjectId,
       priority: task?.priority || "MEDIUM",
-      status: task?.status || "TODO",
+      workflowStatusId:
+        task?.workflowStatusId ||
+        projects.find((project) => project.id === initialProjectId)?.workflowStatuses[0]?.id ||
+        "",
       assignedToId: task?.assignedToId || null,
+      startDate: task?.startDate ? new Date(task.startDate) : null,
+      dueDate: task?.dueDate ? new Date(task.dueDate) : null,
+      estimateHours: task?.estimateHours != null ? String(task.estimateHours) : "",
     },
   });
 
@@ -134,6 +173,20 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
     }
   }, [userRole]);
 
+  // Statuses come from the selected project's workflow
+  const selectedProjectId = form.watch("projectId");
+  const workflowStatuses = projects.find((project) => project.id === selectedProjectId)?.workflowStatuses ?? [];
+
+  // Keep the status when switching projects, falling back to one in the same category
+  const handleProjectChange = (projectId: string) => {
+    const current = workflowStatuses.find((status) => status.id === form.getValues("workflowStatusId"));
+    const statuses = projects.find((project) => project.id === projectId)?.workflowStatuses ?? [];
+    const next = statuses.find((status) => status.category === current?.category) ?? statuses[0];
+
+    form.setValue("projectId", projectId, { shouldValidate: true });
+    form.setValue("workflowStatusId", next?.id ?? "");
+  };
+
   // Check if user is an employee to limit editable fields
   const isEmployee = userRole === "EMPLOYEE";
 
@@ -149,14 +202,20 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
     formData.append("description", data.description || "");
     formData.append("projectId", data.projectId);
     formData.append("priority", data.priority);
-    formData.append("status", data.status);
+    formData.append("workflowStatusId", data.workflowStatusId);
+    if (parentTask) {
+      formData.append("parentId", parentTask.id);
+    }
     if (data.assignedToId) {
       formData.append("assignedToId", data.assignedToId);
     }
+    formData.append("startDate", data.startDate ? data.startDate.toISOString() : "");
+    formData.append("dueDate", data.dueDate ? data.dueDate.toISOString() : "");
+    formData.append("estimateHours", data.estimateHours || "");
     
     // Submit the form data to the appropriate server action
     try {
-      const result = data.id 
+      const result: { error?: string; taskId?: string; warning?: string } = data.id 
         ? await updateTask(formData)
         : await createTask(formData);
       console.log("Task created/updated successfully:", result);
@@ -166,6 +225,10 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
         return;
       }
       
+      if (result.warning) {
+        toast.warning(result.warning);
+      }
+      
       // Redirect to the task detail page or project detail page
       if (result.taskId) {
         router.push(`/dashboard/tasks/${result.taskId}`);
@@ -199,7 +262,9 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
         <CardDescription>
           {task 
             ? "Update the task details" 
-            : "Enter the details for your new task"}
+            : parentTask
+              ? `Enter the details for a new subtask of "${parentTask.title}"`
+              : "Enter the details for your new task"}
         </CardDescription>
       </CardHeader>
       <Form {...form}>
@@ -253,8 +318,9 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
                 <FormItem>
                   <FormLabel>Project</FormLabel>
                   <Select
-                    onValueChange={field.onChange}
+                    onValueChange={handleProjectChange}
                     defaultValue={field.value}
+                    disabled={!!parentTask}
                     // disabled={isEmployee && task}
                   >
                     <FormControl>
@@ -308,13 +374,14 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
               {/* Status */}
               <FormField
                 control={form.control}
-                name="status"
+                name="workflowStatusId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Status</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
+                      disabled={workflowStatuses.length === 0}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -322,10 +389,11 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="TODO">To Do</SelectItem>
-                        <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
-                        <SelectItem value="REVIEW">Review</SelectItem>
-                        <SelectItem value="DONE">Done</SelectItem>
+                        {workflowStatuses.map((status) => (
+                          <SelectItem key={status.id} value={status.id}>
+                            {status.name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -334,6 +402,128 @@ export function TaskForm({ task, projects, defaultProjectId, userRole }: TaskFor
               />
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {/* Start Date */}
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Start Date</FormLabel>
+                    <div className="flex gap-1">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant="outline"
+                              className={cn(
+                                "flex-1 pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value ?? undefined}
+                            onSelect={(date) => field.onChange(date ?? null)}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      {field.value && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => field.onChange(null)}
+                        >
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">Clear start date</span>
+                        </Button>
+                      )}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {/* Due Date */}
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Due Date</FormLabel>
+                    <div className="flex gap-1">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant="outline"
+                              className={cn(
+                                "flex-1 pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value ?? undefined}
+                            onSelect={(date) => field.onChange(date ?? null)}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      {field.value && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => field.onChange(null)}
+                        >
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">Clear due date</span>
+                        </Button>
+                      )}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {/* Estimate */}
+              <FormField
+                control={form.control}
+                name="estimateHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimate (hours)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="e.g. 8"
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             {/* Assigned To - Only shown for admin/managers */}
             {(userRole === "ADMIN" || userRole === "MANAGER") && (
               <FormField
@@ -39,7 +39,7 @@ import {
 } from "@/components/ui/pagination";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TaskPriority, TaskStatus } from "@prisma/client";
-import { getTasks } from "@/lib/actions/task-actions";
+import { getTasks, TaskDueFilter } from "@/lib/actions/task-actions";
 import { 
   Calendar, 
   Check, 
@@ -49,9 +49,11 @@ import {
   MoreHorizontal, 
   PlusCircle,
   ClipboardList, 
-  ArrowUpDown
+  ArrowUpDown,
+  AlertTriangle
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, formatDate } from "@/lib/utils";
+import { isTaskOverdue } from "@/lib/tasks";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -128,6 +130,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
   const [status, setStatus] = useState(searchParams.get('status') || '');
   const [priority, setPriority] = useState(searchParams.get('priority') || '');
   const [projectId, setProjectId] = useState(searchParams.get('projectId') || '');
+  const [due, setDue] = useState<TaskDueFilter>((searchParams.get('due') || '') as TaskDueFilter);
   const [sortBy, setSortBy] = useState(searchParams.get('sortBy') || 'createdAt');
   const [sortDirection, setSortDirection] = useState(
     searchParams.get('sortDirection') || 'desc'
@@ -145,7 +148,8 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
   };
 
   // Function to fetch tasks with current filters and pagination
-  const fetchTasks = async (page: number) => {
+  // (sorting is passed in when it changes, as state updates land after this call)
+  const fetchTasks = async (page: number, sort = { sortBy, sortDirection }) => {
     setLoading(true);
     try {
       const result = await getTasks({
@@ -155,8 +159,9 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
         status,
         priority,
         projectId,
-        sortBy,
-        sortDirection: sortDirection as 'asc' | 'desc',
+        due,
+        sortBy: sort.sortBy,
+        sortDirection: sort.sortDirection as 'asc' | 'desc',
       });
 
       if (!result.error) {
@@ -200,6 +205,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
       status,
       priority,
       projectId,
+      due,
       sortBy,
       sortDirection,
       page: '1', // Reset to page 1 when filters change
@@ -213,6 +219,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
     setStatus('');
     setPriority('');
     setProjectId('');
+    setDue('');
     setSortBy('createdAt');
     setSortDirection('desc');
     updateUrl({
@@ -220,6 +227,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
       status: '',
       priority: '',
       projectId: '',
+      due: '',
       sortBy: 'createdAt',
       sortDirection: 'desc',
       page: '1',
@@ -243,7 +251,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
       sortBy: column,
       sortDirection: newDirection,
     });
-    fetchTasks(taskData.pagination.page);
+    fetchTasks(taskData.pagination.page, { sortBy: column, sortDirection: newDirection });
   };
 
   return (
@@ -266,7 +274,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
       </CardHeader>
       <CardContent>
         {/* Filters */}
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
           <div className="md:col-span-2">
             <Input
               placeholder="Search tasks..."
@@ -276,7 +284,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
           </div>
           <Select
             value={status}
-            onValueChange={setStatus}
+            onValueChange={(value) => setStatus(value === '.' ? '' : value)}
           >
             <SelectTrigger>
               <SelectValue placeholder="Filter by Status" />
@@ -291,7 +299,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
           </Select>
           <Select
             value={priority}
-            onValueChange={setPriority}
+            onValueChange={(value) => setPriority(value === '.' ? '' : value)}
           >
             <SelectTrigger>
               <SelectValue placeholder="Filter by Priority" />
@@ -304,6 +312,20 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
               <SelectItem value="CRITICAL">Critical</SelectItem>
             </SelectContent>
           </Select>
+          <Select
+            value={due}
+            onValueChange={(value) => setDue((value === '.' ? '' : value) as TaskDueFilter)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Filter by Due Date" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Any Due Date</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
+              <SelectItem value="week">Due in 7 days</SelectItem>
+              <SelectItem value="none">No due date</SelectItem>
+            </SelectContent>
+          </Select>
           <div className="flex gap-2">
             <Button 
               variant="secondary" 
@@ -346,6 +368,12 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                     <ArrowUpDown className="ml-2 h-4 w-4" />
                   </div>
                 </TableHead>
+                <TableHead>
+                  <div className="flex items-center cursor-pointer" onClick={() => handleSort('dueDate')}>
+                    Due
+                    <ArrowUpDown className="ml-2 h-4 w-4" />
+                  </div>
+                </TableHead>
                 <TableHead>Assigned To</TableHead>
                 <TableHead>Project</TableHead>
                 <TableHead></TableHead>
@@ -354,7 +382,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-10">
+                  <TableCell colSpan={7} className="text-center py-10">
                     <div className="flex justify-center">
                       <Loader2 className="h-6 w-6 animate-spin" />
                     </div>
@@ -365,7 +393,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                 </TableRow>
               ) : taskData.tasks.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-10">
+                  <TableCell colSpan={7} className="text-center py-10">
                     <div className="text-sm text-muted-foreground">
                       No tasks found. Try adjusting your filters.
                     </div>
@@ -373,7 +401,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                 </TableRow>
               ) : (
                 taskData.tasks.map((task) => (
-                  <TableRow key={task.id}>
+                  <TableRow key={task.id} className={cn(isTaskOverdue(task) && "bg-destructive/5")}>
                     <TableCell>
                       <Link 
                         href={`/dashboard/tasks/${task.id}`}
@@ -392,7 +420,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                           className={cn("flex items-center", statusConfig['TODO'].color)}
                         >
                           {statusConfig['TODO'].icon}
-                          {task.status.replace('_', ' ')}
+                          {task.workflowStatus?.name ?? task.status.replace('_', ' ')}
                         </Badge>
                       </div>
                     </TableCell>
@@ -404,6 +432,21 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                         {task.priority}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {task.dueDate ? (
+                        <span
+                          className={cn(
+                            "flex items-center text-sm",
+                            isTaskOverdue(task) && "font-medium text-destructive"
+                          )}
+                        >
+                          {isTaskOverdue(task) && <AlertTriangle className="h-3.5 w-3.5 mr-1" />}
+                          {formatDate(task.dueDate)}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {task.assignedTo ? (
                         <div className="flex items-center gap-2">
@@ -446,8 +489,7 @@ export function TaskList({ initialTasks, totalTasks, currentPage, totalPages, us
                               View details
                             </Link>
                           </DropdownMenuItem>
-                          {(userRole === "ADMIN" || userRole === "MANAGER" || 
-                            (userRole === "EMPLOYEE" && task.assignedTo?.userId === task.currentUserId)) && (
+                          {(userRole === "ADMIN" || userRole === "MANAGER") && (
                             <>
                               <DropdownMenuItem asChild>
                                 <Link href={`/dashboard/tasks/edit/${task.id}`}>
@@ -0,0 +1,125 @@
+"use client";
+
+import Link from "next/link";
+import { TaskStatus } from "@prisma/client";
+import { Plus } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
+import { isTaskOverdue } from "@/lib/tasks";
+import { cn } from "@/lib/utils";
+
+interface TaskSubtasksProps {
+  taskId: string;
+  projectId: string;
+  subtasks: Array<{
+    id: string;
+    title: string;
+    status: TaskStatus;
+    dueDate: Date | null;
+    workflowStatus: {
+      id: string;
+      name: string;
+    } | null;
+    assignedTo: {
+      id: string;
+      user: {
+        name: string | null;
+        image: string | null;
+      };
+    } | null;
+  }>;
+  progress: {
+    totalTasks: number;
+    completedTasks: number;
+    progress: number;
+  };
+  canAdd: boolean;
+}
+
+// Badge colors for each status category
+const categoryColors: Record<TaskStatus, string> = {
+  TODO: "bg-gray-100 text-gray-800",
+  IN_PROGRESS: "bg-blue-100 text-blue-800",
+  REVIEW: "bg-amber-100 text-amber-800",
+  DONE: "bg-green-100 text-green-800",
+};
+
+// Get initials for avatar fallback
+const getInitials = (name: string | null) => {
+  if (!name) return "?";
+  return name
+    .split(" ")
+    .map(n => n[0])
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+};
+
+export function TaskSubtasks({ taskId, projectId, subtasks, progress, canAdd }: TaskSubtasksProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm text-muted-foreground">Subtasks</h3>
+        <div className="flex items-center gap-2">
+          {subtasks.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {progress.completedTasks}/{progress.totalTasks} done
+            </span>
+          )}
+          {canAdd && (
+            <Button variant="ghost" size="sm" className="h-7" asChild>
+              <Link href={`/dashboard/tasks/new?projectId=${projectId}&parentId=${taskId}`}>
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add Subtask
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {subtasks.length > 0 ? (
+        <>
+          <Progress value={progress.progress} />
+          <ul className="divide-y rounded-md border">
+            {subtasks.map((subtask) => (
+              <li key={subtask.id} className="flex items-center justify-between gap-2 p-2">
+                <Link
+                  href={`/dashboard/tasks/${subtask.id}`}
+                  className={cn(
+                    "text-sm hover:underline truncate",
+                    subtask.status === "DONE" && "line-through text-muted-foreground",
+                    isTaskOverdue(subtask) && "text-destructive"
+                  )}
+                >
+                  {subtask.title}
+                </Link>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline" className={categoryColors[subtask.status]}>
+                    {subtask.workflowStatus?.name ?? STATUS_CATEGORY_LABELS[subtask.status]}
+                  </Badge>
+                  {subtask.assignedTo ? (
+                    <Avatar className="h-6 w-6">
+                      {subtask.assignedTo.user.image && (
+                        <AvatarImage src={subtask.assignedTo.user.image} />
+                      )}
+                      <AvatarFallback className="text-xs">
+                        {getInitials(subtask.assignedTo.user.name)}
+                      </AvatarFallback>
+                    </Avatar>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Unassigned</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">No subtasks</p>
+      )}
+    </div>
+  );
+}
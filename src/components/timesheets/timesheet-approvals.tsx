@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Check, ChevronDown, ChevronRight, X } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { reviewTimesheet } from "@/lib/actions/timesheet-actions";
+import { getWeekDays } from "@/lib/timesheets";
+import { formatCalendarDay } from "@/lib/utils";
+
+interface SubmittedTimesheet {
+  id: string;
+  weekStart: Date;
+  submittedAt: Date | null;
+  totalHours: number;
+  overtimeHours: number;
+  employee: {
+    department: { name: string };
+    user: {
+      name: string | null;
+      email: string | null;
+    };
+  };
+  entries: Array<{
+    taskId: string;
+    date: Date;
+    hours: number;
+    task: {
+      title: string;
+      project: {
+        name: string;
+      };
+    };
+  }>;
+}
+
+interface TimesheetApprovalsProps {
+  timesheets: SubmittedTimesheet[];
+}
+
+// The week's hours as a task-by-day table
+function TimesheetBreakdown({ timesheet }: { timesheet: SubmittedTimesheet }) {
+  const days = getWeekDays(new Date(timesheet.weekStart));
+  const tasks = [...new Map(timesheet.entries.map((entry) => [entry.taskId, entry.task])).entries()];
+
+  const hoursFor = (taskId: string, day: Date) =>
+    timesheet.entries.find((entry) => entry.taskId === taskId && new Date(entry.date).getTime() === day.getTime())
+      ?.hours;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Task</TableHead>
+          {days.map((day) => (
+            <TableHead key={day.getTime()} className="text-center">
+              {formatCalendarDay(day, "EEE d")}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tasks.map(([taskId, task]) => (
+          <TableRow key={taskId}>
+            <TableCell>
+              <div className="font-medium">{task.title}</div>
+              <div className="text-xs text-muted-foreground">{task.project.name}</div>
+            </TableCell>
+            {days.map((day) => (
+              <TableCell key={day.getTime()} className="text-center">
+                {hoursFor(taskId, day) ?? "–"}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function TimesheetApprovals({ timesheets }: TimesheetApprovalsProps) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [rejecting, setRejecting] = useState<SubmittedTimesheet | null>(null);
+  const [note, setNote] = useState("");
+
+  const toggle = (id: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleReview = async (timesheet: SubmittedTimesheet, approve: boolean) => {
+    setPendingId(timesheet.id);
+
+    try {
+      const result = await reviewTimesheet(timesheet.id, approve, approve ? undefined : note);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(approve ? "Timesheet approved" : "Timesheet returned to the employee");
+      setRejecting(null);
+      setNote("");
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (timesheets.length === 0) {
+    return (
+      <div className="rounded-lg border py-10 text-center text-muted-foreground">
+        No timesheets waiting for approval
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {timesheets.map((timesheet) => {
+        const days = getWeekDays(new Date(timesheet.weekStart));
+
+        return (
+          <Collapsible key={timesheet.id} open={expanded.has(timesheet.id)} onOpenChange={() => toggle(timesheet.id)}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 py-4">
+                <CollapsibleTrigger asChild>
+                  <button className="flex items-center gap-2 text-left">
+                    {expanded.has(timesheet.id) ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                    <div>
+                      <div className="font-medium">
+                        {timesheet.employee.user.name || timesheet.employee.user.email}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {timesheet.employee.department.name} · {formatCalendarDay(days[0], "MMM d")} –{" "}
+                        {formatCalendarDay(days[6], "MMM d, yyyy")}
+                      </div>
+                    </div>
+                  </button>
+                </CollapsibleTrigger>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium">{timesheet.totalHours} hours</span>
+                  {timesheet.overtimeHours > 0 && (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                      {timesheet.overtimeHours}h overtime
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={pendingId === timesheet.id}
+                    onClick={() => handleReview(timesheet, true)}
+                  >
+                    <Check className="h-4 w-4 text-green-600" />
+                    <span className="sr-only">Approve</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={pendingId === timesheet.id}
+                    onClick={() => setRejecting(timesheet)}
+                  >
+                    <X className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Reject</span>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CollapsibleContent>
+                <CardContent>
+                  <TimesheetBreakdown timesheet={timesheet} />
+                </CardContent>
+              </CollapsibleContent>
+            </Card>
+          </Collapsible>
+        );
+      })}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return Timesheet</DialogTitle>
+            <DialogDescription>
+              {rejecting?.employee.user.name} can correct the week and submit it again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="timesheetRejectNote">What needs changing</Label>
+            <Textarea id="timesheetRejectNote" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!note.trim() || !rejecting || pendingId === rejecting.id}
+              onClick={() => rejecting && handleReview(rejecting, false)}
+            >
+              Return Timesheet
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { TimesheetStatus } from "@prisma/client";
+import { ChevronLeft, ChevronRight, Send, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TimesheetStatusBadge } from "@/components/timesheets/timesheet-status-badge";
+import { saveTimesheet, submitTimesheet } from "@/lib/actions/timesheet-actions";
+import { STANDARD_WEEKLY_HOURS } from "@/lib/constants/timesheets";
+import { getOvertimeHours, getWeekDays } from "@/lib/timesheets";
+import { cn, formatCalendarDay } from "@/lib/utils";
+
+interface TimesheetTask {
+  id: string;
+  title: string;
+  project: {
+    id: string;
+    name: string;
+  };
+}
+
+interface TimesheetGridProps {
+  weekStart: Date;
+  timesheet: {
+    status: TimesheetStatus;
+    reviewNote: string | null;
+    reviewedBy: { name: string | null } | null;
+    entries: Array<{
+      taskId: string;
+      date: Date;
+      hours: number;
+      task: TimesheetTask;
+    }>;
+  } | null;
+  // Tasks offered when adding a row
+  tasks: TimesheetTask[];
+}
+
+// Grid rows: one task with its hours per day, kept as strings while typing
+interface Row {
+  task: TimesheetTask;
+  hours: Record<string, string>;
+}
+
+// yyyy-MM-dd key for a UTC day
+const toDateKey = (date: Date) => new Date(date).toISOString().slice(0, 10);
+
+// Blank or invalid cells count as zero
+const toHours = (value: string | undefined) => {
+  const hours = parseFloat(value || "");
+  return isNaN(hours) ? 0 : hours;
+};
+
+export function TimesheetGrid({ weekStart, timesheet, tasks }: TimesheetGridProps) {
+  const router = useRouter();
+  const days = getWeekDays(weekStart);
+  const isLocked = timesheet?.status === "SUBMITTED" || timesheet?.status === "APPROVED";
+  const [isSaving, setIsSaving] = useState(false);
+  const [rows, setRows] = useState<Row[]>(() => {
+    const byTask = new Map<string, Row>();
+
+    for (const entry of timesheet?.entries ?? []) {
+      const row = byTask.get(entry.taskId) ?? { task: entry.task, hours: {} };
+      row.hours[toDateKey(entry.date)] = String(entry.hours);
+      byTask.set(entry.taskId, row);
+    }
+
+    return [...byTask.values()];
+  });
+
+  const availableTasks = tasks.filter((task) => !rows.some((row) => row.task.id === task.id));
+  const dayTotals = days.map((day) => rows.reduce((sum, row) => sum + toHours(row.hours[toDateKey(day)]), 0));
+  const weekTotal = dayTotals.reduce((sum, hours) => sum + hours, 0);
+  const overtime = getOvertimeHours(weekTotal);
+
+  // Move to another week; the server page loads its timesheet
+  const goToWeek = (offsetDays: number) => {
+    const target = new Date(weekStart);
+    target.setUTCDate(target.getUTCDate() + offsetDays);
+    router.push(`/dashboard/timesheets?week=${toDateKey(target)}`);
+  };
+
+  const updateHours = (taskId: string, dateKey: string, value: string) => {
+    setRows((previous) =>
+      previous.map((row) => (row.task.id === taskId ? { ...row, hours: { ...row.hours, [dateKey]: value } } : row)),
+    );
+  };
+
+  const addRow = (taskId: string) => {
+    const task = tasks.find(({ id }) => id === taskId);
+
+    if (task) {
+      setRows((previous) => [...previous, { task, hours: {} }]);
+    }
+  };
+
+  // Save the grid, optionally submitting the week afterwards
+  const handleSave = async (submit: boolean) => {
+    setIsSaving(true);
+
+    try {
+      const week = toDateKey(weekStart);
+      const entries = rows.flatMap((row) =>
+        days.map((day) => ({
+          taskId: row.task.id,
+          date: toDateKey(day),
+          hours: toHours(row.hours[toDateKey(day)]),
+        })),
+      );
+
+      const saved = await saveTimesheet(week, entries);
+
+      if (saved.error) {
+        toast.error(saved.error);
+        return;
+      }
+
+      if (submit) {
+        const submitted = await submitTimesheet(week);
+
+        if (submitted.error) {
+          toast.error(submitted.error);
+          return;
+        }
+
+        toast.success("Week submitted for approval");
+      } else {
+        toast.success("Timesheet saved");
+      }
+
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => goToWeek(-7)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous week</span>
+          </Button>
+          <h2 className="text-lg font-semibold">
+            {formatCalendarDay(days[0], "MMM d")} – {formatCalendarDay(days[6], "MMM d, yyyy")}
+          </h2>
+          <Button variant="outline" size="icon" onClick={() => goToWeek(7)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next week</span>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/timesheets")}>
+            This week
+          </Button>
+        </div>
+        <TimesheetStatusBadge status={timesheet?.status ?? "DRAFT"} />
+      </div>
+
+      {timesheet?.status === "REJECTED" && timesheet.reviewNote && (
+        <Alert variant="destructive">
+          <AlertTitle>Returned by {timesheet.reviewedBy?.name ?? "your manager"}</AlertTitle>
+          <AlertDescription>{timesheet.reviewNote}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[220px]">Task</TableHead>
+              {days.map((day) => (
+                <TableHead key={toDateKey(day)} className="w-[80px] text-center">
+                  <div>{formatCalendarDay(day, "EEE")}</div>
+                  <div className="text-xs font-normal">{formatCalendarDay(day, "d")}</div>
+                </TableHead>
+              ))}
+              <TableHead className="w-[70px] text-right">Total</TableHead>
+              {!isLocked && <TableHead className="w-[50px]" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={isLocked ? 9 : 10} className="text-center text-muted-foreground py-6">
+                  No hours logged this week
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map((row) => (
+              <TableRow key={row.task.id}>
+                <TableCell>
+                  <div className="font-medium">{row.task.title}</div>
+                  <div className="text-xs text-muted-foreground">{row.task.project.name}</div>
+                </TableCell>
+                {days.map((day) => {
+                  const dateKey = toDateKey(day);
+
+                  return (
+                    <TableCell key={dateKey} className="p-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.25"
+                        className="h-8 px-2 text-center"
+                        value={row.hours[dateKey] ?? ""}
+                        onChange={(e) => updateHours(row.task.id, dateKey, e.target.value)}
+                        disabled={isLocked || isSaving}
+                        aria-label={`Hours on ${row.task.title}, ${formatCalendarDay(day, "EEEE")}`}
+                      />
+                    </TableCell>
+                  );
+                })}
+                <TableCell className="text-right font-medium">
+                  {days.reduce((sum, day) => sum + toHours(row.hours[toDateKey(day)]), 0)}
+                </TableCell>
+                {!isLocked && (
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={isSaving}
+                      onClick={() => setRows((previous) => previous.filter(({ task }) => task.id !== row.task.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove row</span>
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Daily total</TableCell>
+              {dayTotals.map((hours, index) => (
+                <TableCell key={index} className="text-center">
+                  {hours || "–"}
+                </TableCell>
+              ))}
+              <TableCell className={cn("text-right font-semibold", overtime > 0 && "text-amber-600")}>
+                {weekTotal}
+              </TableCell>
+              {!isLocked && <TableCell />}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {!isLocked ? (
+          <Select value="" onValueChange={addRow} disabled={isSaving || availableTasks.length === 0}>
+            <SelectTrigger className="w-[280px]">
+              <SelectValue placeholder={availableTasks.length ? "Add a task..." : "No more assigned tasks"} />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTasks.map((task) => (
+                <SelectItem key={task.id} value={task.id}>
+                  {task.title} · {task.project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span />
+        )}
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-muted-foreground">
+            {overtime > 0
+              ? `${overtime} hours over the ${STANDARD_WEEKLY_HOURS}-hour week count as overtime once approved`
+              : `${weekTotal} of ${STANDARD_WEEKLY_HOURS} standard hours`}
+          </span>
+          {!isLocked && (
+            <>
+              <Button variant="outline" onClick={() => handleSave(false)} disabled={isSaving}>
+                Save
+              </Button>
+              <Button onClick={() => handleSave(true)} disabled={isSaving || rows.length === 0}>
+                <Send className="mr-2 h-4 w-4" />
+                Submit Week
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
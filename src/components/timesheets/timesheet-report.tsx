@@ -0,0 +1,141 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import Link from "next/link";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface ReportRow {
+  estimateHours: number | null;
+  approvedHours: number;
+  loggedHours: number;
+}
+
+interface TimesheetReportProps {
+  projects: Array<ReportRow & {
+    id: string;
+    name: string;
+    tasks: Array<ReportRow & { id: string; title: string }>;
+  }>;
+}
+
+// Round to at most two decimals for display
+const formatHours = (hours: number) => String(Math.round(hours * 100) / 100);
+
+// Logged hours against the estimate: bar, figures and remaining/over budget
+function EstimateCells({ row }: { row: ReportRow }) {
+  const estimate = row.estimateHours ?? 0;
+  const variance = estimate - row.loggedHours;
+
+  return (
+    <>
+      <TableCell className="text-right">{estimate ? formatHours(estimate) : "–"}</TableCell>
+      <TableCell className="text-right">{formatHours(row.approvedHours)}</TableCell>
+      <TableCell className="text-right">{formatHours(row.loggedHours)}</TableCell>
+      <TableCell className="w-[200px]">
+        {estimate > 0 ? (
+          <div className="space-y-1">
+            <Progress
+              value={Math.min(100, (row.loggedHours / estimate) * 100)}
+              className={cn(variance < 0 && "[&>div]:bg-destructive")}
+            />
+            <div className={cn("text-xs", variance < 0 ? "text-destructive" : "text-muted-foreground")}>
+              {variance < 0 ? `${formatHours(-variance)}h over estimate` : `${formatHours(variance)}h remaining`}
+            </div>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">No estimate</span>
+        )}
+      </TableCell>
+    </>
+  );
+}
+
+export function TimesheetReport({ projects }: TimesheetReportProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const visibleProjects = projects.filter((project) => project.tasks.length > 0);
+
+  const toggle = (id: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Project / Task</TableHead>
+            <TableHead className="text-right">Estimate (h)</TableHead>
+            <TableHead className="text-right">Approved (h)</TableHead>
+            <TableHead className="text-right">Logged (h)</TableHead>
+            <TableHead>Against Estimate</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleProjects.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                No estimates or logged hours yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            visibleProjects.map((project) => (
+              <Fragment key={project.id}>
+                <TableRow className="bg-muted/40">
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="-ml-2 h-7 px-2 font-medium"
+                      onClick={() => toggle(project.id)}
+                    >
+                      {expanded.has(project.id) ? (
+                        <ChevronDown className="mr-1 h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="mr-1 h-4 w-4" />
+                      )}
+                      {project.name}
+                    </Button>
+                  </TableCell>
+                  <EstimateCells row={project} />
+                </TableRow>
+                {expanded.has(project.id) &&
+                  project.tasks.map((task) => (
+                    <TableRow key={task.id}>
+                      <TableCell className="pl-10">
+                        <Link href={`/dashboard/tasks/${task.id}`} className="text-sm hover:underline">
+                          {task.title}
+                        </Link>
+                      </TableCell>
+                      <EstimateCells row={task} />
+                    </TableRow>
+                  ))}
+              </Fragment>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      <p className="border-t p-3 text-xs text-muted-foreground">
+        Logged hours include drafts and weeks awaiting approval; rejected weeks are left out.
+      </p>
+    </div>
+  );
+}
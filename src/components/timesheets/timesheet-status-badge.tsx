@@ -0,0 +1,18 @@
+import { TimesheetStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { TIMESHEET_STATUS_LABELS } from "@/lib/constants/timesheets";
+
+const statusColors: Record<TimesheetStatus, string> = {
+  DRAFT: "bg-gray-100 text-gray-800",
+  SUBMITTED: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
+export function TimesheetStatusBadge({ status }: { status: TimesheetStatus }) {
+  return (
+    <Badge variant="outline" className={statusColors[status]}>
+      {TIMESHEET_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
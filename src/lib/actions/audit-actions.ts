@@ -0,0 +1,113 @@
+'use server';
+
+import { AuditAction, AuditEntity, Prisma } from "@prisma/client";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { AuditChanges } from "@/lib/audit";
+
+/**
+ * Get audit log entries with optional filtering and pagination
+ */
+export async function getAuditLogs({
+  page = 1,
+  limit = 25,
+  entityType,
+  entityId,
+  action,
+  actorId,
+  from,
+  to,
+}: {
+  page?: number;
+  limit?: number;
+  entityType?: AuditEntity;
+  entityId?: string;
+  action?: AuditAction;
+  actorId?: string;
+  from?: string;
+  to?: string;
+}) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view the audit log");
+    }
+
+    // The audit log exposes salary history and role changes, so it is admin-only
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can view the audit log");
+    }
+
+    const skip = (page - 1) * limit;
+
+    // Build filters; "to" is inclusive of the whole day
+    const where: Prisma.AuditLogWhereInput = {
+      ...(entityType ? { entityType } : {}),
+      ...(entityId ? { entityId } : {}),
+      ...(action ? { action } : {}),
+      ...(actorId ? { actorId } : {}),
+      ...(from || to
+        ? {
+            createdAt: {
+              ...(from ? { gte: new Date(from) } : {}),
+              ...(to ? { lt: new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000) } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const [entries, total, actors] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+      // Users who have made at least one change, for the actor filter
+      prisma.user.findMany({
+        where: { auditLogs: { some: {} } },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+        orderBy: {
+          name: "asc",
+        },
+      }),
+    ]);
+
+    const logs = entries.map((entry) => ({
+      ...entry,
+      changes: entry.changes ? (JSON.parse(entry.changes) as AuditChanges) : {},
+    }));
+
+    return {
+      logs,
+      actors,
+      pagination: {
+        total,
+        pages: Math.max(1, Math.ceil(total / limit)),
+        page,
+        limit,
+      },
+    };
+  } catch (error) {
+    console.error("Error getting audit log:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get audit log" };
+  }
+}
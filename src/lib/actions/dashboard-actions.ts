@@ -0,0 +1,189 @@
+'use server';
+
+import { EmploymentStatus, ProjectStatus, TaskStatus } from "@prisma/client";
+import { startOfDay } from "date-fns";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { BASE_CURRENCY } from "@/lib/constants/currencies";
+import { checkPermission } from "@/lib/permissions";
+import { convertToBase, getPeriodEnd, loadExchangeRates } from "@/lib/currency";
+
+// Statuses a task can still be worked in
+const OPEN_TASK_STATUSES = [TaskStatus.TODO, TaskStatus.IN_PROGRESS, TaskStatus.REVIEW];
+// Terminated employees no longer count towards headcount
+const CURRENT_EMPLOYEE = { status: { not: EmploymentStatus.TERMINATED } };
+
+// Open tasks past their due date (see isTaskOverdue)
+const overdueTaskWhere = (now: Date) => ({
+  status: { not: TaskStatus.DONE },
+  dueDate: { lt: startOfDay(now) },
+});
+
+// Turn groupBy rows into one count per key, including keys with no rows
+function countByKey<K extends string>(
+  keys: readonly K[],
+  rows: { key: K; count: number }[],
+): { key: K; count: number }[] {
+  const counts = new Map(rows.map((row) => [row.key, row.count]));
+  return keys.map((key) => ({ key, count: counts.get(key) ?? 0 }));
+}
+
+/**
+ * Company-wide KPIs for admins and managers
+ */
+async function getCompanyStats(canViewPayroll: boolean) {
+  const now = new Date();
+  const month = now.getMonth() + 1; // JavaScript months are 0-based
+  const year = now.getFullYear();
+
+  const [headcount, departments, tasks, overdueTasks, projects, salaries, exchangeRates] = await Promise.all([
+    prisma.employee.count({ where: CURRENT_EMPLOYEE }),
+    prisma.department.findMany({
+      where: { employees: { some: CURRENT_EMPLOYEE } },
+      select: { name: true, _count: { select: { employees: { where: CURRENT_EMPLOYEE } } } },
+      orderBy: { name: "asc" },
+    }),
+    prisma.task.groupBy({
+      by: ["status"],
+      where: { status: { in: OPEN_TASK_STATUSES } },
+      _count: { _all: true },
+    }),
+    prisma.task.count({ where: overdueTaskWhere(now) }),
+    prisma.project.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    }),
+    canViewPayroll
+      ? prisma.salary.findMany({
+          where: { month, year },
+          select: { totalSalary: true, currency: true },
+        })
+      : Promise.resolve([]),
+    canViewPayroll ? loadExchangeRates() : Promise.resolve([]),
+  ]);
+
+  const tasksByStatus = countByKey(
+    OPEN_TASK_STATUSES,
+    tasks.map((row) => ({ key: row.status, count: row._count._all })),
+  );
+
+  // Sum this month's salary records in the base currency; records without a rate are counted separately
+  const periodEnd = getPeriodEnd(month, year);
+  let payrollTotal = 0;
+  let unconvertedRecords = 0;
+
+  for (const salary of salaries) {
+    const converted = convertToBase(salary.totalSalary, salary.currency, exchangeRates, periodEnd);
+
+    if (converted === null) {
+      unconvertedRecords++;
+    } else {
+      payrollTotal += converted;
+    }
+  }
+
+  return {
+    headcount,
+    headcountByDepartment: departments.map((row) => ({
+      department: row.name,
+      count: row._count.employees,
+    })),
+    openTasks: tasksByStatus.reduce((sum, row) => sum + row.count, 0),
+    tasksByStatus,
+    overdueTasks,
+    projectsByStatus: countByKey(
+      Object.values(ProjectStatus),
+      projects.map((row) => ({ key: row.status, count: row._count._all })),
+    ),
+    payroll: canViewPayroll
+      ? {
+          month,
+          year,
+          currency: BASE_CURRENCY,
+          total: payrollTotal,
+          records: salaries.length,
+          unconvertedRecords,
+        }
+      : null,
+  };
+}
+
+/**
+ * An employee's own tasks and latest salary
+ */
+async function getPersonalStats(userId: string) {
+  const now = new Date();
+  const employee = await prisma.employee.findUnique({
+    where: { userId },
+    select: {
+      id: true,
+      position: { select: { name: true } },
+      department: { select: { name: true } },
+    },
+  });
+
+  if (!employee) {
+    return { employee: null, openTasks: 0, tasksByStatus: [], overdueTasks: 0, latestSalary: null };
+  }
+
+  const [tasks, overdueTasks, latestSalary] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["status"],
+      where: { assignedToId: employee.id, status: { in: OPEN_TASK_STATUSES } },
+      _count: { _all: true },
+    }),
+    prisma.task.count({
+      where: { assignedToId: employee.id, ...overdueTaskWhere(now) },
+    }),
+    prisma.salary.findFirst({
+      where: { employeeId: employee.id },
+      orderBy: [{ year: "desc" }, { month: "desc" }],
+      select: {
+        month: true,
+        year: true,
+        totalSalary: true,
+        currency: true,
+        status: true,
+      },
+    }),
+  ]);
+
+  const tasksByStatus = countByKey(
+    OPEN_TASK_STATUSES,
+    tasks.map((row) => ({ key: row.status, count: row._count._all })),
+  );
+
+  return {
+    employee,
+    openTasks: tasksByStatus.reduce((sum, row) => sum + row.count, 0),
+    tasksByStatus,
+    overdueTasks,
+    latestSalary,
+  };
+}
+
+/**
+ * Get the dashboard overview. Admins and managers see company totals; employees see
+ * their own tasks and salary.
+ */
+export async function getDashboardStats() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view the dashboard");
+    }
+
+    if (session.user.role === ROLES.EMPLOYEE) {
+      return { scope: "personal" as const, personal: await getPersonalStats(session.user.id) };
+    }
+
+    const canViewPayroll = await checkPermission(session.user, "salaries", "read");
+
+    return { scope: "company" as const, company: await getCompanyStats(canViewPayroll) };
+  } catch (error) {
+    console.error("Error getting dashboard stats:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get dashboard stats" };
+  }
+}
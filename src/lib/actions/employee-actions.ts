@@ -3,8 +3,75 @@
 import { revalidatePath } from "next/cache";
 import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { hasPermission, ROLES } from "@/lib/constants/roles";
+import { ROLES } from "@/lib/constants/roles";
+import { BASE_CURRENCY, isSupportedCurrency } from "@/lib/constants/currencies";
+import { DEFAULT_CHECKLIST_STEPS } from "@/lib/constants/employees";
+import { checkPermission } from "@/lib/permissions";
+import { recordAudit, withAudit } from "@/lib/audit";
+import {
+  assertEditableFields,
+  canViewBankDetails,
+  getBankDetails,
+  getEditableFieldGroups,
+  hasFieldGroup,
+  OMIT_BANK_FIELDS,
+  parseBankFields,
+  parseContactFields,
+  parseContract,
+  parseEmergencyContacts,
+  saveEmploymentContract,
+  syncEmergencyContacts,
+} from "@/lib/employee-profile";
+import {
+  createsReportingCycle,
+  getEmployeeOrderBy,
+  getEmployeeSearch,
+  getEmployeeStatusFilter,
+  getManagerScope,
+  isInManagerScope,
+} from "@/lib/org";
 import { redirect } from "next/navigation";
+import type { Prisma } from "@prisma/client";
+
+const orgInclude = {
+  department: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  position: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} as const;
+
+// Check the department, position and manager picked on the employee form exist
+async function assertOrgRefs(departmentId: string, positionId: string, managerId: string | null) {
+  const [department, position, manager] = await Promise.all([
+    prisma.department.findUnique({ where: { id: departmentId } }),
+    prisma.position.findUnique({ where: { id: positionId } }),
+    managerId ? prisma.employee.findUnique({ where: { id: managerId } }) : null,
+  ]);
+
+  if (!department) {
+    throw new Error("Department not found");
+  }
+
+  if (!position) {
+    throw new Error("Position not found");
+  }
+
+  if (managerId && !manager) {
+    throw new Error("Manager not found");
+  }
+
+  if (manager?.status === "TERMINATED") {
+    throw new Error("Employees can't report to a terminated employee");
+  }
+}
 
 /**
  * Get all employees with optional filtering and pagination
@@ -15,12 +82,14 @@ export async function getEmployees({
   search = "",
   sortBy = "name",
   sortDirection = "asc",
+  status = "current",
 }: {
   page?: number;
   limit?: number;
   search?: string;
   sortBy?: string;
   sortDirection?: "asc" | "desc";
+  status?: string;
 }) {
   try {
     const session = await getCurrentSession();
@@ -30,30 +99,22 @@ export async function getEmployees({
     }
     
     // Check if user has permission to read employees
-    if (!hasPermission(session.user.role, "employees", "read")) {
+    if (!(await checkPermission(session.user, "employees", "read"))) {
       throw new Error("You don't have permission to view employees");
     }
     
     const skip = (page - 1) * limit;
     
-    // Build the where clause for search
-    const where = search
-      ? {
-          OR: [
-            { user: { name: { contains: search } } },
-            { position: { contains: search } },
-            { department: { contains: search } },
-          ],
-        }
-      : {};
-    const employeesAll = await prisma.employee.findMany({});
-    console.log("employeesAll", employeesAll);    const employees = await prisma.employee.findMany({
+    // Build the where clause for search, limiting managers to their reports
+    const scope = await getManagerScope(prisma, session.user);
+    const where = { AND: [getEmployeeSearch(search), getEmployeeStatusFilter(status), scope ?? {}] };
+
+    const employees = await prisma.employee.findMany({
       where,
       skip,
       take: limit,
-      orderBy: sortBy === "name" 
-        ? { user: { name: sortDirection } } 
-        : { [sortBy]: sortDirection },
+      orderBy: getEmployeeOrderBy(sortBy, sortDirection),
+      omit: OMIT_BANK_FIELDS,
       include: {
         user: {
           select: {
@@ -63,6 +124,7 @@ export async function getEmployees({
             image: true,
           },
         },
+        ...orgInclude,
       },
     });
     
@@ -95,12 +157,13 @@ export async function getEmployeeById(id: string) {
     }
     
     // Check if user has permission to read employees
-    if (!hasPermission(session.user.role, "employees", "read")) {
+    if (!(await checkPermission(session.user, "employees", "read"))) {
       throw new Error("You don't have permission to view employee details");
     }
     
     const employee = await prisma.employee.findUnique({
       where: { id },
+      omit: OMIT_BANK_FIELDS,
       include: {
         user: {
           select: {
@@ -110,6 +173,21 @@ export async function getEmployeeById(id: string) {
             image: true,
           },
         },
+        ...orgInclude,
+        manager: {
+          select: {
+            id: true,
+            user: {
+              select: {
+                name: true,
+              },
+            },
+          },
+        },
+        emergencyContacts: {
+          orderBy: { createdAt: "asc" },
+        },
+        contract: true,
         salaries: {
           orderBy: [
             { year: "desc" },
@@ -131,8 +209,23 @@ export async function getEmployeeById(id: string) {
     ) {
       throw new Error("You can only view your own employee details");
     }
-    
-    return { employee };
+
+    // Managers can view their own details and those of their reports
+    if (!(await isInManagerScope(prisma, session.user, id))) {
+      throw new Error("You can only view employees who report to you");
+    }
+
+    // Bank details are decrypted only for the employee themselves and HR
+    const bankDetails = (await canViewBankDetails(session.user, employee))
+      ? getBankDetails(
+          await prisma.employee.findUniqueOrThrow({
+            where: { id },
+            select: OMIT_BANK_FIELDS,
+          }),
+        )
+      : null;
+    
+    return { employee: { ...employee, bankDetails } };
   } catch (error) {
     console.error("Error getting employee:", error);
     return { error: error instanceof Error ? error.message : "Failed to get employee details" };
@@ -151,22 +244,32 @@ export async function createEmployee(formData: FormData) {
     }
     
     // Check if user has permission to create employees
-    if (!hasPermission(session.user.role, "employees", "create")) {
+    if (!(await checkPermission(session.user, "employees", "create"))) {
       throw new Error("You don't have permission to create employees");
     }
 
     const userId = formData.get("userId") as string;
-    const position = formData.get("position") as string;
-    const department = formData.get("department") as string;
+    const positionId = formData.get("positionId") as string;
+    const departmentId = formData.get("departmentId") as string;
+    const managerId = (formData.get("managerId") as string) || null;
+    const currency = (formData.get("currency") as string) || BASE_CURRENCY;
     const joinDateStr = formData.get("joinDate") as string;
     const baseSalary = parseFloat(formData.get("baseSalary") as string);
     
     // Validate data
-    if (!userId || !position || !department || !joinDateStr || isNaN(baseSalary)) {
+    if (!userId || !positionId || !departmentId || !joinDateStr || isNaN(baseSalary)) {
       throw new Error("All fields are required");
     }
+
+    if (!isSupportedCurrency(currency)) {
+      throw new Error("Unsupported currency");
+    }
     
     const joinDate = new Date(joinDateStr);
+    const contact = parseContactFields(formData);
+    const bank = parseBankFields(formData);
+    const emergencyContacts = parseEmergencyContacts(formData);
+    const contract = parseContract(formData);
     
     // Check if user exists
     const user = await prisma.user.findUnique({
@@ -185,30 +288,66 @@ export async function createEmployee(formData: FormData) {
     if (existingEmployee) {
       throw new Error("Employee record already exists for this user");
     }
-    
-    // Create employee record
-    const employee = await prisma.employee.create({
-      data: {
-        userId,
-        position,
-        department,
-        joinDate,
-      },
+
+    await assertOrgRefs(departmentId, positionId, managerId);
+    
+    // Create the employee record with its emergency contacts and contract
+    const employee = await prisma.$transaction(async (tx) => {
+      const created = await tx.employee.create({
+        data: {
+          userId,
+          positionId,
+          departmentId,
+          managerId,
+          currency,
+          joinDate,
+          ...contact,
+          ...bank,
+          checklistItems: {
+            create: DEFAULT_CHECKLIST_STEPS.ONBOARDING.map((text, order) => ({
+              kind: "ONBOARDING",
+              text,
+              order,
+            })),
+          },
+        },
+      });
+
+      await recordAudit(tx, { actorId: session.user.id, entityType: "EMPLOYEE", action: "CREATE" }, created);
+      await syncEmergencyContacts(tx, session.user.id, created.id, emergencyContacts);
+      await saveEmploymentContract(tx, session.user.id, created.id, contract);
+      return created;
     });
     
     // Create initial salary record
     const now = new Date();
-    await prisma.salary.create({
-      data: {
-        employeeId: employee.id,
-        month: now.getMonth() + 1, // JavaScript months are 0-based
-        year: now.getFullYear(),
-        baseSalary,
-        bonus: 0,
-        deductions: 0,
-        totalSalary: baseSalary,
-      },
-    });
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY", action: "CREATE" },
+      (tx) =>
+        tx.salary.create({
+          data: {
+            employeeId: employee.id,
+            month: now.getMonth() + 1, // JavaScript months are 0-based
+            year: now.getFullYear(),
+            baseSalary,
+            bonus: 0,
+            deductions: 0,
+            totalSalary: baseSalary,
+            currency,
+            revisions: {
+              create: {
+                revision: 1,
+                baseSalary,
+                bonus: 0,
+                deductions: 0,
+                totalSalary: baseSalary,
+                reason: "Initial salary",
+                createdById: session.user.id,
+              },
+            },
+          },
+        }),
+    );
     
     revalidatePath("/dashboard/employees");
     return { success: true, employeeId: employee.id };
@@ -219,7 +358,8 @@ export async function createEmployee(formData: FormData) {
 }
 
 /**
- * Update an employee
+ * Update an employee. Only the sections of the form the user may edit are accepted,
+ * and sections left out of the submission are not changed.
  */
 export async function updateEmployee(formData: FormData) {
   try {
@@ -228,19 +368,11 @@ export async function updateEmployee(formData: FormData) {
     if (!session?.user) {
       redirect("/login");
     }
-    
-    // Check if user has permission to update employees
-    if (!hasPermission(session.user.role, "employees", "update")) {
-      throw new Error("You don't have permission to update employees");
-    }
 
     const id = formData.get("id") as string;
-    const position = formData.get("position") as string;
-    const department = formData.get("department") as string;
-    
-    // Validate data
-    if (!id || !position || !department) {
-      throw new Error("All fields are required");
+
+    if (!id) {
+      throw new Error("Employee ID is required");
     }
     
     // Check if employee exists
@@ -251,67 +383,81 @@ export async function updateEmployee(formData: FormData) {
     if (!employee) {
       throw new Error("Employee not found");
     }
-    
-    // If the user is an employee (not admin/manager), only allow updating their own details
-    if (
-      session.user.role === ROLES.EMPLOYEE &&
-      employee.userId !== session.user.id
-    ) {
-      throw new Error("You can only update your own employee details");
+
+    // Check which parts of this employee's record the user may edit
+    const editable = await getEditableFieldGroups(session.user, employee);
+
+    if (!editable.length) {
+      throw new Error("You don't have permission to update this employee");
     }
-    
-    // Update employee record
-    await prisma.employee.update({
-      where: { id },
-      data: {
-        position,
-        department,
-      },
-    });
-    
-    revalidatePath(`/dashboard/employees/${id}`);
-    revalidatePath("/dashboard/employees");
-    return { success: true };
-  } catch (error) {
-    console.error("Error updating employee:", error);
-    return { error: error instanceof Error ? error.message : "Failed to update employee" };
-  }
-}
 
-/**
- * Delete an employee
- */
-export async function deleteEmployee(id: string) {
-  try {
-    const session = await getCurrentSession();
-    
-    if (!session?.user) {
-      redirect("/login");
+    assertEditableFields(formData, editable);
+
+    const data: Prisma.EmployeeUncheckedUpdateInput = {};
+
+    if (hasFieldGroup(formData, "job")) {
+      const positionId = formData.get("positionId") as string;
+      const departmentId = formData.get("departmentId") as string;
+      const managerId = (formData.get("managerId") as string) || null;
+      const currency = formData.get("currency") as string | null;
+
+      // Validate data
+      if (!positionId || !departmentId) {
+        throw new Error("All fields are required");
+      }
+
+      if (currency && !isSupportedCurrency(currency)) {
+        throw new Error("Unsupported currency");
+      }
+
+      await assertOrgRefs(departmentId, positionId, managerId);
+
+      if (managerId && (await createsReportingCycle(prisma, id, managerId))) {
+        throw new Error("An employee can't report to themselves or to one of their reports");
+      }
+
+      Object.assign(data, { positionId, departmentId, managerId, ...(currency ? { currency } : {}) });
     }
-    
-    // Check if user has permission to delete employees
-    if (!hasPermission(session.user.role, "employees", "delete")) {
-      throw new Error("You don't have permission to delete employees");
+
+    if (hasFieldGroup(formData, "contact")) {
+      Object.assign(data, parseContactFields(formData));
     }
-    
-    // Check if employee exists
-    const employee = await prisma.employee.findUnique({
-      where: { id },
-    });
-    
-    if (!employee) {
-      throw new Error("Employee not found");
+
+    if (hasFieldGroup(formData, "bank")) {
+      Object.assign(data, parseBankFields(formData, employee));
     }
-    
-    // Delete employee record
-    await prisma.employee.delete({
-      where: { id },
+
+    const emergencyContacts = hasFieldGroup(formData, "emergencyContacts") ? parseEmergencyContacts(formData) : null;
+    const contract = hasFieldGroup(formData, "contract") ? parseContract(formData) : undefined;
+    
+    // Update the employee record, emergency contacts and contract together
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.employee.update({
+        where: { id },
+        data,
+      });
+
+      await recordAudit(
+        tx,
+        { actorId: session.user.id, entityType: "EMPLOYEE", action: "UPDATE", before: employee },
+        updated,
+      );
+
+      if (emergencyContacts) {
+        await syncEmergencyContacts(tx, session.user.id, id, emergencyContacts);
+      }
+
+      if (contract !== undefined) {
+        await saveEmploymentContract(tx, session.user.id, id, contract);
+      }
     });
     
+    revalidatePath(`/dashboard/employees/${id}`);
     revalidatePath("/dashboard/employees");
+    revalidatePath("/dashboard/employees/org-chart");
     return { success: true };
   } catch (error) {
-    console.error("Error deleting employee:", error);
-    return { error: error instanceof Error ? error.message : "Failed to delete employee" };
+    console.error("Error updating employee:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update employee" };
   }
 }
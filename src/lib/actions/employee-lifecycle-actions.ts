@@ -0,0 +1,548 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { LifecycleChecklist, TaskStatus } from "@prisma/client";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { DEFAULT_CHECKLIST_STEPS } from "@/lib/constants/employees";
+import { checkPermission } from "@/lib/permissions";
+import { recordAudit, withAudit } from "@/lib/audit";
+import { recordTaskEvents } from "@/lib/task-events";
+import { redirect } from "next/navigation";
+import type { Session } from "next-auth";
+
+const OPEN_TASK_STATUSES = [TaskStatus.TODO, TaskStatus.IN_PROGRESS, TaskStatus.REVIEW];
+const MAX_ITEM_LENGTH = 500;
+
+// Validate the text of a checklist item
+function parseItemText(text: string) {
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    throw new Error("Checklist item cannot be empty");
+  }
+
+  if (trimmed.length > MAX_ITEM_LENGTH) {
+    throw new Error(`Checklist item cannot be longer than ${MAX_ITEM_LENGTH} characters`);
+  }
+
+  return trimmed;
+}
+
+// Check the user may edit an employee's onboarding and offboarding checklists
+async function assertCanEditChecklist(user: Session["user"]) {
+  if (!(await checkPermission(user, "employees", "update"))) {
+    throw new Error("You don't have permission to edit employee checklists");
+  }
+}
+
+// Pages that show an employee's status, checklists or tasks
+function revalidateEmployeePaths(employeeId: string) {
+  revalidatePath(`/dashboard/employees/${employeeId}`);
+  revalidatePath("/dashboard/employees");
+  revalidatePath("/dashboard/employees/org-chart");
+}
+
+/**
+ * Mark an active employee as on leave, or back from leave
+ */
+export async function setEmploymentStatus(id: string, status: "ACTIVE" | "ON_LEAVE") {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to update employees
+    if (!(await checkPermission(session.user, "employees", "update"))) {
+      throw new Error("You don't have permission to change employment status");
+    }
+
+    if (status !== "ACTIVE" && status !== "ON_LEAVE") {
+      throw new Error("Invalid employment status");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id },
+    });
+
+    if (!employee) {
+      throw new Error("Employee not found");
+    }
+
+    if (employee.status === "TERMINATED") {
+      throw new Error("Reinstate a terminated employee before changing their status");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE", action: "UPDATE", before: employee },
+      (tx) =>
+        tx.employee.update({
+          where: { id },
+          data: { status },
+        }),
+    );
+
+    revalidateEmployeePaths(id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting employment status:", error);
+    return { error: error instanceof Error ? error.message : "Failed to change employment status" };
+  }
+}
+
+/**
+ * Terminate an employee. The record and its salary history are kept; direct reports move up to
+ * the employee's manager and an offboarding checklist is started. Returns how many open tasks
+ * still need reassigning.
+ */
+export async function terminateEmployee(id: string, formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to delete employees
+    if (!(await checkPermission(session.user, "employees", "delete"))) {
+      throw new Error("You don't have permission to terminate employees");
+    }
+
+    const dateValue = formData.get("terminationDate") as string;
+    const reason = ((formData.get("reason") as string) || "").trim();
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateValue || "")) {
+      throw new Error("Termination date is required");
+    }
+
+    if (!reason) {
+      throw new Error("Please give a reason for the termination");
+    }
+
+    const terminationDate = new Date(`${dateValue}T00:00:00.000Z`);
+
+    const employee = await prisma.employee.findUnique({
+      where: { id },
+    });
+
+    if (!employee) {
+      throw new Error("Employee not found");
+    }
+
+    if (employee.status === "TERMINATED") {
+      throw new Error("This employee has already been terminated");
+    }
+
+    if (employee.userId === session.user.id) {
+      throw new Error("You can't terminate your own employment");
+    }
+
+    if (terminationDate < employee.joinDate) {
+      throw new Error("Termination date cannot be before the join date");
+    }
+
+    const actorId = session.user.id;
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.employee.update({
+        where: { id },
+        data: { status: "TERMINATED", terminationDate, terminationReason: reason },
+      });
+      await recordAudit(tx, { actorId, entityType: "EMPLOYEE", action: "UPDATE", before: employee }, updated);
+
+      const reports = await tx.employee.findMany({
+        where: { managerId: id },
+      });
+
+      for (const report of reports) {
+        const moved = await tx.employee.update({
+          where: { id: report.id },
+          data: { managerId: employee.managerId },
+        });
+        await recordAudit(tx, { actorId, entityType: "EMPLOYEE", action: "UPDATE", before: report }, moved);
+      }
+
+      const hasOffboarding = await tx.employeeChecklistItem.count({
+        where: { employeeId: id, kind: "OFFBOARDING" },
+      });
+
+      if (!hasOffboarding) {
+        await tx.employeeChecklistItem.createMany({
+          data: DEFAULT_CHECKLIST_STEPS.OFFBOARDING.map((text, order) => ({
+            employeeId: id,
+            kind: "OFFBOARDING" as const,
+            text,
+            order,
+          })),
+        });
+      }
+    });
+
+    const openTasks = await prisma.task.count({
+      where: { assignedToId: id, status: { in: OPEN_TASK_STATUSES } },
+    });
+
+    revalidateEmployeePaths(id);
+    return { success: true, openTasks };
+  } catch (error) {
+    console.error("Error terminating employee:", error);
+    return { error: error instanceof Error ? error.message : "Failed to terminate employee" };
+  }
+}
+
+/**
+ * Undo a termination, making the employee active again
+ */
+export async function reinstateEmployee(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to delete employees
+    if (!(await checkPermission(session.user, "employees", "delete"))) {
+      throw new Error("You don't have permission to reinstate employees");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id },
+    });
+
+    if (!employee) {
+      throw new Error("Employee not found");
+    }
+
+    if (employee.status !== "TERMINATED") {
+      throw new Error("Only terminated employees can be reinstated");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE", action: "UPDATE", before: employee },
+      (tx) =>
+        tx.employee.update({
+          where: { id },
+          data: { status: "ACTIVE", terminationDate: null, terminationReason: null },
+        }),
+    );
+
+    revalidateEmployeePaths(id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error reinstating employee:", error);
+    return { error: error instanceof Error ? error.message : "Failed to reinstate employee" };
+  }
+}
+
+/**
+ * Get the unfinished tasks still assigned to an employee and the colleagues they can be handed to
+ */
+export async function getOpenTasksForReassignment(employeeId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view tasks");
+    }
+
+    // Check if user has permission to update tasks; only admins and managers reassign them
+    if (!(await checkPermission(session.user, "tasks", "update")) || session.user.role === ROLES.EMPLOYEE) {
+      throw new Error("You don't have permission to reassign tasks");
+    }
+
+    const [tasks, candidates] = await Promise.all([
+      prisma.task.findMany({
+        where: { assignedToId: employeeId, status: { in: OPEN_TASK_STATUSES } },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          dueDate: true,
+          workflowStatus: { select: { name: true } },
+          project: { select: { id: true, name: true } },
+        },
+        orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+      }),
+      prisma.employee.findMany({
+        where: { id: { not: employeeId }, status: { not: "TERMINATED" } },
+        select: {
+          id: true,
+          user: { select: { name: true } },
+          position: { select: { name: true } },
+        },
+        orderBy: { user: { name: "asc" } },
+      }),
+    ]);
+
+    return { tasks, candidates };
+  } catch (error) {
+    console.error("Error getting open tasks:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get open tasks" };
+  }
+}
+
+/**
+ * Hand an employee's open tasks to colleagues; a null assignee leaves the task unassigned
+ */
+export async function reassignOpenTasks(
+  employeeId: string,
+  assignments: Array<{ taskId: string; assignedToId: string | null }>,
+) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to update tasks; only admins and managers reassign them
+    if (!(await checkPermission(session.user, "tasks", "update")) || session.user.role === ROLES.EMPLOYEE) {
+      throw new Error("You don't have permission to reassign tasks");
+    }
+
+    if (!assignments.length) {
+      throw new Error("Choose at least one task to reassign");
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: assignments.map((assignment) => assignment.taskId) }, assignedToId: employeeId },
+    });
+
+    if (tasks.length !== assignments.length) {
+      throw new Error("Some tasks are no longer assigned to this employee");
+    }
+
+    const assigneeIds = [...new Set(assignments.map((assignment) => assignment.assignedToId).filter(Boolean))] as string[];
+    const assignees = await prisma.employee.count({
+      where: { id: { in: assigneeIds, not: employeeId }, status: { not: "TERMINATED" } },
+    });
+
+    if (assignees !== assigneeIds.length) {
+      throw new Error("Tasks can only be reassigned to current employees");
+    }
+
+    const actorId = session.user.id;
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+    await prisma.$transaction(async (tx) => {
+      for (const { taskId, assignedToId } of assignments) {
+        const before = tasksById.get(taskId)!;
+        const updated = await tx.task.update({
+          where: { id: taskId },
+          data: { assignedToId },
+        });
+        await recordTaskEvents(tx, actorId, before, updated);
+        await recordAudit(tx, { actorId, entityType: "TASK", action: "UPDATE", before }, updated);
+      }
+    });
+
+    revalidateEmployeePaths(employeeId);
+    revalidatePath("/dashboard/tasks");
+    return { success: true };
+  } catch (error) {
+    console.error("Error reassigning tasks:", error);
+    return { error: error instanceof Error ? error.message : "Failed to reassign tasks" };
+  }
+}
+
+/**
+ * Get an employee's onboarding and offboarding checklists. Employees can only see their own.
+ */
+export async function getEmployeeChecklists(employeeId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view checklists");
+    }
+
+    // Check if user has permission to read employees
+    if (!(await checkPermission(session.user, "employees", "read"))) {
+      throw new Error("You don't have permission to view checklists");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: employeeId },
+      select: { userId: true },
+    });
+
+    if (!employee) {
+      throw new Error("Employee not found");
+    }
+
+    if (session.user.role === ROLES.EMPLOYEE && employee.userId !== session.user.id) {
+      throw new Error("You can only view your own checklists");
+    }
+
+    const items = await prisma.employeeChecklistItem.findMany({
+      where: { employeeId },
+      include: { completedBy: { select: { name: true } } },
+      orderBy: [{ kind: "asc" }, { order: "asc" }],
+    });
+
+    return { items };
+  } catch (error) {
+    console.error("Error getting employee checklists:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get checklists" };
+  }
+}
+
+/**
+ * Start a checklist from the default steps, for employees created before checklists existed
+ */
+export async function startEmployeeChecklist(employeeId: string, kind: LifecycleChecklist) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    await assertCanEditChecklist(session.user);
+
+    if (!(kind in DEFAULT_CHECKLIST_STEPS)) {
+      throw new Error("Invalid checklist");
+    }
+
+    if (await prisma.employeeChecklistItem.count({ where: { employeeId, kind } })) {
+      throw new Error("This checklist has already been started");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const [order, text] of DEFAULT_CHECKLIST_STEPS[kind].entries()) {
+        const item = await tx.employeeChecklistItem.create({
+          data: { employeeId, kind, text, order },
+        });
+        await recordAudit(tx, { actorId: session.user.id, entityType: "EMPLOYEE_CHECKLIST_ITEM", action: "CREATE" }, item);
+      }
+    });
+
+    revalidatePath(`/dashboard/employees/${employeeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error starting employee checklist:", error);
+    return { error: error instanceof Error ? error.message : "Failed to start checklist" };
+  }
+}
+
+/**
+ * Add a step to the end of an employee's checklist
+ */
+export async function addEmployeeChecklistItem(employeeId: string, kind: LifecycleChecklist, text: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    await assertCanEditChecklist(session.user);
+
+    if (!(kind in DEFAULT_CHECKLIST_STEPS)) {
+      throw new Error("Invalid checklist");
+    }
+
+    const itemText = parseItemText(text);
+    const last = await prisma.employeeChecklistItem.findFirst({
+      where: { employeeId, kind },
+      orderBy: { order: "desc" },
+    });
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE_CHECKLIST_ITEM", action: "CREATE" },
+      (tx) =>
+        tx.employeeChecklistItem.create({
+          data: { employeeId, kind, text: itemText, order: (last?.order ?? -1) + 1 },
+        }),
+    );
+
+    revalidatePath(`/dashboard/employees/${employeeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error adding employee checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to add checklist item" };
+  }
+}
+
+/**
+ * Tick or untick a checklist step, recording who completed it
+ */
+export async function toggleEmployeeChecklistItem(id: string, completed: boolean) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    await assertCanEditChecklist(session.user);
+
+    const item = await prisma.employeeChecklistItem.findUnique({
+      where: { id },
+    });
+
+    if (!item) {
+      throw new Error("Checklist item not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE_CHECKLIST_ITEM", action: "UPDATE", before: item },
+      (tx) =>
+        tx.employeeChecklistItem.update({
+          where: { id },
+          data: completed
+            ? { completed, completedAt: new Date(), completedById: session.user.id }
+            : { completed, completedAt: null, completedById: null },
+        }),
+    );
+
+    revalidatePath(`/dashboard/employees/${item.employeeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating employee checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update checklist item" };
+  }
+}
+
+/**
+ * Remove a step from an employee's checklist
+ */
+export async function deleteEmployeeChecklistItem(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    await assertCanEditChecklist(session.user);
+
+    const item = await prisma.employeeChecklistItem.findUnique({
+      where: { id },
+    });
+
+    if (!item) {
+      throw new Error("Checklist item not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE_CHECKLIST_ITEM", action: "DELETE", before: item },
+      async (tx) => {
+        await tx.employeeChecklistItem.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath(`/dashboard/employees/${item.employeeId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting employee checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete checklist item" };
+  }
+}
@@ -0,0 +1,152 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { BASE_CURRENCY, isSupportedCurrency } from "@/lib/constants/currencies";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+
+/**
+ * Get the exchange-rate table, grouped by currency with the newest rate first
+ */
+export async function getExchangeRates() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view exchange rates");
+    }
+
+    // Check if user has permission to read salaries
+    if (!(await checkPermission(session.user, "salaries", "read"))) {
+      throw new Error("You don't have permission to view exchange rates");
+    }
+
+    const exchangeRates = await prisma.exchangeRate.findMany({
+      orderBy: [{ currency: "asc" }, { effectiveDate: "desc" }],
+    });
+
+    return { exchangeRates };
+  } catch (error) {
+    console.error("Error getting exchange rates:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get exchange rates" };
+  }
+}
+
+/**
+ * Add an exchange rate, effective from the given date
+ */
+export async function createExchangeRate(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can maintain exchange rates
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage exchange rates");
+    }
+
+    const currency = formData.get("currency") as string;
+    const rate = parseFloat(formData.get("rate") as string);
+    const effectiveDateStr = formData.get("effectiveDate") as string;
+
+    // Validate data
+    if (!currency || !effectiveDateStr || isNaN(rate)) {
+      throw new Error("All fields are required");
+    }
+
+    if (!isSupportedCurrency(currency)) {
+      throw new Error("Unsupported currency");
+    }
+
+    if (currency === BASE_CURRENCY) {
+      throw new Error(`${BASE_CURRENCY} is the base currency and always converts at 1`);
+    }
+
+    if (rate <= 0) {
+      throw new Error("Rate must be a positive number");
+    }
+
+    const effectiveDate = new Date(effectiveDateStr);
+
+    if (isNaN(effectiveDate.getTime())) {
+      throw new Error("Effective date is invalid");
+    }
+
+    const existingRate = await prisma.exchangeRate.findUnique({
+      where: { currency_effectiveDate: { currency, effectiveDate } },
+    });
+
+    if (existingRate) {
+      throw new Error("A rate for this currency already exists on that date");
+    }
+
+    const exchangeRate = await withAudit(
+      { actorId: session.user.id, entityType: "EXCHANGE_RATE", action: "CREATE" },
+      (tx) =>
+        tx.exchangeRate.create({
+          data: {
+            currency,
+            rate,
+            effectiveDate,
+          },
+        }),
+    );
+
+    revalidatePath("/admin/exchange-rates");
+    revalidatePath("/dashboard/payroll");
+    return { success: true, exchangeRateId: exchangeRate.id };
+  } catch (error) {
+    console.error("Error creating exchange rate:", error);
+    return { error: error instanceof Error ? error.message : "Failed to create exchange rate" };
+  }
+}
+
+/**
+ * Delete an exchange rate; totals fall back to the previous rate for the currency
+ */
+export async function deleteExchangeRate(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can maintain exchange rates
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage exchange rates");
+    }
+
+    const exchangeRate = await prisma.exchangeRate.findUnique({
+      where: { id },
+    });
+
+    if (!exchangeRate) {
+      throw new Error("Exchange rate not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EXCHANGE_RATE", action: "DELETE", before: exchangeRate },
+      async (tx) => {
+        await tx.exchangeRate.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath("/admin/exchange-rates");
+    revalidatePath("/dashboard/payroll");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete exchange rate" };
+  }
+}
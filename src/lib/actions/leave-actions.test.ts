@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db, tx } = vi.hoisted(() => {
+  const tx = {
+    leaveRequest: { update: vi.fn() },
+    auditLog: { create: vi.fn() },
+  };
+
+  return {
+    getCurrentSession: vi.fn(),
+    tx,
+    db: {
+      role: { findMany: vi.fn() },
+      employee: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+      leaveRequest: { findUnique: vi.fn(), findMany: vi.fn() },
+      department: { findMany: vi.fn() },
+      $transaction: vi.fn((mutate: (client: typeof tx) => unknown) => mutate(tx)),
+    },
+  };
+});
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { getLeaveApprovals, getLeaveCalendar, reviewLeaveRequest } from "@/lib/actions/leave-actions";
+
+const manager = { id: "manager-1", role: "MANAGER" };
+const reportScope = { id: { in: ["emp-report"] } };
+
+const pending = {
+  id: "leave-1",
+  employeeId: "emp-other",
+  type: "ANNUAL",
+  status: "PENDING",
+  startDate: new Date("2026-06-01T00:00:00.000Z"),
+  endDate: new Date("2026-06-02T00:00:00.000Z"),
+  days: 2,
+};
+
+describe("leave approvals for managers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: manager });
+    db.role.findMany.mockResolvedValue([]);
+    // The manager's employee record and their one report
+    db.employee.findUnique.mockResolvedValue({ id: "emp-manager" });
+    db.employee.findMany.mockImplementation(({ where }) =>
+      where.managerId.in.includes("emp-manager") ? [{ id: "emp-report" }] : [],
+    );
+    db.employee.count.mockResolvedValue(0);
+    db.leaveRequest.findUnique.mockResolvedValue(pending);
+    db.leaveRequest.findMany.mockResolvedValue([]);
+    db.department.findMany.mockResolvedValue([]);
+  });
+
+  it("lists only the manager's reports' requests", async () => {
+    await getLeaveApprovals();
+
+    expect(db.leaveRequest.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { OR: [{ status: "PENDING", employee: { AND: [reportScope, { userId: { not: manager.id } }] } }] },
+      }),
+    );
+  });
+
+  it("rejects a manager reviewing someone outside their reports", async () => {
+    await expect(reviewLeaveRequest("leave-1", true)).resolves.toEqual({
+      error: "Only the employee's manager or HR can review this request",
+    });
+    expect(tx.leaveRequest.update).not.toHaveBeenCalled();
+  });
+
+  it("limits the calendar to the manager and their reports", async () => {
+    await getLeaveCalendar(6, 2026);
+
+    expect(db.leaveRequest.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ employee: { OR: [reportScope, { userId: manager.id }] } }),
+      }),
+    );
+  });
+
+  it("doesn't limit admins", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "admin-1", role: "ADMIN" } });
+    tx.leaveRequest.update.mockResolvedValue({ ...pending, status: "APPROVED" });
+
+    await expect(reviewLeaveRequest("leave-1", true)).resolves.toEqual({ success: true });
+    expect(db.employee.count).not.toHaveBeenCalled();
+  });
+});
+
+describe("reviewLeaveRequest routing", () => {
+  // A custom role that may review leave but isn't HR
+  const teamLead = { id: "lead-1", role: "EMPLOYEE", customRole: "TEAM_LEAD" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.role.findMany.mockResolvedValue([
+      { key: "TEAM_LEAD", permissions: [{ resource: "leave", action: "read" }, { resource: "leave", action: "update" }] },
+    ]);
+    db.employee.findUnique.mockResolvedValue({ id: "emp-lead" });
+    db.employee.findMany.mockImplementation(({ where }) =>
+      where.managerId.in.includes("emp-lead") ? [{ id: "emp-report" }] : [],
+    );
+    db.leaveRequest.findUnique.mockResolvedValue(pending);
+    tx.leaveRequest.update.mockResolvedValue({ ...pending, status: "APPROVED" });
+  });
+
+  it("blocks approving your own request, even for HR", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "admin-1", role: "ADMIN" } });
+    db.employee.findUnique.mockResolvedValue({ id: pending.employeeId });
+
+    await expect(reviewLeaveRequest("leave-1", true)).resolves.toEqual({
+      error: "You can't review your own leave request",
+    });
+    expect(tx.leaveRequest.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects a reviewer who isn't the requester's manager or HR", async () => {
+    getCurrentSession.mockResolvedValue({ user: teamLead });
+    db.employee.count.mockResolvedValue(0);
+
+    await expect(reviewLeaveRequest("leave-1", true)).resolves.toEqual({
+      error: "Only the employee's manager or HR can review this request",
+    });
+    expect(db.employee.count).toHaveBeenCalledWith({
+      where: { AND: [{ id: pending.employeeId }, { id: { in: ["emp-report"] } }] },
+    });
+    expect(tx.leaveRequest.update).not.toHaveBeenCalled();
+  });
+
+  it("lets the requester's manager review it", async () => {
+    getCurrentSession.mockResolvedValue({ user: teamLead });
+    db.leaveRequest.findUnique.mockResolvedValue({ ...pending, employeeId: "emp-report" });
+    db.employee.count.mockResolvedValue(1);
+
+    await expect(reviewLeaveRequest("leave-1", true)).resolves.toEqual({ success: true });
+  });
+});
+
+describe("getLeaveCalendar departments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.role.findMany.mockResolvedValue([
+      { key: "TEAM_LEAD", permissions: [{ resource: "leave", action: "read" }, { resource: "leave", action: "update" }] },
+    ]);
+    db.employee.findUnique.mockResolvedValue({ id: "emp-1", departmentId: "dept-own" });
+    db.leaveRequest.findMany.mockResolvedValue([]);
+    db.department.findMany.mockResolvedValue([{ id: "dept-own", name: "Ops" }, { id: "dept-other", name: "Sales" }]);
+  });
+
+  it("keeps an employee to their own department", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE" } });
+
+    const result = await getLeaveCalendar(6, 2026, "dept-other");
+
+    expect(result.departments).toEqual([]);
+    expect(db.leaveRequest.findMany.mock.calls[0][0].where.employee).toEqual({ departmentId: "dept-own" });
+  });
+
+  it("lets a custom role that reviews leave look across departments", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE", customRole: "TEAM_LEAD" } });
+
+    const result = await getLeaveCalendar(6, 2026, "dept-other");
+
+    expect(result.departments).toHaveLength(2);
+    expect(db.leaveRequest.findMany.mock.calls[0][0].where.employee).toEqual({ departmentId: "dept-other" });
+  });
+});
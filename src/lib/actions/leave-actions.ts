@@ -0,0 +1,535 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { LeaveType, Prisma } from "@prisma/client";
+import type { Session } from "next-auth";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ACTIVE_LEAVE_STATUSES, LEAVE_TYPE_LABELS } from "@/lib/constants/leave";
+import { checkPermission } from "@/lib/permissions";
+import { getManagerScope, getReportIds } from "@/lib/org";
+import { withAudit } from "@/lib/audit";
+import { countWorkingDays, getLeaveBalances } from "@/lib/leave";
+import { redirect } from "next/navigation";
+
+const LEAVE_TYPES = Object.keys(LEAVE_TYPE_LABELS) as LeaveType[];
+
+const requestInclude = {
+  employee: {
+    select: {
+      id: true,
+      department: { select: { name: true } },
+      position: { select: { name: true } },
+      joinDate: true,
+      user: {
+        select: {
+          name: true,
+          email: true,
+          image: true,
+        },
+      },
+    },
+  },
+  reviewedBy: {
+    select: {
+      name: true,
+    },
+  },
+  recordedBy: {
+    select: {
+      name: true,
+    },
+  },
+} as const;
+
+// Parse a yyyy-MM-dd form value as a UTC calendar day
+function parseLeaveDate(value: FormDataEntryValue | null, label: string) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`${label} is required`);
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`${label} is invalid`);
+  }
+
+  return date;
+}
+
+// Refresh every page that shows leave or is affected by it
+function revalidateLeave() {
+  revalidatePath("/dashboard/leave");
+  revalidatePath("/dashboard/payroll");
+}
+
+/**
+ * Employees whose requests a user reviews: HR (employees update) reviews anyone's, though managers
+ * stay limited to their reports; other reviewers only their own reports'. Null means everyone.
+ */
+async function getLeaveReviewScope(user: Session["user"]): Promise<Prisma.EmployeeWhereInput | null> {
+  if (await checkPermission(user, "employees", "update")) {
+    return getManagerScope(prisma, user);
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { userId: user.id },
+    select: { id: true },
+  });
+
+  return { id: { in: employee ? await getReportIds(prisma, employee.id) : [] } };
+}
+
+/**
+ * Get the signed-in user's leave requests and balances for a year
+ */
+export async function getMyLeave(year: number) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view leave");
+    }
+
+    // Check if user has permission to read leave
+    if (!(await checkPermission(session.user, "leave", "read"))) {
+      throw new Error("You don't have permission to view leave");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { userId: session.user.id },
+      include: {
+        leaveRequests: {
+          orderBy: { startDate: "desc" },
+          include: {
+            reviewedBy: requestInclude.reviewedBy,
+            recordedBy: requestInclude.recordedBy,
+          },
+        },
+      },
+    });
+
+    if (!employee) {
+      return { employee: null, balances: [], requests: [] };
+    }
+
+    return {
+      employee: { id: employee.id, joinDate: employee.joinDate },
+      balances: getLeaveBalances(employee.joinDate, year, employee.leaveRequests),
+      requests: employee.leaveRequests,
+    };
+  } catch (error) {
+    console.error("Error getting leave:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get leave" };
+  }
+}
+
+/**
+ * Get the requests waiting on the signed-in user: pending requests for managers
+ * (leave update) and approved requests to record for HR (employees update)
+ */
+export async function getLeaveApprovals() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view leave approvals");
+    }
+
+    const [canReview, canRecord] = await Promise.all([
+      checkPermission(session.user, "leave", "update"),
+      checkPermission(session.user, "employees", "update"),
+    ]);
+
+    if (!canReview && !canRecord) {
+      return { canReview, canRecord, pending: [], approved: [] };
+    }
+
+    // Reviewers see the pending requests routed to them, never their own; managers only record their reports' leave
+    const [reviewScope, recordScope] = await Promise.all([
+      canReview ? getLeaveReviewScope(session.user) : null,
+      canRecord ? getManagerScope(prisma, session.user) : null,
+    ]);
+
+    const requests = await prisma.leaveRequest.findMany({
+      where: {
+        OR: [
+          ...(canReview
+            ? [{ status: "PENDING" as const, employee: { AND: [reviewScope ?? {}, { userId: { not: session.user.id } }] } }]
+            : []),
+          ...(canRecord ? [{ status: "APPROVED" as const, ...(recordScope ? { employee: recordScope } : {}) }] : []),
+        ],
+      },
+      include: requestInclude,
+      orderBy: { startDate: "asc" },
+    });
+
+    // Show reviewers what each request would leave in the employee's balance
+    const employeeRequests = await prisma.leaveRequest.findMany({
+      where: {
+        employeeId: { in: [...new Set(requests.map((request) => request.employeeId))] },
+        status: { in: ACTIVE_LEAVE_STATUSES },
+      },
+    });
+
+    const withBalances = requests.map((request) => {
+      const balance = getLeaveBalances(
+        request.employee.joinDate,
+        request.startDate.getUTCFullYear(),
+        employeeRequests.filter(({ employeeId }) => employeeId === request.employeeId),
+      ).find(({ type }) => type === request.type);
+
+      return { ...request, remaining: balance?.remaining ?? null };
+    });
+
+    return {
+      canReview,
+      canRecord,
+      pending: withBalances.filter((request) => request.status === "PENDING"),
+      approved: withBalances.filter((request) => request.status === "APPROVED"),
+    };
+  } catch (error) {
+    console.error("Error getting leave approvals:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get leave approvals" };
+  }
+}
+
+/**
+ * Get leave overlapping a month for the team calendar, optionally for one department id.
+ * Only leave reviewers see other departments.
+ */
+export async function getLeaveCalendar(month: number, year: number, departmentId?: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view the leave calendar");
+    }
+
+    // Check if user has permission to read leave
+    if (!(await checkPermission(session.user, "leave", "read"))) {
+      throw new Error("You don't have permission to view leave");
+    }
+
+    let departmentFilter = departmentId || undefined;
+
+    // Only leave reviewers look across departments; everyone else sees their own
+    const canViewAll = await checkPermission(session.user, "leave", "update");
+
+    if (!canViewAll) {
+      const employee = await prisma.employee.findUnique({
+        where: { userId: session.user.id },
+        select: { departmentId: true },
+      });
+
+      departmentFilter = employee?.departmentId ?? "";
+    }
+
+    // Managers see their own leave and their reports'
+    const scope = await getManagerScope(prisma, session.user);
+
+    const monthStart = new Date(Date.UTC(year, month - 1, 1));
+    const monthEnd = new Date(Date.UTC(year, month, 0));
+
+    const [requests, departments] = await Promise.all([
+      prisma.leaveRequest.findMany({
+        where: {
+          status: { in: ACTIVE_LEAVE_STATUSES },
+          startDate: { lte: monthEnd },
+          endDate: { gte: monthStart },
+          employee: {
+            ...(departmentFilter !== undefined ? { departmentId: departmentFilter } : {}),
+            ...(scope ? { OR: [scope, { userId: session.user.id }] } : {}),
+          },
+        },
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          startDate: true,
+          endDate: true,
+          employee: requestInclude.employee,
+        },
+        orderBy: { startDate: "asc" },
+      }),
+      prisma.department.findMany({
+        where: { employees: { some: {} } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+
+    return {
+      requests,
+      departments: canViewAll ? departments : [],
+    };
+  } catch (error) {
+    console.error("Error getting leave calendar:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get leave calendar" };
+  }
+}
+
+/**
+ * Request leave for the signed-in user. Annual and sick leave must fit in the remaining balance
+ * of every year the request touches.
+ */
+export async function requestLeave(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to request leave
+    if (!(await checkPermission(session.user, "leave", "create"))) {
+      throw new Error("You don't have permission to request leave");
+    }
+
+    const type = formData.get("type") as LeaveType;
+    const startDate = parseLeaveDate(formData.get("startDate"), "Start date");
+    const endDate = parseLeaveDate(formData.get("endDate"), "End date");
+    const reason = ((formData.get("reason") as string) || "").trim();
+
+    // Validate data
+    if (!LEAVE_TYPES.includes(type)) {
+      throw new Error("Choose a leave type");
+    }
+
+    if (endDate < startDate) {
+      throw new Error("End date must be on or after the start date");
+    }
+
+    const days = countWorkingDays(startDate, endDate);
+
+    if (days === 0) {
+      throw new Error("The selected dates don't include any working days");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { userId: session.user.id },
+      include: {
+        leaveRequests: {
+          where: { status: { in: ACTIVE_LEAVE_STATUSES } },
+        },
+      },
+    });
+
+    if (!employee) {
+      throw new Error("Your account isn't linked to an employee record");
+    }
+
+    if (employee.status === "TERMINATED") {
+      throw new Error("Your employment has ended");
+    }
+
+    if (
+      employee.leaveRequests.some(
+        (request) => request.startDate <= endDate && request.endDate >= startDate,
+      )
+    ) {
+      throw new Error("You already have leave booked on some of these dates");
+    }
+
+    // Check the balance of each year the request spans, counting pending requests too
+    const requested = { type, status: "PENDING" as const, startDate, endDate };
+
+    for (let year = startDate.getUTCFullYear(); year <= endDate.getUTCFullYear(); year++) {
+      const findBalance = (requests: Parameters<typeof getLeaveBalances>[2]) =>
+        getLeaveBalances(employee.joinDate, year, requests).find((entry) => entry.type === type);
+      const after = findBalance([...employee.leaveRequests, requested]);
+
+      if (after?.remaining != null && after.remaining < 0) {
+        const available = findBalance(employee.leaveRequests)?.remaining ?? 0;
+
+        throw new Error(
+          `Not enough ${LEAVE_TYPE_LABELS[type].toLowerCase()} left in ${year} (${Math.max(0, available)} days available)`,
+        );
+      }
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "LEAVE_REQUEST", action: "CREATE" },
+      (tx) =>
+        tx.leaveRequest.create({
+          data: {
+            employeeId: employee.id,
+            type,
+            startDate,
+            endDate,
+            days,
+            reason: reason || null,
+          },
+        }),
+    );
+
+    revalidateLeave();
+    return { success: true };
+  } catch (error) {
+    console.error("Error requesting leave:", error);
+    return { error: error instanceof Error ? error.message : "Failed to request leave" };
+  }
+}
+
+/**
+ * Withdraw one of the signed-in user's own requests. Recorded leave can no longer be cancelled.
+ */
+export async function cancelLeaveRequest(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const [request, employee] = await Promise.all([
+      prisma.leaveRequest.findUnique({ where: { id } }),
+      prisma.employee.findUnique({ where: { userId: session.user.id }, select: { id: true } }),
+    ]);
+
+    if (!request) {
+      throw new Error("Leave request not found");
+    }
+
+    if (request.employeeId !== employee?.id) {
+      throw new Error("You can only cancel your own leave requests");
+    }
+
+    if (request.status !== "PENDING" && request.status !== "APPROVED") {
+      throw new Error("Only pending or approved requests can be cancelled");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "LEAVE_REQUEST", action: "UPDATE", before: request },
+      (tx) =>
+        tx.leaveRequest.update({
+          where: { id },
+          data: { status: "CANCELLED" },
+        }),
+    );
+
+    revalidateLeave();
+    return { success: true };
+  } catch (error) {
+    console.error("Error cancelling leave request:", error);
+    return { error: error instanceof Error ? error.message : "Failed to cancel leave request" };
+  }
+}
+
+/**
+ * Approve or reject a pending request. Only the requester's manager or HR may review it,
+ * and never the requester themselves.
+ */
+export async function reviewLeaveRequest(id: string, approve: boolean, note?: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to approve leave
+    if (!(await checkPermission(session.user, "leave", "update"))) {
+      throw new Error("You don't have permission to review leave requests");
+    }
+
+    const [request, employee] = await Promise.all([
+      prisma.leaveRequest.findUnique({ where: { id } }),
+      prisma.employee.findUnique({ where: { userId: session.user.id }, select: { id: true } }),
+    ]);
+
+    if (!request) {
+      throw new Error("Leave request not found");
+    }
+
+    if (request.status !== "PENDING") {
+      throw new Error("This request has already been reviewed");
+    }
+
+    if (request.employeeId === employee?.id) {
+      throw new Error("You can't review your own leave request");
+    }
+
+    // Requests go to the requester's manager, or to HR
+    const scope = await getLeaveReviewScope(session.user);
+
+    if (scope && !(await prisma.employee.count({ where: { AND: [{ id: request.employeeId }, scope] } }))) {
+      throw new Error("Only the employee's manager or HR can review this request");
+    }
+
+    const reviewNote = note?.trim() || null;
+
+    if (!approve && !reviewNote) {
+      throw new Error("Give a reason for rejecting the request");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "LEAVE_REQUEST", action: "UPDATE", before: request },
+      (tx) =>
+        tx.leaveRequest.update({
+          where: { id },
+          data: {
+            status: approve ? "APPROVED" : "REJECTED",
+            reviewedAt: new Date(),
+            reviewedById: session.user.id,
+            reviewNote,
+          },
+        }),
+    );
+
+    revalidateLeave();
+    return { success: true };
+  } catch (error) {
+    console.error("Error reviewing leave request:", error);
+    return { error: error instanceof Error ? error.message : "Failed to review leave request" };
+  }
+}
+
+/**
+ * Record approved leave on the employee's HR file, closing the request
+ */
+export async function recordLeaveRequest(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Recording is an HR task on the employee's file
+    if (!(await checkPermission(session.user, "employees", "update"))) {
+      throw new Error("You don't have permission to record leave");
+    }
+
+    const request = await prisma.leaveRequest.findUnique({
+      where: { id },
+    });
+
+    if (!request) {
+      throw new Error("Leave request not found");
+    }
+
+    if (request.status !== "APPROVED") {
+      throw new Error("Only approved requests can be recorded");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "LEAVE_REQUEST", action: "UPDATE", before: request },
+      (tx) =>
+        tx.leaveRequest.update({
+          where: { id },
+          data: {
+            status: "RECORDED",
+            recordedAt: new Date(),
+            recordedById: session.user.id,
+          },
+        }),
+    );
+
+    revalidateLeave();
+    return { success: true };
+  } catch (error) {
+    console.error("Error recording leave request:", error);
+    return { error: error instanceof Error ? error.message : "Failed to record leave request" };
+  }
+}
@@ -0,0 +1,468 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { createsReportingCycle, getReportIds, isOrgNameTaken, normalizeOrgName } from "@/lib/org";
+import { redirect } from "next/navigation";
+
+// Pages that show department and position names
+function revalidateOrgPaths() {
+  revalidatePath("/admin/org-structure");
+  revalidatePath("/dashboard/employees");
+  revalidatePath("/dashboard/employees/org-chart");
+}
+
+/**
+ * Get departments and positions with how many employees hold each
+ */
+export async function getOrgStructure() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view departments and positions");
+    }
+
+    // Check if user has permission to read employees
+    if (!(await checkPermission(session.user, "employees", "read"))) {
+      throw new Error("You don't have permission to view departments and positions");
+    }
+
+    const [departments, positions] = await Promise.all([
+      prisma.department.findMany({
+        include: { _count: { select: { employees: true } } },
+        orderBy: { name: "asc" },
+      }),
+      prisma.position.findMany({
+        include: { _count: { select: { employees: true } } },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+
+    return { departments, positions };
+  } catch (error) {
+    console.error("Error getting org structure:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get departments and positions" };
+  }
+}
+
+/**
+ * Get the choices for the employee form. Managers exclude the employee being edited and their reports.
+ */
+export async function getOrgOptions(employeeId?: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view employees");
+    }
+
+    // Check if user has permission to read employees
+    if (!(await checkPermission(session.user, "employees", "read"))) {
+      throw new Error("You don't have permission to view employees");
+    }
+
+    const excludedIds = employeeId ? [employeeId, ...(await getReportIds(prisma, employeeId))] : [];
+
+    const [departments, positions, managers] = await Promise.all([
+      prisma.department.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } }),
+      prisma.position.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } }),
+      prisma.employee.findMany({
+        where: { id: { notIn: excludedIds }, status: { not: "TERMINATED" } },
+        select: {
+          id: true,
+          user: { select: { name: true } },
+          position: { select: { name: true } },
+        },
+        orderBy: { user: { name: "asc" } },
+      }),
+    ]);
+
+    return { departments, positions, managers };
+  } catch (error) {
+    console.error("Error getting org options:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get employee form options" };
+  }
+}
+
+/**
+ * Create a department
+ */
+export async function createDepartment(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure departments
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage departments");
+    }
+
+    const name = normalizeOrgName((formData.get("name") as string) || "");
+    const description = ((formData.get("description") as string) || "").trim() || null;
+
+    if (!name) {
+      throw new Error("Name is required");
+    }
+
+    const existing = await prisma.department.findMany({ select: { id: true, name: true } });
+
+    if (isOrgNameTaken(existing, name)) {
+      throw new Error("A department with this name already exists");
+    }
+
+    const department = await withAudit(
+      { actorId: session.user.id, entityType: "DEPARTMENT", action: "CREATE" },
+      (tx) => tx.department.create({ data: { name, description } }),
+    );
+
+    revalidateOrgPaths();
+    return { success: true, departmentId: department.id };
+  } catch (error) {
+    console.error("Error creating department:", error);
+    return { error: error instanceof Error ? error.message : "Failed to create department" };
+  }
+}
+
+/**
+ * Rename a department or change its description
+ */
+export async function updateDepartment(id: string, formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure departments
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage departments");
+    }
+
+    const name = normalizeOrgName((formData.get("name") as string) || "");
+    const description = ((formData.get("description") as string) || "").trim() || null;
+
+    if (!name) {
+      throw new Error("Name is required");
+    }
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+    });
+
+    if (!department) {
+      throw new Error("Department not found");
+    }
+
+    const existing = await prisma.department.findMany({ select: { id: true, name: true } });
+
+    if (isOrgNameTaken(existing, name, id)) {
+      throw new Error("A department with this name already exists");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "DEPARTMENT", action: "UPDATE", before: department },
+      (tx) => tx.department.update({ where: { id }, data: { name, description } }),
+    );
+
+    revalidateOrgPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating department:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update department" };
+  }
+}
+
+/**
+ * Delete a department that no employee belongs to
+ */
+export async function deleteDepartment(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure departments
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage departments");
+    }
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+    });
+
+    if (!department) {
+      throw new Error("Department not found");
+    }
+
+    if (await prisma.employee.count({ where: { departmentId: id } })) {
+      throw new Error("Move this department's employees to another department before deleting it");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "DEPARTMENT", action: "DELETE", before: department },
+      async (tx) => {
+        await tx.department.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidateOrgPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting department:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete department" };
+  }
+}
+
+/**
+ * Create a position
+ */
+export async function createPosition(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure positions
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage positions");
+    }
+
+    const name = normalizeOrgName((formData.get("name") as string) || "");
+
+    if (!name) {
+      throw new Error("Name is required");
+    }
+
+    const existing = await prisma.position.findMany({ select: { id: true, name: true } });
+
+    if (isOrgNameTaken(existing, name)) {
+      throw new Error("A position with this name already exists");
+    }
+
+    const position = await withAudit(
+      { actorId: session.user.id, entityType: "POSITION", action: "CREATE" },
+      (tx) => tx.position.create({ data: { name } }),
+    );
+
+    revalidateOrgPaths();
+    return { success: true, positionId: position.id };
+  } catch (error) {
+    console.error("Error creating position:", error);
+    return { error: error instanceof Error ? error.message : "Failed to create position" };
+  }
+}
+
+/**
+ * Rename a position
+ */
+export async function updatePosition(id: string, formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure positions
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage positions");
+    }
+
+    const name = normalizeOrgName((formData.get("name") as string) || "");
+
+    if (!name) {
+      throw new Error("Name is required");
+    }
+
+    const position = await prisma.position.findUnique({
+      where: { id },
+    });
+
+    if (!position) {
+      throw new Error("Position not found");
+    }
+
+    const existing = await prisma.position.findMany({ select: { id: true, name: true } });
+
+    if (isOrgNameTaken(existing, name, id)) {
+      throw new Error("A position with this name already exists");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "POSITION", action: "UPDATE", before: position },
+      (tx) => tx.position.update({ where: { id }, data: { name } }),
+    );
+
+    revalidateOrgPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating position:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update position" };
+  }
+}
+
+/**
+ * Delete a position that no employee holds
+ */
+export async function deletePosition(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure positions
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage positions");
+    }
+
+    const position = await prisma.position.findUnique({
+      where: { id },
+    });
+
+    if (!position) {
+      throw new Error("Position not found");
+    }
+
+    if (await prisma.employee.count({ where: { positionId: id } })) {
+      throw new Error("Move the employees in this position to another position before deleting it");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "POSITION", action: "DELETE", before: position },
+      async (tx) => {
+        await tx.position.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidateOrgPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting position:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete position" };
+  }
+}
+
+/**
+ * Get every current employee with who they report to, for drawing the org chart
+ */
+export async function getOrgChart() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view the org chart");
+    }
+
+    // Check if user has permission to read employees
+    if (!(await checkPermission(session.user, "employees", "read"))) {
+      throw new Error("You don't have permission to view the org chart");
+    }
+
+    const employees = await prisma.employee.findMany({
+      where: { status: { not: "TERMINATED" } },
+      select: {
+        id: true,
+        managerId: true,
+        user: {
+          select: {
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        department: { select: { name: true } },
+        position: { select: { name: true } },
+      },
+      orderBy: { user: { name: "asc" } },
+    });
+
+    return { employees };
+  } catch (error) {
+    console.error("Error getting org chart:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get org chart" };
+  }
+}
+
+/**
+ * Change who an employee reports to; null makes them a top-level employee
+ */
+export async function setEmployeeManager(employeeId: string, managerId: string | null) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to update employees
+    if (!(await checkPermission(session.user, "employees", "update"))) {
+      throw new Error("You don't have permission to change reporting lines");
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new Error("Employee not found");
+    }
+
+    if (employee.managerId === managerId) {
+      return { success: true };
+    }
+
+    if (managerId) {
+      const manager = await prisma.employee.findUnique({ where: { id: managerId } });
+
+      if (!manager) {
+        throw new Error("Manager not found");
+      }
+
+      if (manager.status === "TERMINATED") {
+        throw new Error("Employees can't report to a terminated employee");
+      }
+
+      if (await createsReportingCycle(prisma, employeeId, managerId)) {
+        throw new Error("An employee can't report to themselves or to one of their reports");
+      }
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "EMPLOYEE", action: "UPDATE", before: employee },
+      (tx) =>
+        tx.employee.update({
+          where: { id: employeeId },
+          data: { managerId },
+        }),
+    );
+
+    revalidatePath(`/dashboard/employees/${employeeId}`);
+    revalidatePath("/dashboard/employees");
+    revalidatePath("/dashboard/employees/org-chart");
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting employee manager:", error);
+    return { error: error instanceof Error ? error.message : "Failed to change manager" };
+  }
+}
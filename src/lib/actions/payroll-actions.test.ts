@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db, tx } = vi.hoisted(() => {
+  const tx = {
+    salary: { findMany: vi.fn(), create: vi.fn() },
+    auditLog: { create: vi.fn() },
+  };
+
+  return {
+    getCurrentSession: vi.fn(),
+    tx,
+    db: {
+      role: { findMany: vi.fn() },
+      employee: { findMany: vi.fn() },
+      salary: { findMany: vi.fn() },
+      exchangeRate: { findMany: vi.fn() },
+      leaveRequest: { findMany: vi.fn() },
+      timesheet: { findMany: vi.fn() },
+      $transaction: vi.fn((mutate: (client: typeof tx) => unknown) => mutate(tx)),
+    },
+  };
+});
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { getPayrollPreview, runPayroll } from "@/lib/actions/payroll-actions";
+
+// Paid in EUR until their currency was changed to GBP
+const employee = {
+  id: "emp-1",
+  currency: "GBP",
+  user: { name: "Noor", email: "noor@example.com" },
+  department: { name: "Sales" },
+  position: { name: "Rep" },
+  salaries: [{ baseSalary: 5000, currency: "EUR", month: 4, year: 2026 }],
+};
+
+describe("payroll after a currency change", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: { id: "admin-1", role: "ADMIN" } });
+    db.role.findMany.mockResolvedValue([]);
+    db.employee.findMany.mockResolvedValue([employee]);
+    db.salary.findMany.mockResolvedValue([]);
+    db.exchangeRate.findMany.mockResolvedValue([]);
+    // Two days of unpaid leave in the month
+    db.leaveRequest.findMany.mockResolvedValue([
+      { employeeId: "emp-1", startDate: new Date("2026-05-04T00:00:00.000Z"), endDate: new Date("2026-05-05T00:00:00.000Z") },
+    ]);
+    db.timesheet.findMany.mockResolvedValue([{ employeeId: "emp-1", overtimeHours: 4 }]);
+    tx.salary.findMany.mockResolvedValue([]);
+  });
+
+  it("flags the row instead of showing the old amount in the new currency", async () => {
+    const result = await getPayrollPreview(5, 2026);
+
+    expect(result.entries).toEqual([
+      expect.objectContaining({
+        currency: "GBP",
+        previousCurrency: "EUR",
+        baseSalary: 0,
+        unpaidLeave: null,
+        overtime: null,
+      }),
+    ]);
+  });
+
+  it("keeps the latest salary when its currency matches", async () => {
+    db.employee.findMany.mockResolvedValue([{ ...employee, currency: "EUR" }]);
+
+    const result = await getPayrollPreview(5, 2026);
+
+    expect(result.entries?.[0]).toMatchObject({ previousCurrency: null, baseSalary: 5000 });
+    expect(result.entries?.[0].unpaidLeave?.amount).toBeGreaterThan(0);
+  });
+
+  it("refuses to pay the employee until a salary in their currency is recorded", async () => {
+    await expect(
+      runPayroll(5, 2026, [{ employeeId: "emp-1", bonus: 0, deductions: 0, includeOvertime: true }]),
+    ).resolves.toEqual({ error: "Noor's last salary is in EUR; record one in GBP before paying them" });
+    expect(tx.salary.create).not.toHaveBeenCalled();
+  });
+});
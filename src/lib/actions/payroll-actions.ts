@@ -0,0 +1,266 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { checkPermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { SalaryItemInput, summarizeSalaryItems } from "@/lib/salary";
+import { findExchangeRate, getPeriodEnd, loadExchangeRates } from "@/lib/currency";
+import { buildUnpaidLeaveItem, loadUnpaidLeaveDays } from "@/lib/leave";
+import { buildOvertimeItem, loadApprovedOvertime } from "@/lib/timesheets";
+import { redirect } from "next/navigation";
+
+/**
+ * A manager's inline adjustments for one employee in a payroll run
+ */
+export interface PayrollAdjustment {
+  employeeId: string;
+  bonus: number;
+  deductions: number;
+  // Pay the employee's approved overtime for the month as a bonus line
+  includeOvertime: boolean;
+}
+
+// Validate the month/year pair shared by preview and commit
+function assertPayrollPeriod(month: number, year: number) {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error("Month must be between 1 and 12");
+  }
+
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    throw new Error("Year is out of valid range");
+  }
+}
+
+/**
+ * Load every employee still employed at the start of the month with their current base salary (from their latest salary record),
+ * the exchange rate for their currency, their unpaid leave deduction and approved overtime
+ * for the month and whether a record for the chosen month already exists
+ */
+async function getPayrollEmployees(month: number, year: number) {
+  const periodEnd = getPeriodEnd(month, year);
+  const monthStart = new Date(Date.UTC(year, month - 1, 1));
+  const [employees, existingSalaries, exchangeRates, unpaidLeaveDays, overtimeHours] = await Promise.all([
+    prisma.employee.findMany({
+      where: {
+        OR: [{ status: { not: "TERMINATED" } }, { terminationDate: { gte: monthStart } }],
+      },
+      include: {
+        user: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+        department: { select: { name: true } },
+        position: { select: { name: true } },
+        salaries: {
+          orderBy: [
+            { year: "desc" },
+            { month: "desc" },
+          ],
+          take: 1,
+        },
+      },
+      orderBy: [
+        { department: { name: "asc" } },
+        { user: { name: "asc" } },
+      ],
+    }),
+    prisma.salary.findMany({
+      where: { month, year },
+    }),
+    loadExchangeRates(),
+    loadUnpaidLeaveDays(prisma, month, year),
+    loadApprovedOvertime(prisma, month, year),
+  ]);
+
+  const existingByEmployee = new Map(existingSalaries.map((salary) => [salary.employeeId, salary]));
+
+  return employees.map((employee) => {
+    const existing = existingByEmployee.get(employee.id);
+    const latest = employee.salaries[0];
+    // A salary recorded before the employee's currency changed can't be paid in the new one
+    const previousCurrency = latest && latest.currency !== employee.currency ? latest.currency : null;
+    const baseSalary = previousCurrency ? 0 : latest?.baseSalary ?? 0;
+
+    return {
+      employeeId: employee.id,
+      name: employee.user.name,
+      email: employee.user.email,
+      department: employee.department.name,
+      position: employee.position.name,
+      currency: employee.currency,
+      // Value of one unit of the employee's currency in the base currency, null if no rate is set
+      exchangeRate: findExchangeRate(exchangeRates, employee.currency, periodEnd),
+      baseSalary,
+      hasSalaryHistory: employee.salaries.length > 0,
+      // Set when the latest salary is in another currency; the employee is skipped until one in their currency is recorded
+      previousCurrency,
+      // Approved unpaid leave in the month, deducted automatically
+      unpaidLeave: buildUnpaidLeaveItem(baseSalary, unpaidLeaveDays.get(employee.id) ?? 0, month, year),
+      // Overtime from approved timesheets, paid only if the manager includes it
+      overtime: buildOvertimeItem(baseSalary, overtimeHours.get(employee.id) ?? 0, month, year),
+      existingSalary: existing
+        ? {
+            id: existing.id,
+            status: existing.status,
+            totalSalary: existing.totalSalary,
+            currency: existing.currency,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Preview a payroll run for a month: one line per employee plus existing-record conflicts
+ */
+export async function getPayrollPreview(month: number, year: number) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to run payroll");
+    }
+
+    // Check if user has permission to create salaries
+    if (!(await checkPermission(session.user, "salaries", "create"))) {
+      throw new Error("You don't have permission to run payroll");
+    }
+
+    assertPayrollPeriod(month, year);
+
+    const entries = await getPayrollEmployees(month, year);
+
+    return { entries };
+  } catch (error) {
+    console.error("Error previewing payroll:", error);
+    return { error: error instanceof Error ? error.message : "Failed to preview payroll" };
+  }
+}
+
+/**
+ * Create salary records for a month in one transaction. If any employee already has a
+ * record for the month, nothing is written and the conflicts are reported back.
+ */
+export async function runPayroll(month: number, year: number, adjustments: PayrollAdjustment[]) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to create salaries
+    if (!(await checkPermission(session.user, "salaries", "create"))) {
+      throw new Error("You don't have permission to run payroll");
+    }
+
+    assertPayrollPeriod(month, year);
+
+    // Validate data
+    if (adjustments.length === 0) {
+      throw new Error("Select at least one employee to pay");
+    }
+
+    for (const { bonus, deductions } of adjustments) {
+      if (!Number.isFinite(bonus) || bonus < 0 || !Number.isFinite(deductions) || deductions < 0) {
+        throw new Error("Bonuses and deductions must be non-negative numbers");
+      }
+    }
+
+    // Base salaries come from the server, never from the client
+    const employees = new Map(
+      (await getPayrollEmployees(month, year)).map((entry) => [entry.employeeId, entry]),
+    );
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        // Re-check inside the transaction so a record saved since the preview is caught
+        const conflicts = await tx.salary.findMany({
+          where: {
+            month,
+            year,
+            employeeId: { in: adjustments.map((adjustment) => adjustment.employeeId) },
+          },
+          select: { employeeId: true },
+        });
+
+        if (conflicts.length > 0) {
+          return {
+            created: 0,
+            conflicts: conflicts.map(({ employeeId }) => employees.get(employeeId)?.name || employeeId),
+          };
+        }
+
+        for (const { employeeId, bonus, deductions, includeOvertime } of adjustments) {
+          const employee = employees.get(employeeId);
+
+          if (!employee) {
+            throw new Error("Employee not found");
+          }
+
+          if (employee.previousCurrency) {
+            throw new Error(
+              `${employee.name}'s last salary is in ${employee.previousCurrency}; record one in ${employee.currency} before paying them`,
+            );
+          }
+
+          // Inline adjustments become one bonus line and one deduction line, plus any overtime and unpaid leave
+          const lines: SalaryItemInput[] = [
+            { kind: "BONUS", label: "Bonus", amount: bonus, taxable: false },
+            { kind: "DEDUCTION", label: "Deductions", amount: deductions, taxable: false },
+            ...(includeOvertime && employee.overtime ? [employee.overtime] : []),
+            ...(employee.unpaidLeave ? [employee.unpaidLeave] : []),
+          ];
+          const items = lines.filter((item) => item.amount > 0);
+          const figures = summarizeSalaryItems(employee.baseSalary, items);
+
+          const salary = await tx.salary.create({
+            data: {
+              employeeId,
+              month,
+              year,
+              ...figures,
+              currency: employee.currency,
+              items: {
+                create: items,
+              },
+              revisions: {
+                create: {
+                  revision: 1,
+                  ...figures,
+                  items: JSON.stringify(items),
+                  reason: "Payroll run",
+                  createdById: session.user.id,
+                },
+              },
+            },
+          });
+
+          await recordAudit(tx, { actorId: session.user.id, entityType: "SALARY", action: "CREATE" }, salary);
+        }
+
+        return { created: adjustments.length, conflicts: [] as string[] };
+      },
+      // Large headcounts can exceed the default 5s interactive transaction timeout
+      { timeout: 30000 },
+    );
+
+    if (result.conflicts.length > 0) {
+      return {
+        error: "Some employees already have a salary record for this month",
+        conflicts: result.conflicts,
+      };
+    }
+
+    revalidatePath("/dashboard/payroll");
+    revalidatePath("/dashboard/employees");
+    return { success: true, created: result.created };
+  } catch (error) {
+    console.error("Error running payroll:", error);
+    return { error: error instanceof Error ? error.message : "Failed to run payroll" };
+  }
+}
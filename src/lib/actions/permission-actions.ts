@@ -0,0 +1,238 @@
+'use server';
+
+import { revalidatePath, revalidateTag } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { Action, ACTIONS, Resource, RESOURCES, ROLES } from "@/lib/constants/roles";
+import { PERMISSIONS_CACHE_TAG } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+
+/**
+ * Get all roles with their permission matrix
+ */
+export async function getRoles() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view roles");
+    }
+
+    // Only admins can manage the permission matrix
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can view role permissions");
+    }
+
+    const roles = await prisma.role.findMany({
+      orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+      include: {
+        permissions: {
+          select: {
+            resource: true,
+            action: true,
+          },
+        },
+        _count: {
+          select: {
+            users: true,
+          },
+        },
+      },
+    });
+
+    return { roles };
+  } catch (error) {
+    console.error("Error getting roles:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get roles" };
+  }
+}
+
+/**
+ * Grant or revoke a single permission on a role
+ */
+export async function setRolePermission(roleId: string, resource: Resource, action: Action, granted: boolean) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can manage the permission matrix
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can change role permissions");
+    }
+
+    // Validate data
+    if (!RESOURCES.includes(resource) || !ACTIONS.includes(action)) {
+      throw new Error("Invalid resource or action");
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+    });
+
+    if (!role) {
+      throw new Error("Role not found");
+    }
+
+    // Editing the admin role could lock every administrator out of this screen
+    if (role.key === ROLES.ADMIN) {
+      throw new Error("Administrator permissions cannot be changed");
+    }
+
+    const permissionKey = `${resource}:${action}`;
+    const existingPermission = await prisma.rolePermission.findUnique({
+      where: {
+        roleId_resource_action: { roleId, resource, action },
+      },
+    });
+
+    // Audited as a single toggled field on the role, e.g. { "salaries:update": { from: false, to: true } }
+    await withAudit(
+      {
+        actorId: session.user.id,
+        entityType: "ROLE",
+        action: "UPDATE",
+        before: { id: roleId, [permissionKey]: !!existingPermission },
+      },
+      async (tx) => {
+        if (granted) {
+          await tx.rolePermission.upsert({
+            where: {
+              roleId_resource_action: { roleId, resource, action },
+            },
+            update: {},
+            create: { roleId, resource, action },
+          });
+        } else {
+          await tx.rolePermission.deleteMany({
+            where: { roleId, resource, action },
+          });
+        }
+
+        return { id: roleId, [permissionKey]: granted };
+      },
+    );
+
+    revalidateTag(PERMISSIONS_CACHE_TAG);
+    revalidatePath("/admin/permissions");
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating role permission:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update role permission" };
+  }
+}
+
+/**
+ * Create a custom role with an empty permission matrix
+ */
+export async function createCustomRole(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can manage the permission matrix
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can create roles");
+    }
+
+    const name = ((formData.get("name") as string) || "").trim();
+    const description = ((formData.get("description") as string) || "").trim();
+
+    // Validate data
+    if (!name) {
+      throw new Error("Role name is required");
+    }
+
+    // "Payroll Officer" -> "PAYROLL_OFFICER"
+    const key = name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+
+    if (!key || key in ROLES) {
+      throw new Error("Role name is invalid or reserved");
+    }
+
+    const existingRole = await prisma.role.findUnique({
+      where: { key },
+    });
+
+    if (existingRole) {
+      throw new Error("A role with this name already exists");
+    }
+
+    const role = await withAudit(
+      { actorId: session.user.id, entityType: "ROLE", action: "CREATE" },
+      (tx) =>
+        tx.role.create({
+          data: {
+            key,
+            name,
+            description: description || null,
+          },
+        }),
+    );
+
+    revalidateTag(PERMISSIONS_CACHE_TAG);
+    revalidatePath("/admin/permissions");
+    revalidatePath("/admin/user-roles");
+    return { success: true, roleId: role.id };
+  } catch (error) {
+    console.error("Error creating role:", error);
+    return { error: error instanceof Error ? error.message : "Failed to create role" };
+  }
+}
+
+/**
+ * Delete a custom role; users holding it fall back to their system role
+ */
+export async function deleteCustomRole(roleId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can manage the permission matrix
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can delete roles");
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
+    });
+
+    if (!role) {
+      throw new Error("Role not found");
+    }
+
+    if (role.isSystem) {
+      throw new Error("System roles cannot be deleted");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "ROLE", action: "DELETE", before: role },
+      async (tx) => {
+        await tx.role.delete({
+          where: { id: roleId },
+        });
+        return null;
+      },
+    );
+
+    revalidateTag(PERMISSIONS_CACHE_TAG);
+    revalidatePath("/admin/permissions");
+    revalidatePath("/admin/user-roles");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete role" };
+  }
+}
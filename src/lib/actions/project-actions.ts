@@ -3,7 +3,10 @@
 import { revalidatePath } from "next/cache";
 import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { hasPermission } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { createDefaultWorkflow } from "@/lib/workflows";
+import { getTaskProgress } from "@/lib/tasks";
 import { redirect } from "next/navigation";
 
 /**
@@ -32,7 +35,7 @@ export async function getProjects({
     }
     
     // Check if user has permission to read projects
-    if (!hasPermission(session.user.role, "projects", "read")) {
+    if (!(await checkPermission(session.user, "projects", "read"))) {
       throw new Error("You don't have permission to view projects");
     }
     
@@ -120,7 +123,7 @@ export async function getProjectById(id: string) {
     }
     
     // Check if user has permission to read projects
-    if (!hasPermission(session.user.role, "projects", "read")) {
+    if (!(await checkPermission(session.user, "projects", "read"))) {
       throw new Error("You don't have permission to view project details");
     }
     
@@ -128,7 +131,14 @@ export async function getProjectById(id: string) {
       where: { id },
       include: {
         tasks: {
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
           include: {
+            workflowStatus: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
             assignedTo: {
               include: {
                 user: {
@@ -141,6 +151,21 @@ export async function getProjectById(id: string) {
                 },
               },
             },
+            _count: {
+              select: {
+                comments: true,
+                // Only unfinished blockers hold a task up
+                blockedBy: { where: { blocker: { status: { not: 'DONE' } } } },
+              },
+            },
+          },
+        },
+        workflowStatuses: {
+          orderBy: { order: 'asc' },
+          include: {
+            nextStatuses: {
+              select: { id: true },
+            },
           },
         },
       },
@@ -150,12 +175,8 @@ export async function getProjectById(id: string) {
       throw new Error("Project not found");
     }
     
-    // Calculate project progress
-    const totalTasks = project.tasks.length;
-    const completedTasks = project.tasks.filter(task => task.status === 'DONE').length;
-    const progress = totalTasks > 0 
-      ? Math.round((completedTasks / totalTasks) * 100) 
-      : 0;
+    // Calculate project progress; task status is the category of its workflow status
+    const { totalTasks, completedTasks, progress } = getTaskProgress(project.tasks);
     
     return { 
       project: {
@@ -183,7 +204,7 @@ export async function createProject(formData: FormData) : Promise<{ success: boo
     }
     
     // Check if user has permission to create projects
-    if (!hasPermission(session.user.role, "projects", "create")) {
+    if (!(await checkPermission(session.user, "projects", "create"))) {
       throw new Error("You don't have permission to create projects");
     }
 
@@ -202,15 +223,22 @@ export async function createProject(formData: FormData) : Promise<{ success: boo
     const endDate = endDateStr ? new Date(endDateStr) : null;
     
     // Create project
-    const project = await prisma.project.create({
-      data: {
-        name,
-        description,
-        status: status as any,
-        startDate,
-        endDate,
+    const project = await withAudit(
+      { actorId: session.user.id, entityType: "PROJECT", action: "CREATE" },
+      async (tx) => {
+        const created = await tx.project.create({
+          data: {
+            name,
+            description,
+            status: status as any,
+            startDate,
+            endDate,
+          },
+        });
+        await createDefaultWorkflow(tx, created.id);
+        return created;
       },
-    });
+    );
     
     revalidatePath("/dashboard/projects");
     return { success: true, projectId: project.id };
@@ -232,7 +260,7 @@ export async function updateProject(formData: FormData) : Promise<{ success: boo
     }
     
     // Check if user has permission to update projects
-    if (!hasPermission(session.user.role, "projects", "update")) {
+    if (!(await checkPermission(session.user, "projects", "update"))) {
       throw new Error("You don't have permission to update projects");
     }
 
@@ -261,16 +289,20 @@ export async function updateProject(formData: FormData) : Promise<{ success: boo
     }
     
     // Update project
-    await prisma.project.update({
-      where: { id },
-      data: {
-        name,
-        description,
-        status: status as any,
-        startDate,
-        endDate,
-      },
-    });
+    await withAudit(
+      { actorId: session.user.id, entityType: "PROJECT", action: "UPDATE", before: existingProject },
+      (tx) =>
+        tx.project.update({
+          where: { id },
+          data: {
+            name,
+            description,
+            status: status as any,
+            startDate,
+            endDate,
+          },
+        }),
+    );
     
     revalidatePath(`/dashboard/projects/${id}`);
     revalidatePath("/dashboard/projects");
@@ -281,6 +313,115 @@ export async function updateProject(formData: FormData) : Promise<{ success: boo
   }
 }
 
+/**
+ * Get every project with its dated tasks, for the timeline
+ */
+export async function getProjectTimeline() {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      throw new Error("You must be signed in to view the timeline");
+    }
+    
+    // Check if user has permission to read projects
+    if (!(await checkPermission(session.user, "projects", "read"))) {
+      throw new Error("You don't have permission to view projects");
+    }
+    
+    const projects = await prisma.project.findMany({
+      orderBy: [{ startDate: 'asc' }, { name: 'asc' }],
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        tasks: {
+          // Only tasks with at least one date can be placed on the timeline
+          where: {
+            OR: [
+              { startDate: { not: null } },
+              { dueDate: { not: null } },
+            ],
+          },
+          orderBy: [{ startDate: 'asc' }, { dueDate: 'asc' }],
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            startDate: true,
+            dueDate: true,
+          },
+        },
+      },
+    });
+    
+    return { projects };
+  } catch (error) {
+    console.error("Error getting project timeline:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get project timeline" };
+  }
+}
+
+/**
+ * Change a project's dates, e.g. after it is dragged on the timeline. A null end date
+ * leaves the project open-ended.
+ */
+export async function rescheduleProject(id: string, startDateStr: string, endDateStr: string | null) {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      redirect("/login");
+    }
+    
+    // Check if user has permission to update projects
+    if (!(await checkPermission(session.user, "projects", "update"))) {
+      throw new Error("You don't have permission to update projects");
+    }
+    
+    const startDate = new Date(startDateStr);
+    const endDate = endDateStr ? new Date(endDateStr) : null;
+    
+    if (isNaN(startDate.getTime()) || (endDate && isNaN(endDate.getTime()))) {
+      throw new Error("Invalid date");
+    }
+    
+    if (endDate && endDate < startDate) {
+      throw new Error("End date cannot be before the start date");
+    }
+    
+    const existingProject = await prisma.project.findUnique({
+      where: { id },
+    });
+    
+    if (!existingProject) {
+      throw new Error("Project not found");
+    }
+    
+    await withAudit(
+      { actorId: session.user.id, entityType: "PROJECT", action: "UPDATE", before: existingProject },
+      (tx) =>
+        tx.project.update({
+          where: { id },
+          data: {
+            startDate,
+            endDate,
+          },
+        }),
+    );
+    
+    revalidatePath(`/dashboard/projects/${id}`);
+    revalidatePath("/dashboard/projects");
+    revalidatePath("/dashboard/projects/timeline");
+    return { success: true };
+  } catch (error) {
+    console.error("Error rescheduling project:", error);
+    return { error: error instanceof Error ? error.message : "Failed to reschedule project" };
+  }
+}
+
 /**
  * Delete a project
  */
@@ -293,7 +434,7 @@ export async function deleteProject(id: string) {
     }
     
     // Check if user has permission to delete projects
-    if (!hasPermission(session.user.role, "projects", "delete")) {
+    if (!(await checkPermission(session.user, "projects", "delete"))) {
       throw new Error("You don't have permission to delete projects");
     }
     
@@ -307,9 +448,15 @@ export async function deleteProject(id: string) {
     }
     
     // Delete project and all associated tasks
-    await prisma.project.delete({
-      where: { id },
-    });
+    await withAudit(
+      { actorId: session.user.id, entityType: "PROJECT", action: "DELETE", before: project },
+      async (tx) => {
+        await tx.project.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
     
     revalidatePath("/dashboard/projects");
     return { success: true };
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db } = vi.hoisted(() => ({
+  getCurrentSession: vi.fn(),
+  db: {
+    role: { findMany: vi.fn() },
+    employee: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+    salary: { findMany: vi.fn(), groupBy: vi.fn() },
+  },
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { getEmployeeSalaries } from "@/lib/actions/salary-actions";
+
+const manager = { id: "manager-1", role: "MANAGER" };
+
+describe("getEmployeeSalaries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: manager });
+    db.role.findMany.mockResolvedValue([]);
+    // The manager's employee record and their one report
+    db.employee.findUnique.mockImplementation(({ where }) =>
+      where.userId === manager.id ? { id: "emp-manager" } : { id: where.id, userId: `user-of-${where.id}` },
+    );
+    db.employee.findMany.mockImplementation(({ where }) =>
+      where.managerId.in.includes("emp-manager") ? [{ id: "emp-report" }] : [],
+    );
+    db.salary.findMany.mockResolvedValue([]);
+    db.salary.groupBy.mockResolvedValue([]);
+  });
+
+  it("rejects a manager viewing someone outside their reports", async () => {
+    db.employee.count.mockResolvedValue(0);
+
+    await expect(getEmployeeSalaries({ employeeId: "emp-other" })).resolves.toEqual({
+      error: "You can only view salaries of employees who report to you",
+    });
+    expect(db.employee.count).toHaveBeenCalledWith({
+      where: { id: "emp-other", OR: [{ id: { in: ["emp-report"] } }, { userId: manager.id }] },
+    });
+    expect(db.salary.findMany).not.toHaveBeenCalled();
+  });
+
+  it("lets a manager view a report's salaries", async () => {
+    db.employee.count.mockResolvedValue(1);
+
+    await expect(getEmployeeSalaries({ employeeId: "emp-report" })).resolves.toEqual({ salaries: [], years: [] });
+  });
+
+  it("doesn't limit admins", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "admin-1", role: "ADMIN" } });
+
+    await expect(getEmployeeSalaries({ employeeId: "emp-other" })).resolves.toEqual({ salaries: [], years: [] });
+    expect(db.employee.count).not.toHaveBeenCalled();
+  });
+});
+
+describe("getEmployeeSalaries for roles without manager scope", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // A custom role built on EMPLOYEE that manages salaries
+    db.role.findMany.mockResolvedValue([
+      { key: "PAYROLL_CLERK", permissions: ["read", "create", "update"].map((action) => ({ resource: "salaries", action })) },
+    ]);
+    db.employee.findUnique.mockResolvedValue({ id: "emp-other", userId: "user-other" });
+    db.salary.findMany.mockResolvedValue([]);
+    db.salary.groupBy.mockResolvedValue([]);
+  });
+
+  it("limits an employee to their own salaries", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE" } });
+
+    await expect(getEmployeeSalaries({ employeeId: "emp-other" })).resolves.toEqual({
+      error: "You can only view your own salary information",
+    });
+  });
+
+  it("lets a custom role granted salary management view anyone's", async () => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE", customRole: "PAYROLL_CLERK" } });
+
+    await expect(getEmployeeSalaries({ employeeId: "emp-other" })).resolves.toEqual({ salaries: [], years: [] });
+  });
+});
@@ -3,7 +3,12 @@
 import { revalidatePath } from "next/cache";
 import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { hasPermission, ROLES } from "@/lib/constants/roles";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { isInManagerScope } from "@/lib/org";
+import { withAudit } from "@/lib/audit";
+import { parseSalaryItems, summarizeSalaryItems } from "@/lib/salary";
+import { buildUnpaidLeaveItem, loadUnpaidLeaveDays } from "@/lib/leave";
 import { redirect } from "next/navigation";
 
 /**
@@ -26,7 +31,7 @@ export async function getEmployeeSalaries({
     }
     
     // Check if user has permission to read salaries
-    if (!hasPermission(session.user.role, "salaries", "read")) {
+    if (!(await checkPermission(session.user, "salaries", "read"))) {
       throw new Error("You don't have permission to view salary information");
     }
     
@@ -39,13 +44,18 @@ export async function getEmployeeSalaries({
       throw new Error("Employee not found");
     }
     
-    // If the user is an employee (not admin/manager), only allow viewing their own salary
+    // Seeing other people's salaries comes with managing them; everyone else only sees their own
     if (
-      session.user.role === ROLES.EMPLOYEE &&
-      employee.userId !== session.user.id
+      employee.userId !== session.user.id &&
+      !(await checkPermission(session.user, "salaries", "update"))
     ) {
       throw new Error("You can only view your own salary information");
     }
+
+    // Managers can view their own salary and those of their reports
+    if (!(await isInManagerScope(prisma, session.user, employee.id))) {
+      throw new Error("You can only view salaries of employees who report to you");
+    }
     
     // Build the where clause
     const where = {
@@ -56,6 +66,35 @@ export async function getEmployeeSalaries({
     // Get salary records
     const salaries = await prisma.salary.findMany({
       where,
+      include: {
+        items: {
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+        revisions: {
+          include: {
+            createdBy: {
+              select: {
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            revision: "desc",
+          },
+        },
+        finalizedBy: {
+          select: {
+            name: true,
+          },
+        },
+        reopenedBy: {
+          select: {
+            name: true,
+          },
+        },
+      },
       orderBy: [
         { year: "desc" },
         { month: "desc" },
@@ -85,8 +124,17 @@ export async function getEmployeeSalaries({
   }
 }
 
+// Line item fields kept in audit snapshots (ids change whenever items are replaced)
+const salaryItemSnapshotFields = {
+  kind: true,
+  label: true,
+  amount: true,
+  taxable: true,
+  source: true,
+} as const;
+
 /**
- * Create or update a salary record
+ * Create or update a salary record from its base salary and line items
  */
 export async function saveSalaryRecord(formData: FormData) {
   try {
@@ -95,9 +143,12 @@ export async function saveSalaryRecord(formData: FormData) {
     if (!session?.user) {
       redirect("/login");
     }
-    
-    // Check if user has permission to update salaries
-    if (!hasPermission(session.user.role, "salaries", "update")) {
+
+    // Check if user can write salaries at all before touching the database
+    if (
+      !(await checkPermission(session.user, "salaries", "create")) &&
+      !(await checkPermission(session.user, "salaries", "update"))
+    ) {
       throw new Error("You don't have permission to update salary information");
     }
 
@@ -105,8 +156,8 @@ export async function saveSalaryRecord(formData: FormData) {
     const month = parseInt(formData.get("month") as string, 10);
     const year = parseInt(formData.get("year") as string, 10);
     const baseSalary = parseFloat(formData.get("baseSalary") as string);
-    const bonus = parseFloat(formData.get("bonus") as string || "0");
-    const deductions = parseFloat(formData.get("deductions") as string || "0");
+    const items = parseSalaryItems(formData.get("items") as string);
+    const reason = ((formData.get("reason") as string) || "").trim();
     
     // Validate data
     if (!employeeId || isNaN(month) || isNaN(year) || isNaN(baseSalary)) {
@@ -130,9 +181,6 @@ export async function saveSalaryRecord(formData: FormData) {
       throw new Error("Employee not found");
     }
     
-    // Calculate total salary
-    const totalSalary = baseSalary + bonus - deductions;
-    
     // Check if salary record already exists for this month/year
     const existingSalary = await prisma.salary.findUnique({
       where: {
@@ -142,31 +190,118 @@ export async function saveSalaryRecord(formData: FormData) {
           year,
         },
       },
+      include: {
+        items: {
+          select: salaryItemSnapshotFields,
+        },
+      },
     });
     
-    // Create or update salary record
+    // Creating a new month and overwriting an existing one are separate permissions
+    if (!(await checkPermission(session.user, "salaries", existingSalary ? "update" : "create"))) {
+      throw new Error(
+        existingSalary
+          ? "You don't have permission to update salary information"
+          : "You don't have permission to create salary records",
+      );
+    }
+    
+    // New months pick up approved unpaid leave, unless the form already carries the line
+    if (!existingSalary && !items.some((item) => item.source === "UNPAID_LEAVE")) {
+      const unpaidLeaveDays = await loadUnpaidLeaveDays(prisma, month, year, [employeeId]);
+      const unpaidLeave = buildUnpaidLeaveItem(baseSalary, unpaidLeaveDays.get(employeeId) ?? 0, month, year);
+
+      if (unpaidLeave) {
+        items.push(unpaidLeave);
+      }
+    }
+
+    // Totals are always derived from the line items
+    const figures = summarizeSalaryItems(baseSalary, items);
+    const itemRows = items.map(({ typeId, kind, label, amount, taxable, source }) => ({ typeId, kind, label, amount, taxable, source }));
+    const itemSnapshot = JSON.stringify(items.map(({ kind, label, amount, taxable, source }) => ({ kind, label, amount, taxable, source })));
+
+    // Revise an existing month, keeping the previous figures as a revision
     if (existingSalary) {
-      await prisma.salary.update({
-        where: { id: existingSalary.id },
-        data: {
-          baseSalary,
-          bonus,
-          deductions,
-          totalSalary,
+      if (existingSalary.status === "PAID") {
+        throw new Error("This month has been paid and is locked. An administrator must reopen it before it can be edited");
+      }
+
+      if (!reason) {
+        throw new Error("A reason is required when changing an existing salary record");
+      }
+
+      await withAudit(
+        { actorId: session.user.id, entityType: "SALARY", action: "UPDATE", before: existingSalary },
+        async (tx) => {
+          const revisionCount = await tx.salaryRevision.count({
+            where: { salaryId: existingSalary.id },
+          });
+
+          await tx.salaryRevision.create({
+            data: {
+              salaryId: existingSalary.id,
+              revision: revisionCount + 1,
+              ...figures,
+              items: itemSnapshot,
+              reason,
+              createdById: session.user.id,
+            },
+          });
+
+          // Replace the line items wholesale; the revision keeps the old set
+          await tx.salaryItem.deleteMany({
+            where: { salaryId: existingSalary.id },
+          });
+
+          return tx.salary.update({
+            where: { id: existingSalary.id },
+            data: {
+              ...figures,
+              items: {
+                create: itemRows,
+              },
+            },
+            include: {
+              items: {
+                select: salaryItemSnapshotFields,
+              },
+            },
+          });
         },
-      });
+      );
     } else {
-      await prisma.salary.create({
-        data: {
-          employeeId,
-          month,
-          year,
-          baseSalary,
-          bonus,
-          deductions,
-          totalSalary,
-        },
-      });
+      await withAudit(
+        { actorId: session.user.id, entityType: "SALARY", action: "CREATE" },
+        (tx) =>
+          tx.salary.create({
+            data: {
+              employeeId,
+              month,
+              year,
+              ...figures,
+              // New months are paid in the employee's current currency
+              currency: employee.currency,
+              items: {
+                create: itemRows,
+              },
+              revisions: {
+                create: {
+                  revision: 1,
+                  ...figures,
+                  items: itemSnapshot,
+                  reason: reason || null,
+                  createdById: session.user.id,
+                },
+              },
+            },
+            include: {
+              items: {
+                select: salaryItemSnapshotFields,
+              },
+            },
+          }),
+      );
     }
     
     revalidatePath(`/dashboard/employees/${employeeId}`);
@@ -189,25 +324,34 @@ export async function deleteSalaryRecord(id: string) {
       redirect("/login");
     }
     
-    // Only admins can delete salary records
-    if (session.user.role !== ROLES.ADMIN) {
-      throw new Error("Only administrators can delete salary records");
+    // Check if user has permission to delete salaries
+    if (!(await checkPermission(session.user, "salaries", "delete"))) {
+      throw new Error("You don't have permission to delete salary records");
     }
     
     // Check if salary record exists
     const salary = await prisma.salary.findUnique({
       where: { id },
-      include: { employee: true },
     });
     
     if (!salary) {
       throw new Error("Salary record not found");
     }
     
+    if (salary.status === "PAID") {
+      throw new Error("Paid salary records cannot be deleted");
+    }
+    
     // Delete salary record
-    await prisma.salary.delete({
-      where: { id },
-    });
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY", action: "DELETE", before: salary },
+      async (tx) => {
+        await tx.salary.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
     
     revalidatePath(`/dashboard/employees/${salary.employeeId}`);
     revalidatePath(`/dashboard/employees/salary`);
@@ -217,3 +361,108 @@ export async function deleteSalaryRecord(id: string) {
     return { error: error instanceof Error ? error.message : "Failed to delete salary record" };
   }
 }
+
+/**
+ * Mark a salary month as paid, locking it against further edits
+ */
+export async function finalizeSalaryRecord(id: string) {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      redirect("/login");
+    }
+    
+    // Check if user has permission to update salaries
+    if (!(await checkPermission(session.user, "salaries", "update"))) {
+      throw new Error("You don't have permission to finalize salary records");
+    }
+    
+    const salary = await prisma.salary.findUnique({
+      where: { id },
+    });
+    
+    if (!salary) {
+      throw new Error("Salary record not found");
+    }
+    
+    if (salary.status === "PAID") {
+      throw new Error("Salary record is already finalized");
+    }
+    
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY", action: "UPDATE", before: salary },
+      (tx) =>
+        tx.salary.update({
+          where: { id },
+          data: {
+            status: "PAID",
+            finalizedAt: new Date(),
+            finalizedById: session.user.id,
+          },
+        }),
+    );
+    
+    revalidatePath(`/dashboard/employees/${salary.employeeId}`);
+    revalidatePath(`/dashboard/employees/salary`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error finalizing salary record:", error);
+    return { error: error instanceof Error ? error.message : "Failed to finalize salary record" };
+  }
+}
+
+/**
+ * Reopen a paid salary month for edits (admin only, requires a reason)
+ */
+export async function reopenSalaryRecord(id: string, reason: string) {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      redirect("/login");
+    }
+    
+    // Unlocking paid figures is reserved for administrators
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can reopen paid salary records");
+    }
+    
+    if (!reason?.trim()) {
+      throw new Error("A reason is required to reopen a salary record");
+    }
+    
+    const salary = await prisma.salary.findUnique({
+      where: { id },
+    });
+    
+    if (!salary) {
+      throw new Error("Salary record not found");
+    }
+    
+    if (salary.status !== "PAID") {
+      throw new Error("Only paid salary records can be reopened");
+    }
+    
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY", action: "UPDATE", before: salary },
+      (tx) =>
+        tx.salary.update({
+          where: { id },
+          data: {
+            status: "DRAFT",
+            reopenedAt: new Date(),
+            reopenedById: session.user.id,
+            reopenReason: reason.trim(),
+          },
+        }),
+    );
+    
+    revalidatePath(`/dashboard/employees/${salary.employeeId}`);
+    revalidatePath(`/dashboard/employees/salary`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error reopening salary record:", error);
+    return { error: error instanceof Error ? error.message : "Failed to reopen salary record" };
+  }
+}
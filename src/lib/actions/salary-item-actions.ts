@@ -0,0 +1,187 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+
+/**
+ * Get salary item types, active ones only unless includeInactive is set
+ */
+export async function getSalaryItemTypes({ includeInactive = false }: { includeInactive?: boolean } = {}) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view salary item types");
+    }
+
+    // Check if user has permission to read salaries
+    if (!(await checkPermission(session.user, "salaries", "read"))) {
+      throw new Error("You don't have permission to view salary item types");
+    }
+
+    const itemTypes = await prisma.salaryItemType.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: {
+        _count: {
+          select: {
+            items: true,
+          },
+        },
+      },
+      orderBy: [{ kind: "asc" }, { name: "asc" }],
+    });
+
+    return { itemTypes };
+  } catch (error) {
+    console.error("Error getting salary item types:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get salary item types" };
+  }
+}
+
+/**
+ * Create a salary item type
+ */
+export async function createSalaryItemType(formData: FormData) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure salary item types
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage salary item types");
+    }
+
+    const name = ((formData.get("name") as string) || "").trim();
+    const kind = formData.get("kind") as string;
+    const taxable = formData.get("taxable") === "true";
+
+    // Validate data
+    if (!name) {
+      throw new Error("Name is required");
+    }
+
+    if (kind !== "BONUS" && kind !== "DEDUCTION") {
+      throw new Error("Kind must be BONUS or DEDUCTION");
+    }
+
+    const existingType = await prisma.salaryItemType.findUnique({
+      where: { name },
+    });
+
+    if (existingType) {
+      throw new Error("A salary item type with this name already exists");
+    }
+
+    const itemType = await withAudit(
+      { actorId: session.user.id, entityType: "SALARY_ITEM_TYPE", action: "CREATE" },
+      (tx) =>
+        tx.salaryItemType.create({
+          data: {
+            name,
+            kind,
+            taxable,
+          },
+        }),
+    );
+
+    revalidatePath("/admin/salary-items");
+    return { success: true, itemTypeId: itemType.id };
+  } catch (error) {
+    console.error("Error creating salary item type:", error);
+    return { error: error instanceof Error ? error.message : "Failed to create salary item type" };
+  }
+}
+
+/**
+ * Update the taxable and active flags of a salary item type
+ */
+export async function updateSalaryItemType(id: string, data: { taxable?: boolean; isActive?: boolean }) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure salary item types
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage salary item types");
+    }
+
+    const itemType = await prisma.salaryItemType.findUnique({
+      where: { id },
+    });
+
+    if (!itemType) {
+      throw new Error("Salary item type not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY_ITEM_TYPE", action: "UPDATE", before: itemType },
+      (tx) =>
+        tx.salaryItemType.update({
+          where: { id },
+          data: {
+            ...(data.taxable !== undefined ? { taxable: data.taxable } : {}),
+            ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+          },
+        }),
+    );
+
+    revalidatePath("/admin/salary-items");
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating salary item type:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update salary item type" };
+  }
+}
+
+/**
+ * Delete a salary item type; existing lines keep their copied label and kind
+ */
+export async function deleteSalaryItemType(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Only admins can configure salary item types
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can manage salary item types");
+    }
+
+    const itemType = await prisma.salaryItemType.findUnique({
+      where: { id },
+    });
+
+    if (!itemType) {
+      throw new Error("Salary item type not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "SALARY_ITEM_TYPE", action: "DELETE", before: itemType },
+      async (tx) => {
+        await tx.salaryItemType.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath("/admin/salary-items");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting salary item type:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete salary item type" };
+  }
+}
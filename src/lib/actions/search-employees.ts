@@ -1,13 +1,17 @@
 "use server";
 
+import type { EmploymentStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentSession } from "@/auth";
-import { hasPermission } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { getEmployeeOrderBy, getEmployeeSearch, getEmployeeStatusFilter, getManagerScope } from "@/lib/org";
+import { OMIT_BANK_FIELDS } from "@/lib/employee-profile";
 interface Employee {
   id: string;
   joinDate: Date;
-  position: string;
-  department: string;
+  status: EmploymentStatus;
+  position: { id: string; name: string };
+  department: { id: string; name: string };
   user: {
     id: string;
     name: string | null;
@@ -25,12 +29,14 @@ export async function searchEmployees({
   search = "",
   sortBy = "name",
   sortDirection = "asc",
+  status = "current",
 }: {
   page?: number;
   limit?: number;
   search?: string;
   sortBy?: string;
   sortDirection?: "asc" | "desc";
+  status?: string;
 }): Promise<{
   employees?: Employee[];
   pagination?: {
@@ -49,28 +55,22 @@ export async function searchEmployees({
     }
 
     // Check if user has permission to read employees
-    if (!hasPermission(session.user.role, "employees", "read")) {
+    if (!(await checkPermission(session.user, "employees", "read"))) {
       throw new Error("You don't have permission to view employees");
     }
 
     const skip = (page - 1) * limit;
 
-    // Build the where clause for search
-    const where = search
-      ? {
-          OR: [
-            { user: { name: { contains: search } } },
-            { position: { contains: search } },
-            { department: { contains: search } },
-          ],
-        }
-      : {};
+    // Build the where clause for search, limiting managers to their reports
+    const scope = await getManagerScope(prisma, session.user);
+    const where = { AND: [getEmployeeSearch(search), getEmployeeStatusFilter(status), scope ?? {}] };
 
     const employees = await prisma.employee.findMany({
       where,
       skip,
       take: limit,
-      orderBy: sortBy === "name" ? { user: { name: sortDirection } } : { [sortBy]: sortDirection },
+      orderBy: getEmployeeOrderBy(sortBy, sortDirection),
+      omit: OMIT_BANK_FIELDS,
       include: {
         user: {
           select: {
@@ -80,6 +80,18 @@ export async function searchEmployees({
             image: true,
           },
         },
+        department: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        position: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
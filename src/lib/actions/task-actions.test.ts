@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db } = vi.hoisted(() => ({
+  getCurrentSession: vi.fn(),
+  db: {
+    role: { findMany: vi.fn() },
+    task: { findMany: vi.fn(), count: vi.fn() },
+  },
+}));
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { getTasks } from "@/lib/actions/task-actions";
+
+describe("getTasks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getCurrentSession.mockResolvedValue({ user: { id: "manager-1", role: "MANAGER" } });
+    db.role.findMany.mockResolvedValue([]);
+    db.task.findMany.mockResolvedValue([]);
+    db.task.count.mockResolvedValue(0);
+  });
+
+  // The where clause passed to the task query
+  const queriedWhere = () => db.task.findMany.mock.calls[0][0].where;
+
+  it("keeps the status filter alongside the overdue filter", async () => {
+    await getTasks({ status: "TODO", due: "overdue" });
+
+    expect(queriedWhere().AND).toEqual([
+      { status: "TODO" },
+      { dueDate: { lt: expect.any(Date) }, status: { not: "DONE" } },
+    ]);
+  });
+
+  it("filters on status alone without a due-date filter", async () => {
+    await getTasks({ status: "IN_PROGRESS" });
+
+    expect(queriedWhere().AND).toEqual([{ status: "IN_PROGRESS" }, {}]);
+  });
+
+  it("orders the board by each project's workflow column before position", async () => {
+    await getTasks({ sortBy: "position", sortDirection: "asc" });
+
+    expect(db.task.findMany.mock.calls[0][0].orderBy).toEqual([
+      { projectId: "asc" },
+      { workflowStatusId: "asc" },
+      { position: "asc" },
+      { createdAt: "asc" },
+    ]);
+  });
+
+  it("counts with the same filters it lists with", async () => {
+    await getTasks({ status: "TODO", due: "week" });
+
+    expect(db.task.count).toHaveBeenCalledWith({ where: queriedWhere() });
+  });
+});
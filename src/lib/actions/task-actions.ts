@@ -3,8 +3,224 @@
 import { revalidatePath } from "next/cache";
 import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { hasPermission } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { getTaskProgress, parseTaskSchedule } from "@/lib/tasks";
+import { getCycleTime, getTimeInStatus, recordTaskEvents } from "@/lib/task-events";
+import { assertTransitionAllowed, assertWithinWipLimit, resolveWorkflowStatus } from "@/lib/workflows";
 import { redirect } from "next/navigation";
+import { addDays, startOfDay } from "date-fns";
+import { Prisma, Task, TaskPriority, TaskStatus, WorkflowStatus } from "@prisma/client";
+
+// Due-date filters offered by the task list
+export type TaskDueFilter = "" | "overdue" | "week" | "none";
+
+// Build the where clause for a due-date filter
+function dueDateWhere(due: TaskDueFilter): Prisma.TaskWhereInput {
+  const today = startOfDay(new Date());
+
+  switch (due) {
+    case "overdue":
+      return { dueDate: { lt: today }, status: { not: "DONE" } };
+    case "week":
+      return { dueDate: { gte: today, lt: addDays(today, 7) } };
+    case "none":
+      return { dueDate: null };
+    default:
+      return {};
+  }
+}
+
+// Fields of a linked task shown in a task's dependency lists
+const dependencyTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  workflowStatus: {
+    select: {
+      name: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.TaskSelect;
+
+// Gap left between neighbouring cards so a card can be placed between two others without renumbering
+const POSITION_STEP = 1024;
+
+// Smallest gap worth splitting before the column is renumbered
+const MIN_POSITION_GAP = 1e-6;
+
+// A board column: one workflow status of one project. Positions only order cards within a column.
+type TaskColumn = { projectId: string; workflowStatusId: string };
+
+// The column a workflow status is shown as
+function columnOf(status: WorkflowStatus): TaskColumn {
+  return { projectId: status.projectId, workflowStatusId: status.id };
+}
+
+// Position after the last card in a column
+async function getEndPosition(tx: Prisma.TransactionClient, column: TaskColumn) {
+  const last = await tx.task.findFirst({
+    where: column,
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+
+  return last ? last.position + POSITION_STEP : 0;
+}
+
+// Space out the positions of a column evenly, keeping the current order
+async function renumberColumn(tx: Prisma.TransactionClient, column: TaskColumn) {
+  const tasks = await tx.task.findMany({
+    where: column,
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true },
+  });
+
+  for (const [index, task] of tasks.entries()) {
+    await tx.task.update({ where: { id: task.id }, data: { position: index * POSITION_STEP } });
+  }
+}
+
+/**
+ * Work out the position for a card dropped into a column directly below `afterId` and/or
+ * above `beforeId`. The board may only show some of a column's cards, so the neighbours
+ * are looked up in the whole column.
+ */
+async function getDropPosition(
+  tx: Prisma.TransactionClient,
+  { id, column, afterId, beforeId }: { id: string; column: TaskColumn; afterId?: string; beforeId?: string },
+) {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const neighbourPosition = async (neighbourId: string | undefined) => {
+      if (!neighbourId) return undefined;
+      const neighbour = await tx.task.findFirst({ where: { id: neighbourId, ...column }, select: { position: true } });
+      return neighbour?.position;
+    };
+
+    let lower = await neighbourPosition(afterId);
+    let upper = await neighbourPosition(beforeId);
+
+    if (lower === undefined && upper === undefined) {
+      return getEndPosition(tx, column);
+    }
+
+    // Only one neighbour is known: find the card on its other side
+    if (upper === undefined) {
+      const next = await tx.task.findFirst({
+        where: { ...column, id: { not: id }, position: { gt: lower } },
+        orderBy: { position: "asc" },
+        select: { position: true },
+      });
+      upper = next?.position;
+    } else if (lower === undefined) {
+      const previous = await tx.task.findFirst({
+        where: { ...column, id: { not: id }, position: { lt: upper } },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+      lower = previous?.position;
+    }
+
+    if (lower === undefined) return upper! - POSITION_STEP;
+    if (upper === undefined) return lower + POSITION_STEP;
+
+    if (upper - lower > MIN_POSITION_GAP) {
+      return (lower + upper) / 2;
+    }
+
+    // The neighbours are too close (or tied); spread the column out and try again
+    await renumberColumn(tx, column);
+  }
+
+  throw new Error("Failed to reorder the column");
+}
+
+/**
+ * Work out the workflow status a task lands in when it is updated. `status` is a category,
+ * as sent by the all-projects board; a task already in that category stays in its current status.
+ * Run it in the transaction that moves the task so the workflow and WIP checks can't go stale.
+ */
+async function getTargetStatus(
+  tx: Prisma.TransactionClient,
+  existingTask: Task,
+  projectId: string,
+  { workflowStatusId, status }: { workflowStatusId?: string | null; status?: string | null },
+) {
+  if (status && !Object.values(TaskStatus).includes(status as TaskStatus)) {
+    throw new Error("Invalid status");
+  }
+
+  // Moving to another project keeps the task's category in that project's workflow
+  if (projectId !== existingTask.projectId) {
+    const target = await resolveWorkflowStatus(tx, projectId, {
+      workflowStatusId,
+      category: (status || existingTask.status) as TaskStatus,
+    });
+    await assertWithinWipLimit(tx, target, existingTask.id);
+    return target;
+  }
+
+  if (!workflowStatusId && existingTask.workflowStatusId && (!status || status === existingTask.status)) {
+    return resolveWorkflowStatus(tx, projectId, { workflowStatusId: existingTask.workflowStatusId });
+  }
+
+  const target = await resolveWorkflowStatus(tx, projectId, {
+    workflowStatusId,
+    category: status as TaskStatus | null,
+  });
+  await assertTransitionAllowed(tx, existingTask.workflowStatusId, target.id);
+
+  if (target.id !== existingTask.workflowStatusId) {
+    await assertWithinWipLimit(tx, target, existingTask.id);
+  }
+
+  return target;
+}
+
+/**
+ * A warning for starting or finishing a task that is still blocked by unfinished tasks.
+ * Moves aren't prevented; the warning is returned to show to the user.
+ */
+async function getBlockerWarning(tx: Prisma.TransactionClient, existingTask: Task, category: TaskStatus) {
+  if (category === existingTask.status || (category !== "IN_PROGRESS" && category !== "DONE")) {
+    return undefined;
+  }
+  
+  const blockers = await tx.taskDependency.findMany({
+    where: { blockedTaskId: existingTask.id, blocker: { status: { not: "DONE" } } },
+    include: { blocker: { select: { title: true } } },
+  });
+  
+  if (blockers.length === 0) {
+    return undefined;
+  }
+  
+  return `This task is still blocked by ${blockers.map((dependency) => `"${dependency.blocker.title}"`).join(", ")}`;
+}
+
+/**
+ * Check a task can be given to this employee; terminated employees can't take new work
+ */
+async function assertAssignable(employeeId: string) {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { status: true },
+  });
+  
+  if (!employee) {
+    throw new Error("Assignee not found");
+  }
+  
+  if (employee.status === "TERMINATED") {
+    throw new Error("Tasks can't be assigned to terminated employees");
+  }
+}
 
 /**
  * Get all tasks with optional filtering and pagination
@@ -17,6 +233,7 @@ export async function getTasks({
   priority = "",
   projectId = "",
   assignedToId = "",
+  due = "",
   sortBy = "createdAt",
   sortDirection = "desc",
 }: {
@@ -27,6 +244,7 @@ export async function getTasks({
   priority?: string;
   projectId?: string;
   assignedToId?: string;
+  due?: TaskDueFilter;
   sortBy?: string;
   sortDirection?: "asc" | "desc";
 }) {
@@ -38,32 +256,38 @@ export async function getTasks({
     }
     
     // Check if user has permission to read tasks
-    if (!hasPermission(session.user.role, "tasks", "read")) {
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
       throw new Error("You don't have permission to view tasks");
     }
     
     const skip = (page - 1) * limit;
     
     // Build the where clause for search and filter
-    const where = {
+    const where: Prisma.TaskWhereInput = {
       ...(search ? {
         OR: [
-          { title: { contains: search, mode: "insensitive" } },
-          { description: { contains: search, mode: "insensitive" } },
+          { title: { contains: search } },
+          { description: { contains: search } },
         ],
       } : {}),
-      ...(status ? { status } : {}),
-      ...(priority ? { priority } : {}),
+      ...(priority ? { priority: priority as TaskPriority } : {}),
       ...(projectId ? { projectId } : {}),
       ...(assignedToId ? { assignedToId } : {}),
+      // The due-date filter can constrain the status too, so both must hold rather than one replacing the other
+      AND: [status ? { status: status as TaskStatus } : {}, dueDateWhere(due)],
     };
     
     const tasks = await prisma.task.findMany({
+      where,
       skip,
       take: limit,
-      orderBy: {
-        [sortBy]: sortDirection,
-      },
+      // Tasks without a due date sort after those with one. Positions only order cards within one
+      // project's workflow status, so board order groups by those first; ties fall back to age.
+      orderBy: sortBy === "dueDate"
+        ? { dueDate: { sort: sortDirection, nulls: "last" } }
+        : sortBy === "position"
+          ? [{ projectId: "asc" }, { workflowStatusId: "asc" }, { position: sortDirection }, { createdAt: "asc" }]
+          : { [sortBy]: sortDirection },
       include: {
         project: {
           select: {
@@ -72,6 +296,12 @@ export async function getTasks({
             status: true,
           },
         },
+        workflowStatus: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         assignedTo: {
           include: {
             user: {
@@ -84,10 +314,17 @@ export async function getTasks({
             },
           },
         },
+        _count: {
+          select: {
+            comments: true,
+            // Only unfinished blockers hold a task up
+            blockedBy: { where: { blocker: { status: { not: "DONE" } } } },
+          },
+        },
       },
     });
     
-    const totalTasks = await prisma.task.count();
+    const totalTasks = await prisma.task.count({ where });
     
     return {
       tasks,
@@ -116,14 +353,26 @@ export async function getTaskById(id: string) {
     }
     
     // Check if user has permission to read tasks
-    if (!hasPermission(session.user.role, "tasks", "read")) {
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
       throw new Error("You don't have permission to view task details");
     }
     
     const task = await prisma.task.findUnique({
       where: { id },
       include: {
-        project: true,
+        project: {
+          include: {
+            workflowStatuses: {
+              orderBy: { order: "asc" },
+              include: {
+                nextStatuses: {
+                  select: { id: true },
+                },
+              },
+            },
+          },
+        },
+        workflowStatus: true,
         assignedTo: {
           include: {
             user: {
@@ -136,6 +385,58 @@ export async function getTaskById(id: string) {
             },
           },
         },
+        parent: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+        subtasks: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            parentId: true,
+            dueDate: true,
+            workflowStatus: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            assignedTo: {
+              select: {
+                id: true,
+                user: {
+                  select: {
+                    name: true,
+                    image: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+        checklistItems: {
+          orderBy: { order: "asc" },
+        },
+        blockedBy: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            blocker: {
+              select: dependencyTaskSelect,
+            },
+          },
+        },
+        blocks: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            blockedTask: {
+              select: dependencyTaskSelect,
+            },
+          },
+        },
       },
     });
     
@@ -143,13 +444,86 @@ export async function getTaskById(id: string) {
       throw new Error("Task not found");
     }
     
-    return { task };
+    // A parent task's progress comes from its subtasks
+    return { task: { ...task, subtaskProgress: getTaskProgress(task.subtasks) } };
   } catch (error) {
     console.error("Error getting task:", error);
     return { error: error instanceof Error ? error.message : "Failed to get task details" };
   }
 }
 
+/**
+ * Get the change history of a task, oldest first, with the time it has spent in each status
+ */
+export async function getTaskActivity(taskId: string) {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      throw new Error("You must be signed in to view task activity");
+    }
+    
+    // Check if user has permission to read tasks
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
+      throw new Error("You don't have permission to view task activity");
+    }
+    
+    const events = await prisma.taskEvent.findMany({
+      where: { taskId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+    
+    // Status, assignee and project events store IDs; look up names to display
+    const ids = (type: string) =>
+      events
+        .filter((event) => event.type === type)
+        .flatMap((event) => [event.fromValue, event.toValue])
+        .filter((value): value is string => !!value);
+    
+    const [employees, projects, statuses] = await Promise.all([
+      prisma.employee.findMany({
+        where: { id: { in: ids("ASSIGNEE") } },
+        select: { id: true, user: { select: { name: true } } },
+      }),
+      prisma.project.findMany({
+        where: { id: { in: ids("PROJECT") } },
+        select: { id: true, name: true },
+      }),
+      prisma.workflowStatus.findMany({
+        where: { id: { in: [...ids("CREATED"), ...ids("STATUS")] } },
+        select: { id: true, name: true, category: true },
+      }),
+    ]);
+    
+    const names: Record<string, string> = {};
+    employees.forEach((employee) => (names[employee.id] = employee.user.name || "Unnamed employee"));
+    projects.forEach((project) => (names[project.id] = project.name));
+    statuses.forEach((status) => (names[status.id] = status.name));
+    
+    const categories: Record<string, TaskStatus> = {};
+    statuses.forEach((status) => (categories[status.id] = status.category));
+    
+    return {
+      events,
+      names,
+      timeInStatus: getTimeInStatus(events),
+      cycleTime: getCycleTime(events, categories),
+    };
+  } catch (error) {
+    console.error("Error getting task activity:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get task activity" };
+  }
+}
+
 /**
  * Create a new task
  */
@@ -162,7 +536,7 @@ export async function createTask(formData: FormData) : Promise<{ success: boolea
     }
     
     // Check if user has permission to create tasks
-    if (!hasPermission(session.user.role, "tasks", "create")) {
+    if (!(await checkPermission(session.user, "tasks", "create"))) {
       throw new Error("You don't have permission to create tasks");
     }
 
@@ -170,12 +544,19 @@ export async function createTask(formData: FormData) : Promise<{ success: boolea
     const description = formData.get("description") as string;
     const projectId = formData.get("projectId") as string;
     const priority = formData.get("priority") as string;
-    const status = formData.get("status") as string;
+    const status = formData.get("status") as string || null;
+    const workflowStatusId = formData.get("workflowStatusId") as string || null;
     const assignedToId = formData.get("assignedToId") as string || null;
+    const parentId = formData.get("parentId") as string || null;
+    const { startDate, dueDate, estimateHours } = parseTaskSchedule(formData);
     
     // Validate data
-    if (!title || !projectId || !status || !priority) {
-      throw new Error("Title, project, status, and priority are required");
+    if (!title || !projectId || !priority) {
+      throw new Error("Title, project, and priority are required");
+    }
+
+    if (status && !Object.values(TaskStatus).includes(status as TaskStatus)) {
+      throw new Error("Invalid status");
     }
     
     // Check if project exists
@@ -186,18 +567,57 @@ export async function createTask(formData: FormData) : Promise<{ success: boolea
     if (!project) {
       throw new Error("Project not found");
     }
-    
+
+    if (assignedToId) {
+      await assertAssignable(assignedToId);
+    }
+
+    // Subtasks live in their parent task's project
+    if (parentId) {
+      const parent = await prisma.task.findUnique({
+        where: { id: parentId },
+      });
+      
+      if (!parent) {
+        throw new Error("Parent task not found");
+      }
+      
+      if (parent.projectId !== projectId) {
+        throw new Error("A subtask must be in the same project as its parent task");
+      }
+    }
+
     // Create task
-    const task = await prisma.task.create({
-      data: {
-        title,
-        description,
-        projectId,
-        priority: priority as any,
-        status: status as any,
-        assignedToId: assignedToId || undefined,
+    const task = await withAudit(
+      { actorId: session.user.id, entityType: "TASK", action: "CREATE" },
+      async (tx) => {
+        // New tasks start in the project's first status unless one is chosen
+        const workflowStatus = await resolveWorkflowStatus(tx, projectId, {
+          workflowStatusId,
+          category: status as TaskStatus | null,
+        });
+        await assertWithinWipLimit(tx, workflowStatus);
+
+        const created = await tx.task.create({
+          data: {
+            title,
+            description,
+            projectId,
+            priority: priority as any,
+            status: workflowStatus.category,
+            workflowStatusId: workflowStatus.id,
+            assignedToId: assignedToId || undefined,
+            startDate,
+            dueDate,
+            estimateHours,
+            parentId,
+            position: await getEndPosition(tx, columnOf(workflowStatus)),
+          },
+        });
+        await recordTaskEvents(tx, session.user.id, null, created);
+        return created;
       },
-    });
+    );
     console.log("Task created:", task);
     revalidatePath(`/dashboard/projects/${projectId}`);
     revalidatePath("/dashboard/tasks");
@@ -211,7 +631,7 @@ export async function createTask(formData: FormData) : Promise<{ success: boolea
 /**
  * Update a task
  */
-export async function updateTask(formData: FormData) : Promise<{ success: boolean; error?: string ; taskId?: string }> {
+export async function updateTask(formData: FormData) : Promise<{ success: boolean; error?: string ; taskId?: string; warning?: string }> {
   try {
     const session = await getCurrentSession();
     
@@ -221,7 +641,7 @@ export async function updateTask(formData: FormData) : Promise<{ success: boolea
     
     // Check if user has permission to update tasks
     const isAdmin = session.user.role === "ADMIN" || session.user.role === "MANAGER";
-    const canUpdateTask = hasPermission(session.user.role, "tasks", "update");
+    const canUpdateTask = await checkPermission(session.user, "tasks", "update");
     
     if (!canUpdateTask) {
       throw new Error("You don't have permission to update tasks");
@@ -232,11 +652,13 @@ export async function updateTask(formData: FormData) : Promise<{ success: boolea
     const description = formData.get("description") as string;
     const projectId = formData.get("projectId") as string;
     const priority = formData.get("priority") as string;
-    const status = formData.get("status") as string;
+    const status = formData.get("status") as string || null;
+    const workflowStatusId = formData.get("workflowStatusId") as string || null;
     const assignedToId = formData.get("assignedToId") as string || null;
+    const schedule = parseTaskSchedule(formData);
     
     // Validate data
-    if (!id || !title || !projectId || !status || !priority) {
+    if (!id || !title || !projectId || !priority || !(status || workflowStatusId)) {
       throw new Error("Task ID, title, project, status, and priority are required");
     }
     
@@ -248,6 +670,16 @@ export async function updateTask(formData: FormData) : Promise<{ success: boolea
     if (!existingTask) {
       throw new Error("Task not found");
     }
+
+    // Check the dates against each other, including ones this update leaves unchanged
+    const startDate = schedule.startDate === undefined ? existingTask.startDate : schedule.startDate;
+    const dueDate = schedule.dueDate === undefined ? existingTask.dueDate : schedule.dueDate;
+
+    if (startDate && dueDate && dueDate < startDate) {
+      throw new Error("Due date cannot be before the start date");
+    }
+    
+    let warning: string | undefined;
     
     // For employee role, only allow updating status (and only their own tasks)
     if (session.user.role === "EMPLOYEE") {
@@ -266,37 +698,162 @@ export async function updateTask(formData: FormData) : Promise<{ success: boolea
       }
       
       // Employees can only update task status
-      await prisma.task.update({
-        where: { id },
-        data: {
-          status: status as any,
+      await withAudit(
+        { actorId: session.user.id, entityType: "TASK", action: "UPDATE", before: existingTask },
+        async (tx) => {
+          const target = await getTargetStatus(tx, existingTask, existingTask.projectId, { workflowStatusId, status });
+          warning = await getBlockerWarning(tx, existingTask, target.category);
+
+          const updated = await tx.task.update({
+            where: { id },
+            data: {
+              status: target.category,
+              workflowStatusId: target.id,
+              ...(target.id !== existingTask.workflowStatusId ? { position: await getEndPosition(tx, columnOf(target)) } : {}),
+            },
+          });
+          await recordTaskEvents(tx, session.user.id, existingTask, updated);
+          return updated;
         },
-      });
+      );
     } else {
       // Admin/Manager can update all fields
-      await prisma.task.update({
-        where: { id },
-        data: {
-          title,
-          description,
-          projectId,
-          priority: priority as any,
-          status: status as any,
-          assignedToId: assignedToId || null,
+      if (assignedToId && assignedToId !== existingTask.assignedToId) {
+        await assertAssignable(assignedToId);
+      }
+      
+      if (projectId !== existingTask.projectId) {
+        const subtaskCount = await prisma.task.count({
+          where: { parentId: id },
+        });
+        
+        if (existingTask.parentId) {
+          throw new Error("A subtask must stay in its parent task's project");
+        }
+        
+        if (subtaskCount > 0) {
+          throw new Error("Tasks with subtasks can't be moved to another project");
+        }
+      }
+      
+      await withAudit(
+        { actorId: session.user.id, entityType: "TASK", action: "UPDATE", before: existingTask },
+        async (tx) => {
+          const target = await getTargetStatus(tx, existingTask, projectId, { workflowStatusId, status });
+          warning = await getBlockerWarning(tx, existingTask, target.category);
+
+          const updated = await tx.task.update({
+            where: { id },
+            data: {
+              title,
+              description,
+              projectId,
+              priority: priority as any,
+              status: target.category,
+              workflowStatusId: target.id,
+              assignedToId: assignedToId || null,
+              ...schedule,
+              // A task moved to another status goes to the bottom of that column
+              ...(target.id !== existingTask.workflowStatusId ? { position: await getEndPosition(tx, columnOf(target)) } : {}),
+            },
+          });
+          await recordTaskEvents(tx, session.user.id, existingTask, updated);
+          return updated;
         },
-      });
+      );
     }
     
     revalidatePath(`/dashboard/tasks/${id}`);
     revalidatePath(`/dashboard/projects/${projectId}`);
     revalidatePath("/dashboard/tasks");
-    return { success: true, taskId: id };
+    return { success: true, taskId: id, warning };
   } catch (error) {
     console.error("Error updating task:", error);
     return { success: false,error: error instanceof Error ? error.message : "Failed to update task" };
   }
 }
 
+/**
+ * Move a Kanban card to a column, directly below `afterId` and/or above `beforeId`. Project
+ * boards pass the workflow status of the column; the all-projects board passes a category.
+ * Moving within a column only changes the order.
+ */
+export async function moveTask({
+  id,
+  status,
+  workflowStatusId,
+  afterId,
+  beforeId,
+}: {
+  id: string;
+  status?: string;
+  workflowStatusId?: string;
+  afterId?: string;
+  beforeId?: string;
+}) {
+  try {
+    const session = await getCurrentSession();
+    
+    if (!session?.user) {
+      redirect("/login");
+    }
+    
+    // Check if user has permission to update tasks
+    if (!(await checkPermission(session.user, "tasks", "update"))) {
+      throw new Error("You don't have permission to update tasks");
+    }
+    
+    const existingTask = await prisma.task.findUnique({
+      where: { id },
+    });
+    
+    if (!existingTask) {
+      throw new Error("Task not found");
+    }
+    
+    // Employees can only move tasks assigned to them
+    if (session.user.role === "EMPLOYEE") {
+      const employee = await prisma.employee.findUnique({
+        where: { userId: session.user.id },
+      });
+      
+      if (!employee || existingTask.assignedToId !== employee.id) {
+        throw new Error("You can only update tasks assigned to you");
+      }
+    }
+    
+    let warning: string | undefined;
+    
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK", action: "UPDATE", before: existingTask },
+      async (tx) => {
+        const target = await getTargetStatus(tx, existingTask, existingTask.projectId, { workflowStatusId, status });
+        warning = await getBlockerWarning(tx, existingTask, target.category);
+
+        const position = await getDropPosition(tx, { id, column: columnOf(target), afterId, beforeId });
+        const updated = await tx.task.update({
+          where: { id },
+          data: {
+            status: target.category,
+            workflowStatusId: target.id,
+            position,
+          },
+        });
+        await recordTaskEvents(tx, session.user.id, existingTask, updated);
+        return updated;
+      },
+    );
+    
+    revalidatePath(`/dashboard/tasks/${id}`);
+    revalidatePath(`/dashboard/projects/${existingTask.projectId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true, warning };
+  } catch (error) {
+    console.error("Error moving task:", error);
+    return { error: error instanceof Error ? error.message : "Failed to move task" };
+  }
+}
+
 /**
  * Delete a task
  */
@@ -309,7 +866,7 @@ export async function deleteTask(id: string) {
     }
     
     // Check if user has permission to delete tasks
-    if (!hasPermission(session.user.role, "tasks", "delete")) {
+    if (!(await checkPermission(session.user, "tasks", "delete"))) {
       throw new Error("You don't have permission to delete tasks");
     }
     
@@ -323,9 +880,15 @@ export async function deleteTask(id: string) {
     }
     
     // Delete task
-    await prisma.task.delete({
-      where: { id },
-    });
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK", action: "DELETE", before: task },
+      async (tx) => {
+        await tx.task.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
     
     revalidatePath(`/dashboard/projects/${task.projectId}`);
     revalidatePath("/dashboard/tasks");
@@ -348,11 +911,12 @@ export async function getEmployeesForAssignment() {
     }
     
     // Check if user has permission to read employees
-    if (!hasPermission(session.user.role, "employees", "read")) {
+    if (!(await checkPermission(session.user, "employees", "read"))) {
       throw new Error("You don't have permission to view employees");
     }
     
     const employees = await prisma.employee.findMany({
+      where: { status: { not: "TERMINATED" } },
       include: {
         user: {
           select: {
@@ -0,0 +1,168 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+import type { Session } from "next-auth";
+
+const MAX_ITEM_LENGTH = 500;
+
+// Validate the text of a checklist item
+function parseItemText(text: string) {
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    throw new Error("Checklist item cannot be empty");
+  }
+
+  if (trimmed.length > MAX_ITEM_LENGTH) {
+    throw new Error(`Checklist item cannot be longer than ${MAX_ITEM_LENGTH} characters`);
+  }
+
+  return trimmed;
+}
+
+// Check the user may edit a task's checklist; employees only for tasks assigned to them
+async function assertCanEditChecklist(user: Session["user"], taskId: string) {
+  if (!(await checkPermission(user, "tasks", "update"))) {
+    throw new Error("You don't have permission to edit checklists");
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { assignedTo: { select: { userId: true } } },
+  });
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  if (user.role === ROLES.EMPLOYEE && task.assignedTo?.userId !== user.id) {
+    throw new Error("You can only edit checklists of tasks assigned to you");
+  }
+}
+
+/**
+ * Add an item to the end of a task's checklist
+ */
+export async function addChecklistItem(taskId: string, text: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    await assertCanEditChecklist(session.user, taskId);
+
+    const itemText = parseItemText(text);
+
+    const created = await withAudit(
+      { actorId: session.user.id, entityType: "CHECKLIST_ITEM", action: "CREATE" },
+      async (tx) => {
+        const last = await tx.checklistItem.findFirst({
+          where: { taskId },
+          orderBy: { order: "desc" },
+        });
+
+        return tx.checklistItem.create({
+          data: {
+            taskId,
+            text: itemText,
+            order: (last?.order ?? -1) + 1,
+          },
+        });
+      },
+    );
+
+    revalidatePath(`/dashboard/tasks/${taskId}`);
+    return { success: true, itemId: created.id };
+  } catch (error) {
+    console.error("Error adding checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to add checklist item" };
+  }
+}
+
+/**
+ * Rename a checklist item or tick it off
+ */
+export async function updateChecklistItem(id: string, data: { text?: string; completed?: boolean }) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const existingItem = await prisma.checklistItem.findUnique({
+      where: { id },
+    });
+
+    if (!existingItem) {
+      throw new Error("Checklist item not found");
+    }
+
+    await assertCanEditChecklist(session.user, existingItem.taskId);
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "CHECKLIST_ITEM", action: "UPDATE", before: existingItem },
+      (tx) =>
+        tx.checklistItem.update({
+          where: { id },
+          data: {
+            ...(data.text !== undefined ? { text: parseItemText(data.text) } : {}),
+            ...(data.completed !== undefined ? { completed: data.completed } : {}),
+          },
+        }),
+    );
+
+    revalidatePath(`/dashboard/tasks/${existingItem.taskId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update checklist item" };
+  }
+}
+
+/**
+ * Remove an item from a task's checklist
+ */
+export async function deleteChecklistItem(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const item = await prisma.checklistItem.findUnique({
+      where: { id },
+    });
+
+    if (!item) {
+      throw new Error("Checklist item not found");
+    }
+
+    await assertCanEditChecklist(session.user, item.taskId);
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "CHECKLIST_ITEM", action: "DELETE", before: item },
+      async (tx) => {
+        await tx.checklistItem.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath(`/dashboard/tasks/${item.taskId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting checklist item:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete checklist item" };
+  }
+}
@@ -0,0 +1,255 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { getMentionedEmployeeIds } from "@/lib/tasks";
+import { redirect } from "next/navigation";
+
+const MAX_COMMENT_LENGTH = 5000;
+
+// Validate a comment body and resolve the employees it mentions
+async function parseCommentBody(body: string) {
+  const trimmed = body.trim();
+
+  if (!trimmed) {
+    throw new Error("Comment cannot be empty");
+  }
+
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  // Mentions of employees that no longer exist are left in the text but not linked
+  const mentionedIds = getMentionedEmployeeIds(trimmed);
+  const mentions = mentionedIds.length
+    ? await prisma.employee.findMany({
+        where: { id: { in: mentionedIds } },
+        select: { id: true },
+      })
+    : [];
+
+  return { body: trimmed, mentions };
+}
+
+/**
+ * Get the discussion thread of a task, oldest comment first
+ */
+export async function getTaskComments(taskId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view comments");
+    }
+
+    // Check if user has permission to read tasks
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
+      throw new Error("You don't have permission to view comments");
+    }
+
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        author: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    return { comments };
+  } catch (error) {
+    console.error("Error getting task comments:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get comments" };
+  }
+}
+
+/**
+ * Get the employees that can be @mentioned in a comment
+ */
+export async function getMentionableEmployees() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view employees");
+    }
+
+    // Anyone who can read tasks can mention a colleague
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
+      throw new Error("You don't have permission to view employees");
+    }
+
+    const employees = await prisma.employee.findMany({
+      where: { status: { not: "TERMINATED" } },
+      select: {
+        id: true,
+        user: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      orderBy: { user: { name: "asc" } },
+    });
+
+    return {
+      employees: employees.map((employee) => ({
+        id: employee.id,
+        name: employee.user.name || "Unnamed employee",
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting mentionable employees:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get employees" };
+  }
+}
+
+/**
+ * Add a comment to a task. Employees can only comment on tasks assigned to them.
+ */
+export async function addTaskComment(taskId: string, body: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to read tasks
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
+      throw new Error("You don't have permission to comment on tasks");
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: { assignedTo: { select: { userId: true } } },
+    });
+
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    if (session.user.role === ROLES.EMPLOYEE && task.assignedTo?.userId !== session.user.id) {
+      throw new Error("You can only comment on tasks assigned to you");
+    }
+
+    const comment = await parseCommentBody(body);
+
+    const created = await withAudit(
+      { actorId: session.user.id, entityType: "TASK_COMMENT", action: "CREATE" },
+      (tx) =>
+        tx.taskComment.create({
+          data: {
+            taskId,
+            authorId: session.user.id,
+            body: comment.body,
+            mentions: { connect: comment.mentions },
+          },
+        }),
+    );
+
+    revalidatePath(`/dashboard/tasks/${taskId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true, commentId: created.id };
+  } catch (error) {
+    console.error("Error adding task comment:", error);
+    return { error: error instanceof Error ? error.message : "Failed to add comment" };
+  }
+}
+
+/**
+ * Edit a comment; only its author can do this
+ */
+export async function updateTaskComment(id: string, body: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const existingComment = await prisma.taskComment.findUnique({
+      where: { id },
+    });
+
+    if (!existingComment) {
+      throw new Error("Comment not found");
+    }
+
+    if (existingComment.authorId !== session.user.id) {
+      throw new Error("You can only edit your own comments");
+    }
+
+    const comment = await parseCommentBody(body);
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK_COMMENT", action: "UPDATE", before: existingComment },
+      (tx) =>
+        tx.taskComment.update({
+          where: { id },
+          data: {
+            body: comment.body,
+            editedAt: new Date(),
+            mentions: { set: comment.mentions },
+          },
+        }),
+    );
+
+    revalidatePath(`/dashboard/tasks/${existingComment.taskId}`);
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating task comment:", error);
+    return { error: error instanceof Error ? error.message : "Failed to update comment" };
+  }
+}
+
+/**
+ * Delete a comment; only its author can do this
+ */
+export async function deleteTaskComment(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const comment = await prisma.taskComment.findUnique({
+      where: { id },
+    });
+
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    if (comment.authorId !== session.user.id) {
+      throw new Error("You can only delete your own comments");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK_COMMENT", action: "DELETE", before: comment },
+      async (tx) => {
+        await tx.taskComment.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath(`/dashboard/tasks/${comment.taskId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting task comment:", error);
+    return { error: error instanceof Error ? error.message : "Failed to delete comment" };
+  }
+}
@@ -0,0 +1,189 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+import type { Session } from "next-auth";
+
+const MAX_CANDIDATES = 20;
+
+// Check the user may link these tasks; employees must be assigned to one of them
+async function assertCanEditDependency(user: Session["user"], taskIds: string[]) {
+  if (!(await checkPermission(user, "tasks", "update"))) {
+    throw new Error("You don't have permission to edit task dependencies");
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    include: { assignedTo: { select: { userId: true } } },
+  });
+
+  if (tasks.length !== new Set(taskIds).size) {
+    throw new Error("Task not found");
+  }
+
+  if (user.role === ROLES.EMPLOYEE && !tasks.some((task) => task.assignedTo?.userId === user.id)) {
+    throw new Error("You can only edit dependencies of tasks assigned to you");
+  }
+}
+
+// Whether blockedTaskId already blocks blockerId, directly or through other tasks
+async function createsCycle(blockerId: string, blockedTaskId: string) {
+  const visited = new Set([blockerId]);
+  let frontier = [blockerId];
+
+  while (frontier.length) {
+    const links = await prisma.taskDependency.findMany({
+      where: { blockedTaskId: { in: frontier } },
+      select: { blockerId: true },
+    });
+
+    frontier = [];
+
+    for (const { blockerId: id } of links) {
+      if (id === blockedTaskId) {
+        return true;
+      }
+
+      if (!visited.has(id)) {
+        visited.add(id);
+        frontier.push(id);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find tasks, in any project, that could be linked to a task as blockers or blocked tasks
+ */
+export async function getDependencyCandidates(taskId: string, query: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to search tasks");
+    }
+
+    // Check if user has permission to read tasks
+    if (!(await checkPermission(session.user, "tasks", "read"))) {
+      throw new Error("You don't have permission to view tasks");
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        id: { not: taskId },
+        ...(query.trim() ? { title: { contains: query.trim() } } : {}),
+      },
+      orderBy: { updatedAt: "desc" },
+      take: MAX_CANDIDATES,
+      select: {
+        id: true,
+        title: true,
+        project: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    return { tasks };
+  } catch (error) {
+    console.error("Error getting dependency candidates:", error);
+    return { error: error instanceof Error ? error.message : "Failed to search tasks" };
+  }
+}
+
+/**
+ * Record that `blockerId` blocks `blockedTaskId`. Links that would form a cycle are rejected.
+ */
+export async function addTaskDependency(blockerId: string, blockedTaskId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    if (blockerId === blockedTaskId) {
+      throw new Error("A task can't block itself");
+    }
+
+    await assertCanEditDependency(session.user, [blockerId, blockedTaskId]);
+
+    const existing = await prisma.taskDependency.findUnique({
+      where: { blockerId_blockedTaskId: { blockerId, blockedTaskId } },
+    });
+
+    if (existing) {
+      throw new Error("These tasks are already linked");
+    }
+
+    if (await createsCycle(blockerId, blockedTaskId)) {
+      throw new Error("This link would create a circular dependency");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK_DEPENDENCY", action: "CREATE" },
+      (tx) =>
+        tx.taskDependency.create({
+          data: { blockerId, blockedTaskId },
+        }),
+    );
+
+    revalidatePath(`/dashboard/tasks/${blockerId}`);
+    revalidatePath(`/dashboard/tasks/${blockedTaskId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true };
+  } catch (error) {
+    console.error("Error adding task dependency:", error);
+    return { error: error instanceof Error ? error.message : "Failed to add dependency" };
+  }
+}
+
+/**
+ * Remove a link between two tasks
+ */
+export async function removeTaskDependency(id: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    const dependency = await prisma.taskDependency.findUnique({
+      where: { id },
+    });
+
+    if (!dependency) {
+      throw new Error("Dependency not found");
+    }
+
+    await assertCanEditDependency(session.user, [dependency.blockerId, dependency.blockedTaskId]);
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TASK_DEPENDENCY", action: "DELETE", before: dependency },
+      async (tx) => {
+        await tx.taskDependency.delete({
+          where: { id },
+        });
+        return null;
+      },
+    );
+
+    revalidatePath(`/dashboard/tasks/${dependency.blockerId}`);
+    revalidatePath(`/dashboard/tasks/${dependency.blockedTaskId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing task dependency:", error);
+    return { error: error instanceof Error ? error.message : "Failed to remove dependency" };
+  }
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db, tx } = vi.hoisted(() => {
+  const tx = {
+    timesheet: { create: vi.fn(), update: vi.fn() },
+    timeEntry: { deleteMany: vi.fn(), createMany: vi.fn() },
+    auditLog: { create: vi.fn() },
+  };
+
+  return {
+    getCurrentSession: vi.fn(),
+    tx,
+    db: {
+      role: { findMany: vi.fn() },
+      employee: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+      timesheet: { findUnique: vi.fn(), findMany: vi.fn() },
+      task: { findMany: vi.fn() },
+      $transaction: vi.fn((mutate: (client: typeof tx) => unknown) => mutate(tx)),
+    },
+  };
+});
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { getTimesheetApprovals, reviewTimesheet, saveTimesheet } from "@/lib/actions/timesheet-actions";
+
+const manager = { id: "manager-1", role: "MANAGER" };
+
+const submitted = {
+  id: "timesheet-1",
+  employeeId: "emp-other",
+  status: "SUBMITTED",
+  entries: [{ hours: 8 }],
+};
+
+describe("timesheet approvals for managers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: manager });
+    db.role.findMany.mockResolvedValue([]);
+    // The manager's employee record and their one report
+    db.employee.findUnique.mockResolvedValue({ id: "emp-manager" });
+    db.employee.findMany.mockImplementation(({ where }) =>
+      where.managerId.in.includes("emp-manager") ? [{ id: "emp-report" }] : [],
+    );
+    db.employee.count.mockResolvedValue(0);
+    db.timesheet.findUnique.mockResolvedValue(submitted);
+    db.timesheet.findMany.mockResolvedValue([]);
+  });
+
+  it("lists only the manager's reports' weeks", async () => {
+    await getTimesheetApprovals();
+
+    expect(db.timesheet.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: "SUBMITTED", employee: { id: { in: ["emp-report"] } } } }),
+    );
+  });
+
+  it("rejects a manager reviewing someone outside their reports", async () => {
+    await expect(reviewTimesheet("timesheet-1", true)).resolves.toEqual({
+      error: "You can only review timesheets of employees who report to you",
+    });
+    expect(tx.timesheet.update).not.toHaveBeenCalled();
+  });
+
+  it("lets a manager review a report's week", async () => {
+    db.employee.count.mockResolvedValue(1);
+    tx.timesheet.update.mockResolvedValue({ ...submitted, status: "APPROVED" });
+
+    await expect(reviewTimesheet("timesheet-1", true)).resolves.toEqual({ success: true });
+  });
+});
+
+describe("saveTimesheet", () => {
+  const week = "2026-06-01";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role: "EMPLOYEE" } });
+    db.role.findMany.mockResolvedValue([]);
+    db.employee.findUnique.mockResolvedValue({ id: "emp-1", status: "ACTIVE" });
+    db.timesheet.findUnique.mockResolvedValue(null);
+    // Only task-mine is assigned to the employee
+    db.task.findMany.mockImplementation(({ where }) =>
+      where.id.in.filter((id: string) => id === "task-mine").map((id: string) => ({ id })),
+    );
+    tx.timesheet.create.mockResolvedValue({ id: "timesheet-1" });
+  });
+
+  it("rejects hours on a task that isn't assigned to the employee", async () => {
+    await expect(
+      saveTimesheet(week, [
+        { taskId: "task-mine", date: "2026-06-01", hours: 8 },
+        { taskId: "task-other", date: "2026-06-02", hours: 10 },
+      ]),
+    ).resolves.toEqual({ error: "You can only log time on tasks assigned to you" });
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-mine", "task-other"] }, assignedToId: "emp-1" },
+      select: { id: true },
+    });
+    expect(tx.timeEntry.createMany).not.toHaveBeenCalled();
+  });
+
+  it("saves hours on the employee's own tasks", async () => {
+    await expect(saveTimesheet(week, [{ taskId: "task-mine", date: "2026-06-01", hours: 8 }])).resolves.toEqual({
+      success: true,
+    });
+    expect(tx.timeEntry.createMany).toHaveBeenCalled();
+  });
+
+  it("keeps hours already logged on a task that has since been reassigned", async () => {
+    db.timesheet.findUnique.mockResolvedValue({ id: "timesheet-1", status: "DRAFT", entries: [{ taskId: "task-moved" }] });
+    tx.timesheet.update.mockResolvedValue({ id: "timesheet-1" });
+
+    await expect(saveTimesheet(week, [{ taskId: "task-moved", date: "2026-06-01", hours: 4 }])).resolves.toEqual({
+      success: true,
+    });
+  });
+});
@@ -0,0 +1,468 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { checkPermission } from "@/lib/permissions";
+import { getManagerScope, isInManagerScope } from "@/lib/org";
+import { withAudit } from "@/lib/audit";
+import { getOvertimeHours, getWeekDays, parseWeekStart } from "@/lib/timesheets";
+import { redirect } from "next/navigation";
+
+/**
+ * One cell of the weekly grid as sent by the timesheet screen
+ */
+export interface TimeEntryInput {
+  taskId: string;
+  date: string; // yyyy-MM-dd
+  hours: number;
+}
+
+const entryInclude = {
+  task: {
+    select: {
+      id: true,
+      title: true,
+      project: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} as const;
+
+// Total hours of a timesheet's entries
+function sumHours(entries: Array<{ hours: number }>) {
+  return entries.reduce((sum, entry) => sum + entry.hours, 0);
+}
+
+// Find the signed-in user's employee record; terminated employees can no longer log time
+async function getOwnEmployee(userId: string) {
+  const employee = await prisma.employee.findUnique({
+    where: { userId },
+    select: { id: true, status: true },
+  });
+
+  if (!employee) {
+    throw new Error("Your account isn't linked to an employee record");
+  }
+
+  if (employee.status === "TERMINATED") {
+    throw new Error("Your employment has ended");
+  }
+
+  return employee;
+}
+
+/**
+ * Get the signed-in user's timesheet for a week, plus the tasks they can log time against
+ * @param week Any day of the week (yyyy-MM-dd); defaults to this week
+ */
+export async function getMyTimesheet(week?: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view timesheets");
+    }
+
+    // Check if user has permission to read timesheets
+    if (!(await checkPermission(session.user, "timesheets", "read"))) {
+      throw new Error("You don't have permission to view timesheets");
+    }
+
+    const weekStart = parseWeekStart(week);
+    const employee = await prisma.employee.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true },
+    });
+
+    if (!employee) {
+      return { weekStart, employee: null, timesheet: null, tasks: [] };
+    }
+
+    const [timesheet, tasks] = await Promise.all([
+      prisma.timesheet.findUnique({
+        where: { employeeId_weekStart: { employeeId: employee.id, weekStart } },
+        include: {
+          entries: {
+            include: entryInclude,
+          },
+          reviewedBy: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      }),
+      // Open tasks assigned to the employee
+      prisma.task.findMany({
+        where: {
+          assignedToId: employee.id,
+          status: { not: "DONE" },
+        },
+        select: entryInclude.task.select,
+        orderBy: [
+          { project: { name: "asc" } },
+          { title: "asc" },
+        ],
+      }),
+    ]);
+
+    return { weekStart, employee, timesheet, tasks };
+  } catch (error) {
+    console.error("Error getting timesheet:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get timesheet" };
+  }
+}
+
+/**
+ * Replace the hours on the signed-in user's timesheet for a week. Submitted and approved weeks are locked;
+ * saving a rejected week turns it back into a draft.
+ */
+export async function saveTimesheet(week: string, entries: TimeEntryInput[]) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to log time
+    if (!(await checkPermission(session.user, "timesheets", "create"))) {
+      throw new Error("You don't have permission to log time");
+    }
+
+    const employee = await getOwnEmployee(session.user.id);
+    const weekStart = parseWeekStart(week);
+    const weekDays = new Map(getWeekDays(weekStart).map((day) => [day.toISOString().slice(0, 10), day]));
+
+    // Validate data; empty cells are dropped
+    const rows = entries.filter((entry) => entry.hours !== 0);
+    const dailyTotals = new Map<string, number>();
+
+    for (const entry of rows) {
+      if (!weekDays.has(entry.date)) {
+        throw new Error("Hours must fall within the selected week");
+      }
+
+      if (!Number.isFinite(entry.hours) || entry.hours < 0 || entry.hours > 24) {
+        throw new Error("Hours must be between 0 and 24");
+      }
+
+      dailyTotals.set(entry.date, (dailyTotals.get(entry.date) ?? 0) + entry.hours);
+
+      if (dailyTotals.get(entry.date)! > 24) {
+        throw new Error("You can't log more than 24 hours in a day");
+      }
+    }
+
+    const existing = await prisma.timesheet.findUnique({
+      where: { employeeId_weekStart: { employeeId: employee.id, weekStart } },
+      include: { entries: { select: { taskId: true } } },
+    });
+
+    if (existing && (existing.status === "SUBMITTED" || existing.status === "APPROVED")) {
+      throw new Error("This week has been submitted and can no longer be edited");
+    }
+
+    // Time is logged against the employee's own tasks; tasks already on the week stay if since reassigned
+    const taskIds = [...new Set(rows.map((entry) => entry.taskId))];
+    const assigned = await prisma.task.findMany({
+      where: { id: { in: taskIds }, assignedToId: employee.id },
+      select: { id: true },
+    });
+    const allowed = new Set([...assigned.map((task) => task.id), ...(existing?.entries.map((entry) => entry.taskId) ?? [])]);
+
+    if (taskIds.some((taskId) => !allowed.has(taskId))) {
+      throw new Error("You can only log time on tasks assigned to you");
+    }
+
+    // Draft hours aren't audited; the week is audited when it is submitted and reviewed
+    await prisma.$transaction(async (tx) => {
+      const timesheet = existing
+        ? await tx.timesheet.update({
+            where: { id: existing.id },
+            data: { status: "DRAFT" },
+          })
+        : await tx.timesheet.create({
+            data: { employeeId: employee.id, weekStart },
+          });
+
+      await tx.timeEntry.deleteMany({
+        where: { timesheetId: timesheet.id },
+      });
+
+      await tx.timeEntry.createMany({
+        data: rows.map((entry) => ({
+          timesheetId: timesheet.id,
+          taskId: entry.taskId,
+          date: weekDays.get(entry.date)!,
+          hours: entry.hours,
+        })),
+      });
+    });
+
+    revalidatePath("/dashboard/timesheets");
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving timesheet:", error);
+    return { error: error instanceof Error ? error.message : "Failed to save timesheet" };
+  }
+}
+
+/**
+ * Submit the signed-in user's week for manager approval
+ */
+export async function submitTimesheet(week: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to log time
+    if (!(await checkPermission(session.user, "timesheets", "create"))) {
+      throw new Error("You don't have permission to log time");
+    }
+
+    const employee = await getOwnEmployee(session.user.id);
+    const timesheet = await prisma.timesheet.findUnique({
+      where: { employeeId_weekStart: { employeeId: employee.id, weekStart: parseWeekStart(week) } },
+    });
+
+    if (!timesheet || (await prisma.timeEntry.count({ where: { timesheetId: timesheet.id } })) === 0) {
+      throw new Error("Log some hours before submitting the week");
+    }
+
+    if (timesheet.status !== "DRAFT" && timesheet.status !== "REJECTED") {
+      throw new Error("This week has already been submitted");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TIMESHEET", action: "UPDATE", before: timesheet },
+      (tx) =>
+        tx.timesheet.update({
+          where: { id: timesheet.id },
+          data: {
+            status: "SUBMITTED",
+            submittedAt: new Date(),
+          },
+        }),
+    );
+
+    revalidatePath("/dashboard/timesheets");
+    return { success: true };
+  } catch (error) {
+    console.error("Error submitting timesheet:", error);
+    return { error: error instanceof Error ? error.message : "Failed to submit timesheet" };
+  }
+}
+
+/**
+ * Get submitted weeks waiting for approval, with their hours
+ */
+export async function getTimesheetApprovals() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view timesheets");
+    }
+
+    if (!(await checkPermission(session.user, "timesheets", "update"))) {
+      return { canReview: false, timesheets: [] };
+    }
+
+    // Managers only see their reports' weeks
+    const scope = await getManagerScope(prisma, session.user);
+
+    const timesheets = await prisma.timesheet.findMany({
+      where: {
+        status: "SUBMITTED",
+        ...(scope ? { employee: scope } : {}),
+      },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            department: { select: { name: true } },
+            user: {
+              select: {
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+        entries: {
+          include: entryInclude,
+          orderBy: { date: "asc" },
+        },
+      },
+      orderBy: { weekStart: "asc" },
+    });
+
+    return {
+      canReview: true,
+      timesheets: timesheets.map((timesheet) => {
+        const totalHours = sumHours(timesheet.entries);
+        return { ...timesheet, totalHours, overtimeHours: getOvertimeHours(totalHours) };
+      }),
+    };
+  } catch (error) {
+    console.error("Error getting timesheet approvals:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get timesheet approvals" };
+  }
+}
+
+/**
+ * Approve or reject a submitted week. Approval fixes the week's overtime, which payroll can then pay out.
+ */
+export async function reviewTimesheet(id: string, approve: boolean, note?: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to approve timesheets
+    if (!(await checkPermission(session.user, "timesheets", "update"))) {
+      throw new Error("You don't have permission to review timesheets");
+    }
+
+    const [timesheet, employee] = await Promise.all([
+      prisma.timesheet.findUnique({
+        where: { id },
+        include: { entries: { select: { hours: true } } },
+      }),
+      prisma.employee.findUnique({ where: { userId: session.user.id }, select: { id: true } }),
+    ]);
+
+    if (!timesheet) {
+      throw new Error("Timesheet not found");
+    }
+
+    if (timesheet.status !== "SUBMITTED") {
+      throw new Error("This week isn't waiting for approval");
+    }
+
+    if (timesheet.employeeId === employee?.id) {
+      throw new Error("You can't review your own timesheet");
+    }
+
+    if (!(await isInManagerScope(prisma, session.user, timesheet.employeeId))) {
+      throw new Error("You can only review timesheets of employees who report to you");
+    }
+
+    const reviewNote = note?.trim() || null;
+
+    if (!approve && !reviewNote) {
+      throw new Error("Give a reason for rejecting the timesheet");
+    }
+
+    const { entries, ...before } = timesheet;
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "TIMESHEET", action: "UPDATE", before },
+      (tx) =>
+        tx.timesheet.update({
+          where: { id },
+          data: {
+            status: approve ? "APPROVED" : "REJECTED",
+            reviewedAt: new Date(),
+            reviewedById: session.user.id,
+            reviewNote,
+            overtimeHours: approve ? getOvertimeHours(sumHours(entries)) : 0,
+          },
+        }),
+    );
+
+    revalidatePath("/dashboard/timesheets");
+    revalidatePath("/dashboard/payroll");
+    return { success: true };
+  } catch (error) {
+    console.error("Error reviewing timesheet:", error);
+    return { error: error instanceof Error ? error.message : "Failed to review timesheet" };
+  }
+}
+
+/**
+ * Hours logged per project and task against their estimates. Approved hours are reported
+ * separately from hours still in draft or awaiting approval.
+ */
+export async function getTimesheetReport() {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view reports");
+    }
+
+    // Reports cover everyone's time, so they are for reviewers only
+    if (!(await checkPermission(session.user, "timesheets", "update"))) {
+      throw new Error("You don't have permission to view timesheet reports");
+    }
+
+    const [projects, approved, logged] = await Promise.all([
+      prisma.project.findMany({
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          tasks: {
+            select: {
+              id: true,
+              title: true,
+              estimateHours: true,
+            },
+            orderBy: { title: "asc" },
+          },
+        },
+        orderBy: { name: "asc" },
+      }),
+      prisma.timeEntry.groupBy({
+        by: ["taskId"],
+        where: { timesheet: { status: "APPROVED" } },
+        _sum: { hours: true },
+      }),
+      prisma.timeEntry.groupBy({
+        by: ["taskId"],
+        where: { timesheet: { status: { not: "REJECTED" } } },
+        _sum: { hours: true },
+      }),
+    ]);
+
+    const approvedByTask = new Map(approved.map((row) => [row.taskId, row._sum.hours ?? 0]));
+    const loggedByTask = new Map(logged.map((row) => [row.taskId, row._sum.hours ?? 0]));
+
+    const report = projects.map((project) => {
+      const tasks = project.tasks
+        .map((task) => ({
+          ...task,
+          approvedHours: approvedByTask.get(task.id) ?? 0,
+          loggedHours: loggedByTask.get(task.id) ?? 0,
+        }))
+        .filter((task) => task.loggedHours > 0 || task.estimateHours != null);
+
+      return {
+        id: project.id,
+        name: project.name,
+        status: project.status,
+        estimateHours: tasks.reduce((sum, task) => sum + (task.estimateHours ?? 0), 0),
+        approvedHours: tasks.reduce((sum, task) => sum + task.approvedHours, 0),
+        loggedHours: tasks.reduce((sum, task) => sum + task.loggedHours, 0),
+        tasks,
+      };
+    });
+
+    return { projects: report };
+  } catch (error) {
+    console.error("Error getting timesheet report:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get timesheet report" };
+  }
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { getCurrentSession, db, tx } = vi.hoisted(() => {
+  const tx = {
+    user: { count: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+  };
+
+  return {
+    getCurrentSession: vi.fn(),
+    tx,
+    db: {
+      user: { findUnique: vi.fn() },
+      role: { findUnique: vi.fn() },
+      $transaction: vi.fn((mutate: (client: typeof tx) => unknown) => mutate(tx)),
+    },
+  };
+});
+
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+  unstable_cache: <T>(fn: T) => fn,
+}));
+vi.mock("@/auth", () => ({ getCurrentSession }));
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import { updateUserRole } from "@/lib/actions/user-actions";
+
+const targetAdmin = { id: "admin-2", name: "Ada", email: "ada@example.com", role: "ADMIN", customRoleId: null };
+
+describe("updateUserRole", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Rejections are logged by the code under test
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    getCurrentSession.mockResolvedValue({ user: { id: "admin-1", role: "ADMIN" } });
+    db.user.findUnique.mockResolvedValue(targetAdmin);
+    tx.user.count.mockResolvedValue(2);
+    tx.user.update.mockImplementation(({ data }) => ({ ...targetAdmin, ...data }));
+  });
+
+  it("rejects unauthenticated callers", async () => {
+    getCurrentSession.mockResolvedValue(null);
+
+    await expect(updateUserRole("admin-2", "EMPLOYEE")).resolves.toEqual({
+      error: "You must be signed in to update user roles",
+    });
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it.each(["MANAGER", "EMPLOYEE"])("rejects a %s", async (role) => {
+    getCurrentSession.mockResolvedValue({ user: { id: "user-1", role } });
+
+    await expect(updateUserRole("user-1", "ADMIN")).resolves.toEqual({
+      error: "Only administrators can update user roles",
+    });
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects an invalid role", async () => {
+    // @ts-expect-error an unknown role sent by a tampered client
+    const result = await updateUserRole("admin-2", "SUPERUSER");
+
+    expect(result).toEqual({ error: "Invalid role. Must be ADMIN, MANAGER, or EMPLOYEE" });
+  });
+
+  it("rejects a custom role that doesn't exist", async () => {
+    db.role.findUnique.mockResolvedValue(null);
+
+    await expect(updateUserRole("admin-2", "EMPLOYEE", "missing")).resolves.toEqual({
+      error: "Custom role not found",
+    });
+  });
+
+  it("rejects an unknown user", async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    await expect(updateUserRole("missing", "EMPLOYEE")).resolves.toEqual({ error: "User not found" });
+  });
+
+  it("refuses to demote the last admin", async () => {
+    tx.user.count.mockResolvedValue(1);
+
+    await expect(updateUserRole("admin-2", "EMPLOYEE")).resolves.toEqual({
+      error: "Cannot remove the last administrator",
+    });
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it("updates the role and records who changed it", async () => {
+    await expect(updateUserRole("admin-2", "MANAGER")).resolves.toEqual({ success: true });
+    expect(tx.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ role: "MANAGER", roleUpdatedById: "admin-1" }),
+      }),
+    );
+    expect(tx.auditLog.create).toHaveBeenCalled();
+  });
+});
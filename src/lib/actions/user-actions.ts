@@ -1,8 +1,11 @@
 'use server';
 
 import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { Role } from "@/lib/constants/roles";
+import { Role, ROLES } from "@/lib/constants/roles";
+import { checkPermission } from "@/lib/permissions";
+import { withAudit } from "@/lib/audit";
 
 /**
  * Get all users
@@ -17,6 +20,17 @@ export async function getUsers({
   search?: string;
 }) {
   try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view users");
+    }
+
+    // Check if user has permission to read users
+    if (!(await checkPermission(session.user, "users", "read"))) {
+      throw new Error("You don't have permission to view users");
+    }
+
     const skip = (page - 1) * limit;
 
     // Build search filter
@@ -37,6 +51,7 @@ export async function getUsers({
         name: true,
         email: true,
         role: true,
+        customRoleId: true,
         createdAt: true,
         employee: {
           select: {
@@ -76,19 +91,84 @@ export async function getUsers({
   }
 }
 
+// Fields captured in the audit log for role changes (never the password hash)
+const roleAuditFields = {
+  id: true,
+  role: true,
+  customRoleId: true,
+} as const;
+
 /**
- * Update user role
+ * Update user role and optional custom role (null clears it)
  */
-export async function updateUserRole(userId: string, role: Role) {
+export async function updateUserRole(userId: string, role: Role, customRoleId: string | null = null) {
   try {
-    // Update the user role
-    await prisma.user.update({
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to update user roles");
+    }
+
+    // Only admins can grant or revoke roles
+    if (session.user.role !== ROLES.ADMIN) {
+      throw new Error("Only administrators can update user roles");
+    }
+
+    // Validate role
+    if (![ROLES.ADMIN, ROLES.MANAGER, ROLES.EMPLOYEE].includes(role)) {
+      throw new Error("Invalid role. Must be ADMIN, MANAGER, or EMPLOYEE");
+    }
+
+    if (customRoleId) {
+      const customRole = await prisma.role.findUnique({
+        where: { id: customRoleId },
+      });
+
+      if (!customRole || customRole.isSystem) {
+        throw new Error("Custom role not found");
+      }
+    }
+
+    const existingUser = await prisma.user.findUnique({
       where: { id: userId },
-      data: { role },
+      select: roleAuditFields,
     });
 
+    if (!existingUser) {
+      throw new Error("User not found");
+    }
+
+    await withAudit(
+      { actorId: session.user.id, entityType: "USER", action: "UPDATE", before: existingUser },
+      async (tx) => {
+        // Never leave the system without an administrator
+        if (existingUser.role === ROLES.ADMIN && role !== ROLES.ADMIN) {
+          const adminCount = await tx.user.count({
+            where: { role: ROLES.ADMIN },
+          });
+
+          if (adminCount <= 1) {
+            throw new Error("Cannot remove the last administrator");
+          }
+        }
+
+        // Update the user role and record who changed it
+        return tx.user.update({
+          where: { id: userId },
+          data: {
+            role,
+            customRoleId,
+            roleUpdatedAt: new Date(),
+            roleUpdatedById: session.user.id,
+          },
+          select: roleAuditFields,
+        });
+      },
+    );
+
     // Revalidate paths that might display user information
     revalidatePath('/admin/users');
+    revalidatePath('/admin/user-roles');
     revalidatePath('/dashboard');
     
     return { success: true };
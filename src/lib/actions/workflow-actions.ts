@@ -0,0 +1,246 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { getCurrentSession } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { checkPermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { redirect } from "next/navigation";
+import { TaskStatus, WorkflowStatus } from "@prisma/client";
+
+/**
+ * A status as edited in the workflow editor. `key` identifies it within one save (the ID
+ * for existing statuses) so transitions can point at statuses that don't exist yet.
+ */
+export type WorkflowStatusInput = {
+  id?: string;
+  key: string;
+  name: string;
+  category: TaskStatus;
+  wipLimit: number | null;
+  enforceWipLimit: boolean;
+  // Keys of the statuses a task may move to from this one
+  next: string[];
+};
+
+// Snapshot for the audit log, with transitions as a sorted list of status IDs
+function auditSnapshot(
+  { id, projectId, name, category, order, wipLimit, enforceWipLimit }: WorkflowStatus,
+  nextIds: string[],
+) {
+  return { id, projectId, name, category, order, wipLimit, enforceWipLimit, nextStatuses: [...nextIds].sort() };
+}
+
+/**
+ * Get a project's workflow statuses in board order, with their transitions and task counts
+ */
+export async function getProjectWorkflow(projectId: string) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      throw new Error("You must be signed in to view workflows");
+    }
+
+    // Check if user has permission to read projects
+    if (!(await checkPermission(session.user, "projects", "read"))) {
+      throw new Error("You don't have permission to view workflows");
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        name: true,
+        workflowStatuses: {
+          orderBy: { order: "asc" },
+          include: {
+            nextStatuses: {
+              select: { id: true },
+            },
+            _count: {
+              select: { tasks: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    return { project };
+  } catch (error) {
+    console.error("Error getting workflow:", error);
+    return { error: error instanceof Error ? error.message : "Failed to get workflow" };
+  }
+}
+
+/**
+ * Replace a project's workflow with the given statuses, in board order. Statuses that
+ * still have tasks can't be removed.
+ */
+export async function saveProjectWorkflow(projectId: string, statuses: WorkflowStatusInput[]) {
+  try {
+    const session = await getCurrentSession();
+
+    if (!session?.user) {
+      redirect("/login");
+    }
+
+    // Check if user has permission to update projects
+    if (!(await checkPermission(session.user, "projects", "update"))) {
+      throw new Error("You don't have permission to edit workflows");
+    }
+
+    // Validate data
+    if (statuses.length === 0) {
+      throw new Error("A workflow needs at least one status");
+    }
+
+    const keys = new Set(statuses.map((status) => status.key));
+    const names = new Set(statuses.map((status) => status.name.trim().toLowerCase()));
+
+    if (keys.size !== statuses.length) {
+      throw new Error("Invalid workflow");
+    }
+
+    if (statuses.some((status) => !status.name.trim())) {
+      throw new Error("Every status needs a name");
+    }
+
+    if (names.size !== statuses.length) {
+      throw new Error("Status names must be unique");
+    }
+
+    if (statuses.some((status) => !Object.values(TaskStatus).includes(status.category))) {
+      throw new Error("Invalid status category");
+    }
+
+    if (statuses.some((status) => status.wipLimit !== null && !(Number.isInteger(status.wipLimit) && status.wipLimit > 0))) {
+      throw new Error("WIP limits must be positive whole numbers");
+    }
+
+    if (!statuses.some((status) => status.category === "DONE")) {
+      throw new Error("A workflow needs at least one status in the Done category");
+    }
+
+    if (statuses.some((status) => status.next.some((key) => key === status.key || !keys.has(key)))) {
+      throw new Error("Invalid transition");
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    const existing = await prisma.workflowStatus.findMany({
+      where: { projectId },
+      include: {
+        nextStatuses: { select: { id: true } },
+        _count: { select: { tasks: true } },
+      },
+    });
+
+    const existingById = new Map(existing.map((status) => [status.id, status]));
+
+    if (statuses.some((status) => status.id && !existingById.has(status.id))) {
+      throw new Error("Status does not belong to this project's workflow");
+    }
+
+    const keptIds = new Set(statuses.map((status) => status.id).filter(Boolean));
+    const removed = existing.filter((status) => !keptIds.has(status.id));
+    const inUse = removed.find((status) => status._count.tasks > 0);
+
+    if (inUse) {
+      throw new Error(`"${inUse.name}" still has tasks; move them to another status first`);
+    }
+
+    const actorId = session.user.id;
+
+    await prisma.$transaction(async (tx) => {
+      for (const status of removed) {
+        await tx.workflowStatus.delete({ where: { id: status.id } });
+        await recordAudit(
+          tx,
+          {
+            actorId,
+            entityType: "WORKFLOW_STATUS",
+            action: "DELETE",
+            before: auditSnapshot(status, status.nextStatuses.map((next) => next.id)),
+          },
+          null,
+        );
+      }
+
+      // Names are unique per project; move kept statuses out of the way so renames can swap names
+      for (const status of statuses) {
+        if (status.id) {
+          await tx.workflowStatus.update({ where: { id: status.id }, data: { name: `~${status.id}` } });
+        }
+      }
+
+      const idByKey: Record<string, string> = {};
+
+      for (const [order, status] of statuses.entries()) {
+        const data = {
+          name: status.name.trim(),
+          category: status.category,
+          order,
+          wipLimit: status.wipLimit,
+          enforceWipLimit: status.wipLimit !== null && status.enforceWipLimit,
+        };
+
+        if (status.id) {
+          await tx.workflowStatus.update({ where: { id: status.id }, data });
+
+          // Tasks carry their status's category
+          if (existingById.get(status.id)!.category !== status.category) {
+            await tx.task.updateMany({
+              where: { workflowStatusId: status.id },
+              data: { status: status.category },
+            });
+          }
+
+          idByKey[status.key] = status.id;
+        } else {
+          const created = await tx.workflowStatus.create({ data: { ...data, projectId } });
+          idByKey[status.key] = created.id;
+        }
+      }
+
+      // Transitions are set once every status exists
+      for (const status of statuses) {
+        const nextIds = status.next.map((key) => idByKey[key]);
+        const updated = await tx.workflowStatus.update({
+          where: { id: idByKey[status.key] },
+          data: { nextStatuses: { set: nextIds.map((id) => ({ id })) } },
+        });
+        const before = status.id ? existingById.get(status.id)! : null;
+
+        await recordAudit(
+          tx,
+          {
+            actorId,
+            entityType: "WORKFLOW_STATUS",
+            action: before ? "UPDATE" : "CREATE",
+            before: before && auditSnapshot(before, before.nextStatuses.map((next) => next.id)),
+          },
+          auditSnapshot(updated, nextIds),
+        );
+      }
+    });
+
+    revalidatePath(`/dashboard/projects/${projectId}`);
+    revalidatePath(`/dashboard/projects/workflow/${projectId}`);
+    revalidatePath("/dashboard/tasks");
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving workflow:", error);
+    return { error: error instanceof Error ? error.message : "Failed to save workflow" };
+  }
+}
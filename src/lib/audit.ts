@@ -0,0 +1,105 @@
+import { AuditAction, AuditEntity, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+type AuditRecord = { id: string } & Record<string, unknown>;
+
+/**
+ * Who did what to which kind of entity. `before` is the record as it was
+ * prior to the mutation (omit it for creates).
+ */
+export interface AuditContext {
+  actorId: string;
+  entityType: AuditEntity;
+  action: AuditAction;
+  before?: AuditRecord | null;
+}
+
+/**
+ * Field-level diff, e.g. { baseSalary: { from: 4000, to: 4500 } }
+ */
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Bookkeeping columns that change on every write and only add noise
+const IGNORED_FIELDS = ["createdAt", "updatedAt"];
+
+// Encrypted columns: the log records that they changed, never their contents
+const REDACTED_FIELDS = ["bankAccountNumber", "bankRoutingNumber"];
+
+// Dates are compared and stored as ISO strings
+function normalize(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/**
+ * Diff two snapshots of the same record. Either side may be null for creates and deletes.
+ */
+export function diffRecords(before: AuditRecord | null, after: AuditRecord | null): AuditChanges {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = REDACTED_FIELDS.includes(field)
+        ? { from: from === null ? null : "[redacted]", to: to === null ? null : "[redacted]" }
+        : { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Write an audit log entry inside an existing transaction. Use this when several
+ * records change together (e.g. a payroll run); otherwise prefer withAudit.
+ */
+export async function recordAudit(
+  tx: Prisma.TransactionClient,
+  { actorId, entityType, action, before = null }: AuditContext,
+  after: AuditRecord | null,
+) {
+  const entityId = after?.id ?? before?.id;
+
+  if (!entityId) {
+    throw new Error("Audited mutations must return the affected record");
+  }
+
+  const changes = diffRecords(before, after);
+
+  // Nothing actually changed, e.g. a form saved without edits
+  if (action === AuditAction.UPDATE && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await tx.auditLog.create({
+    data: {
+      actorId,
+      entityType,
+      entityId,
+      action,
+      changes: JSON.stringify(changes),
+    },
+  });
+}
+
+/**
+ * Run a mutation and write its audit log entry in the same transaction, so a change
+ * is never persisted without a trace. The mutation returns the record as it is after
+ * the write, or null for deletes.
+ */
+export async function withAudit<T extends AuditRecord | null>(
+  context: AuditContext,
+  mutate: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    const after = await mutate(tx);
+    await recordAudit(tx, context, after);
+    return after;
+  });
+}
@@ -0,0 +1,30 @@
+import type { AuditAction, AuditEntity } from "@prisma/client";
+
+// Display labels for audit log filters and badges
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  USER: "User",
+  ROLE: "Role",
+  EMPLOYEE: "Employee",
+  SALARY: "Salary",
+  SALARY_ITEM_TYPE: "Salary Item Type",
+  EXCHANGE_RATE: "Exchange Rate",
+  PROJECT: "Project",
+  TASK: "Task",
+  TASK_COMMENT: "Task Comment",
+  WORKFLOW_STATUS: "Workflow Status",
+  CHECKLIST_ITEM: "Checklist Item",
+  TASK_DEPENDENCY: "Task Dependency",
+  LEAVE_REQUEST: "Leave Request",
+  TIMESHEET: "Timesheet",
+  DEPARTMENT: "Department",
+  POSITION: "Position",
+  EMPLOYEE_CHECKLIST_ITEM: "Employee Checklist Item",
+  EMERGENCY_CONTACT: "Emergency Contact",
+  EMPLOYMENT_CONTRACT: "Employment Contract",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+};
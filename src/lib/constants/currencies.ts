@@ -0,0 +1,18 @@
+// Currency company and department totals are reported in; exchange rates convert into it
+export const BASE_CURRENCY = "USD";
+
+// ISO 4217 codes employees can be paid in
+export const CURRENCIES: Record<string, string> = {
+  USD: "US Dollar",
+  EUR: "Euro",
+  GBP: "British Pound",
+  TRY: "Turkish Lira",
+  CAD: "Canadian Dollar",
+  AUD: "Australian Dollar",
+  CHF: "Swiss Franc",
+  JPY: "Japanese Yen",
+  INR: "Indian Rupee",
+  AED: "UAE Dirham",
+};
+
+export const isSupportedCurrency = (currency: string) => currency in CURRENCIES;
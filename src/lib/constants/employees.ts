@@ -0,0 +1,80 @@
+import type { ContractType, EmploymentStatus, LifecycleChecklist } from "@prisma/client";
+
+export const EMPLOYMENT_STATUS_LABELS: Record<EmploymentStatus, string> = {
+  ACTIVE: "Active",
+  ON_LEAVE: "On Leave",
+  TERMINATED: "Terminated",
+};
+
+export const LIFECYCLE_CHECKLIST_LABELS: Record<LifecycleChecklist, string> = {
+  ONBOARDING: "Onboarding",
+  OFFBOARDING: "Offboarding",
+};
+
+/**
+ * Steps each new checklist starts with; HR can add or remove steps per employee
+ */
+export const DEFAULT_CHECKLIST_STEPS: Record<LifecycleChecklist, string[]> = {
+  ONBOARDING: [
+    "Sign employment contract",
+    "Collect tax and bank details",
+    "Set up email and system accounts",
+    "Provide laptop and equipment",
+    "Assign a buddy",
+    "Complete first-week orientation",
+  ],
+  OFFBOARDING: [
+    "Reassign open tasks",
+    "Hand over ongoing work",
+    "Collect laptop and equipment",
+    "Revoke system access",
+    "Settle final salary and unused leave",
+    "Hold exit interview",
+  ],
+};
+
+/**
+ * Choices for the employee directory's status filter. "current" is everyone not terminated.
+ */
+export const EMPLOYEE_STATUS_FILTERS = {
+  current: "Current Employees",
+  ACTIVE: "Active",
+  ON_LEAVE: "On Leave",
+  TERMINATED: "Terminated",
+  all: "All Employees",
+} as const;
+
+export type EmployeeStatusFilter = keyof typeof EMPLOYEE_STATUS_FILTERS;
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  PERMANENT: "Permanent",
+  FIXED_TERM: "Fixed Term",
+  PART_TIME: "Part Time",
+  CONTRACTOR: "Contractor",
+  INTERNSHIP: "Internship",
+};
+
+/**
+ * Sections of the employee form, each with the form fields it owns. Editing is
+ * granted per section, so an employee can update their contact details but not their contract.
+ */
+export const EMPLOYEE_FIELD_GROUPS = {
+  job: { label: "Job Details", fields: ["positionId", "departmentId", "managerId", "currency"] },
+  contact: { label: "Personal Details", fields: ["phone", "address", "dateOfBirth"] },
+  emergencyContacts: { label: "Emergency Contacts", fields: ["emergencyContacts"] },
+  bank: {
+    label: "Bank Details",
+    fields: ["bankName", "bankAccountName", "bankAccountNumber", "bankRoutingNumber"],
+  },
+  contract: {
+    label: "Employment Contract",
+    fields: ["contractType", "contractStartDate", "contractEndDate", "contractNotes"],
+  },
+} as const;
+
+export type EmployeeFieldGroup = keyof typeof EMPLOYEE_FIELD_GROUPS;
+
+export const ALL_FIELD_GROUPS = Object.keys(EMPLOYEE_FIELD_GROUPS) as EmployeeFieldGroup[];
+
+// What employees may change on their own record without HR
+export const SELF_SERVICE_FIELD_GROUPS: EmployeeFieldGroup[] = ["contact", "emergencyContacts", "bank"];
@@ -0,0 +1,32 @@
+import type { LeaveStatus, LeaveType } from "@prisma/client";
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  ANNUAL: "Annual Leave",
+  SICK: "Sick Leave",
+  UNPAID: "Unpaid Leave",
+};
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  PENDING: "Pending Approval",
+  APPROVED: "Approved",
+  RECORDED: "Recorded",
+  REJECTED: "Rejected",
+  CANCELLED: "Cancelled",
+};
+
+/**
+ * Yearly allowance per leave type, granted at the start of each calendar year.
+ * Annual leave grows by one day per completed year of service, up to `maxDays`.
+ * Unpaid leave has no allowance; it is deducted from salary instead.
+ */
+export const LEAVE_ALLOWANCES: Record<LeaveType, { days: number; perYearOfService: number; maxDays: number } | null> = {
+  ANNUAL: { days: 20, perYearOfService: 1, maxDays: 25 },
+  SICK: { days: 10, perYearOfService: 0, maxDays: 10 },
+  UNPAID: null,
+};
+
+// Statuses that count against a balance and appear on the team calendar
+export const ACTIVE_LEAVE_STATUSES: LeaveStatus[] = ["PENDING", "APPROVED", "RECORDED"];
+
+// Statuses of leave that has been signed off by a manager
+export const APPROVED_LEAVE_STATUSES: LeaveStatus[] = ["APPROVED", "RECORDED"];
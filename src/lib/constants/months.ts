@@ -0,0 +1,5 @@
+// Month names for display, indexed from 0 (use `month - 1` for 1-based months)
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+] as const;
@@ -10,58 +10,86 @@ export const ROLES = {
 export type Role = keyof typeof ROLES;
 
 /**
- * Role-based permissions map
- * This defines what actions each role is allowed to perform
+ * Resources that can be protected by the permission system
  */
-export const ROLE_PERMISSIONS = {
+export const RESOURCES = ['users', 'employees', 'projects', 'tasks', 'salaries', 'leave', 'timesheets'] as const;
+
+export type Resource = (typeof RESOURCES)[number];
+
+/**
+ * Actions that can be performed on a resource
+ */
+export const ACTIONS = ['create', 'read', 'update', 'delete'] as const;
+
+export type Action = (typeof ACTIONS)[number];
+
+export type PermissionMatrix = Record<Resource, readonly Action[]>;
+
+/**
+ * A single grant such as "salaries:create"
+ */
+export type Permission = `${Resource}:${Action}`;
+
+/**
+ * Default role-based permissions map
+ * This defines what actions each system role is allowed to perform out of the box.
+ * It seeds the database-backed matrix and is used as a fallback until it is seeded.
+ */
+export const ROLE_PERMISSIONS: Record<Role, PermissionMatrix> = {
   [ROLES.ADMIN]: {
     users: ['create', 'read', 'update', 'delete'],
     employees: ['create', 'read', 'update', 'delete'],
     projects: ['create', 'read', 'update', 'delete'],
     tasks: ['create', 'read', 'update', 'delete'],
     salaries: ['create', 'read', 'update', 'delete'],
+    leave: ['create', 'read', 'update', 'delete'],
+    timesheets: ['create', 'read', 'update', 'delete'],
   },
   [ROLES.MANAGER]: {
-    users: ['create', 'read', 'update', 'delete'],
-    employees: ['create', 'read', 'update', 'delete'],
+    users: ['read'],
+    employees: ['read'],
     projects: ['create', 'read', 'update', 'delete'],
     tasks: ['create', 'read', 'update', 'delete'],
-    salaries: ['create', 'read', 'update', 'delete'],
+    salaries: ['create', 'read', 'update'],
+    leave: ['create', 'read', 'update'],
+    timesheets: ['create', 'read', 'update'],
   },
   [ROLES.EMPLOYEE]: {
-    users: ['create', 'read', 'update', 'delete'],
-    employees: ['create', 'read', 'update', 'delete'],
-    projects: ['create', 'read', 'update', 'delete'],
-    tasks: ['create', 'read', 'update', 'delete'],
-    salaries: ['create', 'read', 'update', 'delete'],
+    users: [],
+    employees: ['read'],
+    projects: ['read'],
+    tasks: ['read', 'update'],
+    salaries: ['read'],
+    leave: ['create', 'read'],
+    timesheets: ['create', 'read'],
   },
-  // [ROLES.MANAGER]: {
-  //   users: ['read'],
-  //   employees: ['read'],
-  //   projects: ['create', 'read', 'update', 'delete'],
-  //   tasks: ['create', 'read', 'update', 'delete'],
-  //   salaries: ['read', 'update'],
-  // },
-  // [ROLES.EMPLOYEE]: {
-  //   users: [],
-  //   employees: ['read'],
-  //   projects: ['read'],
-  //   tasks: ['read', 'update'],
-  //   salaries: ['read'],
-  // },
-} as const;
+};
 
 /**
- * Check if a user with a specific role has permission to perform an action
+ * Check if a system role has a permission in the default matrix.
+ * Server code should use checkPermission from "@/lib/permissions", which honours admin edits.
  * @param role User role
  * @param resource Resource type (e.g., 'users', 'projects')
  * @param action Action to perform (e.g., 'read', 'update')
  * @returns Boolean indicating if the role has permission
  */
-export function hasPermission(
-  role: Role,
-  resource: keyof (typeof ROLE_PERMISSIONS)[Role], 
-  action: string
-): boolean {
-  return ROLE_PERMISSIONS[role][resource].includes(action as never);
+export function hasPermission(role: Role | undefined, resource: Resource, action: Action): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) {
+    return false;
+  }
+
+  return ROLE_PERMISSIONS[role][resource].includes(action);
+}
+
+/**
+ * A system role's permissions in the default matrix, e.g. ["projects:read", "tasks:update"]
+ */
+export function getDefaultPermissions(role: Role | undefined): Permission[] {
+  if (!role || !(role in ROLE_PERMISSIONS)) {
+    return [];
+  }
+
+  return RESOURCES.flatMap((resource) =>
+    ROLE_PERMISSIONS[role][resource].map((action): Permission => `${resource}:${action}`),
+  );
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { canOpenRoute } from "@/lib/constants/routes";
+
+describe("canOpenRoute", () => {
+  it("leaves unrestricted paths open", () => {
+    expect(canOpenRoute("/dashboard/tasks", { role: "EMPLOYEE", permissions: [] })).toBe(true);
+  });
+
+  it("checks restricted paths against the user's effective permissions", () => {
+    expect(canOpenRoute("/dashboard/payroll", { role: "MANAGER", permissions: ["salaries:create"] })).toBe(true);
+    expect(canOpenRoute("/dashboard/payroll", { role: "MANAGER", permissions: ["salaries:read"] })).toBe(false);
+  });
+
+  it("lets a custom role built on EMPLOYEE open the routes it was granted", () => {
+    const payrollClerk = { role: "EMPLOYEE" as const, permissions: ["salaries:read", "salaries:create"] };
+
+    expect(canOpenRoute("/dashboard/payroll", payrollClerk)).toBe(true);
+    expect(canOpenRoute("/dashboard/payroll/history", payrollClerk)).toBe(true);
+    expect(canOpenRoute("/dashboard/projects/new", payrollClerk)).toBe(false);
+  });
+
+  it("falls back to the role's defaults for tokens without permissions", () => {
+    expect(canOpenRoute("/dashboard/tasks/new", { role: "MANAGER" })).toBe(true);
+    expect(canOpenRoute("/dashboard/tasks/new", { role: "EMPLOYEE" })).toBe(false);
+  });
+
+  it("keeps the admin area for the ADMIN role", () => {
+    const everything = ["users:create", "users:read", "users:update", "users:delete"];
+
+    expect(canOpenRoute("/admin/permissions", { role: "ADMIN", permissions: [] })).toBe(true);
+    expect(canOpenRoute("/admin/permissions", { role: "MANAGER", permissions: everything })).toBe(false);
+  });
+
+  it("rejects a restricted path without a signed-in role", () => {
+    expect(canOpenRoute("/dashboard/employees/new", null)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { getDefaultPermissions, Permission, Role, ROLES } from "./roles";
+
+/**
+ * A restricted path and what opening it takes: a permission from the user's effective set
+ * (so custom roles apply), or for the admin area a system role
+ */
+export type ProtectedRoute = { pattern: string } & ({ permission: Permission } | { roles: readonly Role[] });
+
+/**
+ * Route-level authorization table consumed by the middleware.
+ * Patterns use the Next.js matcher syntax: `:param` matches one segment,
+ * `:path*` matches zero or more. The first matching entry wins.
+ * Fine-grained checks (e.g. whose records a user may see) still happen in pages and actions.
+ */
+export const PROTECTED_ROUTES: ProtectedRoute[] = [
+  // The admin area edits roles and permissions themselves, so it stays with the ADMIN role
+  { pattern: "/admin/:path*", roles: [ROLES.ADMIN] },
+  { pattern: "/dashboard/employees/new", permission: "employees:create" },
+  { pattern: "/dashboard/payroll/:path*", permission: "salaries:create" },
+  { pattern: "/dashboard/projects/new", permission: "projects:create" },
+  { pattern: "/dashboard/projects/edit/:id", permission: "projects:update" },
+  { pattern: "/dashboard/projects/workflow/:id", permission: "projects:update" },
+  { pattern: "/dashboard/tasks/new", permission: "tasks:create" },
+  // The full edit form is for those who manage tasks; employees change the status of their own tasks from the task page instead
+  { pattern: "/dashboard/tasks/edit/:id", permission: "tasks:create" },
+];
+
+// Path shown (via rewrite) when a signed-in user lacks the required permission or role
+export const FORBIDDEN_PATH = "/forbidden";
+
+// Convert a matcher pattern into an anchored regular expression
+function patternToRegExp(pattern: string) {
+  const source = pattern
+    .replace(/\/:[^/]+\*/g, "(?:/.*)?")
+    .replace(/:[^/]+/g, "[^/]+");
+
+  return new RegExp(`^${source}/?$`);
+}
+
+const compiledRoutes = PROTECTED_ROUTES.map((route) => ({
+  ...route,
+  regExp: patternToRegExp(route.pattern),
+}));
+
+/**
+ * The signed-in user as the middleware sees them, from the session token
+ */
+export interface RouteSubject {
+  role?: Role;
+  permissions?: string[];
+}
+
+/**
+ * Whether a user may open a path; unrestricted paths are open to every signed-in user.
+ * Tokens issued before they carried permissions fall back to the role's defaults.
+ */
+export function canOpenRoute(pathname: string, user: RouteSubject | null | undefined) {
+  const route = compiledRoutes.find(({ regExp }) => regExp.test(pathname));
+
+  if (!route) {
+    return true;
+  }
+
+  if (!user?.role) {
+    return false;
+  }
+
+  if ("roles" in route) {
+    return route.roles.includes(user.role);
+  }
+
+  return (user.permissions ?? getDefaultPermissions(user.role)).includes(route.permission);
+}
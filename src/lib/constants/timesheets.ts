@@ -0,0 +1,17 @@
+import type { TimesheetStatus } from "@prisma/client";
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  DRAFT: "Draft",
+  SUBMITTED: "Submitted",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+};
+
+// Hours in a normal working week; approved hours beyond this are overtime
+export const STANDARD_WEEKLY_HOURS = 40;
+
+// Hours in a normal working day, used to derive an hourly rate from a monthly base salary
+export const STANDARD_DAILY_HOURS = 8;
+
+// Overtime is paid at this multiple of the hourly rate
+export const OVERTIME_MULTIPLIER = 1.5;
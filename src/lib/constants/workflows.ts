@@ -0,0 +1,17 @@
+import type { TaskStatus } from "@prisma/client";
+
+// Categories every workflow status maps to; Task.status holds the category
+export const STATUS_CATEGORY_LABELS: Record<TaskStatus, string> = {
+  TODO: "To Do",
+  IN_PROGRESS: "In Progress",
+  REVIEW: "Review",
+  DONE: "Done",
+};
+
+// Statuses new projects start with, one per category
+export const DEFAULT_WORKFLOW: Array<{ name: string; category: TaskStatus }> = [
+  { name: "To Do", category: "TODO" },
+  { name: "In Progress", category: "IN_PROGRESS" },
+  { name: "Review", category: "REVIEW" },
+  { name: "Done", category: "DONE" },
+];
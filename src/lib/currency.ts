@@ -0,0 +1,64 @@
+import type { ExchangeRate } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { BASE_CURRENCY } from "@/lib/constants/currencies";
+
+export type ExchangeRateEntry = Pick<ExchangeRate, "currency" | "rate" | "effectiveDate">;
+
+/**
+ * Load the exchange-rate table, newest rates first
+ */
+export function loadExchangeRates(): Promise<ExchangeRateEntry[]> {
+  return prisma.exchangeRate.findMany({
+    select: {
+      currency: true,
+      rate: true,
+      effectiveDate: true,
+    },
+    orderBy: { effectiveDate: "desc" },
+  });
+}
+
+/**
+ * Last day of a salary month; amounts for the month convert at the rate in effect then
+ * @param month 1-based month
+ * @param year Full year
+ */
+export function getPeriodEnd(month: number, year: number) {
+  return new Date(Date.UTC(year, month, 0));
+}
+
+/**
+ * Find the rate in effect for a currency on a date
+ * @param rates Exchange-rate table (any order)
+ * @param currency Currency to convert from
+ * @param date Date the amount applies to
+ * @returns Value of one unit in the base currency, or null if no rate was in effect yet
+ */
+export function findExchangeRate(rates: ExchangeRateEntry[], currency: string, date: Date) {
+  if (currency === BASE_CURRENCY) {
+    return 1;
+  }
+
+  let match: ExchangeRateEntry | null = null;
+
+  for (const rate of rates) {
+    if (
+      rate.currency === currency &&
+      rate.effectiveDate <= date &&
+      (!match || rate.effectiveDate > match.effectiveDate)
+    ) {
+      match = rate;
+    }
+  }
+
+  return match?.rate ?? null;
+}
+
+/**
+ * Convert an amount into the base currency
+ * @returns Converted amount, or null if no rate was in effect on the date
+ */
+export function convertToBase(amount: number, currency: string, rates: ExchangeRateEntry[], date: Date) {
+  const rate = findExchangeRate(rates, currency, date);
+  return rate === null ? null : amount * rate;
+}
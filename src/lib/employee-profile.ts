@@ -0,0 +1,302 @@
+import type { ContractType, Prisma } from "@prisma/client";
+import type { Session } from "next-auth";
+import { ROLES } from "@/lib/constants/roles";
+import {
+  ALL_FIELD_GROUPS,
+  CONTRACT_TYPE_LABELS,
+  EMPLOYEE_FIELD_GROUPS,
+  type EmployeeFieldGroup,
+  SELF_SERVICE_FIELD_GROUPS,
+} from "@/lib/constants/employees";
+import { checkPermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { decryptField, encryptField } from "@/lib/crypto";
+
+const MAX_EMERGENCY_CONTACTS = 5;
+
+export interface EmergencyContactInput {
+  id?: string;
+  name: string;
+  relationship: string;
+  phone: string;
+  email: string | null;
+}
+
+export interface EmploymentContractInput {
+  type: ContractType;
+  startDate: Date;
+  endDate: Date | null;
+  notes: string | null;
+}
+
+// Leave bank details out of employee queries; they reach pages only through getBankDetails
+export const OMIT_BANK_FIELDS = {
+  bankName: true,
+  bankAccountName: true,
+  bankAccountNumber: true,
+  bankRoutingNumber: true,
+} as const;
+
+interface EncryptedBankFields {
+  bankAccountNumber: string | null;
+  bankRoutingNumber: string | null;
+}
+
+// Blank form inputs are stored as null
+function optionalText(formData: FormData, key: string) {
+  return ((formData.get(key) as string) || "").trim() || null;
+}
+
+// Parse an optional yyyy-MM-dd form value as a UTC calendar day
+function optionalDay(formData: FormData, key: string, label: string) {
+  const value = optionalText(formData, key);
+
+  if (!value) {
+    return null;
+  }
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00.000Z`) : null;
+
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`${label} is invalid`);
+  }
+
+  return date;
+}
+
+/**
+ * Which sections of an employee's record a user may edit. HR staff with employees:update
+ * edit everything; employees edit their own personal, emergency and bank details.
+ */
+export async function getEditableFieldGroups(
+  user: Session["user"],
+  employee: { userId: string },
+): Promise<EmployeeFieldGroup[]> {
+  if (user.role !== ROLES.EMPLOYEE && (await checkPermission(user, "employees", "update"))) {
+    return ALL_FIELD_GROUPS;
+  }
+
+  return employee.userId === user.id ? SELF_SERVICE_FIELD_GROUPS : [];
+}
+
+/**
+ * Bank details are only shown to the employee themselves and to HR
+ */
+export async function canViewBankDetails(user: Session["user"], employee: { userId: string }) {
+  return (await getEditableFieldGroups(user, employee)).includes("bank");
+}
+
+/**
+ * Reject a submission that touches a section the user may not edit
+ */
+export function assertEditableFields(formData: FormData, editable: EmployeeFieldGroup[]) {
+  for (const group of ALL_FIELD_GROUPS) {
+    const { label, fields } = EMPLOYEE_FIELD_GROUPS[group];
+
+    if (!editable.includes(group) && fields.some((field) => formData.has(field))) {
+      throw new Error(`You don't have permission to change ${label.toLowerCase()}`);
+    }
+  }
+}
+
+/**
+ * Whether the form submitted a section at all; sections left out are not changed
+ */
+export function hasFieldGroup(formData: FormData, group: EmployeeFieldGroup) {
+  return EMPLOYEE_FIELD_GROUPS[group].fields.some((field) => formData.has(field));
+}
+
+/**
+ * Phone, address and date of birth from the employee form
+ */
+export function parseContactFields(formData: FormData) {
+  const dateOfBirth = optionalDay(formData, "dateOfBirth", "Date of birth");
+
+  if (dateOfBirth && dateOfBirth > new Date()) {
+    throw new Error("Date of birth can't be in the future");
+  }
+
+  return {
+    phone: optionalText(formData, "phone"),
+    address: optionalText(formData, "address"),
+    dateOfBirth,
+  };
+}
+
+/**
+ * Bank details from the employee form, with the account and routing numbers encrypted.
+ * Unchanged numbers keep their stored ciphertext so saving the form doesn't log a change.
+ */
+export function parseBankFields(formData: FormData, current?: EncryptedBankFields | null) {
+  const encrypt = (key: keyof EncryptedBankFields) => {
+    const value = optionalText(formData, key);
+    const stored = current?.[key] ?? null;
+
+    if (!value) {
+      return null;
+    }
+
+    return stored && decryptField(stored) === value ? stored : encryptField(value);
+  };
+
+  return {
+    bankName: optionalText(formData, "bankName"),
+    bankAccountName: optionalText(formData, "bankAccountName"),
+    bankAccountNumber: encrypt("bankAccountNumber"),
+    bankRoutingNumber: encrypt("bankRoutingNumber"),
+  };
+}
+
+/**
+ * Decrypt an employee's bank details for display, or null when none are on file
+ */
+export function getBankDetails(employee: {
+  bankName: string | null;
+  bankAccountName: string | null;
+} & EncryptedBankFields) {
+  if (!employee.bankName && !employee.bankAccountName && !employee.bankAccountNumber && !employee.bankRoutingNumber) {
+    return null;
+  }
+
+  return {
+    bankName: employee.bankName,
+    bankAccountName: employee.bankAccountName,
+    bankAccountNumber: employee.bankAccountNumber ? decryptField(employee.bankAccountNumber) : null,
+    bankRoutingNumber: employee.bankRoutingNumber ? decryptField(employee.bankRoutingNumber) : null,
+  };
+}
+
+/**
+ * Emergency contacts from the employee form, sent as a JSON array
+ */
+export function parseEmergencyContacts(formData: FormData): EmergencyContactInput[] {
+  let rows: unknown;
+
+  try {
+    rows = JSON.parse((formData.get("emergencyContacts") as string) || "[]");
+  } catch {
+    throw new Error("Emergency contacts are invalid");
+  }
+
+  if (!Array.isArray(rows)) {
+    throw new Error("Emergency contacts are invalid");
+  }
+
+  if (rows.length > MAX_EMERGENCY_CONTACTS) {
+    throw new Error(`An employee can have at most ${MAX_EMERGENCY_CONTACTS} emergency contacts`);
+  }
+
+  return rows.map((row) => {
+    const text = (key: string) => (typeof row?.[key] === "string" ? row[key].trim() : "");
+    const contact = {
+      id: text("id") || undefined,
+      name: text("name"),
+      relationship: text("relationship"),
+      phone: text("phone"),
+      email: text("email") || null,
+    };
+
+    if (!contact.name || !contact.relationship || !contact.phone) {
+      throw new Error("Each emergency contact needs a name, relationship and phone number");
+    }
+
+    return contact;
+  });
+}
+
+/**
+ * The employment contract from the employee form; null when no contract type is chosen
+ */
+export function parseContract(formData: FormData): EmploymentContractInput | null {
+  const type = optionalText(formData, "contractType");
+
+  if (!type) {
+    return null;
+  }
+
+  if (!(type in CONTRACT_TYPE_LABELS)) {
+    throw new Error("Unknown contract type");
+  }
+
+  const startDate = optionalDay(formData, "contractStartDate", "Contract start date");
+  const endDate = optionalDay(formData, "contractEndDate", "Contract end date");
+
+  if (!startDate) {
+    throw new Error("Contract start date is required");
+  }
+
+  if (endDate && endDate < startDate) {
+    throw new Error("Contract end date can't be before its start date");
+  }
+
+  if (type === "FIXED_TERM" && !endDate) {
+    throw new Error("A fixed-term contract needs an end date");
+  }
+
+  return {
+    type: type as ContractType,
+    startDate,
+    endDate,
+    notes: optionalText(formData, "contractNotes"),
+  };
+}
+
+/**
+ * Make an employee's emergency contacts match the submitted list, auditing each change
+ */
+export async function syncEmergencyContacts(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  employeeId: string,
+  contacts: EmergencyContactInput[],
+) {
+  const existing = await tx.emergencyContact.findMany({ where: { employeeId } });
+  const keptIds = new Set(contacts.map((contact) => contact.id));
+
+  for (const contact of existing) {
+    if (!keptIds.has(contact.id)) {
+      await tx.emergencyContact.delete({ where: { id: contact.id } });
+      await recordAudit(tx, { actorId, entityType: "EMERGENCY_CONTACT", action: "DELETE", before: contact }, null);
+    }
+  }
+
+  for (const { id, ...data } of contacts) {
+    const before = existing.find((contact) => contact.id === id);
+
+    if (before) {
+      const after = await tx.emergencyContact.update({ where: { id: before.id }, data });
+      await recordAudit(tx, { actorId, entityType: "EMERGENCY_CONTACT", action: "UPDATE", before }, after);
+    } else {
+      const after = await tx.emergencyContact.create({ data: { ...data, employeeId } });
+      await recordAudit(tx, { actorId, entityType: "EMERGENCY_CONTACT", action: "CREATE" }, after);
+    }
+  }
+}
+
+/**
+ * Create, update or remove an employee's contract, auditing the change
+ */
+export async function saveEmploymentContract(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  employeeId: string,
+  contract: EmploymentContractInput | null,
+) {
+  const before = await tx.employmentContract.findUnique({ where: { employeeId } });
+
+  if (!contract) {
+    if (before) {
+      await tx.employmentContract.delete({ where: { id: before.id } });
+      await recordAudit(tx, { actorId, entityType: "EMPLOYMENT_CONTRACT", action: "DELETE", before }, null);
+    }
+    return;
+  }
+
+  if (before) {
+    const after = await tx.employmentContract.update({ where: { id: before.id }, data: contract });
+    await recordAudit(tx, { actorId, entityType: "EMPLOYMENT_CONTRACT", action: "UPDATE", before }, after);
+  } else {
+    const after = await tx.employmentContract.create({ data: { ...contract, employeeId } });
+    await recordAudit(tx, { actorId, entityType: "EMPLOYMENT_CONTRACT", action: "CREATE" }, after);
+  }
+}
@@ -0,0 +1,175 @@
+import type { LeaveStatus, LeaveType, Prisma } from "@prisma/client";
+import { differenceInYears } from "date-fns";
+import type { SalaryItemInput } from "@/lib/salary";
+import { APPROVED_LEAVE_STATUSES, LEAVE_ALLOWANCES } from "@/lib/constants/leave";
+
+/**
+ * Count weekdays (Mon-Fri) between two dates, both inclusive. Dates are compared as UTC days.
+ */
+export function countWorkingDays(start: Date, end: Date) {
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  let count = 0;
+
+  while (cursor <= end) {
+    const weekday = cursor.getUTCDay();
+
+    if (weekday !== 0 && weekday !== 6) {
+      count++;
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * Count the weekdays of a leave period that fall inside another period, e.g. a year or a salary month
+ */
+export function countWorkingDaysWithin(start: Date, end: Date, rangeStart: Date, rangeEnd: Date) {
+  const from = start > rangeStart ? start : rangeStart;
+  const to = end < rangeEnd ? end : rangeEnd;
+
+  return from > to ? 0 : countWorkingDays(from, to);
+}
+
+// First and last day of a calendar year, as UTC dates
+function getYearRange(year: number) {
+  return [new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, 11, 31))] as const;
+}
+
+// First and last day of a 1-based month, as UTC dates
+function getMonthRange(month: number, year: number) {
+  return [new Date(Date.UTC(year, month - 1, 1)), new Date(Date.UTC(year, month, 0))] as const;
+}
+
+/**
+ * Days of a leave type an employee is entitled to in a calendar year, or null when the type
+ * has no allowance. The year an employee joins is prorated from their join date.
+ */
+export function getLeaveEntitlement(type: LeaveType, joinDate: Date, year: number) {
+  const allowance = LEAVE_ALLOWANCES[type];
+
+  if (!allowance) {
+    return null;
+  }
+
+  const [yearStart, yearEnd] = getYearRange(year);
+
+  if (joinDate > yearEnd) {
+    return 0;
+  }
+
+  const yearsOfService = Math.max(0, differenceInYears(yearStart, joinDate));
+  const days = Math.min(allowance.maxDays, allowance.days + yearsOfService * allowance.perYearOfService);
+
+  if (joinDate <= yearStart) {
+    return days;
+  }
+
+  // Prorate the joining year to the nearest half day
+  const employedShare = (yearEnd.getTime() - joinDate.getTime()) / (yearEnd.getTime() - yearStart.getTime());
+  return Math.round(days * employedShare * 2) / 2;
+}
+
+/**
+ * Entitlement, taken, pending and remaining days of each leave type for one employee and year
+ * @param joinDate Employee's join date
+ * @param year Calendar year
+ * @param requests The employee's leave requests (any status)
+ */
+export function getLeaveBalances(
+  joinDate: Date,
+  year: number,
+  requests: Array<{ type: LeaveType; status: LeaveStatus; startDate: Date; endDate: Date }>,
+) {
+  const [yearStart, yearEnd] = getYearRange(year);
+
+  return (Object.keys(LEAVE_ALLOWANCES) as LeaveType[]).map((type) => {
+    let taken = 0;
+    let pending = 0;
+
+    for (const request of requests) {
+      if (request.type !== type) continue;
+
+      const days = countWorkingDaysWithin(request.startDate, request.endDate, yearStart, yearEnd);
+
+      if (APPROVED_LEAVE_STATUSES.includes(request.status)) {
+        taken += days;
+      } else if (request.status === "PENDING") {
+        pending += days;
+      }
+    }
+
+    const entitlement = getLeaveEntitlement(type, joinDate, year);
+
+    return {
+      type,
+      entitlement,
+      taken,
+      pending,
+      remaining: entitlement === null ? null : entitlement - taken - pending,
+    };
+  });
+}
+
+/**
+ * Sum approved unpaid leave days per employee within a salary month
+ * @param db Prisma client or transaction
+ * @param month 1-based month
+ * @param year Full year
+ * @param employeeIds Limit to these employees (all employees when omitted)
+ * @returns Map of employee id to unpaid working days in the month
+ */
+export async function loadUnpaidLeaveDays(
+  db: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  employeeIds?: string[],
+) {
+  const [monthStart, monthEnd] = getMonthRange(month, year);
+  const requests = await db.leaveRequest.findMany({
+    where: {
+      type: "UNPAID",
+      status: { in: APPROVED_LEAVE_STATUSES },
+      startDate: { lte: monthEnd },
+      endDate: { gte: monthStart },
+      ...(employeeIds ? { employeeId: { in: employeeIds } } : {}),
+    },
+    select: {
+      employeeId: true,
+      startDate: true,
+      endDate: true,
+    },
+  });
+
+  const days = new Map<string, number>();
+
+  for (const request of requests) {
+    const inMonth = countWorkingDaysWithin(request.startDate, request.endDate, monthStart, monthEnd);
+    days.set(request.employeeId, (days.get(request.employeeId) ?? 0) + inMonth);
+  }
+
+  return days;
+}
+
+/**
+ * The salary deduction line for unpaid leave: a day's pay (base salary over the month's
+ * working days) for every unpaid day. Returns null when there is nothing to deduct.
+ */
+export function buildUnpaidLeaveItem(baseSalary: number, days: number, month: number, year: number): SalaryItemInput | null {
+  if (days <= 0 || baseSalary <= 0) {
+    return null;
+  }
+
+  const [monthStart, monthEnd] = getMonthRange(month, year);
+  const dailyRate = baseSalary / countWorkingDays(monthStart, monthEnd);
+
+  return {
+    kind: "DEDUCTION",
+    label: `Unpaid leave (${days} ${days === 1 ? "day" : "days"})`,
+    amount: Math.round(Math.min(baseSalary, dailyRate * days) * 100) / 100,
+    taxable: false,
+    source: "UNPAID_LEAVE",
+  };
+}
@@ -0,0 +1,144 @@
+import type { Prisma } from "@prisma/client";
+import type { Session } from "next-auth";
+import { ROLES } from "@/lib/constants/roles";
+
+/**
+ * Tidy a department or position name: trim and collapse runs of whitespace
+ */
+export function normalizeOrgName(name: string) {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Whether a name is already taken, ignoring case, by a row other than excludeId
+ */
+export function isOrgNameTaken(rows: Array<{ id: string; name: string }>, name: string, excludeId?: string) {
+  const key = name.toLowerCase();
+  return rows.some((row) => row.id !== excludeId && row.name.toLowerCase() === key);
+}
+
+/**
+ * Ids of everyone below an employee in the reporting line, direct or indirect
+ */
+export async function getReportIds(db: Prisma.TransactionClient, employeeId: string) {
+  const visited = new Set([employeeId]);
+  let frontier = [employeeId];
+
+  while (frontier.length) {
+    const reports = await db.employee.findMany({
+      where: { managerId: { in: frontier } },
+      select: { id: true },
+    });
+
+    frontier = [];
+
+    for (const { id } of reports) {
+      if (!visited.has(id)) {
+        visited.add(id);
+        frontier.push(id);
+      }
+    }
+  }
+
+  visited.delete(employeeId);
+  return [...visited];
+}
+
+/**
+ * Whether reporting to managerId would put an employee above itself
+ */
+export async function createsReportingCycle(
+  db: Prisma.TransactionClient,
+  employeeId: string,
+  managerId: string,
+) {
+  if (employeeId === managerId) {
+    return true;
+  }
+
+  return (await getReportIds(db, employeeId)).includes(managerId);
+}
+
+/**
+ * Employee filter for what a user may list: managers see only their reports, direct or indirect.
+ * Returns null when the user is not limited.
+ */
+export async function getManagerScope(
+  db: Prisma.TransactionClient,
+  user: Session["user"],
+): Promise<Prisma.EmployeeWhereInput | null> {
+  if (user.role !== ROLES.MANAGER) {
+    return null;
+  }
+
+  const manager = await db.employee.findUnique({
+    where: { userId: user.id },
+    select: { id: true },
+  });
+
+  return { id: { in: manager ? await getReportIds(db, manager.id) : [] } };
+}
+
+/**
+ * Whether a user may see or act on one employee's records: managers only on their own and
+ * their reports'. Users who aren't managers are left to their permissions.
+ */
+export async function isInManagerScope(db: Prisma.TransactionClient, user: Session["user"], employeeId: string) {
+  const scope = await getManagerScope(db, user);
+
+  if (!scope) {
+    return true;
+  }
+
+  return (await db.employee.count({ where: { id: employeeId, OR: [scope, { userId: user.id }] } })) > 0;
+}
+
+/**
+ * Order employees by a list column; name, department and position sort by the related name
+ */
+export function getEmployeeOrderBy(
+  sortBy: string,
+  sortDirection: "asc" | "desc",
+): Prisma.EmployeeOrderByWithRelationInput {
+  switch (sortBy) {
+    case "name":
+      return { user: { name: sortDirection } };
+    case "department":
+      return { department: { name: sortDirection } };
+    case "position":
+      return { position: { name: sortDirection } };
+    default:
+      return { joinDate: sortDirection };
+  }
+}
+
+/**
+ * Employee search by name, department or position
+ */
+export function getEmployeeSearch(search: string): Prisma.EmployeeWhereInput {
+  return search
+    ? {
+        OR: [
+          { user: { name: { contains: search } } },
+          { position: { name: { contains: search } } },
+          { department: { name: { contains: search } } },
+        ],
+      }
+    : {};
+}
+
+/**
+ * Employee filter for the directory's status dropdown
+ */
+export function getEmployeeStatusFilter(status: string): Prisma.EmployeeWhereInput {
+  switch (status) {
+    case "ACTIVE":
+    case "ON_LEAVE":
+    case "TERMINATED":
+      return { status };
+    case "all":
+      return {};
+    default:
+      return { status: { not: "TERMINATED" } };
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { type PayslipData, renderPayslip } from "@/lib/payslip";
+
+function payslip(overrides: Partial<PayslipData["employee"]> = {}, label = "Performance bonus"): PayslipData {
+  return {
+    companyName: "Acme Inc.",
+    month: 10,
+    year: 2026,
+    currency: "TRY",
+    status: "PAID",
+    finalizedAt: new Date("2026-10-31T00:00:00.000Z"),
+    employee: {
+      id: "emp-1",
+      name: "Jane Doe",
+      email: "jane@example.com",
+      position: "Engineer",
+      department: "Engineering",
+      ...overrides,
+    },
+    baseSalary: 4000,
+    items: [{ kind: "BONUS", label, amount: 250, taxable: true }],
+    bonus: 250,
+    deductions: 0,
+    totalSalary: 4250,
+  };
+}
+
+describe("renderPayslip", () => {
+  it("renders a one-page PDF", async () => {
+    const pdf = await PDFDocument.load(await renderPayslip(payslip()));
+
+    expect(pdf.getPageCount()).toBe(1);
+  });
+
+  it.each([
+    ["Turkish", { name: "Şükrü Yılmaz", department: "Mühendislik" }],
+    ["Arabic", { name: "محمد العلي", position: "مهندس" }],
+    ["Cyrillic", { name: "Юлия Иванова" }],
+    ["Chinese (not in the font, drawn as ?)", { name: "王小明" }],
+  ])("renders %s text without failing", async (_script, employee) => {
+    const bytes = await renderPayslip(payslip(employee, "Prime d'été — Ödül"));
+
+    expect(Buffer.from(bytes.subarray(0, 5)).toString()).toBe("%PDF-");
+    await expect(PDFDocument.load(bytes)).resolves.toBeDefined();
+  });
+});
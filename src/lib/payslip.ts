@@ -0,0 +1,202 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import * as fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, rgb } from "pdf-lib";
+import { MONTH_NAMES } from "@/lib/constants/months";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+/**
+ * Everything printed on a payslip
+ */
+export interface PayslipData {
+  companyName: string;
+  month: number;
+  year: number;
+  currency: string;
+  status: "DRAFT" | "PAID";
+  finalizedAt: Date | null;
+  employee: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    position: string;
+    department: string;
+  };
+  baseSalary: number;
+  items: { kind: "BONUS" | "DEDUCTION"; label: string; amount: number; taxable: boolean }[];
+  bonus: number;
+  deductions: number;
+  totalSalary: number;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const MUTED = rgb(0.4, 0.4, 0.4);
+
+// The standard PDF fonts only cover WinAnsi, so names like "Şükrü" or "Юлия" would fail to
+// encode. DejaVu Sans covers Latin, Greek, Cyrillic, Arabic and Hebrew.
+const FONT_DIR = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+let fontFiles: Promise<[Uint8Array, Uint8Array]> | undefined;
+
+// Read the font files once per server process
+function loadFontFiles() {
+  fontFiles ??= Promise.all([
+    readFile(path.join(FONT_DIR, "DejaVuSans.ttf")),
+    readFile(path.join(FONT_DIR, "DejaVuSans-Bold.ttf")),
+  ]);
+
+  return fontFiles;
+}
+
+/**
+ * File name for a payslip download, e.g. "payslip-2026-10-jane-doe.pdf"
+ */
+export function getPayslipFileName({ month, year, employee }: Pick<PayslipData, "month" | "year" | "employee">) {
+  const slug = (employee.name || employee.id)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return `payslip-${year}-${String(month).padStart(2, "0")}-${slug}.pdf`;
+}
+
+/**
+ * Render a single-page A4 payslip
+ * @returns PDF file contents
+ */
+export async function renderPayslip(data: PayslipData): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const [regularFile, boldFile] = await loadFontFiles();
+
+  pdf.registerFontkit(fontkit);
+  const font = await pdf.embedFont(regularFile, { subset: true });
+  const bold = await pdf.embedFont(boldFile, { subset: true });
+
+  // Characters neither font has a glyph for (e.g. CJK) are printed as "?" rather than failing the payslip
+  const glyphSources = [fontkit.create(regularFile), fontkit.create(boldFile)];
+  const printable = (value: string) =>
+    Array.from(value, (char) =>
+      glyphSources.every((source) => source.hasGlyphForCodePoint(char.codePointAt(0)!)) ? char : "?",
+    ).join("");
+  const period = `${MONTH_NAMES[data.month - 1]} ${data.year}`;
+
+  pdf.setTitle(`Payslip ${period} - ${data.employee.name || data.employee.email || data.employee.id}`);
+  pdf.setAuthor(data.companyName);
+
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Currency codes rather than symbols, which are ambiguous across currencies (e.g. $)
+  const money = (value: number) => formatCurrency(value, data.currency, "code");
+
+  // Draw text left-aligned, or right-aligned against the right margin
+  const text = (value: string, x: number, options: { font?: PDFFont; size?: number; align?: "right"; color?: ReturnType<typeof rgb> } = {}) => {
+    const textFont = options.font ?? font;
+    const size = options.size ?? 10;
+    const safeValue = printable(value);
+    const width = textFont.widthOfTextAtSize(safeValue, size);
+
+    page.drawText(safeValue, {
+      x: options.align === "right" ? x - width : x,
+      y,
+      size,
+      font: textFont,
+      color: options.color,
+    });
+  };
+
+  // Horizontal rule across the content width at the current line
+  const rule = (thickness = 0.5) => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness,
+      color: MUTED,
+    });
+  };
+
+  const right = PAGE_WIDTH - MARGIN;
+
+  // Company header
+  text(data.companyName, MARGIN, { font: bold, size: 18 });
+  text("PAYSLIP", right, { font: bold, size: 18, align: "right" });
+  y -= 18;
+  text(period, right, { size: 11, align: "right", color: MUTED });
+  y -= 14;
+  text(
+    data.status === "PAID" && data.finalizedAt
+      ? `Paid on ${formatDate(data.finalizedAt)}`
+      : "Draft - not yet paid",
+    right,
+    { size: 9, align: "right", color: MUTED },
+  );
+  y -= 16;
+  rule(1);
+
+  // Employee details
+  y -= 24;
+  const details: [string, string][] = [
+    ["Employee", data.employee.name || "-"],
+    ["Email", data.employee.email || "-"],
+    ["Position", data.employee.position],
+    ["Department", data.employee.department],
+    ["Employee ID", data.employee.id],
+  ];
+
+  for (const [label, value] of details) {
+    text(label, MARGIN, { size: 10, color: MUTED });
+    text(value, MARGIN + 110, { size: 10 });
+    y -= 16;
+  }
+
+  // Earnings and deductions breakdown
+  y -= 16;
+  text("Description", MARGIN, { font: bold });
+  text("Amount", right, { font: bold, align: "right" });
+  y -= 8;
+  rule();
+  y -= 16;
+
+  const line = (label: string, amount: string, options: { font?: PDFFont } = {}) => {
+    text(label, MARGIN, options);
+    text(amount, right, { ...options, align: "right" });
+    y -= 16;
+  };
+
+  line("Base salary", money(data.baseSalary));
+
+  const bonuses = data.items.filter((item) => item.kind === "BONUS");
+  const deductions = data.items.filter((item) => item.kind === "DEDUCTION");
+
+  for (const item of bonuses) {
+    line(`${item.label}${item.taxable ? " (taxable)" : ""}`, money(item.amount));
+  }
+
+  line("Gross pay", money(data.baseSalary + data.bonus), { font: bold });
+  y -= 8;
+
+  for (const item of deductions) {
+    line(`${item.label}${item.taxable ? " (taxable)" : ""}`, `-${money(item.amount)}`);
+  }
+
+  if (deductions.length > 0) {
+    line("Total deductions", `-${money(data.deductions)}`, { font: bold });
+  }
+
+  y += 8;
+  rule(1);
+  y -= 22;
+  text("Net pay", MARGIN, { font: bold, size: 14 });
+  text(money(data.totalSalary), right, { font: bold, size: 14, align: "right" });
+
+  // Footer
+  y = MARGIN;
+  text(`Generated on ${formatDate(new Date())}. This document was generated electronically.`, MARGIN, {
+    size: 8,
+    color: MUTED,
+  });
+
+  return pdf.save();
+}
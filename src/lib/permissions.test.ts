@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ACTIONS, type Action, hasPermission, type Resource, RESOURCES, type Role } from "@/lib/constants/roles";
+
+const findRoles = vi.hoisted(() => vi.fn());
+
+vi.mock("next/cache", () => ({
+  unstable_cache: <T>(fn: T) => fn,
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { role: { findMany: findRoles } },
+}));
+
+import { checkPermission } from "@/lib/permissions";
+
+// The intended policy, spelled out independently of ROLE_PERMISSIONS so a change there fails here
+const EXPECTED: Record<Role, Record<Resource, Action[]>> = {
+  ADMIN: {
+    users: ["create", "read", "update", "delete"],
+    employees: ["create", "read", "update", "delete"],
+    projects: ["create", "read", "update", "delete"],
+    tasks: ["create", "read", "update", "delete"],
+    salaries: ["create", "read", "update", "delete"],
+    leave: ["create", "read", "update", "delete"],
+    timesheets: ["create", "read", "update", "delete"],
+  },
+  MANAGER: {
+    users: ["read"],
+    employees: ["read"],
+    projects: ["create", "read", "update", "delete"],
+    tasks: ["create", "read", "update", "delete"],
+    salaries: ["create", "read", "update"],
+    leave: ["create", "read", "update"],
+    timesheets: ["create", "read", "update"],
+  },
+  EMPLOYEE: {
+    users: [],
+    employees: ["read"],
+    projects: ["read"],
+    tasks: ["read", "update"],
+    salaries: ["read"],
+    leave: ["create", "read"],
+    timesheets: ["create", "read"],
+  },
+};
+
+// Every role × resource × action with whether it should be allowed
+const MATRIX = (Object.keys(EXPECTED) as Role[]).flatMap((role) =>
+  RESOURCES.flatMap((resource) =>
+    ACTIONS.map((action) => ({ role, resource, action, allowed: EXPECTED[role][resource].includes(action) })),
+  ),
+);
+
+// Shape a stored role the way prisma.role.findMany returns it
+function storedRole(key: string, permissions: string[]) {
+  return {
+    key,
+    permissions: permissions.map((permission) => {
+      const [resource, action] = permission.split(":");
+      return { resource, action };
+    }),
+  };
+}
+
+describe("hasPermission", () => {
+  it.each(MATRIX)("$role $action $resource → $allowed", ({ role, resource, action, allowed }) => {
+    expect(hasPermission(role, resource, action)).toBe(allowed);
+  });
+
+  it("denies a missing or unknown role", () => {
+    expect(hasPermission(undefined, "projects", "read")).toBe(false);
+    expect(hasPermission("GUEST" as Role, "projects", "read")).toBe(false);
+  });
+});
+
+describe("checkPermission", () => {
+  beforeEach(() => {
+    findRoles.mockReset();
+  });
+
+  describe("when no roles are seeded", () => {
+    beforeEach(() => {
+      findRoles.mockResolvedValue([]);
+    });
+
+    it.each(MATRIX)("falls back to the default matrix: $role $action $resource → $allowed", async ({ role, resource, action, allowed }) => {
+      await expect(checkPermission({ role }, resource, action)).resolves.toBe(allowed);
+    });
+
+    it("denies a missing user or an unknown role", async () => {
+      await expect(checkPermission(undefined, "projects", "read")).resolves.toBe(false);
+      await expect(checkPermission({ role: "GUEST" as Role }, "projects", "read")).resolves.toBe(false);
+    });
+  });
+
+  describe("when roles are seeded", () => {
+    it.each(MATRIX)("uses the stored matrix: $role $action $resource → $allowed", async ({ role, resource, action, allowed }) => {
+      findRoles.mockResolvedValue(
+        (Object.keys(EXPECTED) as Role[]).map((key) =>
+          storedRole(key, RESOURCES.flatMap((r) => EXPECTED[key][r].map((a) => `${r}:${a}`))),
+        ),
+      );
+
+      await expect(checkPermission({ role }, resource, action)).resolves.toBe(allowed);
+    });
+
+    it("honours admin edits over the default matrix", async () => {
+      findRoles.mockResolvedValue([storedRole("EMPLOYEE", ["projects:read", "projects:delete"])]);
+
+      await expect(checkPermission({ role: "EMPLOYEE" }, "projects", "delete")).resolves.toBe(true);
+      await expect(checkPermission({ role: "EMPLOYEE" }, "tasks", "read")).resolves.toBe(false);
+    });
+
+    it("gives a custom role precedence over the system role", async () => {
+      findRoles.mockResolvedValue([
+        storedRole("EMPLOYEE", ["projects:read"]),
+        storedRole("AUDITOR", ["salaries:read"]),
+      ]);
+
+      const auditor = { role: "EMPLOYEE" as const, customRole: "AUDITOR" };
+
+      await expect(checkPermission(auditor, "salaries", "read")).resolves.toBe(true);
+      await expect(checkPermission(auditor, "projects", "read")).resolves.toBe(false);
+    });
+
+    it("uses the system role when the custom role no longer exists", async () => {
+      findRoles.mockResolvedValue([storedRole("EMPLOYEE", ["projects:read"])]);
+
+      await expect(checkPermission({ role: "EMPLOYEE", customRole: "REMOVED" }, "projects", "read")).resolves.toBe(true);
+    });
+
+    it("falls back to the default matrix for a system role that hasn't been seeded", async () => {
+      findRoles.mockResolvedValue([storedRole("AUDITOR", ["salaries:read"])]);
+
+      await expect(checkPermission({ role: "MANAGER" }, "projects", "delete")).resolves.toBe(true);
+      await expect(checkPermission({ role: "MANAGER" }, "users", "delete")).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { unstable_cache } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { Action, getDefaultPermissions, Resource, Role } from "@/lib/constants/roles";
+
+/**
+ * Cache tag for the stored permission matrix, revalidated whenever an admin edits it
+ */
+export const PERMISSIONS_CACHE_TAG = "permissions";
+
+/**
+ * The subset of the session user needed to resolve permissions
+ */
+export interface PermissionSubject {
+  role: Role;
+  customRole?: string | null;
+}
+
+/**
+ * Load the full permission matrix keyed by role key, e.g. { MANAGER: ["projects:read", ...] }.
+ * The result is cached across requests until the permissions tag is revalidated.
+ */
+const getStoredPermissions = unstable_cache(
+  async () => {
+    const roles = await prisma.role.findMany({
+      select: {
+        key: true,
+        permissions: {
+          select: {
+            resource: true,
+            action: true,
+          },
+        },
+      },
+    });
+
+    return Object.fromEntries(
+      roles.map((role) => [role.key, role.permissions.map((p) => `${p.resource}:${p.action}`)]),
+    ) as Record<string, string[]>;
+  },
+  ["role-permissions"],
+  { tags: [PERMISSIONS_CACHE_TAG] },
+);
+
+/**
+ * Check if a user is allowed to perform an action on a resource.
+ * A custom role takes precedence over the user's system role; roles that have not
+ * been seeded into the database yet fall back to the built-in ROLE_PERMISSIONS.
+ * @param user Session user (role and optional custom role key)
+ * @param resource Resource type (e.g., 'users', 'projects')
+ * @param action Action to perform (e.g., 'read', 'update')
+ * @returns Boolean indicating if the user has permission
+ */
+export async function checkPermission(
+  user: PermissionSubject | undefined,
+  resource: Resource,
+  action: Action,
+): Promise<boolean> {
+  return (await getEffectivePermissions(user)).includes(`${resource}:${action}`);
+}
+
+/**
+ * Every permission a user holds, e.g. ["projects:read", "tasks:update"], resolved the same
+ * way as checkPermission. The session token carries this list for the middleware.
+ */
+export async function getEffectivePermissions(user: PermissionSubject | undefined): Promise<string[]> {
+  if (!user?.role) {
+    return [];
+  }
+
+  const stored = await getStoredPermissions();
+  const granted = (user.customRole && stored[user.customRole]) || stored[user.role];
+
+  return granted ?? getDefaultPermissions(user.role);
+}
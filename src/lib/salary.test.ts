@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { buildUnpaidLeaveItem } from "@/lib/leave";
+import { parseSalaryItems } from "@/lib/salary";
+import { buildOvertimeItem } from "@/lib/timesheets";
+
+describe("parseSalaryItems", () => {
+  it("keeps the source of a computed line through an edit", () => {
+    const unpaidLeave = buildUnpaidLeaveItem(4400, 2, 1, 2026);
+    const [item] = parseSalaryItems(JSON.stringify([{ ...unpaidLeave, label: "Leave deduction" }]));
+
+    expect(item.source).toBe("UNPAID_LEAVE");
+  });
+
+  it("treats a line labelled like a computed one as manual", () => {
+    const [item] = parseSalaryItems(JSON.stringify([{ kind: "DEDUCTION", label: "Unpaid leave (3 days)", amount: 100 }]));
+
+    expect(item.source).toBe("MANUAL");
+  });
+
+  it("falls back to manual for an unknown source", () => {
+    const [item] = parseSalaryItems(JSON.stringify([{ kind: "BONUS", label: "Referral", amount: 50, source: "PAYROLL" }]));
+
+    expect(item.source).toBe("MANUAL");
+  });
+});
+
+describe("computed salary lines", () => {
+  it("flags unpaid leave and overtime with their source", () => {
+    expect(buildUnpaidLeaveItem(4400, 2, 1, 2026)?.source).toBe("UNPAID_LEAVE");
+    expect(buildOvertimeItem(4400, 3, 1, 2026)?.source).toBe("OVERTIME");
+  });
+});
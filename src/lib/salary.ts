@@ -0,0 +1,90 @@
+import type { SalaryItemKind, SalaryItemSource } from "@prisma/client";
+
+/**
+ * A bonus or deduction line as submitted by the salary form or a payroll run
+ */
+export interface SalaryItemInput {
+  typeId?: string | null;
+  kind: SalaryItemKind;
+  label: string;
+  amount: number;
+  taxable: boolean;
+  // Where the line came from; computed lines are recognised by this rather than their editable label
+  source?: SalaryItemSource;
+}
+
+const SALARY_ITEM_SOURCES: SalaryItemSource[] = ["MANUAL", "UNPAID_LEAVE", "OVERTIME"];
+
+/**
+ * Parse and validate the JSON-encoded line items sent with a salary form
+ * @param value JSON array of line items (an empty value means no items)
+ * @returns Validated line items
+ */
+export function parseSalaryItems(value: string | null | undefined): SalaryItemInput[] {
+  if (!value) {
+    return [];
+  }
+
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    throw new Error("Salary items are malformed");
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error("Salary items are malformed");
+  }
+
+  return raw.map((item) => {
+    const label = typeof item?.label === "string" ? item.label.trim() : "";
+    const amount = Number(item?.amount);
+
+    if (item?.kind !== "BONUS" && item?.kind !== "DEDUCTION") {
+      throw new Error("Each salary item must be a bonus or a deduction");
+    }
+
+    if (!label) {
+      throw new Error("Each salary item needs a label");
+    }
+
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`"${label}" must have a non-negative amount`);
+    }
+
+    return {
+      typeId: typeof item.typeId === "string" && item.typeId ? item.typeId : null,
+      kind: item.kind,
+      label,
+      amount,
+      taxable: item.taxable === true,
+      source: SALARY_ITEM_SOURCES.includes(item.source) ? item.source : "MANUAL",
+    };
+  });
+}
+
+/**
+ * Compute the stored totals for a salary month from its line items
+ * @param baseSalary Base salary for the month
+ * @param items Bonus and deduction lines
+ * @returns Summed bonus, summed deductions and the resulting total
+ */
+export function summarizeSalaryItems(
+  baseSalary: number,
+  items: Pick<SalaryItemInput, "kind" | "amount">[],
+) {
+  const bonus = items
+    .filter((item) => item.kind === "BONUS")
+    .reduce((sum, item) => sum + item.amount, 0);
+  const deductions = items
+    .filter((item) => item.kind === "DEDUCTION")
+    .reduce((sum, item) => sum + item.amount, 0);
+
+  return {
+    baseSalary,
+    bonus,
+    deductions,
+    totalSalary: baseSalary + bonus - deductions,
+  };
+}
@@ -0,0 +1,106 @@
+import type { Prisma, Task, TaskEventType, TaskStatus } from "@prisma/client";
+
+// Task fields whose changes are kept as history, and the event each one records
+const TRACKED_FIELDS = {
+  workflowStatusId: "STATUS",
+  assignedToId: "ASSIGNEE",
+  priority: "PRIORITY",
+  projectId: "PROJECT",
+} as const satisfies Partial<Record<keyof Task, TaskEventType>>;
+
+/**
+ * Record the history events for a task create or update inside an existing transaction.
+ * Pass `before` as null for a newly created task.
+ */
+export async function recordTaskEvents(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  before: Task | null,
+  after: Task,
+) {
+  if (!before) {
+    await tx.taskEvent.create({
+      data: { taskId: after.id, actorId, type: "CREATED", toValue: after.workflowStatusId ?? after.status },
+    });
+    return;
+  }
+
+  const events = (Object.keys(TRACKED_FIELDS) as Array<keyof typeof TRACKED_FIELDS>)
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({
+      taskId: after.id,
+      actorId,
+      type: TRACKED_FIELDS[field],
+      fromValue: before[field],
+      toValue: after[field],
+    }));
+
+  if (events.length) {
+    await tx.taskEvent.createMany({ data: events });
+  }
+}
+
+type StatusEvent = {
+  type: TaskEventType;
+  toValue: string | null;
+  createdAt: Date;
+};
+
+// The status a task entered at each point in its history, oldest first
+function statusChanges(events: StatusEvent[]) {
+  return events
+    .filter((event) => (event.type === "CREATED" || event.type === "STATUS") && event.toValue)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((event) => ({ status: event.toValue as string, at: event.createdAt }));
+}
+
+/**
+ * Total milliseconds a task has spent in each workflow status, counting the current one up to `now`
+ */
+export function getTimeInStatus(events: StatusEvent[], now = new Date()) {
+  const changes = statusChanges(events);
+  const totals: Record<string, number> = {};
+
+  changes.forEach((change, index) => {
+    const end = changes[index + 1]?.at ?? now;
+    totals[change.status] = (totals[change.status] ?? 0) + (end.getTime() - change.at.getTime());
+  });
+
+  return totals;
+}
+
+/**
+ * Milliseconds from when work first started on a task (it left the To Do category) to when
+ * it was last completed, or null if it isn't done or never started. `categories` maps
+ * workflow status IDs to their category; history from before workflows holds categories directly.
+ */
+export function getCycleTime(events: StatusEvent[], categories: Record<string, TaskStatus>) {
+  const changes = statusChanges(events).map((change) => ({
+    ...change,
+    category: categories[change.status] ?? change.status,
+  }));
+  const current = changes[changes.length - 1];
+
+  if (current?.category !== "DONE") {
+    return null;
+  }
+
+  const started = changes.find((change) => change.category !== "TODO");
+
+  return started && started !== current ? current.at.getTime() - started.at.getTime() : null;
+}
+
+/**
+ * Format a duration as days and hours, e.g. "3d 4h", or minutes when under an hour
+ */
+export function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+  }
+
+  return hours > 0 ? `${hours}h` : `${minutes}m`;
+}
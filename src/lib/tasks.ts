@@ -0,0 +1,96 @@
+import type { TaskStatus } from "@prisma/client";
+import { startOfDay } from "date-fns";
+
+/**
+ * Whether a task is past its due date and not yet done. A task due today is not overdue.
+ */
+export function isTaskOverdue(
+  task: { dueDate?: Date | string | null; status: TaskStatus | string },
+  now = new Date(),
+) {
+  return !!task.dueDate && task.status !== "DONE" && new Date(task.dueDate) < startOfDay(now);
+}
+
+// Read an optional date field; an empty value clears it
+function parseDateField(formData: FormData, name: string, label: string) {
+  if (!formData.has(name)) {
+    return undefined;
+  }
+
+  const value = formData.get(name) as string;
+
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`${label} is invalid`);
+  }
+
+  return date;
+}
+
+/**
+ * Completion of a set of tasks. Only leaf tasks count: a parent's progress is made up of its
+ * subtasks, so counting both would count the same work twice.
+ */
+export function getTaskProgress(tasks: Array<{ id: string; parentId: string | null; status: TaskStatus | string }>) {
+  const parentIds = new Set(tasks.map((task) => task.parentId));
+  const leaves = tasks.filter((task) => !parentIds.has(task.id));
+  const totalTasks = leaves.length;
+  const completedTasks = leaves.filter((task) => task.status === "DONE").length;
+  const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+  return { totalTasks, completedTasks, progress };
+}
+
+/**
+ * Parse the start date, due date and estimate sent with a task form. Fields missing from
+ * the form are returned as undefined so partial updates (e.g. a Kanban move) leave them as they are.
+ */
+export function parseTaskSchedule(formData: FormData) {
+  const startDate = parseDateField(formData, "startDate", "Start date");
+  const dueDate = parseDateField(formData, "dueDate", "Due date");
+  let estimateHours: number | null | undefined;
+
+  if (formData.has("estimateHours")) {
+    const value = formData.get("estimateHours") as string;
+    estimateHours = value ? parseFloat(value) : null;
+
+    if (estimateHours !== null && (isNaN(estimateHours) || estimateHours < 0)) {
+      throw new Error("Estimate must be a non-negative number of hours");
+    }
+  }
+
+  if (startDate && dueDate && dueDate < startDate) {
+    throw new Error("Due date cannot be before the start date");
+  }
+
+  return { startDate, dueDate, estimateHours };
+}
+
+// An employee mention in a comment body: @[Jane Doe](employeeId)
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([a-z0-9]+)\)/g;
+
+/**
+ * Format a mention of an employee for a comment body
+ */
+export function formatMention(name: string, employeeId: string) {
+  return `@[${name.replace(/[[\]]/g, "")}](${employeeId})`;
+}
+
+/**
+ * Employee IDs mentioned in a comment body, without duplicates
+ */
+export function getMentionedEmployeeIds(body: string) {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), (match) => match[2])));
+}
+
+/**
+ * Rewrite mentions as markdown links to the employee's profile, for rendering
+ */
+export function linkMentions(body: string) {
+  return body.replace(MENTION_PATTERN, (_, name: string, employeeId: string) => `[@${name}](/dashboard/employees/${employeeId})`);
+}
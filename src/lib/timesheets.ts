@@ -0,0 +1,105 @@
+import type { Prisma } from "@prisma/client";
+import type { SalaryItemInput } from "@/lib/salary";
+import { countWorkingDays } from "@/lib/leave";
+import {
+  OVERTIME_MULTIPLIER,
+  STANDARD_DAILY_HOURS,
+  STANDARD_WEEKLY_HOURS,
+} from "@/lib/constants/timesheets";
+
+/**
+ * Monday of the week containing a date, as a UTC day
+ */
+export function getWeekStart(date: Date) {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay is 0 for Sunday; weeks start on Monday
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day;
+}
+
+/**
+ * The seven UTC days of a week, Monday first
+ */
+export function getWeekDays(weekStart: Date) {
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setUTCDate(day.getUTCDate() + index);
+    return day;
+  });
+}
+
+/**
+ * Parse a yyyy-MM-dd value and snap it to the Monday of its week. Invalid values fall back to this week.
+ */
+export function parseWeekStart(value: string | null | undefined) {
+  const date = value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00.000Z`) : new Date();
+  return getWeekStart(isNaN(date.getTime()) ? new Date() : date);
+}
+
+/**
+ * Hours over the standard week
+ */
+export function getOvertimeHours(totalHours: number) {
+  return Math.max(0, Math.round((totalHours - STANDARD_WEEKLY_HOURS) * 100) / 100);
+}
+
+/**
+ * Sum approved overtime per employee for a salary month. A week counts towards the month its Monday falls in,
+ * so every week is paid exactly once.
+ * @param db Prisma client or transaction
+ * @param month 1-based month
+ * @param year Full year
+ * @param employeeIds Limit to these employees (all employees when omitted)
+ * @returns Map of employee id to overtime hours
+ */
+export async function loadApprovedOvertime(
+  db: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  employeeIds?: string[],
+) {
+  const timesheets = await db.timesheet.findMany({
+    where: {
+      status: "APPROVED",
+      overtimeHours: { gt: 0 },
+      weekStart: {
+        gte: new Date(Date.UTC(year, month - 1, 1)),
+        lt: new Date(Date.UTC(year, month, 1)),
+      },
+      ...(employeeIds ? { employeeId: { in: employeeIds } } : {}),
+    },
+    select: {
+      employeeId: true,
+      overtimeHours: true,
+    },
+  });
+
+  const hours = new Map<string, number>();
+
+  for (const timesheet of timesheets) {
+    hours.set(timesheet.employeeId, (hours.get(timesheet.employeeId) ?? 0) + timesheet.overtimeHours);
+  }
+
+  return hours;
+}
+
+/**
+ * The salary bonus line for approved overtime, paid at OVERTIME_MULTIPLIER times an hourly rate
+ * derived from the base salary. Returns null when there is nothing to pay.
+ */
+export function buildOvertimeItem(baseSalary: number, hours: number, month: number, year: number): SalaryItemInput | null {
+  if (hours <= 0 || baseSalary <= 0) {
+    return null;
+  }
+
+  const workingDays = countWorkingDays(new Date(Date.UTC(year, month - 1, 1)), new Date(Date.UTC(year, month, 0)));
+  const hourlyRate = baseSalary / (workingDays * STANDARD_DAILY_HOURS);
+
+  return {
+    kind: "BONUS",
+    label: `Overtime (${hours} ${hours === 1 ? "hour" : "hours"})`,
+    amount: Math.round(hourlyRate * OVERTIME_MULTIPLIER * hours * 100) / 100,
+    taxable: true,
+    source: "OVERTIME",
+  };
+}
@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { format, parseISO } from "date-fns"
+import { BASE_CURRENCY } from "@/lib/constants/currencies"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -23,16 +24,34 @@ export function formatDate(date: string | Date, formatStr = "PP") {
   }
 }
 
+/**
+ * Format a calendar day stored as UTC midnight (leave and timesheet dates), showing
+ * that day whatever the viewer's time zone
+ * @param date Date string or Date object at UTC midnight
+ * @param formatStr Format string (default: "PP")
+ * @returns Formatted date string
+ */
+export function formatCalendarDay(date: string | Date, formatStr = "PP") {
+  const dateObj = new Date(date);
+  return format(new Date(dateObj.getUTCFullYear(), dateObj.getUTCMonth(), dateObj.getUTCDate()), formatStr);
+}
+
 /**
  * Format a currency value
  * @param value Numeric value to format as currency
- * @param currency Currency code (default: "USD")
+ * @param currency Currency code (default: the base currency)
+ * @param currencyDisplay Show the symbol ("$1.00") or the code ("USD 1.00")
  * @returns Formatted currency string
  */
-export function formatCurrency(value: number, currency = "USD") {
+export function formatCurrency(
+  value: number,
+  currency = BASE_CURRENCY,
+  currencyDisplay: "symbol" | "code" = "symbol"
+) {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency,
+    currencyDisplay,
   }).format(value);
 }
 
@@ -48,3 +67,14 @@ export function filterAvailableUsers(
 ) {
   return users.filter(user => !employeeUserIds.includes(user.id));
 }
+
+/**
+ * Hide all but the last few characters of an account number
+ * @param value Account or routing number
+ * @param visible Number of trailing characters to show (default: 4)
+ * @returns Masked string, e.g. "•••• 6789"
+ */
+export function maskAccountNumber(value: string, visible = 4) {
+  const compact = value.replace(/\s+/g, "");
+  return compact.length <= visible ? compact : `•••• ${compact.slice(-visible)}`;
+}
@@ -0,0 +1,102 @@
+import type { Prisma, TaskStatus, WorkflowStatus } from "@prisma/client";
+import { DEFAULT_WORKFLOW, STATUS_CATEGORY_LABELS } from "@/lib/constants/workflows";
+
+/**
+ * Give a new project the default workflow
+ */
+export async function createDefaultWorkflow(tx: Prisma.TransactionClient, projectId: string) {
+  await tx.workflowStatus.createMany({
+    data: DEFAULT_WORKFLOW.map((status, order) => ({ projectId, order, ...status })),
+  });
+}
+
+/**
+ * Find the workflow status a task should be in: the given status if it belongs to the
+ * project, otherwise the project's first status in the given category (or its first status).
+ */
+export async function resolveWorkflowStatus(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  { workflowStatusId, category }: { workflowStatusId?: string | null; category?: TaskStatus | null },
+) {
+  if (workflowStatusId) {
+    const status = await tx.workflowStatus.findFirst({
+      where: { id: workflowStatusId, projectId },
+    });
+
+    if (!status) {
+      throw new Error("Status does not belong to this project's workflow");
+    }
+
+    return status;
+  }
+
+  const status = await tx.workflowStatus.findFirst({
+    where: { projectId, ...(category ? { category } : {}) },
+    orderBy: { order: "asc" },
+  });
+
+  if (!status) {
+    throw new Error(
+      category
+        ? `This project's workflow has no ${STATUS_CATEGORY_LABELS[category]} status`
+        : "This project has no workflow statuses",
+    );
+  }
+
+  return status;
+}
+
+/**
+ * Reject a move the project's workflow doesn't allow. Workflows without any transitions
+ * defined allow every move.
+ */
+export async function assertTransitionAllowed(
+  tx: Prisma.TransactionClient,
+  fromId: string | null,
+  toId: string,
+) {
+  if (!fromId || fromId === toId) {
+    return;
+  }
+
+  const from = await tx.workflowStatus.findUnique({
+    where: { id: fromId },
+    include: { nextStatuses: { select: { id: true } } },
+  });
+
+  if (!from) {
+    return;
+  }
+
+  const restricted = await tx.workflowStatus.count({
+    where: { projectId: from.projectId, nextStatuses: { some: {} } },
+  });
+
+  if (restricted && !from.nextStatuses.some((status) => status.id === toId)) {
+    const to = await tx.workflowStatus.findUnique({ where: { id: toId }, select: { name: true } });
+    throw new Error(`Tasks can't move from "${from.name}" to "${to?.name ?? "that status"}" in this workflow`);
+  }
+}
+
+/**
+ * Reject moving a task into a status whose enforced work-in-progress limit is already
+ * reached. `taskId` is the task being moved, which doesn't count against the limit.
+ */
+export async function assertWithinWipLimit(
+  tx: Prisma.TransactionClient,
+  status: WorkflowStatus,
+  taskId?: string,
+) {
+  if (!status.enforceWipLimit || status.wipLimit == null) {
+    return;
+  }
+
+  const count = await tx.task.count({
+    where: { workflowStatusId: status.id, ...(taskId ? { id: { not: taskId } } : {}) },
+  });
+
+  if (count >= status.wipLimit) {
+    throw new Error(`"${status.name}" is at its work-in-progress limit of ${status.wipLimit}`);
+  }
+}
@@ -1,24 +1,16 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { withAuth } from "next-auth/middleware";
-import { ROLES } from "./lib/constants/roles";
+import { canOpenRoute, FORBIDDEN_PATH } from "./lib/constants/routes";
 
-// Role-based middleware
+// Permission-based middleware
 export default withAuth(
   function middleware(req) {
     const token = req.nextauth?.token;
-    const path = req.nextUrl.pathname;
 
-    // if (path.startsWith("/dashboard/admin") && token?.role !== ROLES.ADMIN) {
-    //   return NextResponse.redirect(new URL("/dashboard", req.url));
-    // }
-
-    // if (
-    //   path.startsWith("/dashboard/projects/new") &&
-    //   token?.role !== ROLES.ADMIN &&
-    //   token?.role !== ROLES.MANAGER
-    // ) {
-    //   return NextResponse.redirect(new URL("/dashboard/projects", req.url));
-    // }
+    // Show the 403 page in place so the user still sees the URL they asked for
+    if (!canOpenRoute(req.nextUrl.pathname, token)) {
+      return NextResponse.rewrite(new URL(FORBIDDEN_PATH, req.url), { status: 403 });
+    }
 
     return NextResponse.next();
   },
@@ -26,10 +18,13 @@ export default withAuth(
     callbacks: {
       authorized: ({ token }) => !!token,
     },
+    pages: {
+      signIn: "/login",
+    },
   }
 );
 
-// Match only dashboard routes
+// Match dashboard and admin routes
 export const config = {
-  matcher: ["/dashboard/:path*"],
+  matcher: ["/dashboard/:path*", "/admin/:path*"],
 };
@@ -4,6 +4,7 @@ import "next-auth";
 declare module "next-auth" {
   interface User {
     role?: Role;
+    customRole?: string | null;
   }
 
   interface Session {
@@ -13,6 +14,8 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       role: Role;
+      customRole?: string | null;
+      permissions: string[];
     };
   }
 }
@@ -20,5 +23,8 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     role?: Role;
+    customRole?: string | null;
+    // Effective permissions, so the middleware can check routes without a database
+    permissions?: string[];
   }
 }